@@ -3,8 +3,10 @@ import { AnimatePresence, motion } from "framer-motion";
 import { usePlayer } from "@/src/providers";
 import { usePlayerTime } from "@/src/lib/player-time";
 import { useVolume } from "@/src/hooks/use-volume";
+import { useCommand } from "@/src/hooks/use-command";
 import { VolumeControl } from "@/src/components/volume-control";
 import type { Track } from "@/src/types";
+import { getSourceDisplayName } from "@/src/lib/track-utils";
 import { Button } from "@/components/ui/button";
 import { WaveformSeekbar } from "@/src/components/waveform-seekbar";
 import {
@@ -22,6 +24,7 @@ import {
   CircleSlash,
   Mic2,
   Maximize2,
+  History,
 } from "lucide-react";
 const LyricsPanel = lazy(() =>
   import("@/src/components/lyrics-panel").then((m) => ({ default: m.LyricsPanel }))
@@ -210,6 +213,9 @@ export const GlobalPlayer = memo(function GlobalPlayer() {
     toggleShuffle,
     toggleRepeat,
     closePlayer,
+    resumeSession,
+    resumeLastSession,
+    dismissLastSession,
   } = usePlayer();
   const [queueModalOpen, setQueueModalOpen] = useState(false);
   const [lyricsOpen, setLyricsOpen] = useState(false);
@@ -231,6 +237,8 @@ export const GlobalPlayer = memo(function GlobalPlayer() {
     (index: number) => playFromQueue(index),
     [playFromQueue]
   );
+  useCommand("player.lyrics", () => setLyricsOpen((open) => !open), !!state.currentTrack);
+  useCommand("player.fullscreen", () => setFullscreenOpen((open) => !open), !!state.currentTrack);
   if (!state.currentTrack) return null;
   return (
     <AnimatePresence>
@@ -245,6 +253,34 @@ export const GlobalPlayer = memo(function GlobalPlayer() {
           style={{ paddingBottom: "env(safe-area-inset-bottom, 0px)" }}
         >
         <div className="max-w-screen-xl mx-auto">
+          {resumeSession && (
+            <div className="glass-elevated rounded-2xl mb-2 flex items-center gap-2 px-3 py-2 sm:px-4">
+              <History className="w-4 h-4 text-white/40 flex-shrink-0" />
+              <p className="text-xs text-white/70 truncate flex-1 min-w-0">
+                Resume where you left off
+                <span className="text-white/40">
+                  {" "}· {resumeSession.currentTrack.name}
+                  {resumeSession.currentTime > 0 && ` at ${formatTime(resumeSession.currentTime)}`}
+                </span>
+              </p>
+              <Button
+                size="sm"
+                onClick={resumeLastSession}
+                className="h-7 px-3 rounded-lg bg-white text-black hover:bg-white/90 text-xs"
+              >
+                Resume
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={dismissLastSession}
+                className="h-7 w-7 text-white/40 hover:text-white hover:bg-white/10 rounded-lg"
+                aria-label="Dismiss resume prompt"
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          )}
           <div className="glass-elevated rounded-2xl overflow-hidden">
             <div className="flex items-center gap-1 px-3 py-2 sm:gap-3 sm:px-4 sm:py-2.5">
               <div className="flex items-center gap-2 min-w-0 flex-1 sm:flex-none sm:w-52">
@@ -275,6 +311,15 @@ export const GlobalPlayer = memo(function GlobalPlayer() {
                   </p>
                   <p className="text-[10px] sm:text-xs text-white/45 truncate mt-0.5">
                     {state.currentTrack.artistName || state.currentTrack.extra}
+                    {state.refreshingLink ? (
+                      <span className="text-white/30" role="status">
+                        {" "}· Refreshing link…
+                      </span>
+                    ) : state.currentTrack.source !== "unknown" && (
+                      <span className="text-white/30" title="Playing source">
+                        {" "}· {getSourceDisplayName(state.currentTrack.source)}
+                      </span>
+                    )}
                   </p>
                 </div>
               </div>
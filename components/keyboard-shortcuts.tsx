@@ -1,10 +1,20 @@
 import { useEffect, useRef } from "react";
 import { usePlayer } from "@/src/providers";
 import { usePlayerTime } from "@/src/lib/player-time";
+import { loadSettings } from "@/src/lib/settings";
+import { runCommand } from "@/src/lib/commands";
+import { comboFromEvent, commandsForCombo, resolveKeymap } from "@/src/lib/keymap";
+import { useCommand } from "@/src/hooks/use-command";
 
 const SEEK_STEP = 5;
 const VOLUME_STEP = 0.05;
 
+function isTyping(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  if (!el?.tagName) return false;
+  return el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.tagName === "SELECT" || el.isContentEditable;
+}
+
 export function KeyboardShortcuts() {
   const { state, togglePlayPause, seekTo, setVolume, playNext, playPrevious } = usePlayer();
   const { currentTime } = usePlayerTime();
@@ -13,52 +23,38 @@ export function KeyboardShortcuts() {
   const stateRef = useRef(state);
   stateRef.current = state;
 
+  useCommand("player.togglePlay", togglePlayPause);
+  useCommand("player.seekBack", () => {
+    if (stateRef.current.currentTrack) seekTo(currentTimeRef.current - SEEK_STEP);
+  });
+  useCommand("player.seekForward", () => {
+    if (stateRef.current.currentTrack) seekTo(currentTimeRef.current + SEEK_STEP);
+  });
+  useCommand("player.volumeUp", () => setVolume(Math.min(1, stateRef.current.volume + VOLUME_STEP)));
+  useCommand("player.volumeDown", () => setVolume(Math.max(0, stateRef.current.volume - VOLUME_STEP)));
+  useCommand("player.next", playNext);
+  useCommand("player.previous", playPrevious);
+  useCommand("player.mute", () => setVolume(stateRef.current.volume > 0 ? 0 : 1));
+
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
-      const tag = (e.target as HTMLElement).tagName;
-      if (tag === "INPUT" || tag === "TEXTAREA" || (e.target as HTMLElement).isContentEditable) return;
-      const s = stateRef.current;
-      const t = currentTimeRef.current;
-
-      switch (e.key) {
-        case " ":
-          e.preventDefault();
-          togglePlayPause();
-          break;
-        case "ArrowLeft":
-          e.preventDefault();
-          if (s.currentTrack) seekTo(t - SEEK_STEP);
-          break;
-        case "ArrowRight":
+      if (e.defaultPrevented) return;
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      // Plain keys belong to the field being typed in; chords with Ctrl/Cmd/Alt still work there.
+      if (isTyping(e.target) && !(e.ctrlKey || e.metaKey || e.altKey)) return;
+      const keymap = resolveKeymap(loadSettings().shortcuts);
+      for (const id of commandsForCombo(keymap, combo)) {
+        if (runCommand(id)) {
           e.preventDefault();
-          if (s.currentTrack) seekTo(t + SEEK_STEP);
-          break;
-        case "ArrowUp":
-          e.preventDefault();
-          setVolume(Math.min(1, s.volume + VOLUME_STEP));
-          break;
-        case "ArrowDown":
-          e.preventDefault();
-          setVolume(Math.max(0, s.volume - VOLUME_STEP));
-          break;
-        case "n":
-        case "N":
-          playNext();
-          break;
-        case "p":
-        case "P":
-          playPrevious();
-          break;
-        case "m":
-        case "M":
-          setVolume(s.volume > 0 ? 0 : 1);
           break;
+        }
       }
     };
 
     window.addEventListener("keydown", handler);
     return () => window.removeEventListener("keydown", handler);
-  }, [togglePlayPause, seekTo, setVolume, playNext, playPrevious]);
+  }, []);
 
   return null;
 }
@@ -0,0 +1,57 @@
+// Loaded into the generated service worker via workbox `importScripts`.
+// Turns bytes posted over a MessagePort (see src/lib/download-sink.ts) into a
+// streamed file download, so archives never have to fit in page memory.
+const DOWNLOAD_PREFIX = "/__artistgrid-download__/";
+const pendingDownloads = new Map();
+
+function createDownloadStream(port) {
+  return new ReadableStream(
+    {
+      start(controller) {
+        port.onmessage = (event) => {
+          const data = event.data || {};
+          if (data.type === "chunk") controller.enqueue(new Uint8Array(data.chunk));
+          else if (data.type === "close") controller.close();
+          else if (data.type === "abort") controller.error(new Error(data.reason || "Download aborted"));
+        };
+      },
+      pull() {
+        port.postMessage({ type: "pull" });
+      },
+      cancel() {
+        port.close();
+      },
+    },
+    { highWaterMark: 4 }
+  );
+}
+
+self.addEventListener("message", (event) => {
+  const data = event.data;
+  if (!data || data.type !== "artistgrid-download" || !event.ports[0]) return;
+  const port = event.ports[0];
+  pendingDownloads.set(data.id, { name: data.name, stream: createDownloadStream(port) });
+  port.postMessage({ type: "ready" });
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(DOWNLOAD_PREFIX)) return;
+  const id = url.pathname.slice(DOWNLOAD_PREFIX.length).split("/")[0];
+  const download = pendingDownloads.get(id);
+  if (!download) {
+    event.respondWith(new Response("Download not found", { status: 404 }));
+    return;
+  }
+  pendingDownloads.delete(id);
+  const fallbackName = download.name.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "'");
+  event.respondWith(
+    new Response(download.stream, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fallbackName}"; filename*=UTF-8''${encodeURIComponent(download.name)}`,
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  );
+});
@@ -0,0 +1,65 @@
+// Loaded into the generated service worker via workbox `importScripts`.
+// Serves responses that the app stored for pinned trackers (see
+// src/lib/offline-pins.ts). Requests for anything else fall through to the
+// workbox routes registered after this script.
+const PINNED_CACHE = "artistgrid-pinned";
+let pinnedUrls = new Set();
+let loaded = false;
+
+function loadPinnedUrls() {
+  return caches
+    .open(PINNED_CACHE)
+    .then((cache) => cache.keys())
+    .then((requests) => {
+      pinnedUrls = new Set(requests.map((r) => r.url));
+    })
+    .catch(() => {})
+    .then(() => {
+      loaded = true;
+    });
+}
+
+const ready = loadPinnedUrls();
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(ready);
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "artistgrid-pinned-changed") {
+    event.waitUntil(loadPinnedUrls());
+  }
+});
+
+function fromPinned(request) {
+  return caches.open(PINNED_CACHE).then((cache) => cache.match(request.url));
+}
+
+function respondPinned(request) {
+  if (request.destination === "audio" || request.destination === "image") {
+    return fromPinned(request).then((hit) => hit || fetch(request));
+  }
+  return fetch(request).catch(() => fromPinned(request).then((hit) => hit || Response.error()));
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  if (loaded) {
+    if (pinnedUrls.has(request.url)) event.respondWith(respondPinned(request));
+    return;
+  }
+  // The worker was just started and the pinned list isn't read yet. Pinned
+  // URLs are always on other hosts (API, images, audio), so the app's own
+  // files stay with workbox; anything else waits for the list, and falls back
+  // to the other caches when it turns out not to be pinned and the network
+  // is down.
+  if (new URL(request.url).origin === self.location.origin) return;
+  event.respondWith(
+    ready.then(() =>
+      pinnedUrls.has(request.url)
+        ? respondPinned(request)
+        : fetch(request).catch(() => caches.match(request).then((hit) => hit || Response.error()))
+    )
+  );
+});
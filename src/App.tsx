@@ -1,5 +1,5 @@
 import { lazy, Suspense, useState, useCallback, useMemo } from "react";
-import { BrowserRouter, Routes, Route, useParams } from "react-router-dom";
+import { BrowserRouter, Routes, Route, useParams, useNavigate } from "react-router-dom";
 
 import { PlayerProvider } from "./providers";
 import { SettingsProvider } from "@/src/hooks/use-settings";
@@ -7,11 +7,16 @@ import { KeyboardShortcuts } from "@/components/keyboard-shortcuts";
 import { Toaster } from "@/components/ui/toaster";
 import { Layout } from "./components/layout";
 import { ChunkErrorBoundary } from "@/src/components/error-boundary";
+import { DownloadProvider } from "@/src/components/download-manager";
+import { useCommand } from "@/src/hooks/use-command";
 import Home from "./pages/Home";
 
 const View = lazy(() => import("./pages/View"));
 const Donate = lazy(() => import("./pages/Donate"));
+const Playlists = lazy(() => import("./pages/Playlists"));
+const Stats = lazy(() => import("./pages/Stats"));
 const SettingsModal = lazy(() => import("./pages/Settings"));
+const CommandPalette = lazy(() => import("@/src/components/command-palette").then((m) => ({ default: m.CommandPalette })));
 const GlobalPlayer = lazy(() => import("@/components/global-player").then((m) => ({ default: m.GlobalPlayer })));
 
 import { SettingsModalContext } from "./components/settings-modal-context";
@@ -63,6 +68,25 @@ function IframeNotice() {
   );
 }
 
+function CommandPaletteHost({ openSettings }: { openSettings: () => void }) {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+  const close = useCallback(() => setOpen(false), []);
+  useCommand("general.commandPalette", () => setOpen((o) => !o));
+  useCommand("general.settings", openSettings);
+  useCommand("general.home", () => navigate("/"));
+  useCommand("general.playlists", () => navigate("/playlists"));
+  useCommand("general.stats", () => navigate("/stats"));
+  if (!open) return null;
+  return (
+    <ChunkErrorBoundary>
+      <Suspense fallback={null}>
+        <CommandPalette onClose={close} />
+      </Suspense>
+    </ChunkErrorBoundary>
+  );
+}
+
 function ShTrackerView() {
   const { trackerId, tabSlug } = useParams<{ trackerId: string; tabSlug: string }>();
 
@@ -78,6 +102,7 @@ function ShTrackerView() {
 export default function App() {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const closeSettings = useCallback(() => setSettingsOpen(false), []);
+  const openSettings = useCallback(() => setSettingsOpen(true), []);
   const modalCtx = useMemo(() => ({ settingsOpen, setSettingsOpen }), [settingsOpen]);
 
   return (
@@ -85,7 +110,8 @@ export default function App() {
       <SettingsModalContext.Provider value={modalCtx}>
         <SettingsProvider>
           <PlayerProvider>
-            <Routes>
+            <DownloadProvider>
+              <Routes>
                 <Route element={<Layout />}>
                   <Route path="/" element={<Home />} />
                   <Route
@@ -102,6 +128,26 @@ export default function App() {
                     path="/sh/:trackerId/:tabSlug?"
                     element={<ShTrackerView />}
                   />
+                  <Route
+                    path="/playlists"
+                    element={
+                      <ChunkErrorBoundary>
+                        <Suspense fallback={null}>
+                          <Playlists />
+                        </Suspense>
+                      </ChunkErrorBoundary>
+                    }
+                  />
+                  <Route
+                    path="/stats"
+                    element={
+                      <ChunkErrorBoundary>
+                        <Suspense fallback={null}>
+                          <Stats />
+                        </Suspense>
+                      </ChunkErrorBoundary>
+                    }
+                  />
                   <Route
                     path="/donate"
                     element={
@@ -114,22 +160,24 @@ export default function App() {
                   />
                 </Route>
               </Routes>
-              <Suspense fallback={null}>
-                <GlobalPlayer />
-              </Suspense>
-              <KeyboardShortcuts />
-              <Toaster />
-              <IframeNotice />
-              {settingsOpen ? (
-                <ChunkErrorBoundary>
-                  <Suspense fallback={null}>
-                    <SettingsModal onClose={closeSettings} />
-                  </Suspense>
-                </ChunkErrorBoundary>
-              ) : null}
-            </PlayerProvider>
-          </SettingsProvider>
-        </SettingsModalContext.Provider>
+            </DownloadProvider>
+            <Suspense fallback={null}>
+              <GlobalPlayer />
+            </Suspense>
+            <KeyboardShortcuts />
+            <CommandPaletteHost openSettings={openSettings} />
+            <Toaster />
+            <IframeNotice />
+            {settingsOpen ? (
+              <ChunkErrorBoundary>
+                <Suspense fallback={null}>
+                  <SettingsModal onClose={closeSettings} />
+                </Suspense>
+              </ChunkErrorBoundary>
+            ) : null}
+          </PlayerProvider>
+        </SettingsProvider>
+      </SettingsModalContext.Provider>
     </BrowserRouter>
   );
 }
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchWithFallback } from "@/src/lib/api";
+import {
+  checkAllEndpoints,
+  fetchWithTimeout,
+  getApiEndpoints,
+  getEndpointHealth,
+  normalizeEndpoint,
+  orderEndpoints,
+  REQUEST_TIMEOUT_MS,
+  resetEndpointHealth,
+} from "@/src/lib/api-endpoints";
+import { DEFAULT_SETTINGS, saveSettings } from "@/src/lib/settings";
+
+const PRIMARY = "https://trackerapi.artistgrid.cx";
+const MIRROR = "https://tracker.example.com";
+
+function useEndpoints(endpoints: string[]) {
+  saveSettings({ ...DEFAULT_SETTINGS, api: { endpoints } });
+}
+
+const json = (data: unknown) => new Response(JSON.stringify(data), { headers: { "Content-Type": "application/json" } });
+
+describe("api-endpoints", () => {
+  let fetchSpy: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    resetEndpointHealth();
+    fetchSpy = vi.fn();
+    vi.stubGlobal("fetch", fetchSpy);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("normalizes and validates endpoint URLs", () => {
+    expect(normalizeEndpoint(" https://tracker.example.com/ ")).toBe(MIRROR);
+    expect(normalizeEndpoint("ftp://tracker.example.com")).toBeNull();
+    expect(normalizeEndpoint("not a url")).toBeNull();
+  });
+
+  it("falls back to the official endpoint when none are configured", () => {
+    useEndpoints(["", "nope"]);
+    expect(getApiEndpoints()).toEqual([PRIMARY]);
+    useEndpoints([`${MIRROR}/`, PRIMARY, MIRROR]);
+    expect(getApiEndpoints()).toEqual([MIRROR, PRIMARY]);
+  });
+
+  it("fails over on server errors and deprioritizes the failing endpoint", async () => {
+    useEndpoints([PRIMARY, MIRROR]);
+    fetchSpy.mockResolvedValueOnce(new Response("", { status: 502 })).mockResolvedValueOnce(json({ ok: 1 }));
+    const res = await fetchWithFallback("/sh/a/");
+    expect(await res.json()).toEqual({ ok: 1 });
+    expect(fetchSpy.mock.calls.map(([url]) => url)).toEqual([`${PRIMARY}/sh/a/`, `${MIRROR}/sh/a/`]);
+    expect(getEndpointHealth(PRIMARY)).toMatchObject({ ok: false, status: 502 });
+    expect(orderEndpoints()).toEqual([MIRROR, PRIMARY]);
+  });
+
+  it("fails over on network errors and timeouts", async () => {
+    vi.useFakeTimers();
+    useEndpoints([PRIMARY, MIRROR, "https://third.example.com"]);
+    fetchSpy
+      .mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_, reject) => {
+        init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+      }))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(json({ ok: 3 }));
+    const pending = fetchWithFallback("/sh/b/");
+    await vi.advanceTimersByTimeAsync(REQUEST_TIMEOUT_MS);
+    expect(await (await pending).json()).toEqual({ ok: 3 });
+    expect(getEndpointHealth(PRIMARY)?.ok).toBe(false);
+    expect(getEndpointHealth(MIRROR)?.ok).toBe(false);
+  });
+
+  it("does not fail over when the caller aborts", async () => {
+    useEndpoints([PRIMARY, MIRROR]);
+    const controller = new AbortController();
+    controller.abort();
+    fetchSpy.mockRejectedValueOnce(new DOMException("Aborted", "AbortError"));
+    await expect(fetchWithFallback("/sh/c/", { signal: controller.signal })).rejects.toThrow("Aborted");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts timed-out requests even when the caller passes a signal", async () => {
+    vi.useFakeTimers();
+    const caller = new AbortController();
+    let sent: AbortSignal | undefined;
+    fetchSpy.mockImplementationOnce((_url: string, init: RequestInit) => {
+      sent = init.signal ?? undefined;
+      return new Promise(() => {});
+    });
+    const pending = fetchWithTimeout(`${PRIMARY}/sh/e/`, { signal: caller.signal }, 1000);
+    const rejected = expect(pending).rejects.toThrow("Request timed out");
+    await vi.advanceTimersByTimeAsync(1000);
+    await rejected;
+    expect(sent?.aborted).toBe(true);
+    expect(caller.signal.aborted).toBe(false);
+
+    fetchSpy.mockImplementationOnce((_url: string, init: RequestInit) => {
+      sent = init.signal ?? undefined;
+      return new Promise(() => {});
+    });
+    void fetchWithTimeout(`${PRIMARY}/sh/e/`, { signal: caller.signal }, 1000).catch(() => {});
+    caller.abort();
+    expect(sent?.aborted).toBe(true);
+  });
+
+  it("returns the last error response when every endpoint fails", async () => {
+    useEndpoints([PRIMARY, MIRROR]);
+    fetchSpy.mockResolvedValueOnce(new Response("", { status: 500 })).mockResolvedValueOnce(new Response("", { status: 503 }));
+    expect((await fetchWithFallback("/sh/d/")).status).toBe(503);
+  });
+
+  it("health checks every endpoint", async () => {
+    fetchSpy.mockImplementation(async (url: string) => {
+      if (url.startsWith(MIRROR)) throw new TypeError("Failed to fetch");
+      return new Response("ok");
+    });
+    const results = await checkAllEndpoints([PRIMARY, MIRROR]);
+    expect(results[PRIMARY]).toMatchObject({ ok: true, status: 200 });
+    expect(results[MIRROR]).toMatchObject({ ok: false, status: null });
+  });
+});
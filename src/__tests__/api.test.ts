@@ -140,12 +140,16 @@ describe("ETag support", () => {
 			await fetchWithFallback("/sh/test/", { signal: controller.signal });
 			await flushETag();
 
-			fetchSpy.mockResolvedValueOnce(jsonResponse({ a: 1 }));
-			await fetchWithFallback("/sh/test/", { signal: controller.signal });
+			fetchSpy.mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_, reject) => {
+				init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+			}));
+			const pending = fetchWithFallback("/sh/test/", { signal: controller.signal });
+			controller.abort();
+			await expect(pending).rejects.toThrow();
 
 			const [, opts] = fetchSpy.mock.calls[1];
-			expect(opts?.signal).toBe(controller.signal);
 			expect(opts?.headers?.["If-None-Match"]).toBeDefined();
+			expect(opts?.signal?.aborted).toBe(true);
 		});
 
 		it("handles concurrent requests to different endpoints", async () => {
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  EQ_BANDS,
+  EQ_PRESETS,
+  applyAudioSettings,
+  clampEqGain,
+  matchEqPreset,
+  checkCors,
+  needsAudioGraph,
+  prepareSource,
+  subscribeAudioBypass,
+} from "@/src/lib/audio-effects";
+import { DEFAULT_SETTINGS } from "@/src/lib/settings";
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe("audio-effects", () => {
+  it("defines a gain for every band in every preset", () => {
+    for (const preset of Object.values(EQ_PRESETS)) expect(preset.gains).toHaveLength(EQ_BANDS.length);
+  });
+
+  it("recognises presets and custom curves", () => {
+    expect(matchEqPreset(DEFAULT_SETTINGS.player.eqGains)).toBe("flat");
+    expect(matchEqPreset(EQ_PRESETS.vocal.gains)).toBe("vocal");
+    expect(matchEqPreset([1, 0, 0, 0, 0, 0, 0, 0, 0, 0])).toBe("custom");
+  });
+
+  it("clamps band gains", () => {
+    expect(clampEqGain(40)).toBe(12);
+    expect(clampEqGain(-40)).toBe(-12);
+    expect(clampEqGain(NaN)).toBe(0);
+  });
+
+  it("only needs the Web Audio graph for EQ or normalization", () => {
+    expect(needsAudioGraph(DEFAULT_SETTINGS.player)).toBe(false);
+    expect(needsAudioGraph({ ...DEFAULT_SETTINGS.player, normalize: true })).toBe(true);
+  });
+
+  it("applies pitch-preserving playback rate without a graph", () => {
+    const el = document.createElement("audio");
+    applyAudioSettings({ ...DEFAULT_SETTINGS.player, playbackRate: 1.25 }, el);
+    expect(el.playbackRate).toBe(1.25);
+    expect(el.defaultPlaybackRate).toBe(1.25);
+    expect(el.crossOrigin).toBeNull();
+  });
+
+  it("only reloads a playing element with CORS when its host allows it", async () => {
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init?: RequestInit) => {
+      if (url.startsWith("https://open.example/") || init?.mode === "no-cors") return new Response("");
+      throw new TypeError("Failed to fetch");
+    }));
+    const bypassed = vi.fn();
+    const unsubscribe = subscribeAudioBypass(bypassed);
+    const settings = { ...DEFAULT_SETTINGS.player, eqEnabled: true };
+    const blocked = document.createElement("audio");
+    blocked.src = "https://closed.example/a.mp3";
+    applyAudioSettings(settings, blocked);
+    await vi.waitFor(() => expect(bypassed).toHaveBeenCalledTimes(1));
+    expect(blocked.crossOrigin).toBeNull();
+
+    const open = document.createElement("audio");
+    open.src = "https://open.example/a.mp3";
+    applyAudioSettings(settings, open);
+    await vi.waitFor(() => expect(open.crossOrigin).toBe("anonymous"));
+    expect(bypassed).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it("waits for a source before checking its host", () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const el = document.createElement("audio");
+    applyAudioSettings({ ...DEFAULT_SETTINGS.player, normalize: true }, el);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(el.crossOrigin).toBeNull();
+  });
+
+  it("asks an unreachable host again instead of remembering it as blocked", async () => {
+    const fetchMock = vi.fn(async (): Promise<Response> => {
+      throw new TypeError("Failed to fetch");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    expect(await checkCors("https://offline.example/a.mp3")).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    fetchMock.mockImplementation(async () => new Response(""));
+    expect(await checkCors("https://offline.example/b.mp3")).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("only loads a source with crossOrigin once its host is known to allow it", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("")));
+    const settings = { ...DEFAULT_SETTINGS.player, eqEnabled: true };
+    const el = document.createElement("audio");
+    expect(prepareSource(el, "https://fresh.example/a.mp3", settings)).toBe(true);
+    expect(el.crossOrigin).toBeNull();
+    await checkCors("https://fresh.example/a.mp3");
+    expect(prepareSource(el, "https://fresh.example/b.mp3", settings)).toBe(true);
+    expect(el.crossOrigin).toBe("anonymous");
+    expect(prepareSource(el, "https://fresh.example/b.mp3", DEFAULT_SETTINGS.player)).toBe(true);
+    expect(el.crossOrigin).toBeNull();
+  });
+});
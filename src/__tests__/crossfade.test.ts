@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  clampCrossfade,
+  crossfadeGains,
+  getFadeDuration,
+  getHandoffDelay,
+  GAPLESS_LOOKAHEAD_SECONDS,
+  MAX_CROSSFADE_SECONDS,
+} from "@/src/lib/crossfade";
+
+describe("crossfade", () => {
+  it("clamps the crossfade to 0–12s", () => {
+    expect(clampCrossfade(-3)).toBe(0);
+    expect(clampCrossfade(NaN)).toBe(0);
+    expect(clampCrossfade(5)).toBe(5);
+    expect(clampCrossfade(30)).toBe(MAX_CROSSFADE_SECONDS);
+  });
+
+  it("never fades for more than half of a short track", () => {
+    expect(getFadeDuration(10, 8)).toBe(4);
+    expect(getFadeDuration(10, 120)).toBe(10);
+    expect(getFadeDuration(10, NaN)).toBe(0);
+  });
+
+  it("waits until the lookahead window before scheduling a gapless handoff", () => {
+    expect(getHandoffDelay(GAPLESS_LOOKAHEAD_SECONDS + 1, 0)).toBeNull();
+    expect(getHandoffDelay(0.5, 0)).toBe(500);
+    expect(getHandoffDelay(0.5, 0, 2)).toBe(250);
+  });
+
+  it("starts a crossfade when the remaining time reaches the fade length", () => {
+    expect(getHandoffDelay(6.5, 5)).toBeNull();
+    expect(getHandoffDelay(5.2, 5)).toBeCloseTo(200);
+    expect(getHandoffDelay(3, 5)).toBe(0);
+  });
+
+  it("uses equal-power gains", () => {
+    expect(crossfadeGains(0)).toEqual({ out: 1, in: 0 });
+    const mid = crossfadeGains(0.5);
+    expect(mid.out ** 2 + mid.in ** 2).toBeCloseTo(1);
+    expect(crossfadeGains(2).in).toBe(1);
+  });
+});
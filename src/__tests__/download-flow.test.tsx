@@ -82,6 +82,20 @@ describe("DownloadProvider flow", () => {
     expect(createObjectURL).toHaveBeenCalled();
   });
 
+  it("flags byte-identical tracks as duplicates and hashes them", async () => {
+    mockFetch(true);
+    function Flags() {
+      const dm = useDownloadManager();
+      return <span data-testid="flags">{JSON.stringify(dm.jobs[0]?.items.map((i) => [i.sha256?.slice(0, 8), !!i.duplicateOf]))}</span>;
+    }
+    render(wrap(<><Consumer /><Flags /></>));
+    act(() => {
+      screen.getByText("start").click();
+    });
+    await waitFor(() => expect(screen.getByTestId("status").textContent).toBe("completed"), { timeout: 8000 });
+    expect(JSON.parse(screen.getByTestId("flags").textContent!)).toEqual([["9f64a747", false], ["9f64a747", true]]);
+  });
+
   it("marks the job failed when every item download fails", async () => {
     mockFetch(false);
     render(wrap(<Consumer />));
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, act, waitFor, fireEvent } from "@testing-library/react";
+import { DownloadProvider, useDownloadManager } from "@/src/components/download-manager";
+import * as store from "@/src/lib/download-store";
+import { createZipWriter } from "@/src/lib/stream-zip";
+import type { PersistedDownloadJob } from "@/src/lib/download-store";
+
+vi.mock("@/src/lib/download-store", () => ({
+  loadDownloadJobs: vi.fn(async () => []),
+  saveDownloadJobs: vi.fn(async () => {}),
+  getStoredFile: vi.fn(async () => null),
+  putStoredFile: vi.fn(async () => {}),
+  getPartialFile: vi.fn(async () => null),
+  appendPartialChunk: vi.fn(async () => {}),
+  deleteItemData: vi.fn(async () => {}),
+}));
+
+vi.mock("@/src/lib/stream-zip", () => ({
+  createZipWriter: vi.fn(() => ({
+    addFile: vi.fn(async (path: string) => path),
+    close: vi.fn(async () => {}),
+    abort: vi.fn(async () => {}),
+  })),
+}));
+
+const RESTORED: PersistedDownloadJob = {
+  id: "job_1",
+  name: "A - E",
+  artistName: "A",
+  eraName: "E",
+  status: "paused",
+  items: [{ id: "job_1_item_0", trackName: "Song", eraName: "E", playableUrl: "https://x.com/a.mp3", status: "paused", progress: 40, retryCount: 0 }],
+};
+
+function Status() {
+  const dm = useDownloadManager();
+  return <span data-testid="status">{dm.jobs.map((j) => `${j.status}:${j.items.map((i) => i.status).join(",")}`).join("|")}</span>;
+}
+
+function Starter() {
+  const dm = useDownloadManager();
+  return (
+    <button
+      onClick={() => dm.startDownload({ artistName: "A", eraName: "E", items: [{ track: { name: "Song" }, era: { name: "E" }, playableUrl: "https://x.com/a.mp3" }] })}
+    >
+      start
+    </button>
+  );
+}
+
+function audioResponse(status: number, bytes: number[], headers: Record<string, string> = {}) {
+  return new Response(new Uint8Array(bytes), { status, headers: { "content-type": "audio/mpeg", ...headers } });
+}
+
+describe("resumable downloads", () => {
+  beforeEach(() => {
+    globalThis.URL.createObjectURL = vi.fn(() => "blob:mock");
+    globalThis.URL.revokeObjectURL = vi.fn();
+    vi.mocked(store.loadDownloadJobs).mockResolvedValue([]);
+    vi.mocked(store.getPartialFile).mockResolvedValue(null);
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("restores unfinished jobs and resumes partial files with a Range request", async () => {
+    vi.mocked(store.loadDownloadJobs).mockResolvedValue([RESTORED]);
+    vi.mocked(store.getPartialFile).mockResolvedValue({
+      url: "https://x.com/a.mp3",
+      blob: new Blob([new Uint8Array([1, 2])]),
+      total: 4,
+      validator: '"v1"',
+    });
+    const fetchSpy = vi.fn(async () => audioResponse(206, [3, 4], { "content-range": "bytes 2-3/4" }));
+    vi.stubGlobal("fetch", fetchSpy);
+
+    render(<DownloadProvider><Status /></DownloadProvider>);
+    expect(await screen.findByText("Downloads Paused (1)")).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText("Resume download"));
+
+    await waitFor(() => expect(screen.getByTestId("status").textContent).toBe("completed:completed"), { timeout: 8000 });
+    const init = (fetchSpy.mock.calls[0] as unknown as [string, RequestInit])[1];
+    expect(init.headers).toEqual({ Range: "bytes=2-", "If-Range": '"v1"' });
+    const writer = vi.mocked(createZipWriter).mock.results[0].value;
+    const written: Blob = writer.addFile.mock.calls[0][1];
+    expect(new Uint8Array(await written.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3, 4]));
+    expect(store.putStoredFile).not.toHaveBeenCalled();
+  });
+
+  it("adds kept files to a restored job's archive before finishing it", async () => {
+    const done = { id: "job_1_item_1", trackName: "Kept", eraName: "E", playableUrl: "https://x.com/b.mp3", status: "completed" as const, progress: 100, retryCount: 0 };
+    vi.mocked(store.loadDownloadJobs).mockResolvedValue([{ ...RESTORED, items: [...RESTORED.items, done] }]);
+    vi.mocked(store.getStoredFile).mockImplementation(async (id) => {
+      if (id !== done.id) return null;
+      await new Promise((r) => setTimeout(r, 100));
+      return { blob: new Blob([new Uint8Array([7])]), ext: "mp3" };
+    });
+    vi.stubGlobal("fetch", vi.fn(async () => audioResponse(200, [9, 9])));
+
+    render(<DownloadProvider><Status /></DownloadProvider>);
+    expect(await screen.findByText("Downloads Paused (1)")).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText("Resume download"));
+
+    await waitFor(() => expect(screen.getByTestId("status").textContent).toBe("completed:completed,completed"), { timeout: 8000 });
+    const writer = vi.mocked(createZipWriter).mock.results[0].value;
+    await waitFor(() => expect(writer.close).toHaveBeenCalled());
+    const paths: string[] = writer.addFile.mock.calls.map((call: [string]) => call[0]);
+    expect(paths.some((path) => path.includes("Kept"))).toBe(true);
+    expect(paths.some((path) => path.includes("Song"))).toBe(true);
+  });
+
+  it("pauses an in-flight job and resumes it later", async () => {
+    const fetchSpy = vi.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+        })
+    );
+    vi.stubGlobal("fetch", fetchSpy);
+    render(<DownloadProvider><Starter /><Status /></DownloadProvider>);
+    act(() => {
+      screen.getByText("start").click();
+    });
+    await waitFor(() => expect(screen.getByTestId("status").textContent).toBe("active:downloading"));
+
+    fireEvent.click(screen.getByLabelText("Pause download"));
+    await waitFor(() => expect(screen.getByTestId("status").textContent).toBe("paused:paused"));
+
+    fetchSpy.mockImplementation(async () => audioResponse(200, [9, 9]));
+    fireEvent.click(screen.getByLabelText("Resume download"));
+    await waitFor(() => expect(screen.getByTestId("status").textContent).toBe("completed:completed"), { timeout: 8000 });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    await waitFor(() => expect(vi.mocked(store.saveDownloadJobs)).toHaveBeenCalled());
+  });
+});
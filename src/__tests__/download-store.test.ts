@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from "vitest";
+import { appendPartialChunk, getPartialFile, putStoredFile } from "@/src/lib/download-store";
+import { idbGet } from "@/src/lib/indexeddb-cache";
+
+// jsdom Blobs don't survive fake-indexeddb's structured clone, so records are kept as-is.
+vi.mock("@/src/lib/indexeddb-cache", () => {
+  const records = new Map<string, unknown>();
+  return {
+    idbGet: vi.fn(async (key: string) => records.get(key) ?? null),
+    idbSet: vi.fn(async (key: string, value: unknown) => {
+      if (value === null) records.delete(key);
+      else records.set(key, value);
+    }),
+  };
+});
+
+const URL_A = "https://x.com/a.mp3";
+
+function chunk(offset: number, bytes: number[], url = URL_A) {
+  return { url, offset, blob: new Blob([new Uint8Array(bytes)]), total: 6, validator: '"v1"' };
+}
+
+async function bytesOf(blob: Blob) {
+  return [...new Uint8Array(await blob.arrayBuffer())];
+}
+
+describe("partial downloads", () => {
+  it("stores each checkpoint as its own chunk and joins them on resume", async () => {
+    void appendPartialChunk("item_1", chunk(0, [1, 2]));
+    await appendPartialChunk("item_1", chunk(2, [3, 4]));
+    expect(await idbGet("downloads:partial:item_1:2")).not.toBeNull();
+    const partial = await getPartialFile("item_1", URL_A);
+    expect(await bytesOf(partial!.blob)).toEqual([1, 2, 3, 4]);
+    expect(partial).toMatchObject({ total: 6, validator: '"v1"' });
+    expect(await getPartialFile("item_1", "https://x.com/other.mp3")).toBeNull();
+  });
+
+  it("starts over when a download restarts and ignores chunks after a gap", async () => {
+    await appendPartialChunk("item_2", chunk(0, [1, 2]));
+    await appendPartialChunk("item_2", chunk(0, [7]));
+    await appendPartialChunk("item_2", chunk(4, [9]));
+    expect(await bytesOf((await getPartialFile("item_2", URL_A))!.blob)).toEqual([7]);
+    expect(await idbGet("downloads:partial:item_2:4")).toBeNull();
+  });
+
+  it("drops the chunks once the file is stored", async () => {
+    await appendPartialChunk("item_3", chunk(0, [1]));
+    await putStoredFile("item_3", { blob: new Blob([new Uint8Array([1, 2])]), ext: "mp3" });
+    expect(await getPartialFile("item_3", URL_A)).toBeNull();
+    expect(await idbGet("downloads:partial:item_3:0")).toBeNull();
+  });
+});
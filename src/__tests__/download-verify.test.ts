@@ -0,0 +1,37 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { isLikelyTruncated, sha256Hex } from "@/src/lib/download-verify";
+import { clearDownloadHistory, getDownloadedEntry, recordDownload } from "@/src/lib/download-history";
+
+const entry = (trackName: string) => ({ trackName, artistName: "A", eraName: "E", sha256: null, size: 1, downloadedAt: 1 });
+
+describe("download-verify", () => {
+  it("hashes blobs with SHA-256", async () => {
+    expect(await sha256Hex(new Blob(["abc"]))).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+
+  it("flags files clearly shorter than the tracker length", () => {
+    expect(isLikelyTruncated(60, 180)).toBe(true);
+    expect(isLikelyTruncated(178, 180)).toBe(false);
+    expect(isLikelyTruncated(8, 10)).toBe(false);
+    expect(isLikelyTruncated(null, 180)).toBe(false);
+    expect(isLikelyTruncated(60, null)).toBe(false);
+  });
+});
+
+describe("download-history", () => {
+  beforeEach(async () => {
+    await clearDownloadHistory();
+  });
+
+  it("keeps every entry when downloads finish at the same time", async () => {
+    await Promise.all(["a", "b", "c"].map((n) => recordDownload(`https://x.com/${n}`, entry(n))));
+    for (const n of ["a", "b", "c"]) expect((await getDownloadedEntry(`https://x.com/${n}`))?.trackName).toBe(n);
+  });
+
+  it("forgets everything on clear", async () => {
+    await recordDownload("https://x.com/a", entry("a"));
+    await clearDownloadHistory();
+    expect(await getDownloadedEntry("https://x.com/a")).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TALeak } from "@/src/types";
+import { buildEraExtras, buildEraM3U8, type ManifestTrack } from "@/src/lib/era-manifest";
+
+const intro: TALeak = { name: "Intro", track_length: "1:05", url: "https://pillows.su/f/1" };
+const song: TALeak = {
+  name: "Song",
+  extra: "(feat. B)",
+  notes: "First line\nSecond line",
+  quality: "CD Quality",
+  leak_date: "2020-01-01",
+  url: "https://pillows.su/f/2",
+  urls: ["https://pillows.su/f/2", "https://pixeldrain.com/u/abc"],
+};
+
+const tracks: ManifestTrack[] = [
+  { trackName: "Intro", eraName: "Era One", status: "completed", track: intro, path: "A/Era One/Intro.mp3" },
+  { trackName: "Song", eraName: "Era One", status: "failed", track: song },
+  { trackName: "Other", eraName: "Era Two", status: "completed", path: "A/Era Two/Other.flac" },
+];
+
+async function text(blob: Blob) {
+  return new TextDecoder().decode(await blob.arrayBuffer());
+}
+
+describe("era-manifest", () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("writes playlists in era order with paths relative to the era folder", () => {
+    const m3u = buildEraM3U8("A", "Era One", "A/Era One", tracks.slice(0, 2));
+    expect(m3u).toBe("#EXTM3U\n#PLAYLIST:A - Era One\n#EXTINF:65,A - Intro\n#EXTALB:Era One\nIntro.mp3\n");
+  });
+
+  it("places a playlist, tracklist, manifest and artwork next to each era", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url.includes("cover") ? new Response(new Uint8Array([1]), { headers: { "content-type": "image/png" } }) : new Response("nope", { status: 404 })
+      )
+    );
+    const files = await buildEraExtras("A", tracks, { "Era One": { image: "https://img/cover.png", logo: "https://img/logo.png" } });
+    expect(files.map((f) => f.path)).toEqual([
+      "A/Era One/Era One.m3u8",
+      "A/Era One/tracklist.txt",
+      "A/Era One/manifest.json",
+      "A/Era One/cover.png",
+      "A/Era Two/Era Two.m3u8",
+      "A/Era Two/tracklist.txt",
+      "A/Era Two/manifest.json",
+    ]);
+
+    const tracklist = await text(files[1].blob);
+    expect(tracklist).toContain("02. Song (feat. B)");
+    expect(tracklist).toContain("    Quality: CD Quality");
+    expect(tracklist).toContain("    Not downloaded (failed)");
+    expect(tracklist).toContain("    | Second line");
+    expect(tracklist).toContain("    - https://pixeldrain.com/u/abc");
+
+    const manifest = JSON.parse(await text(files[2].blob));
+    expect(manifest.tracks[1]).toMatchObject({
+      position: 2,
+      name: "Song",
+      status: "failed",
+      notes: "First line\nSecond line",
+      leak_date: "2020-01-01",
+      mirrors: ["https://pillows.su/f/2", "https://pixeldrain.com/u/abc"],
+    });
+  });
+});
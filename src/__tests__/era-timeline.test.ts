@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { buildEraTimeline, timelineOffset, timelineTicks } from "@/src/lib/era-timeline";
+import type { Era } from "@/src/types";
+
+const utc = (y: number, m: number, d: number) => Date.UTC(y, m - 1, d);
+
+const eras: Record<string, Era> = {
+  "0:First": {
+    name: "First",
+    backgroundColor: "#123456",
+    data: {
+      Default: [
+        { name: "A", file_date: "2018-03-01", leak_date: "2020-05-10" },
+        { name: "B", file_date: "2018-09-15" },
+        { name: "Undated" },
+      ],
+    },
+  },
+  "1:Second": { name: "Second", data: { Default: [{ name: "C", leak_date: "2021" }] } },
+  "2:Empty": { name: "Empty", data: {} },
+};
+
+describe("buildEraTimeline", () => {
+  it("collects leak and file dates as points", () => {
+    const timeline = buildEraTimeline(eras)!;
+    expect(timeline.points.map((p) => `${p.track.name}:${p.kind}`)).toEqual(["A:file", "B:file", "A:leak", "C:leak"]);
+    expect(timeline.points[0]).toMatchObject({ eraKey: "0:First", eraName: "First", color: "#123456", time: utc(2018, 3, 1) });
+  });
+
+  it("spans eras over file dates and events, falling back to leak dates", () => {
+    const timeline = buildEraTimeline(eras, [{ date: "2019-01-20", event: "Announced", era: "First" }])!;
+    expect(timeline.spans).toEqual([
+      { eraName: "First", start: utc(2018, 3, 1), end: utc(2019, 1, 20), color: "#123456", textColor: undefined },
+      { eraName: "Second", start: utc(2021, 1, 1), end: utc(2021, 1, 1), color: undefined, textColor: undefined },
+    ]);
+    expect(timeline.events).toEqual([{ key: "0:First:Announced", time: utc(2019, 1, 20), label: "Announced", eraName: "First" }]);
+    expect(timeline.start).toBe(utc(2018, 1, 1));
+    expect(timeline.end).toBe(utc(2022, 1, 1));
+  });
+
+  it("groups flat trackers by each track's era", () => {
+    const flat: Record<string, Era> = {
+      _flat: { name: "", data: { Default: [{ name: "X", eraName: "Late", eraColor: "#fff", leak_date: "2015-06-01" }] } },
+    };
+    const timeline = buildEraTimeline(flat)!;
+    expect(timeline.spans).toMatchObject([{ eraName: "Late", color: "#fff" }]);
+    expect(timeline.points[0].eraName).toBe("Late");
+  });
+
+  it("returns null when nothing is dated", () => {
+    expect(buildEraTimeline({ a: { name: "A", data: { Default: [{ name: "x" }] } } })).toBeNull();
+  });
+});
+
+describe("timelineTicks", () => {
+  it("marks years or months", () => {
+    expect(timelineTicks(utc(2018, 1, 1), utc(2020, 1, 1), "year").map((t) => t.label)).toEqual(["2018", "2019", "2020"]);
+    const months = timelineTicks(utc(2018, 1, 1), utc(2019, 1, 1), "month");
+    expect(months).toHaveLength(13);
+    expect(months[1]).toMatchObject({ label: "Feb", major: false });
+    expect(months[12]).toMatchObject({ label: "2019", major: true });
+  });
+
+  it("scales offsets with the zoom level", () => {
+    expect(timelineOffset(utc(2018, 1, 11), utc(2018, 1, 1), "month")).toBe(50);
+    expect(timelineOffset(utc(2018, 1, 11), utc(2018, 1, 1), "year")).toBe(7.5);
+  });
+});
@@ -54,4 +54,19 @@ describe("KeyboardShortcuts", () => {
     act(() => input.dispatchEvent(new KeyboardEvent("keydown", { key: " ", bubbles: true })));
     expect(result.current.state.isPlaying).toBe(true);
   });
+
+  it("uses rebound keys from settings", () => {
+    localStorage.setItem("artistgrid-settings:v1", JSON.stringify({ shortcuts: { "player.mute": ["Shift+M"] } }));
+    try {
+      const { result } = setup();
+      act(() => result.current.playTrack(track("1", "https://x.com/1.mp3")));
+      const volume = result.current.state.volume;
+      act(() => window.dispatchEvent(new KeyboardEvent("keydown", { key: "m" })));
+      expect(result.current.state.volume).toBe(volume);
+      act(() => window.dispatchEvent(new KeyboardEvent("keydown", { key: "M", shiftKey: true })));
+      expect(result.current.state.volume).toBe(0);
+    } finally {
+      localStorage.removeItem("artistgrid-settings:v1");
+    }
+  });
 });
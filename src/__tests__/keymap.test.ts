@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import { comboFromEvent, commandsForCombo, findConflicts, formatCombo, normalizeCombo, resolveKeymap } from "@/src/lib/keymap";
+import { getPaletteTracks, isCommandAvailable, registerCommand, registerPaletteTracks, runCommand } from "@/src/lib/commands";
+
+const key = (init: Partial<KeyboardEvent>) => ({ key: "", code: "", ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...init });
+
+describe("comboFromEvent", () => {
+  it("names plain keys", () => {
+    expect(comboFromEvent(key({ key: " " }))).toBe("Space");
+    expect(comboFromEvent(key({ key: "n" }))).toBe("N");
+    expect(comboFromEvent(key({ key: "ArrowLeft" }))).toBe("ArrowLeft");
+  });
+
+  it("orders modifiers and ignores lone modifiers", () => {
+    expect(comboFromEvent(key({ key: "D", shiftKey: true, ctrlKey: true }))).toBe("Ctrl+Shift+D");
+    expect(comboFromEvent(key({ key: "Shift", shiftKey: true }))).toBeNull();
+  });
+
+  it("drops shift from symbols and uses the physical key with alt", () => {
+    expect(comboFromEvent(key({ key: "?", shiftKey: true }))).toBe("?");
+    expect(comboFromEvent(key({ key: "˚", code: "KeyK", altKey: true }))).toBe("Alt+K");
+  });
+});
+
+describe("normalizeCombo", () => {
+  it("resolves Mod per platform", () => {
+    expect(normalizeCombo("Mod+k", false)).toBe("Ctrl+K");
+    expect(normalizeCombo("Mod+k", true)).toBe("Meta+K");
+    expect(normalizeCombo("Shift+Ctrl+d", false)).toBe("Ctrl+Shift+D");
+    expect(normalizeCombo("Ctrl++", false)).toBe("Ctrl++");
+  });
+
+  it("formats with symbols on Apple devices", () => {
+    expect(formatCombo("Mod+Shift+K", true)).toBe("⇧⌘K");
+    expect(formatCombo("Mod+K", false)).toBe("Ctrl+K");
+  });
+});
+
+describe("keymap", () => {
+  it("applies overrides and finds conflicts", () => {
+    const keymap = resolveKeymap({ "player.next": ["P"] });
+    expect(keymap["player.next"]).toEqual(["P"]);
+    expect(keymap["player.togglePlay"]).toEqual(["Space"]);
+    expect(findConflicts(keymap, false).get("P")).toEqual(["player.next", "player.previous"]);
+    expect(findConflicts(resolveKeymap(), false).size).toBe(0);
+  });
+
+  it("looks up commands by combo", () => {
+    expect(commandsForCombo(resolveKeymap(), "Ctrl+K", false)).toEqual(["general.commandPalette"]);
+    expect(commandsForCombo(resolveKeymap({ "player.mute": [] }), "M", false)).toEqual([]);
+  });
+});
+
+describe("command registry", () => {
+  it("runs the most recent handler and falls back when it unregisters", () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const offFirst = registerCommand("player.next", first);
+    const offSecond = registerCommand("player.next", second);
+    expect(runCommand("player.next")).toBe(true);
+    expect(second).toHaveBeenCalledTimes(1);
+    offSecond();
+    runCommand("player.next");
+    expect(first).toHaveBeenCalledTimes(1);
+    offFirst();
+    expect(isCommandAvailable("player.next")).toBe(false);
+    expect(runCommand("player.next")).toBe(false);
+  });
+
+  it("exposes the open tracker's tracks to the palette", () => {
+    const off = registerPaletteTracks(() => [{ key: "u", name: "Song", detail: "Era", play: () => {} }]);
+    expect(getPaletteTracks().map((t) => t.name)).toEqual(["Song"]);
+    off();
+    expect(getPaletteTracks()).toEqual([]);
+  });
+});
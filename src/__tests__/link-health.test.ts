@@ -0,0 +1,167 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  auditLinks,
+  clearLinkChecks,
+  createHostLimiter,
+  getLinkChecks,
+  LINK_CHECK_TTL_MS,
+  linkReportToCsv,
+  probeLink,
+  trackLinkStatus,
+  type LinkCheck,
+} from "@/src/lib/link-health";
+
+const PILLOWS = "https://pillows.su/f/abc123";
+const PIXELDRAIN = "https://pixeldrain.com/u/xyz";
+
+const respond = (status: number) => vi.fn().mockResolvedValue(new Response(null, { status })) as unknown as typeof fetch;
+
+beforeEach(async () => {
+  await clearLinkChecks();
+});
+
+describe("probeLink", () => {
+  it("sends HEAD to the resolved URL", async () => {
+    const fetchMock = respond(200);
+    expect(await probeLink(PILLOWS, fetchMock)).toMatchObject({ url: PILLOWS, status: "alive", detail: "200" });
+    const [url, init] = vi.mocked(fetchMock).mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://api.pillows.su/api/download/abc123");
+    expect(init.method).toBe("HEAD");
+  });
+
+  it("marks 404 and 410 dead but other failures unknown", async () => {
+    expect((await probeLink(PILLOWS, respond(404))).status).toBe("dead");
+    expect((await probeLink(PILLOWS, respond(410))).status).toBe("dead");
+    expect((await probeLink(PILLOWS, respond(503))).status).toBe("unknown");
+    const failing = vi.fn().mockRejectedValue(new TypeError("Failed to fetch")) as unknown as typeof fetch;
+    expect(await probeLink(PILLOWS, failing)).toMatchObject({ status: "unknown", detail: "network error" });
+  });
+
+  it("falls back to a ranged GET when HEAD is rejected", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 405 }))
+      .mockResolvedValueOnce(new Response("x", { status: 206 })) as unknown as typeof fetch;
+    expect((await probeLink(PIXELDRAIN, fetchMock)).status).toBe("alive");
+    const [, init] = vi.mocked(fetchMock).mock.calls[1] as unknown as [string, RequestInit];
+    expect(init.headers).toEqual({ Range: "bytes=0-0" });
+  });
+
+  it("checks YouTube through oEmbed", async () => {
+    const fetchMock = respond(401);
+    expect((await probeLink("https://youtu.be/abc", fetchMock)).status).toBe("dead");
+    expect(vi.mocked(fetchMock).mock.calls[0][0]).toContain("youtube.com/oembed");
+  });
+
+  it("treats a resolver that fails or hangs as unknown, not dead", async () => {
+    const IMGUR = "https://imgur.gg/f/abc123";
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed to fetch")));
+    try {
+      expect(await probeLink(IMGUR, respond(200))).toMatchObject({ status: "unknown", detail: "network error" });
+      vi.useFakeTimers();
+      vi.stubGlobal("fetch", vi.fn(() => new Promise<Response>(() => {})));
+      const probe = probeLink(IMGUR, respond(200));
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(await probe).toMatchObject({ status: "unknown", detail: "timeout" });
+    } finally {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("doesn't probe unsupported hosts", async () => {
+    const fetchMock = respond(200);
+    expect((await probeLink("https://example.com/song.html", fetchMock)).status).toBe("unknown");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("createHostLimiter", () => {
+  it("caps concurrent tasks per host", async () => {
+    const limit = createHostLimiter(2);
+    let active = 0;
+    let peak = 0;
+    const task = () => limit("a.com", async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((r) => setTimeout(r, 5));
+      active--;
+    });
+    let otherHostRan = false;
+    await Promise.all([task(), task(), task(), task(), limit("b.com", async () => { otherHostRan = true; })]);
+    expect(peak).toBe(2);
+    expect(otherHostRan).toBe(true);
+  });
+});
+
+describe("auditLinks", () => {
+  it("caches results and only reprobes stale links", async () => {
+    const fetchMock = respond(200);
+    const progress: number[] = [];
+    const results = await auditLinks([PILLOWS, PILLOWS, PIXELDRAIN], { fetchImpl: fetchMock, onProgress: (done) => progress.push(done) });
+    expect(results.size).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(progress).toEqual([0, 1, 2]);
+    expect((await getLinkChecks()).get(PILLOWS)?.status).toBe("alive");
+
+    await auditLinks([PILLOWS], { fetchImpl: fetchMock });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await auditLinks([PILLOWS], { fetchImpl: fetchMock, now: Date.now() + LINK_CHECK_TTL_MS + 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await auditLinks([PILLOWS], { fetchImpl: fetchMock, force: true });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+  it("limits requests by the host they are sent to", async () => {
+    let active = 0;
+    let peak = 0;
+    const fetchMock = vi.fn(async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((r) => setTimeout(r, 5));
+      active--;
+      return new Response(null, { status: 200 });
+    }) as unknown as typeof fetch;
+    // Pixeldrain and Google Drive links are both probed through the same proxy.
+    const links = ["https://pixeldrain.com/u/a1", "https://pixeldrain.com/u/a2", "https://drive.google.com/file/d/b1", "https://drive.google.com/file/d/b2"];
+    await auditLinks(links, { fetchImpl: fetchMock });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(peak).toBe(2);
+  });
+
+  it("cancels in-flight probes and keeps their old results", async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+    })) as unknown as typeof fetch;
+    const audit = auditLinks([PILLOWS], { fetchImpl: fetchMock, signal: controller.signal, force: true });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+    expect((await audit).has(PILLOWS)).toBe(false);
+  });
+});
+
+describe("trackLinkStatus", () => {
+  const check = (url: string, status: LinkCheck["status"]): [string, LinkCheck] => [url, { url, status, checkedAt: 0 }];
+
+  it("combines mirror results", () => {
+    const results = new Map([check("a", "alive"), check("b", "dead"), check("c", "dead"), check("d", "unknown")]);
+    expect(trackLinkStatus(["a"], results)).toBe("alive");
+    expect(trackLinkStatus(["a", "b"], results)).toBe("partial");
+    expect(trackLinkStatus(["b", "c"], results)).toBe("dead");
+    expect(trackLinkStatus(["b", "d"], results)).toBe("unknown");
+    expect(trackLinkStatus(["x"], results)).toBeUndefined();
+  });
+});
+
+describe("linkReportToCsv", () => {
+  it("lists every link with its status", () => {
+    const csv = linkReportToCsv([
+      { era: "Era, One", track: "Song", url: PILLOWS, check: { url: PILLOWS, status: "dead", checkedAt: Date.UTC(2024, 0, 1), detail: "404" } },
+      { era: "Era", track: "Other", url: PIXELDRAIN },
+    ]);
+    expect(csv.split("\r\n")).toEqual([
+      "era,track,url,source,status,detail,checked_at",
+      `"Era, One",Song,${PILLOWS},pillows,dead,404,2024-01-01T00:00:00.000Z`,
+      `Era,Other,${PIXELDRAIN},pixeldrain,unchecked,,`,
+      "",
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Track } from "@/src/types";
+import {
+  clearListeningHistory,
+  finishPlay,
+  getListeningHistory,
+  notePlayPosition,
+  recordPlay,
+  startPlay,
+  type PlayRecord,
+} from "@/src/lib/listening-history";
+
+const track: Track = {
+  id: "t1",
+  name: "Song",
+  extra: "",
+  url: "https://pillows.su/f/1",
+  playableUrl: "https://api.pillows.su/api/download/1",
+  source: "pillows",
+  eraName: "Era",
+  artistName: "Artist",
+  trackerId: "abc",
+};
+
+function play(positions: number[], duration = 200) {
+  const active = startPlay(track);
+  for (const position of positions) notePlayPosition(active, position, duration);
+  return active;
+}
+
+describe("listening-history", () => {
+  beforeEach(() => clearListeningHistory());
+
+  it("counts time heard but not seeks", () => {
+    const active = play([0.25, 0.5, 1, 1.5, 120, 121]);
+    expect(active.listened).toBeCloseTo(2.5);
+    expect(finishPlay(active)).toMatchObject({ trackId: "t1", artist: "Artist", era: "Era", trackerId: "abc", listened: 3, completed: false });
+  });
+
+  it("marks plays that reach the end as completed", () => {
+    const active = play([1, 2, 182, 183]);
+    expect(finishPlay(active)?.completed).toBe(true);
+    const ended = play([1, 2]);
+    ended.reachedEnd = true;
+    expect(finishPlay(ended)?.completed).toBe(true);
+  });
+
+  it("drops tracks that never played", () => {
+    expect(finishPlay(startPlay(track))).toBeNull();
+    expect(finishPlay(play([150]))).toBeNull();
+  });
+
+  it("stores plays across months", async () => {
+    const base = finishPlay(play([1, 2]))!;
+    const records: PlayRecord[] = [
+      { ...base, id: "b", startedAt: new Date(2026, 1, 3).getTime() },
+      { ...base, id: "a", startedAt: new Date(2026, 0, 31).getTime() },
+      { ...base, id: "c", startedAt: new Date(2026, 1, 1).getTime() },
+    ];
+    for (const record of records) await recordPlay(record);
+    expect((await getListeningHistory()).map((p) => p.id)).toEqual(["a", "c", "b"]);
+    await clearListeningHistory();
+    expect(await getListeningHistory()).toEqual([]);
+  });
+});
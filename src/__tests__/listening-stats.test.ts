@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { PlayRecord } from "@/src/lib/listening-history";
+import { computeListeningStats, formatListeningTime, listeningHistoryToCsv } from "@/src/lib/listening-stats";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 5, 15, 12).getTime();
+let n = 0;
+function record(name: string, daysAgo: number, completed = true, extra: Partial<PlayRecord> = {}): PlayRecord {
+  return {
+    id: String(n++),
+    trackId: name,
+    name,
+    url: `https://pillows.su/f/${name}`,
+    artist: "Kanye West",
+    era: "Yandhi",
+    trackerId: "ye",
+    startedAt: now - daysAgo * DAY,
+    listened: completed ? 180 : 20,
+    duration: 180,
+    completed,
+    ...extra,
+  };
+}
+
+const plays = [
+  record("Hurricane", 0),
+  record("Hurricane", 1),
+  record("Hurricane", 2, false),
+  record("Alien", 1, true, { era: "Donda" }),
+  record("Law of Attraction", 2, true, { artist: "Kid Cudi", era: "Entergalactic", trackerId: "cudi" }),
+  ...[40, 45, 50].map((d) => record("New Body", d)),
+];
+
+describe("listening-stats", () => {
+  it("ranks tracks, eras and artists by plays", () => {
+    const stats = computeListeningStats(plays, now);
+    expect(stats.plays).toBe(8);
+    expect(stats.skipRate).toBeCloseTo(1 / 8);
+    expect(stats.topTracks.map((t) => [t.label, t.plays])).toEqual([
+      ["New Body", 3],
+      ["Hurricane", 3],
+      ["Alien", 1],
+      ["Law of Attraction", 1],
+    ]);
+    expect(stats.topEras[0]).toMatchObject({ label: "Yandhi", detail: "Kanye West", plays: 6 });
+    expect(stats.topArtists.map((a) => a.label)).toEqual(["Kanye West", "Kid Cudi"]);
+  });
+
+  it("totals listening time per day, oldest first", () => {
+    const { days } = computeListeningStats(plays, now, 10, 3);
+    expect(days.map((d) => d.seconds)).toEqual([200, 360, 180]);
+  });
+
+  it("finds often-finished tracks that haven't been played in a month", () => {
+    const stats = computeListeningStats(plays, now);
+    expect(stats.forgottenFavourites.map((t) => [t.label, t.completed])).toEqual([["New Body", 3]]);
+  });
+
+  it("exports CSV with quoted fields", () => {
+    const csv = listeningHistoryToCsv([record('Say "Hi", Bye', 0)]);
+    const [header, row] = csv.trim().split("\r\n");
+    expect(header).toBe("played_at,track,artist,era,tracker_id,listened_seconds,duration_seconds,completed,url");
+    expect(row).toContain('"Say ""Hi"", Bye",Kanye West,Yandhi,ye,180,180,true,');
+  });
+
+  it("formats listening time", () => {
+    expect(formatListeningTime(45)).toBe("45s");
+    expect(formatListeningTime(600)).toBe("10m");
+    expect(formatListeningTime(3 * 3600 + 120)).toBe("3h 2m");
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { integratedLoudness, normalizationGainDb, readCapped, TARGET_LUFS } from "@/src/lib/loudness";
+
+const SAMPLE_RATE = 8000;
+
+function sine(amplitude: number, seconds: number): Float32Array {
+  const out = new Float32Array(SAMPLE_RATE * seconds);
+  for (let i = 0; i < out.length; i++) out[i] = amplitude * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE);
+  return out;
+}
+
+describe("loudness", () => {
+  it("measures a full-scale sine at about -3.7 LUFS per channel", () => {
+    expect(integratedLoudness([sine(1, 3)], SAMPLE_RATE)).toBeCloseTo(-3.7, 1);
+  });
+
+  it("drops 6 dB when the amplitude halves", () => {
+    const loud = integratedLoudness([sine(1, 3)], SAMPLE_RATE);
+    const quiet = integratedLoudness([sine(0.5, 3)], SAMPLE_RATE);
+    expect(loud - quiet).toBeCloseTo(6.02, 1);
+  });
+
+  it("gates out silence", () => {
+    const padded = new Float32Array(SAMPLE_RATE * 6);
+    padded.set(sine(1, 3), 0);
+    const gated = integratedLoudness([padded], SAMPLE_RATE);
+    expect(gated).toBeGreaterThan(-4.5);
+    expect(gated).toBeLessThan(-3.6);
+    expect(integratedLoudness([new Float32Array(SAMPLE_RATE * 2)], SAMPLE_RATE)).toBe(-Infinity);
+  });
+
+  it("clamps the normalization gain", () => {
+    expect(normalizationGainDb(TARGET_LUFS)).toBe(0);
+    expect(normalizationGainDb(-4)).toBe(-10);
+    expect(normalizationGainDb(-40)).toBe(6);
+    expect(normalizationGainDb(5)).toBe(-12);
+    expect(normalizationGainDb(-Infinity)).toBe(0);
+  });
+
+  it("stops reading files over the size cap", async () => {
+    const body = () => new Uint8Array([1, 2, 3, 4]);
+    expect(new Uint8Array((await readCapped(new Response(body()), 4))!)).toEqual(body());
+    expect(await readCapped(new Response(body()), 3)).toBeNull();
+    expect(await readCapped(new Response(body(), { headers: { "Content-Length": "99" } }), 50)).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { getMirrorKey, orderMirrors, rememberWorkingMirror, resolveNextMirror } from "../lib/mirror-fallback";
+import type { Track } from "../types";
+
+const track = (mirrors: string[], url = mirrors[0]): Track => ({
+  id: "t1",
+  name: "Song",
+  extra: "",
+  url,
+  playableUrl: "https://api.pillows.su/api/download/abc",
+  source: "pillows",
+  mirrors,
+});
+
+describe("mirror-fallback", () => {
+  it("keys mirrors by the first url", () => {
+    expect(getMirrorKey([])).toBeNull();
+    expect(getMirrorKey(["https://a", "https://b"])).toBe(getMirrorKey(["https://a"]));
+  });
+
+  it("keeps the original order when nothing is remembered", () => {
+    const urls = ["https://pillows.su/f/aaa", "https://pixeldrain.com/u/bbb"];
+    expect(orderMirrors(urls)).toEqual(urls);
+  });
+
+  it("moves the remembered mirror to the front", () => {
+    const urls = ["https://pillows.su/f/ccc", "https://pixeldrain.com/u/ddd"];
+    rememberWorkingMirror(track(urls, urls[1]));
+    expect(orderMirrors(urls)).toEqual([urls[1], urls[0]]);
+  });
+
+  it("resolves the next untried mirror", async () => {
+    const urls = ["https://pillows.su/f/abc", "https://www.youtube.com/watch?v=x", "https://pixeldrain.com/u/eee"];
+    const tried = new Set([urls[0]]);
+    const next = await resolveNextMirror(track(urls), tried);
+    expect(next).toEqual({ url: urls[2], playableUrl: "https://fuck-unvaulted.artistgrid.cx/eee" });
+    expect(tried.has(urls[1])).toBe(true);
+  });
+
+  it("returns null once every mirror was tried", async () => {
+    const urls = ["https://pillows.su/f/abc"];
+    expect(await resolveNextMirror(track(urls), new Set(urls))).toBeNull();
+  });
+});
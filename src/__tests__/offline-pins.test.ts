@@ -0,0 +1,75 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchWithFallback } from "@/src/lib/api";
+import { getPinnedTrackers, isTrackerPinned, pinTracker, unpinTracker } from "@/src/lib/offline-pins";
+import { matchPinned } from "@/src/lib/pinned-cache";
+
+const API = "https://trackerapi.artistgrid.cx";
+
+const BASE = {
+  name: "Artist",
+  tab: { name: "Unreleased", slug: "unreleased", gid: "1" },
+  tabs: [
+    { name: "Unreleased", slug: "unreleased", gid: "1" },
+    { name: "Art", slug: "art", gid: "2" },
+  ],
+  eras: [{ name: "Era", cover_art: "https://img/era.png", tracks: [{ name: { raw: "Song", title: "Song", credits: [] }, links: [{ url: "https://pillows.su/f/abc" }] }] }],
+};
+
+function fakeCacheStorage() {
+  const store = new Map<string, Response>();
+  const cache = {
+    match: async (url: string) => store.get(url)?.clone(),
+    put: async (url: string, res: Response) => void store.set(url, res),
+    delete: async (url: string) => store.delete(url),
+    keys: async () => [...store.keys()].map((u) => new Request(u)),
+  };
+  return { store, caches: { open: async () => cache } };
+}
+
+describe("offline-pins", () => {
+  let store: Map<string, Response>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    const fake = fakeCacheStorage();
+    store = fake.store;
+    vi.stubGlobal("caches", fake.caches);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        if (url.startsWith(API)) return new Response(JSON.stringify(BASE), { headers: { "Content-Type": "application/json" } });
+        return new Response("binary");
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("pins every tab, covers and optionally audio", async () => {
+    const pin = await pinTracker("abc", { includeAudio: true });
+    expect(pin).toMatchObject({ id: "abc", name: "Artist", tabs: 2, images: 1, audio: 1, failed: 0 });
+    expect(isTrackerPinned("abc")).toBe(true);
+    expect(store.has(`${API}/sh/abc/`)).toBe(true);
+    expect(store.has(`${API}/sh/abc/gid/2`)).toBe(true);
+    expect(store.has("https://img/era.png")).toBe(true);
+    expect(store.has("https://api.pillows.su/api/download/abc")).toBe(true);
+  });
+
+  it("serves pinned tracker data when the network is down", async () => {
+    await pinTracker("abc", { includeAudio: false });
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed to fetch")));
+    const res = await fetchWithFallback("/sh/abc/");
+    expect((await res.json()).name).toBe("Artist");
+    await expect(fetchWithFallback("/sh/other/")).rejects.toThrow("Failed to fetch");
+  });
+
+  it("removes cached responses on unpin", async () => {
+    await pinTracker("abc", { includeAudio: false });
+    await unpinTracker("abc");
+    expect(getPinnedTrackers()).toEqual([]);
+    expect(await matchPinned(`${API}/sh/abc/`)).toBeNull();
+  });
+});
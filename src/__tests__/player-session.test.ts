@@ -0,0 +1,45 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { loadPlayerSession, savePlayerSession, clearPlayerSession } from "@/src/lib/player-session";
+import type { Track } from "@/src/types";
+
+const track = (id: string): Track => ({
+  id,
+  name: `Track ${id}`,
+  extra: "",
+  url: `https://pillows.su/f/${id}`,
+  playableUrl: `https://api.pillows.su/api/download/${id}`,
+  source: "pillows",
+});
+
+describe("player-session", () => {
+  it("round-trips a saved session", async () => {
+    await savePlayerSession({
+      currentTrack: track("a"),
+      queue: [track("b")],
+      history: [track("a")],
+      currentTime: 42,
+      isShuffled: true,
+      repeatMode: "all",
+    });
+    const session = await loadPlayerSession();
+    expect(session?.currentTrack.id).toBe("a");
+    expect(session?.queue.map((t) => t.id)).toEqual(["b"]);
+    expect(session?.currentTime).toBe(42);
+    expect(session?.repeatMode).toBe("all");
+    expect(session?.savedAt).toBeGreaterThan(0);
+  });
+
+  it("caps the stored history", async () => {
+    const history = Array.from({ length: 150 }, (_, i) => track(String(i)));
+    await savePlayerSession({ currentTrack: track("x"), queue: [], history, currentTime: 0, isShuffled: false, repeatMode: "off" });
+    const session = await loadPlayerSession();
+    expect(session?.history).toHaveLength(100);
+    expect(session?.history[99].id).toBe("149");
+  });
+
+  it("returns null after clearing", async () => {
+    await clearPlayerSession();
+    expect(await loadPlayerSession()).toBeNull();
+  });
+});
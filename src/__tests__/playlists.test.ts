@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  addToPlaylist,
+  createPlaylist,
+  createPlaylistEntry,
+  deletePlaylist,
+  exportJSON,
+  exportM3U,
+  exportXSPF,
+  getPlaylists,
+  importPlaylist,
+  moveEntry,
+  parsePlaylistFile,
+  parseTrackLength,
+  removeFromPlaylist,
+  renamePlaylist,
+  type PlaylistEntry,
+} from "@/src/lib/playlists";
+import type { Era, TALeak } from "@/src/types";
+
+const ERA = { name: "Graduation", image: "https://img/era.png" } as Era;
+const TRACK = {
+  name: "Song & <Friends>",
+  extra: "(prod. X)",
+  url: "https://pillows.su/f/abc",
+  urls: ["https://pillows.su/f/abc", "https://pixeldrain.com/u/def"],
+  track_length: "3:05",
+  quality: "CD Quality",
+} as TALeak;
+
+function entry(): PlaylistEntry {
+  return createPlaylistEntry(TRACK, ERA, { trackerId: "tracker-1", tab: "Unreleased", artistName: "Kanye West" })!;
+}
+
+describe("playlists", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("builds entries with tracker context and mirrors", () => {
+    const e = entry();
+    expect(e.url).toBe(TRACK.url);
+    expect(e.mirrors).toEqual([TRACK.url, "https://pixeldrain.com/u/def"]);
+    expect(e).toMatchObject({ trackerId: "tracker-1", tab: "Unreleased", eraName: "Graduation", quality: "CD Quality" });
+    expect(createPlaylistEntry({ name: "No link" } as TALeak, ERA, { trackerId: "t" })).toBeNull();
+  });
+
+  it("creates, renames, reorders and deletes playlists", () => {
+    const p = createPlaylist("  Best of  ");
+    expect(p.name).toBe("Best of");
+    const second = { ...entry(), id: "2", url: "https://pillows.su/f/xyz", mirrors: ["https://pillows.su/f/xyz"] };
+    addToPlaylist(p.id, [entry(), second, entry()]);
+    expect(getPlaylists()[0].entries.map((e) => e.url)).toEqual([TRACK.url, second.url]);
+    moveEntry(p.id, 1, 0);
+    expect(getPlaylists()[0].entries[0].url).toBe(second.url);
+    removeFromPlaylist(p.id, 0);
+    expect(getPlaylists()[0].entries).toHaveLength(1);
+    expect(renamePlaylist(p.id, "Compilation")[0].name).toBe("Compilation");
+    expect(deletePlaylist(p.id)).toEqual([]);
+  });
+
+  it("parses track lengths", () => {
+    expect(parseTrackLength("3:05")).toBe(185);
+    expect(parseTrackLength("1:02:03")).toBe(3723);
+    expect(parseTrackLength("?:??")).toBeNull();
+    expect(parseTrackLength(undefined)).toBeNull();
+  });
+
+  it("round-trips through M3U8 using playable locations", () => {
+    const p = createPlaylist("Mix", [entry()]);
+    const m3u = exportM3U(p, new Map([[TRACK.url!, "https://api.pillows.su/api/download/abc"]]));
+    expect(m3u).toContain("#EXTINF:185,Kanye West - Song & <Friends>");
+    expect(m3u).toContain("https://api.pillows.su/api/download/abc");
+    const parsed = parsePlaylistFile(m3u, "mix.m3u8");
+    expect(parsed.name).toBe("Mix");
+    expect(parsed.entries[0]).toMatchObject({ name: "Song & <Friends>", artistName: "Kanye West", eraName: "Graduation", trackLength: "3:05" });
+  });
+
+  it("keeps M3U file names that aren't valid URL escapes", () => {
+    const parsed = parsePlaylistFile("#EXTM3U\nhttps://x.com/100%.mp3\nhttps://x.com/My%20Song.mp3\n", "mix.m3u");
+    expect(parsed.entries.map((e) => e.name)).toEqual(["100%.mp3", "My Song.mp3"]);
+  });
+
+  it("round-trips through XSPF keeping tracker metadata and mirrors", () => {
+    const p = createPlaylist("Mix", [entry()]);
+    const xspf = exportXSPF(p);
+    expect(xspf).toContain("<title>Song &amp; &lt;Friends&gt;</title>");
+    const parsed = parsePlaylistFile(xspf, "mix.xspf");
+    expect(parsed.entries[0]).toMatchObject({
+      name: "Song & <Friends>",
+      url: TRACK.url,
+      trackerId: "tracker-1",
+      tab: "Unreleased",
+      mirrors: [TRACK.url, "https://pixeldrain.com/u/def"],
+      trackLength: "3:05",
+    });
+  });
+
+  it("round-trips through native JSON", () => {
+    const p = createPlaylist("Mix", [entry()]);
+    const imported = importPlaylist(exportJSON(p), "whatever.json");
+    expect(imported.id).not.toBe(p.id);
+    expect(imported.name).toBe("Mix");
+    expect(imported.entries).toEqual(p.entries);
+    expect(getPlaylists()).toHaveLength(2);
+  });
+
+  it("only takes known text fields from JSON entries", () => {
+    const json = JSON.stringify({
+      format: "artistgrid-playlist",
+      entries: [{ url: "https://x.com/a.mp3", id: "forged", name: 7, tab: { x: 1 }, trackerId: "t1", mirrors: ["https://x.com/b.mp3", 3], bogus: true }],
+    });
+    const [parsed] = parsePlaylistFile(json, "x.json").entries;
+    expect(parsed).toEqual({
+      id: expect.not.stringMatching("forged"),
+      name: "Unknown",
+      extra: "",
+      url: "https://x.com/b.mp3",
+      trackerId: "t1",
+      mirrors: ["https://x.com/b.mp3"],
+    });
+  });
+
+  it("rejects empty or foreign files", () => {
+    expect(() => importPlaylist("#EXTM3U\n", "empty.m3u")).toThrow();
+    expect(() => importPlaylist('{"foo":1}', "x.json")).toThrow();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
-import { renderHook, act } from "@testing-library/react";
+import { renderHook, act, waitFor } from "@testing-library/react";
 import { PlayerProvider, usePlayer } from "@/src/providers";
 import type { Track } from "@/src/types";
 
@@ -112,4 +112,16 @@ describe("PlayerProvider", () => {
     act(() => result.current.togglePlayPause());
     expect(playSpy).toHaveBeenCalled();
   });
+
+  it("refreshes the next queued track's expiring link in the background", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ mediaType: "audio/mpeg", cdnUrl: "https://cdn.example/fresh.mp3" }))
+    );
+    const { result } = setup();
+    act(() => result.current.playTrack(track("1", "https://x.com/1.mp3")));
+    act(() => result.current.addToQueue({ ...track("2", "https://cdn.example/old.mp3"), url: "https://imgur.gg/queued1", source: "imgur" }));
+    await waitFor(() => expect(result.current.state.queue[0].playableUrl).toBe("https://cdn.example/fresh.mp3"));
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    fetchSpy.mockRestore();
+  });
 });
@@ -57,7 +57,7 @@ describe("getTrackSource", () => {
   });
 
   it("returns unknown for unrecognized URLs", () => {
-    expect(getTrackSource("https://example.com/file.mp3")).toBe("unknown");
+    expect(getTrackSource("https://example.com/file.txt")).toBe("unknown");
   });
 });
 
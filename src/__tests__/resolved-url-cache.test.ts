@@ -0,0 +1,95 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  REFRESH_MARGIN_MS,
+  UNRESOLVED_TTL_MS,
+  clearResolvedUrls,
+  getResolvedUrl,
+  getResolvedUrls,
+  isStaleLink,
+  refreshDelay,
+  rememberResolvedUrl,
+  resolveUrlCached,
+} from "@/src/lib/resolved-url-cache";
+import { getResolverById } from "@/src/lib/source-resolvers";
+
+const IMGUR = "https://imgur.gg/aBcDeF";
+const PILLOWS = "https://pillows.su/f/abc123";
+const IMGUR_TTL = getResolverById("imgur").ttl!;
+
+function mockImgur(cdnUrl: string) {
+  return vi.spyOn(globalThis, "fetch").mockImplementation(async () =>
+    new Response(JSON.stringify({ mediaType: "audio/mpeg", cdnUrl }))
+  );
+}
+
+beforeEach(() => clearResolvedUrls());
+afterEach(() => vi.restoreAllMocks());
+
+describe("resolveUrlCached", () => {
+  it("reuses a resolution and shares in-flight requests", async () => {
+    const fetchSpy = mockImgur("https://cdn.example/a.mp3");
+    const [a, b] = await Promise.all([resolveUrlCached(IMGUR), resolveUrlCached(IMGUR)]);
+    expect(a).toBe("https://cdn.example/a.mp3");
+    expect(b).toBe(a);
+    expect(await resolveUrlCached(IMGUR)).toBe(a);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("resolves again when forced", async () => {
+    mockImgur("https://cdn.example/a.mp3");
+    await resolveUrlCached(IMGUR);
+    vi.restoreAllMocks();
+    mockImgur("https://cdn.example/b.mp3");
+    expect(await resolveUrlCached(IMGUR, { force: true })).toBe("https://cdn.example/b.mp3");
+    expect(getResolvedUrl(IMGUR)).toBe("https://cdn.example/b.mp3");
+  });
+});
+
+describe("expiry", () => {
+  it("expires each link after its host's TTL", () => {
+    rememberResolvedUrl(IMGUR, "https://cdn.example/a.mp3", 0);
+    rememberResolvedUrl(PILLOWS, "https://api.pillows.su/api/download/abc123", 0);
+    expect(getResolvedUrls([IMGUR, PILLOWS], IMGUR_TTL - 1).size).toBe(2);
+    const later = getResolvedUrls([IMGUR, PILLOWS], IMGUR_TTL);
+    expect(later.has(IMGUR)).toBe(false);
+    expect(later.get(PILLOWS)).toBe("https://api.pillows.su/api/download/abc123");
+  });
+
+  it("retries links that didn't resolve", () => {
+    rememberResolvedUrl(PILLOWS, null, 0);
+    expect(getResolvedUrl(PILLOWS, UNRESOLVED_TTL_MS - 1)).toBeNull();
+    expect(getResolvedUrl(PILLOWS, UNRESOLVED_TTL_MS)).toBeUndefined();
+  });
+
+  it("schedules refreshes ahead of expiry", () => {
+    expect(refreshDelay(PILLOWS)).toBeNull();
+    expect(refreshDelay(IMGUR, 0)).toBe(0);
+    rememberResolvedUrl(IMGUR, "https://cdn.example/a.mp3", 1000);
+    expect(refreshDelay(IMGUR, 1000)).toBe(IMGUR_TTL - REFRESH_MARGIN_MS);
+    expect(refreshDelay(IMGUR, 1000 + IMGUR_TTL)).toBe(0);
+  });
+});
+
+describe("isStaleLink", () => {
+  const respond = (status: number) => vi.fn().mockResolvedValue(new Response(null, { status })) as unknown as typeof fetch;
+
+  it("treats 403 and 410 as an expired URL", async () => {
+    rememberResolvedUrl(IMGUR, "https://cdn.example/a.mp3");
+    expect(await isStaleLink(IMGUR, "https://cdn.example/a.mp3", respond(403))).toBe(true);
+    expect(await isStaleLink(IMGUR, "https://cdn.example/a.mp3", respond(410))).toBe(true);
+    expect(await isStaleLink(IMGUR, "https://cdn.example/a.mp3", respond(404))).toBe(false);
+  });
+
+  it("doesn't probe links already past their TTL", async () => {
+    const fetchImpl = respond(200);
+    rememberResolvedUrl(IMGUR, "https://cdn.example/a.mp3", Date.now() - IMGUR_TTL);
+    expect(await isStaleLink(IMGUR, "https://cdn.example/a.mp3", fetchImpl)).toBe(true);
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it("isn't stale when the probe fails", async () => {
+    const fetchImpl = vi.fn().mockRejectedValue(new TypeError("Failed to fetch")) as unknown as typeof fetch;
+    expect(await isStaleLink(PILLOWS, "https://api.pillows.su/api/download/abc123", fetchImpl)).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  approveScrobbles,
+  clearScrobbleLog,
+  discardScrobbles,
+  enqueueScrobble,
+  flushScrobbleQueue,
+  getScrobbleLog,
+  retryDelay,
+  retryFailedScrobbles,
+  type Listen,
+  type ScrobbleSender,
+} from "@/src/lib/scrobble-queue";
+
+const now = () => Math.floor(Date.now() / 1000);
+const listen = (track: string, ago = 0): Listen => ({ artist: "A", track, album: "Era", timestamp: now() - ago });
+
+function sender(result: () => Awaited<ReturnType<ScrobbleSender["send"]>>, batchSize = 50) {
+  const send = vi.fn(async (_listens: Listen[]) => result());
+  return { batchSize, send } satisfies ScrobbleSender;
+}
+
+describe("scrobble-queue", () => {
+  beforeEach(async () => {
+    await discardScrobbles((await getScrobbleLog()).map((e) => e.id));
+    await retryFailedScrobbles();
+    await flushScrobbleQueue({ lastfm: sender(() => ({ ok: true })), listenbrainz: sender(() => ({ ok: true })) }, true);
+    await clearScrobbleLog();
+  });
+
+  it("backs off exponentially up to an hour", () => {
+    expect(retryDelay(1)).toBe(30_000);
+    expect(retryDelay(3)).toBe(120_000);
+    expect(retryDelay(20)).toBe(3_600_000);
+  });
+
+  it("ignores the same listen queued twice for a target", async () => {
+    expect(await enqueueScrobble(listen("One"), ["lastfm", "listenbrainz"])).toHaveLength(2);
+    expect(await enqueueScrobble({ ...listen("one"), timestamp: now() + 5 }, ["lastfm"])).toHaveLength(0);
+    expect(await getScrobbleLog()).toHaveLength(2);
+  });
+
+  it("keeps scrobbles while offline and sends them in batches later", async () => {
+    for (let i = 0; i < 3; i++) await enqueueScrobble(listen(`T${i}`, 300 - i * 60), ["lastfm"]);
+    const offline = sender(() => ({ ok: false, retryable: true, error: "Failed to fetch" }), 2);
+    await flushScrobbleQueue({ lastfm: offline });
+    expect(offline.send).toHaveBeenCalledTimes(1);
+    const log = await getScrobbleLog();
+    expect(log.every((e) => e.status === "pending")).toBe(true);
+    expect(log.filter((e) => e.attempts === 1)).toHaveLength(2);
+
+    const online = sender(() => ({ ok: true }), 2);
+    await flushScrobbleQueue({ lastfm: online });
+    expect(online.send).toHaveBeenCalledTimes(1);
+    expect(online.send.mock.calls[0][0].map((l) => l.track)).toEqual(["T2"]);
+
+    await flushScrobbleQueue({ lastfm: online }, true);
+    expect(online.send.mock.calls[1][0].map((l) => l.track)).toEqual(["T0", "T1"]);
+    expect((await getScrobbleLog()).every((e) => e.status === "sent")).toBe(true);
+  });
+
+  it("marks rejected scrobbles failed and retries them on request", async () => {
+    await enqueueScrobble(listen("Bad"), ["listenbrainz"]);
+    await flushScrobbleQueue({ listenbrainz: sender(() => ({ ok: false, retryable: false, error: "Invalid track" })) });
+    expect(await getScrobbleLog()).toMatchObject([{ status: "failed", lastError: "Invalid track" }]);
+    await retryFailedScrobbles();
+    await flushScrobbleQueue({ listenbrainz: sender(() => ({ ok: true })) });
+    expect(await getScrobbleLog()).toMatchObject([{ status: "sent", attempts: 2 }]);
+  });
+
+  it("holds reviewed scrobbles until they are approved with corrections", async () => {
+    const [first, second] = await enqueueScrobble(listen("Song [V2]"), ["lastfm", "maloja"], true);
+    await enqueueScrobble(listen("Skip me", 120), ["lastfm"], true);
+    const send = sender(() => ({ ok: true }));
+    await flushScrobbleQueue({ lastfm: send, maloja: send }, true);
+    expect(send.send).not.toHaveBeenCalled();
+
+    await approveScrobbles([first.id, second.id], { track: "Song" });
+    const skipped = (await getScrobbleLog()).find((e) => e.track === "Skip me")!;
+    await discardScrobbles([skipped.id]);
+    await flushScrobbleQueue({ lastfm: send, maloja: send });
+    expect(send.send.mock.calls.map(([listens]) => listens[0].track)).toEqual(["Song", "Song"]);
+    const log = await getScrobbleLog();
+    expect(log).toHaveLength(2);
+    expect(log.every((e) => e.status === "sent")).toBe(true);
+  });
+
+  it("gives up on listens older than two weeks", async () => {
+    await enqueueScrobble(listen("Old", 15 * 24 * 60 * 60), ["lastfm"]);
+    const send = sender(() => ({ ok: true }));
+    await flushScrobbleQueue({ lastfm: send });
+    expect(send.send).not.toHaveBeenCalled();
+    expect(await getScrobbleLog()).toMatchObject([{ status: "failed", lastError: "Too old to submit" }]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS } from "@/src/lib/settings";
+import {
+  SUGGESTED_SCROBBLE_RULES,
+  applyScrobbleRules,
+  cleanTitle,
+  findArtistOverride,
+  validateTitlePattern,
+  type ScrobbleRules,
+} from "@/src/lib/scrobble-rules";
+
+const rules: ScrobbleRules = {
+  ...DEFAULT_SETTINGS.scrobbling.rules,
+  ...SUGGESTED_SCROBBLE_RULES,
+  artistOverrides: [{ tracker: "1abc", artist: "Kanye West" }, { tracker: "Ye Leaks", artist: "Ye" }],
+};
+const track = { trackerId: "1abc", artistName: "Kanye West Tracker", extra: "(feat. Travis Scott & Kid Cudi) (prod. Mike Dean)" };
+
+describe("scrobble-rules", () => {
+  it("leaves scrobbles untouched by default", () => {
+    const base = { artist: "Kanye West Tracker", track: "Father Stretch [V1]" };
+    expect(applyScrobbleRules(base, track, DEFAULT_SETTINGS.scrobbling.rules)).toEqual(base);
+  });
+
+  it("strips version tags and producer credits with the suggested rules", () => {
+    expect(cleanTitle("Hurricane [V2] (prod. Boi-1da)", rules.titleRules)).toBe("Hurricane");
+    expect(cleanTitle("[Snippet]", rules.titleRules)).toBe("[Snippet]");
+  });
+
+  it("applies user patterns in order and skips invalid ones", () => {
+    const titleRules = [{ pattern: "(", replacement: "" }, { pattern: "\\bv(\\d)\\b", replacement: "Version $1" }];
+    expect(cleanTitle("Song v3", titleRules)).toBe("Song Version 3");
+    expect(validateTitlePattern("(")).toBeTruthy();
+    expect(validateTitlePattern("\\[.*\\]")).toBeNull();
+  });
+
+  it("overrides the artist by tracker id or name", () => {
+    expect(findArtistOverride(rules.artistOverrides, track)?.artist).toBe("Kanye West");
+    expect(findArtistOverride(rules.artistOverrides, { artistName: "ye leaks" })?.artist).toBe("Ye");
+    expect(findArtistOverride(rules.artistOverrides, { artistName: "Other" })).toBeUndefined();
+  });
+
+  it("maps extra credits into featured artists", () => {
+    const base = { artist: "Kanye West Tracker", track: "Father Stretch [V1]", album: "TLOP" };
+    expect(applyScrobbleRules(base, track, rules)).toEqual({
+      artist: "Kanye West",
+      track: "Father Stretch (feat. Travis Scott, Kid Cudi)",
+      album: "TLOP",
+    });
+    expect(applyScrobbleRules(base, track, { ...rules, featuring: "artist" })).toMatchObject({
+      artist: "Kanye West feat. Travis Scott, Kid Cudi",
+      track: "Father Stretch",
+    });
+    expect(applyScrobbleRules({ ...base, track: "Song (feat. Someone)" }, track, { ...rules, titleRules: [] }).track).toBe("Song (feat. Someone)");
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Listen } from "@/src/lib/scrobble-queue";
+import { DEFAULT_SETTINGS } from "@/src/lib/settings";
+import {
+  connectLibreFm,
+  createLastFmSender,
+  createListenBrainzSender,
+  createMalojaSender,
+  createScrobbleSenders,
+  createWebhookSender,
+  testMalojaConnection,
+  testWebhookConnection,
+} from "@/src/lib/scrobblers";
+
+const now = () => Math.floor(Date.now() / 1000);
+const listen = (track: string, ago = 0): Listen => ({ artist: "A", track, album: "Era", timestamp: now() - ago });
+const calls = (mock: ReturnType<typeof vi.fn>) => mock.mock.calls as unknown as Array<[string, RequestInit | undefined]>;
+
+describe("scrobblers", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("sends indexed batch scrobbles to Last.fm and imports to ListenBrainz", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const lastfm = createLastFmSender({ url: "https://lastfm.test", key: "k", secret: "s", sessionKey: "sk" });
+    await lastfm.send([listen("One", 60), listen("Two")]);
+    const body = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as URLSearchParams;
+    expect(body.get("method")).toBe("track.scrobble");
+    expect(body.get("track[1]")).toBe("Two");
+    expect(body.get("api_sig")).toMatch(/^[0-9a-f]{32}$/);
+
+    const lb = createListenBrainzSender({ apiUrl: "https://lb.test/", token: "t" });
+    await lb.send([listen("One", 60), listen("Two")]);
+    const [url, init] = fetchMock.mock.calls[1] as unknown as [string, RequestInit];
+    expect(url).toBe("https://lb.test/1/submit-listens");
+    expect(JSON.parse(String(init.body))).toMatchObject({ listen_type: "import", payload: [{ track_metadata: { track_name: "One" } }, {}] });
+  });
+
+  it("retries Last.fm outages but not rejected requests", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ error: 16, message: "Try again" }))));
+    const lastfm = createLastFmSender({ url: "https://lastfm.test", key: "k", secret: "s", sessionKey: "sk" });
+    expect(await lastfm.send([listen("One")])).toEqual({ ok: false, retryable: true, error: "Try again" });
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ error: 6, message: "Invalid parameters" }))));
+    expect(await lastfm.send([listen("One")])).toEqual({ ok: false, retryable: false, error: "Invalid parameters" });
+  });
+
+  it("only builds senders for enabled and configured services", () => {
+    const settings = structuredClone(DEFAULT_SETTINGS.scrobbling);
+    expect(Object.keys(createScrobbleSenders({ settings }))).toEqual([]);
+    settings.maloja = { enabled: true, url: "https://maloja.test", apiKey: "k" };
+    settings.librefm = { ...settings.librefm, enabled: true, sessionKey: "" };
+    settings.webhook = { enabled: false, url: "https://hook.test", authorization: "" };
+    expect(Object.keys(createScrobbleSenders({ settings, lastfmSessionKey: "sk" }))).toEqual(["lastfm", "maloja"]);
+  });
+
+  it("posts scrobbles to Maloja and reports a bad key", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.includes("/test") ? new Response('{"status":"error"}', { status: 403 }) : new Response('{"status":"success"}')
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const config = { url: "https://maloja.test/", apiKey: "secret" };
+    expect(await createMalojaSender(config).send([listen("One")])).toEqual({ ok: true });
+    const [url, init] = calls(fetchMock)[0];
+    expect(url).toBe("https://maloja.test/apis/mlj_1/newscrobble");
+    expect(JSON.parse(String(init?.body))).toMatchObject({ key: "secret", artists: ["A"], title: "One", album: "Era" });
+    expect(await testMalojaConnection(config)).toEqual({ ok: false, message: "Maloja rejected the API key" });
+  });
+
+  it("sends webhook scrobbles with the configured authorization", async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 503 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const config = { url: "https://hook.test/scrobble", authorization: "Bearer t" };
+    expect(await createWebhookSender(config).send([listen("One")])).toMatchObject({ ok: false, retryable: true });
+    const [, init] = calls(fetchMock)[0];
+    expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer t");
+    expect(JSON.parse(String(init?.body))).toMatchObject({ event: "scrobble", artist: "A", track: "One" });
+    expect(await testWebhookConnection({ ...config, url: "hook.test" })).toEqual({ ok: false, message: "Enter a full http(s) URL" });
+  });
+
+  it("signs in to Libre.fm for a session key", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ session: { name: "me", key: "abc" } })));
+    vi.stubGlobal("fetch", fetchMock);
+    const result = await connectLibreFm(DEFAULT_SETTINGS.scrobbling.librefm, "me", "pw");
+    expect(result).toEqual({ ok: true, message: "Connected as me", sessionKey: "abc" });
+    const [url, init] = calls(fetchMock)[0];
+    expect(url).toBe("https://libre.fm/2.0/");
+    expect((init?.body as URLSearchParams).get("method")).toBe("auth.getMobileSession");
+  });
+});
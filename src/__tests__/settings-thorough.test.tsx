@@ -72,6 +72,17 @@ describe("SettingsModal (thorough)", () => {
     expect(loadSettings().scrobbling.listenbrainz.enabled).toBe(false);
   });
 
+  it("starts with no scrobble rules and applies the suggested ones on request", async () => {
+    render(wrap(<SettingsModal onClose={() => {}} />));
+    await openTab("Scrobbling");
+    expect(loadSettings().scrobbling.rules).toMatchObject({ titleRules: [], featuring: "off" });
+    await userEvent.click(screen.getByRole("button", { name: "Apply" }));
+    const { rules } = loadSettings().scrobbling;
+    expect(rules.featuring).toBe("title");
+    expect(rules.titleRules).toHaveLength(2);
+    expect(screen.getByRole("button", { name: "Applied" })).toBeDisabled();
+  });
+
   it("toggles behavior switches and updates custom font", async () => {
     render(wrap(<SettingsModal onClose={() => {}} />));
     await openTab("Behavior");
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Music } from "lucide-react";
+import {
+  getResolverById,
+  getSourceCapabilities,
+  getSourceResolver,
+  listSourceResolvers,
+  registerSourceResolver,
+} from "@/src/lib/source-resolvers";
+import { getTrackSource, resolvePlayableUrl, transformUrlForOpening } from "@/src/lib/resolve-url";
+import { getSourceDisplayName, isSupportedSource } from "@/src/lib/track-utils";
+import { resolveNextMirror } from "@/src/lib/mirror-fallback";
+import { probeLink } from "@/src/lib/link-health";
+
+afterEach(() => vi.restoreAllMocks());
+
+describe("built-in resolvers", () => {
+  it("passes direct audio file links through", async () => {
+    expect(getTrackSource("https://example.com/music/song.mp3?dl=1")).toBe("direct");
+    expect(await resolvePlayableUrl("https://cdn.example.org/a/b.FLAC")).toBe("https://cdn.example.org/a/b.FLAC");
+    expect(getTrackSource("https://example.com/page.html")).toBe("unknown");
+  });
+
+  it("resolves Catbox and Litterbox audio files", async () => {
+    expect(getTrackSource("https://files.catbox.moe/abc123.mp3")).toBe("catbox");
+    expect(getTrackSource("https://litter.catbox.moe/xyz.m4a")).toBe("catbox");
+    expect(await resolvePlayableUrl("https://litter.catbox.moe/xyz.m4a")).toBe("https://litter.catbox.moe/xyz.m4a");
+    expect(await resolvePlayableUrl("https://files.catbox.moe/abc123.png")).toBeNull();
+  });
+
+  it("resolves archive.org file links without a request", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    expect(await resolvePlayableUrl("https://archive.org/details/item-1/Disc%201/01.mp3")).toBe(
+      "https://archive.org/download/item-1/Disc%201/01.mp3"
+    );
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("picks an audio file from archive.org item metadata", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ files: [{ name: "cover.jpg" }, { name: "track 1.flac" }, { name: "track 1.mp3" }] }))
+    );
+    expect(getTrackSource("https://archive.org/details/item-1")).toBe("archive");
+    expect(await resolvePlayableUrl("https://archive.org/details/item-1")).toBe(
+      "https://archive.org/download/item-1/track%201.mp3"
+    );
+  });
+
+  it("exposes names and capabilities", () => {
+    expect(getSourceDisplayName("archive")).toBe("Internet Archive");
+    expect(getSourceDisplayName("not-a-host")).toBe("Unknown");
+    expect(getSourceCapabilities("youtube").downloadable).toBe(false);
+    expect(isSupportedSource("catbox")).toBe(true);
+    expect(isSupportedSource("juicewrldapi")).toBe(false);
+    expect(transformUrlForOpening("https://soundcloud.com/a/b")).toBe("https://sc.monochrome.tf/a/b");
+  });
+});
+
+describe("registerSourceResolver", () => {
+  it("adds a host ahead of the direct file fallback and can be removed", async () => {
+    const unregister = registerSourceResolver({
+      id: "mega",
+      name: "Mega",
+      icon: Music,
+      capabilities: { playable: true, network: true, seekable: true, downloadable: false, embedOnly: false },
+      match: (url) => url.includes("mega.nz/"),
+      resolve: async (url) => `https://proxy.example/${encodeURIComponent(url)}`,
+    });
+    expect(getTrackSource("https://mega.nz/file/song.mp3")).toBe("mega");
+    expect(getResolverById("mega").name).toBe("Mega");
+    expect(isSupportedSource("mega")).toBe(true);
+    expect(await resolvePlayableUrl("https://mega.nz/file/x")).toBe("https://proxy.example/https%3A%2F%2Fmega.nz%2Ffile%2Fx");
+    expect(listSourceResolvers().at(-1)?.id).toBe("direct");
+    unregister();
+    expect(getTrackSource("https://mega.nz/file/song.mp3")).toBe("direct");
+  });
+
+  it("skips embed-only hosts as mirrors and probes them through their check endpoint", async () => {
+    const unregister = registerSourceResolver({
+      id: "vidhost",
+      name: "VidHost",
+      icon: Music,
+      capabilities: { playable: true, network: false, seekable: false, downloadable: false, embedOnly: true },
+      match: (url) => url.startsWith("https://vid.example/"),
+      resolve: () => "https://vid.example/should-not-play.mp3",
+      embedUrl: (url) => url.replace("/v/", "/embed/"),
+      probeUrl: (url) => `https://vid.example/check?url=${encodeURIComponent(url)}`,
+    });
+    const track = { id: "t", name: "T", extra: "", url: "https://a.example/1.mp3", playableUrl: "https://a.example/1.mp3", source: "direct" as const };
+    const next = await resolveNextMirror({ ...track, mirrors: [track.url, "https://vid.example/v/1", "https://b.example/2.mp3"] }, new Set([track.url]));
+    expect(next?.url).toBe("https://b.example/2.mp3");
+    const fetchImpl = vi.fn().mockResolvedValue(new Response(null, { status: 403 })) as unknown as typeof fetch;
+    expect((await probeLink("https://vid.example/v/1", fetchImpl)).status).toBe("dead");
+    expect(vi.mocked(fetchImpl).mock.calls[0][0]).toBe("https://vid.example/check?url=https%3A%2F%2Fvid.example%2Fv%2F1");
+    unregister();
+  });
+
+  it("replaces a resolver with the same id", () => {
+    const original = getResolverById("pillows");
+    const unregister = registerSourceResolver({ ...original, name: "Pillows mirror" });
+    expect(getSourceDisplayName("pillows")).toBe("Pillows mirror");
+    unregister();
+    registerSourceResolver(original);
+    expect(getSourceResolver("https://pillowcase.su/f/abc").name).toBe("Pillows");
+  });
+
+  it("logs and returns null when a resolver throws", async () => {
+    const unregister = registerSourceResolver({
+      ...getResolverById("direct"),
+      id: "broken",
+      match: (url) => url.startsWith("https://broken.example/"),
+      resolve: () => Promise.reject(new Error("boom")),
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await resolvePlayableUrl("https://broken.example/a")).toBeNull();
+    unregister();
+  });
+});
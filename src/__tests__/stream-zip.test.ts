@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { crc32, createZipWriter } from "@/src/lib/stream-zip";
+import { renderPathTemplate } from "@/src/lib/download-template";
+
+function collectingStream() {
+  const chunks: Uint8Array[] = [];
+  const writable = new WritableStream<Uint8Array>({
+    write(chunk) {
+      chunks.push(chunk);
+    },
+  });
+  const bytes = () => {
+    const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let at = 0;
+    for (const c of chunks) {
+      out.set(c, at);
+      at += c.length;
+    }
+    return out;
+  };
+  return { writable, chunks, bytes };
+}
+
+describe("stream-zip", () => {
+  it("computes standard CRC-32 values, incrementally", () => {
+    const data = new TextEncoder().encode("123456789");
+    expect(crc32(data)).toBe(0xcbf43926);
+    expect(crc32(data.subarray(4), crc32(data.subarray(0, 4)))).toBe(0xcbf43926);
+  });
+
+  it("writes an archive other zip readers can open", async () => {
+    const sink = collectingStream();
+    const zip = createZipWriter(sink.writable);
+    await zip.addFile("Artist/Era/Song.mp3", new Blob([new Uint8Array([1, 2, 3])]));
+    await zip.addFile("Artist/Ерa/Ünïcode.flac", new Blob(["hello"]));
+    await zip.close();
+
+    const read = await JSZip.loadAsync(sink.bytes());
+    expect(Object.keys(read.files).sort()).toEqual(["Artist/Era/Song.mp3", "Artist/Ерa/Ünïcode.flac"]);
+    expect(Array.from(await read.file("Artist/Era/Song.mp3")!.async("uint8array"))).toEqual([1, 2, 3]);
+    expect(await read.file("Artist/Ерa/Ünïcode.flac")!.async("string")).toBe("hello");
+  });
+
+  it("streams each file as it is added instead of at close", async () => {
+    const sink = collectingStream();
+    const zip = createZipWriter(sink.writable);
+    await zip.addFile("a.mp3", new Blob([new Uint8Array(64)]));
+    const written = sink.chunks.reduce((n, c) => n + c.length, 0);
+    expect(written).toBeGreaterThan(64);
+    expect(zip.fileCount).toBe(1);
+    await zip.close();
+  });
+
+  it("renames duplicate paths rather than overwriting them", async () => {
+    const sink = collectingStream();
+    const zip = createZipWriter(sink.writable);
+    await zip.addFile("Era/Song.mp3", new Blob(["a"]));
+    await zip.addFile("Era/song.mp3", new Blob(["b"]));
+    await zip.close();
+    const read = await JSZip.loadAsync(sink.bytes());
+    expect(Object.keys(read.files).sort()).toEqual(["Era/Song.mp3", "Era/song (2).mp3"]);
+  });
+});
+
+describe("renderPathTemplate", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("expands variables into folders", () => {
+    expect(renderPathTemplate("{artist}/{era}/{track}.{ext}", { artist: "Kanye", era: "Yandhi", track: "Hurricane", ext: "mp3" })).toBe(
+      "Kanye/Yandhi/Hurricane.mp3"
+    );
+  });
+
+  it("keeps values from adding path segments and drops empty folders", () => {
+    expect(renderPathTemplate("{artist}/{era}/{track}.{ext}", { artist: "AC/DC", era: "", track: "a:b", ext: "flac" })).toBe(
+      "AC_DC/a_b.flac"
+    );
+  });
+
+  it("always ends in the file extension and falls back for empty templates", () => {
+    expect(renderPathTemplate("{era} - {track}", { era: "E", track: "T", ext: "m4a" })).toBe("E - T.m4a");
+    expect(renderPathTemplate("  ", { artist: "A", era: "E", track: "T", ext: "mp3" })).toBe("A/E/T.mp3");
+  });
+});
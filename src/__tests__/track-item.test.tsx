@@ -7,6 +7,7 @@ import {
   OpenLinkButton,
   TrackDescription,
   FallbackView,
+  LinkHealthBadge,
 } from "@/src/components/view/track-item";
 
 describe("track-item buttons", () => {
@@ -65,3 +66,14 @@ describe("FallbackView", () => {
     expect(screen.getByText(/Back to Home/).closest("a")).toHaveAttribute("href", "/");
   });
 });
+
+describe("LinkHealthBadge", () => {
+  it("labels checked links and hides unknown ones", () => {
+    const { rerender, container } = render(<LinkHealthBadge status="dead" />);
+    expect(screen.getByText("Dead link")).toBeInTheDocument();
+    rerender(<LinkHealthBadge status="alive" />);
+    expect(screen.getByText("Verified")).toBeInTheDocument();
+    rerender(<LinkHealthBadge status="unknown" />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Era, TALeak } from "@/src/types";
+import { describeTrackForDownload, eraTrackPosition, parseCredits } from "@/src/lib/track-metadata";
+import { buildMetadataArgs } from "@/src/lib/ffmpeg-metadata";
+import { renderPathTemplate } from "@/src/lib/download-template";
+
+const first: TALeak = { name: "Intro", id: "a" };
+const song: TALeak = {
+  name: "Hurricane",
+  id: "b",
+  extra: "(feat. The Weeknd & Lil Baby) (prod. Boi-1da)",
+  notes: "Leaked in full.",
+  quality: "CD Quality",
+  leak_date: "2019-09-12",
+  file_date: "Jun 5, 2018",
+  url: "https://pillows.su/f/abc",
+};
+const era: Era = { name: "Yandhi", image: "https://img/yandhi.jpg", data: { Default: [first], "Wyoming Sessions": [song] } };
+
+describe("track-metadata", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("parses featured artists and producers from extra", () => {
+    expect(parseCredits(song.extra)).toEqual({ featuring: ["The Weeknd", "Lil Baby"], producers: ["Boi-1da"] });
+    expect(parseCredits("[ft. A, B] (with C)")).toEqual({ featuring: ["A", "B", "C"], producers: [] });
+    expect(parseCredits(undefined)).toEqual({ featuring: [], producers: [] });
+  });
+
+  it("numbers tracks across the era's sub-era groups", () => {
+    expect(eraTrackPosition(era, song)).toEqual({ group: "Wyoming Sessions", number: 2, total: 2 });
+    expect(eraTrackPosition(era, first)).toEqual({ group: "", number: 1, total: 2 });
+  });
+
+  it("exposes tracker fields to templates", () => {
+    const { vars } = describeTrackForDownload(song, era, "Kanye West", song.url);
+    expect(renderPathTemplate("{artist}/{era}/{group}/{number} {track} [{quality}] ({leak_date}).{ext}", { ...vars, ext: "flac" })).toBe(
+      "Kanye West/Yandhi/Wyoming Sessions/02 Hurricane [CD Quality] (2019-09-12).flac"
+    );
+    expect(vars.file_date).toBe("2018-06-05");
+  });
+
+  it("builds a full tag set", () => {
+    const { metadata } = describeTrackForDownload(song, era, "Kanye West", song.url);
+    expect(metadata).toMatchObject({
+      title: "Hurricane",
+      artist: "Kanye West feat. The Weeknd, Lil Baby",
+      albumArtist: "Kanye West",
+      album: "Yandhi - Wyoming Sessions",
+      year: "2018",
+      trackNumber: 2,
+      trackTotal: 2,
+      comment: "Leaked in full.",
+      leakDate: "2019-09-12",
+      sourceUrl: "https://pillows.su/f/abc",
+      coverUrl: "https://img/yandhi.jpg",
+    });
+    const args = buildMetadataArgs(metadata);
+    expect(args).toContain("track=2/2");
+    expect(args).toContain("featuring=The Weeknd; Lil Baby");
+    expect(args).toContain("producer=Boi-1da");
+    expect(args).toContain("source_url=https://pillows.su/f/abc");
+  });
+});
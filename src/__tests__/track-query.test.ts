@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { matchesTrackQuery, parseTrackDate, parseTrackQuery } from "@/src/lib/track-query";
+import type { TALeak } from "@/src/types";
+
+const TRACKS: Array<{ track: TALeak; era: string; playable: boolean }> = [
+  {
+    era: "Donda",
+    playable: true,
+    track: { name: "Up From The Ashes", quality: "CD Quality", track_length: "3:41", leak_date: "Jul 22, 2023", url: "https://pillows.su/f/a", type: "Full" },
+  },
+  {
+    era: "Donda 2",
+    playable: false,
+    track: { name: "Eazy", quality: "Low Quality", track_length: "0:45", leak_date: "2022-01-05", url: "https://youtu.be/x", type: "Snippet", notes: "Lyrics transcribed by fans" },
+  },
+  {
+    era: "Yandhi",
+    playable: true,
+    track: { name: "Hurricane", extra: "(feat. The Weeknd)", quality: "High Quality", track_length: "4:05", url: "https://pixeldrain.com/u/b", urls: ["https://pixeldrain.com/u/b", "https://pillows.su/f/c"] },
+  },
+];
+
+function run(query: string): string[] {
+  const parsed = parseTrackQuery(query);
+  expect(parsed.errors).toEqual([]);
+  return TRACKS.filter(({ track, era, playable }) => matchesTrackQuery(parsed, track, { era, playable })).map(({ track }) => track.name);
+}
+
+describe("track-query", () => {
+  it("parses fields, negation, phrases and comparators into terms", () => {
+    expect(parseTrackQuery('era:"Donda 2" -snippet "exact phrase" length:>3:00 leaked:2023').terms).toEqual([
+      { kind: "era", value: "donda 2", negated: false },
+      { kind: "text", value: "snippet", phrase: false, negated: true },
+      { kind: "text", value: "exact phrase", phrase: true, negated: false },
+      { kind: "length", op: ">", seconds: 180, negated: false },
+      { kind: "date", field: "leaked", op: "=", start: Date.UTC(2023, 0, 1), end: Date.UTC(2024, 0, 1), negated: false },
+    ]);
+  });
+
+  it("reports errors with their position and keeps the valid terms", () => {
+    const parsed = parseTrackQuery('hurricane foo:bar length:long has:vinyl "open');
+    expect(parsed.terms).toEqual([
+      { kind: "text", value: "hurricane", phrase: false, negated: false },
+      { kind: "text", value: "foo:bar", phrase: false, negated: false },
+      { kind: "text", value: "open", phrase: true, negated: false },
+    ]);
+    expect(parsed.errors.map((e) => e.message)).toEqual([
+      expect.stringContaining('Invalid length "long"'),
+      expect.stringContaining('Unknown value "has:vinyl"'),
+      "Missing closing quote",
+    ]);
+    expect(parsed.errors[0]).toMatchObject({ start: 18, end: 29 });
+  });
+
+  it("keeps unknown field names and links as plain text", () => {
+    const parsed = parseTrackQuery("Interlude: Part 2 -skit: https://pillows.su/f/abc");
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.terms).toEqual([
+      { kind: "text", value: "interlude:", phrase: false, negated: false },
+      { kind: "text", value: "part", phrase: false, negated: false },
+      { kind: "text", value: "2", phrase: false, negated: false },
+      { kind: "text", value: "skit:", phrase: false, negated: true },
+      { kind: "text", value: "https://pillows.su/f/abc", phrase: false, negated: false },
+    ]);
+  });
+
+  it("filters by era, quality alias, source and type", () => {
+    expect(run("era:donda")).toEqual(["Up From The Ashes", "Eazy"]);
+    expect(run('era:"donda 2"')).toEqual(["Eazy"]);
+    expect(run("quality:cdq")).toEqual(["Up From The Ashes"]);
+    expect(run("source:pillows")).toEqual(["Up From The Ashes", "Hurricane"]);
+    expect(run("source:yt")).toEqual(["Eazy"]);
+    expect(run("-snippet")).toEqual(["Up From The Ashes", "Hurricane"]);
+    expect(run("-type:full")).toEqual(["Eazy", "Hurricane"]);
+  });
+
+  it("compares lengths and leak dates", () => {
+    expect(run("length:>3:00")).toEqual(["Up From The Ashes", "Hurricane"]);
+    expect(run("length:<=45")).toEqual(["Eazy"]);
+    expect(run("leaked:2023")).toEqual(["Up From The Ashes"]);
+    expect(run("leaked:<2023-07")).toEqual(["Eazy"]);
+    expect(run("leaked:>=2022-01-05")).toEqual(["Up From The Ashes", "Eazy"]);
+  });
+
+  it("reads leak dates as written west of UTC", () => {
+    const tz = process.env.TZ;
+    process.env.TZ = "America/Los_Angeles";
+    try {
+      expect(new Date(2023, 5, 1).getTimezoneOffset()).toBeGreaterThan(0);
+      expect(parseTrackDate("2023-06-01")).toBe(Date.UTC(2023, 5, 1));
+      expect(parseTrackDate("2023-06")).toBe(Date.UTC(2023, 5, 1));
+      expect(parseTrackDate("Jul 22, 2023")).toBe(Date.UTC(2023, 6, 22));
+      expect(run("leaked:2022-01-05")).toEqual(["Eazy"]);
+    } finally {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+
+  it("supports has: predicates and free text across name and extra", () => {
+    expect(run("has:lyrics")).toEqual(["Eazy"]);
+    expect(run("has:mirrors")).toEqual(["Hurricane"]);
+    expect(run("has:playable -has:mirrors")).toEqual(["Up From The Ashes"]);
+    expect(run('"the weeknd"')).toEqual(["Hurricane"]);
+    expect(run("ashes up")).toEqual(["Up From The Ashes"]);
+  });
+});
@@ -0,0 +1,62 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { buildSearchDocuments, createSearchIndex, normalizeSearchText } from "@/src/lib/track-search-index";
+import { indexTrackerTab, searchTracks } from "@/src/lib/track-search";
+import { trackResultHref } from "@/src/components/home/track-results";
+import { decodeTrackFromUrl } from "@/src/lib/track-utils";
+import type { TALeak, TrackerResponse } from "@/src/types";
+
+function tracker(name: string, eras: Record<string, TALeak[]>): TrackerResponse {
+  return {
+    name,
+    tabs: ["Unreleased", "Art"],
+    tabSlugs: { Unreleased: "unreleased", Art: "art" },
+    current_tab: "Unreleased",
+    eras: Object.fromEntries(Object.entries(eras).map(([era, tracks], i) => [`${i}:${era}`, { name: era, data: { Default: tracks } }])),
+  };
+}
+
+const KANYE = tracker("Kanye West", {
+  Yandhi: [
+    { name: "Hurricane", extra: "(feat. The Weeknd)", url: "https://pillows.su/f/1" },
+    { name: "Alien", notes: "Played during the hurricane relief stream", url: "https://pillows.su/f/2" },
+    { name: "Hurricane", url: "https://pillows.su/f/1" },
+  ],
+  Donda: [{ name: "Café Nights", url: "https://pillows.su/f/3" }],
+});
+
+describe("track-search", () => {
+  it("builds one document per track and skips non-track tabs", () => {
+    const docs = buildSearchDocuments("k", "Unreleased", KANYE);
+    expect(docs.map((d) => d.name)).toEqual(["Hurricane", "Alien", "Café Nights"]);
+    expect(docs[0]).toMatchObject({ trackerId: "k", tab: "Unreleased", tabSlug: "unreleased", artist: "Kanye West", era: "Yandhi" });
+    expect(buildSearchDocuments("k", "Art", KANYE)).toEqual([]);
+  });
+
+  it("normalizes accents and punctuation", () => {
+    expect(normalizeSearchText("  Café—Nights!! ")).toBe("cafe nights");
+  });
+
+  it("ranks name matches above notes and requires every term", async () => {
+    const index = createSearchIndex();
+    await index.add("k", "Unreleased", buildSearchDocuments("k", "Unreleased", KANYE));
+    expect((await index.search("hurricane")).map((r) => r.doc.name)).toEqual(["Hurricane", "Alien"]);
+    expect((await index.search("hurricane weeknd")).map((r) => r.doc.name)).toEqual(["Hurricane"]);
+    expect((await index.search("yandhi")).length).toBe(2);
+    expect(await index.search("cafe")).toHaveLength(1);
+    expect(await index.search("donda alien")).toEqual([]);
+  });
+
+  it("persists the index and searches across trackers", async () => {
+    await indexTrackerTab("k", "Unreleased", KANYE);
+    await indexTrackerTab("c", "Unreleased", tracker("Carti", { Narcissist: [{ name: "Hurricane Freestyle", url: "https://pillows.su/f/9" }] }));
+    const reopened = createSearchIndex();
+    expect((await reopened.search("hurricane")).map((r) => r.doc.trackerId).sort()).toEqual(["c", "k", "k"]);
+
+    const [top] = await searchTracks("hurricane freestyle");
+    expect(top.doc.artist).toBe("Carti");
+    const href = trackResultHref(top);
+    expect(href.startsWith("/sh/c/unreleased?track=")).toBe(true);
+    expect(decodeTrackFromUrl(new URLSearchParams(href.split("?")[1]).get("track")!)).toBe("https://pillows.su/f/9");
+  });
+});
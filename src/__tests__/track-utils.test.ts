@@ -8,7 +8,7 @@ import {
   decodeTrackFromUrl,
   getSourceDisplayName,
   TRACKER_ID_LENGTH,
-  SUPPORTED_SOURCES,
+  isSupportedSource,
 } from "../lib/track-utils";
 import type { TALeak } from "../../src/types";
 
@@ -132,7 +132,8 @@ describe("constants", () => {
     expect(TRACKER_ID_LENGTH).toBe(44);
   });
 
-  it("SUPPORTED_SOURCES is non-empty", () => {
-    expect(SUPPORTED_SOURCES.length).toBeGreaterThan(0);
+  it("treats playable hosts as supported", () => {
+    expect(isSupportedSource("pillows")).toBe(true);
+    expect(isSupportedSource("unknown")).toBe(false);
   });
 });
@@ -20,27 +20,20 @@ describe("tracker-cache", () => {
   });
 
   it("stores and retrieves an entry", () => {
-    setCache("abc", response(), { "u1": "r1" });
+    setCache("abc", response());
     const entry = getCache("abc");
     expect(entry).not.toBeNull();
-    expect(entry!.resolvedUrls["u1"]).toBe("r1");
-  });
-
-  it("merges resolved urls across writes", () => {
-    setCache("abc", response(), { "u1": "r1" });
-    setCache("abc", response(), { "u2": "r2" });
-    const entry = getCache("abc");
-    expect(entry!.resolvedUrls).toEqual({ u1: "r1", u2: "r2" });
+    expect(entry!.data.name).toBe("Artist");
   });
 
   it("scopes by tab", () => {
-    setCache("abc", response(), {}, "tab1");
+    setCache("abc", response(), "tab1");
     expect(getCache("abc")).toBeNull();
     expect(getCache("abc", "tab1")).not.toBeNull();
   });
 
   it("clears a single tracker", () => {
-    setCache("abc", response(), {});
+    setCache("abc", response());
     clearCache("abc");
     expect(getCache("abc")).toBeNull();
   });
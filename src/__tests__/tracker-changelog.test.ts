@@ -0,0 +1,91 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createSnapshot,
+  diffSnapshots,
+  getSnapshotHistory,
+  getUnseenChanges,
+  isChangelogEmpty,
+  markChangesSeen,
+  recordSnapshot,
+} from "@/src/lib/tracker-changelog";
+import type { TALeak, TrackerResponse } from "@/src/types";
+
+const leak = (name: string, urls: string[], quality?: string): TALeak => ({ name, url: urls[0], urls, quality, id: urls[0] });
+
+function tracker(eras: Record<string, TALeak[]>): TrackerResponse {
+  return {
+    name: "Artist",
+    tabs: ["Unreleased"],
+    current_tab: "Unreleased",
+    eras: Object.fromEntries(Object.entries(eras).map(([name, tracks], i) => [`${i}:${name}`, { name, data: { Default: tracks } }])),
+  };
+}
+
+const BASE = tracker({
+  Graduation: [leak("Song A", ["https://pillows.su/f/a"], "CD Quality"), leak("Song B", ["https://pillows.su/f/b"])],
+  Yeezus: [leak("Song C", ["https://pillows.su/f/c"])],
+});
+
+describe("tracker-changelog", () => {
+  afterEach(() => vi.useRealTimers());
+
+  it("reports nothing for identical data", () => {
+    expect(isChangelogEmpty(diffSnapshots(createSnapshot(BASE), createSnapshot(BASE)))).toBe(true);
+  });
+
+  it("detects new, removed, renamed and updated tracks and new eras", () => {
+    const next = tracker({
+      Graduation: [
+        leak("Song A (v2)", ["https://pillows.su/f/a"], "High Quality"),
+        leak("Song B", ["https://pixeldrain.com/u/b2", "https://pillows.su/f/b"]),
+        leak("Song D", ["https://pillows.su/f/d"]),
+      ],
+      Donda: [leak("Song E", ["https://pillows.su/f/e"])],
+    });
+    const changes = diffSnapshots(createSnapshot(BASE, 1), createSnapshot(next, 2));
+    expect(changes.added.map((t) => t.name)).toEqual(["Song D", "Song E"]);
+    expect(changes.removed.map((t) => t.name)).toEqual(["Song C"]);
+    expect(changes.renamed).toEqual([expect.objectContaining({ before: expect.objectContaining({ name: "Song A" }), after: expect.objectContaining({ name: "Song A (v2)" }) })]);
+    expect(changes.changed.map((c) => [c.after.name, c.fields])).toEqual([
+      ["Song A (v2)", ["quality"]],
+      ["Song B", ["links"]],
+    ]);
+    expect(changes.newEras).toEqual(["Donda"]);
+    expect(changes.removedEras).toEqual(["Yeezus"]);
+  });
+
+  it("shows changes until they are marked seen", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1000);
+    await recordSnapshot("t1", "Unreleased", BASE);
+    expect(await getUnseenChanges("t1", "Unreleased")).toBeNull();
+
+    vi.setSystemTime(2000);
+    await recordSnapshot("t1", "Unreleased", BASE);
+    expect(await getSnapshotHistory("t1", "Unreleased")).toHaveLength(1);
+
+    vi.setSystemTime(3000);
+    const next = tracker({ Graduation: [leak("Song A", ["https://pillows.su/f/a"], "CD Quality")] });
+    await recordSnapshot("t1", "Unreleased", next);
+    const unseen = await getUnseenChanges("t1", "Unreleased");
+    expect(unseen?.removed.map((t) => t.name)).toEqual(["Song B", "Song C"]);
+    expect(unseen?.since).toBe(1000);
+
+    vi.setSystemTime(4000);
+    await markChangesSeen("t1", "Unreleased");
+    expect(await getUnseenChanges("t1", "Unreleased")).toBeNull();
+  });
+
+  it("keeps a bounded snapshot history", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    for (let i = 0; i < 15; i++) {
+      vi.setSystemTime(10_000 + i);
+      await recordSnapshot("t2", "Main", tracker({ Era: [leak(`Song ${i}`, [`https://pillows.su/f/${i}`])] }));
+    }
+    const history = await getSnapshotHistory("t2", "Main");
+    expect(history).toHaveLength(10);
+    expect(history[0].takenAt).toBe(10_000);
+    expect((await getUnseenChanges("t2", "Main"))?.added.map((t) => t.name)).toEqual(["Song 14"]);
+  });
+});
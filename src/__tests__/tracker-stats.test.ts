@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { computeTrackerStats, formatRuntime } from "@/src/lib/tracker-stats";
+import type { Era, TALeak } from "@/src/types";
+
+const eras: Record<string, Era> = {
+  "0:One": {
+    name: "One",
+    data: {
+      Default: [
+        { name: "A", url: "https://pillows.su/f/abc", quality: "CD Quality", available_length: "Full", track_length: "3:00", leak_date: "2019-05-01" },
+        { name: "B", url: "https://youtu.be/xyz", quality: "Low Quality", available_length: "Snippet", track_length: "0:30", leak_date: "2020" },
+      ],
+      Extras: [{ name: "C", available_length: " Full ", leak_date: "2019-12-31" }],
+    },
+  },
+  "1:Two": { name: "Two", data: { Default: [{ name: "D", url: "https://pillows.su/f/def", track_length: "1:02:03" }] } },
+};
+
+const playable = (t: TALeak) => !!t.url?.includes("pillows");
+
+describe("computeTrackerStats", () => {
+  it("summarizes the whole tracker", () => {
+    const { overall } = computeTrackerStats(eras, playable);
+    expect(overall).toMatchObject({ tracks: 4, playable: 2, runtime: 180 + 30 + 3723, timedTracks: 3 });
+    expect(overall.sources).toEqual([
+      { label: "Pillows", count: 2, playable: 2 },
+      { label: "No link", count: 1, playable: 0 },
+      { label: "YouTube", count: 1, playable: 0 },
+    ]);
+    expect(overall.availability).toEqual([
+      { label: "Full", count: 2 },
+      { label: "Snippet", count: 1 },
+      { label: "Unknown", count: 1 },
+    ]);
+    expect(overall.qualities[0]).toEqual({ label: "Unknown", count: 2 });
+    expect(overall.leaksByYear).toEqual([
+      { label: "2019", count: 2 },
+      { label: "2020", count: 1 },
+    ]);
+  });
+
+  it("breaks stats down per era, using each track's era on flat trackers", () => {
+    expect(computeTrackerStats(eras, playable).eras.map((e) => [e.name, e.stats.tracks])).toEqual([["One", 3], ["Two", 1]]);
+    const flat: Record<string, Era> = { _flat: { name: "", data: { Default: [{ name: "X", eraName: "Late" }, { name: "Y" }] } } };
+    expect(computeTrackerStats(flat, playable).eras.map((e) => e.name)).toEqual(["Late", "Unknown"]);
+  });
+
+  it("formats runtime", () => {
+    expect(formatRuntime(3723)).toBe("1h 2m");
+    expect(formatRuntime(150)).toBe("2m");
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
 import { render, screen, fireEvent, waitFor, act } from "@testing-library/react";
-import { MemoryRouter } from "react-router-dom";
+import { MemoryRouter, useNavigate } from "react-router-dom";
 import TrackerViewPage from "@/src/pages/View";
 import { PlayerProvider } from "@/src/providers";
 import { SettingsProvider } from "@/src/hooks/use-settings";
@@ -106,4 +106,25 @@ describe("TrackerViewPage", () => {
     fireEvent.change(screen.getByPlaceholderText("Search tracks..."), { target: { value: "T1" } });
     expect((screen.getByPlaceholderText("Search tracks...") as HTMLInputElement).value).toBe("T1");
   });
+
+  it("follows the q parameter when the URL changes", async () => {
+    function GoTo({ to }: { to: string }) {
+      const navigate = useNavigate();
+      return <button onClick={() => navigate(to)}>go</button>;
+    }
+    render(
+      <MemoryRouter initialEntries={["/view?q=first"]}>
+        <SettingsProvider>
+          <PlayerProvider>
+            <GoTo to="/view?q=second" />
+            <TrackerViewPage trackerId="abc123def456ghi789jklmno" />
+          </PlayerProvider>
+        </SettingsProvider>
+      </MemoryRouter>
+    );
+    const input = () => screen.getByPlaceholderText("Search tracks...") as HTMLInputElement;
+    await waitFor(() => expect(input().value).toBe("first"));
+    fireEvent.click(screen.getByText("go"));
+    await waitFor(() => expect(input().value).toBe("second"));
+  });
 });
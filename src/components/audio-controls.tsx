@@ -0,0 +1,92 @@
+import { useCallback } from "react";
+import { useSettings } from "@/src/hooks/use-settings";
+import { Switch } from "@/components/ui/switch";
+import { Select } from "@/components/ui/select";
+import type { Settings } from "@/src/lib/settings";
+import {
+  EQ_BANDS,
+  EQ_MAX_GAIN_DB,
+  EQ_PRESETS,
+  PLAYBACK_RATES,
+  applyAudioSettings,
+  matchEqPreset,
+} from "@/src/lib/audio-effects";
+import { TARGET_LUFS } from "@/src/lib/loudness";
+
+type PlayerSettings = Settings["player"];
+
+function formatBand(hz: number): string {
+  return hz >= 1000 ? `${hz / 1000}k` : String(hz);
+}
+
+export function AudioControls({ className = "" }: { className?: string }) {
+  const { settings, update } = useSettings();
+  const player = settings.player;
+  const preset = matchEqPreset(player.eqGains);
+  const set = useCallback(
+    <K extends keyof PlayerSettings>(key: K, value: PlayerSettings[K]) => {
+      update("player", key, value);
+      applyAudioSettings({ ...player, [key]: value });
+    },
+    [player, update]
+  );
+  const setBand = (index: number, gain: number) => {
+    const gains = EQ_BANDS.map((_, i) => (i === index ? gain : player.eqGains[i] ?? 0));
+    set("eqGains", gains);
+  };
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm text-white/80">Normalize Loudness</p>
+          <p className="text-[11px] text-white/50 mt-0.5">Measure each track on first play and level it to {TARGET_LUFS} LUFS</p>
+        </div>
+        <Switch checked={player.normalize} onCheckedChange={(v) => set("normalize", v)} aria-label="Normalize loudness" />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-white/80">Playback Speed</p>
+        <Select
+          value={String(player.playbackRate)}
+          onChange={(e) => set("playbackRate", Number(e.target.value))}
+          options={PLAYBACK_RATES.map((r) => ({ value: String(r), label: `${r}×` }))}
+          aria-label="Playback speed"
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-white/80">Equalizer</p>
+        <div className="flex items-center gap-3">
+          <Select
+            value={preset}
+            onChange={(e) => {
+              const next = EQ_PRESETS[e.target.value];
+              if (next) set("eqGains", [...next.gains]);
+            }}
+            options={[
+              ...Object.entries(EQ_PRESETS).map(([value, p]) => ({ value, label: p.label })),
+              ...(preset === "custom" ? [{ value: "custom", label: "Custom" }] : []),
+            ]}
+            aria-label="Equalizer preset"
+          />
+          <Switch checked={player.eqEnabled} onCheckedChange={(v) => set("eqEnabled", v)} aria-label="Enable equalizer" />
+        </div>
+      </div>
+      <div className={`grid grid-cols-10 gap-1 ${player.eqEnabled ? "" : "opacity-40 pointer-events-none"}`}>
+        {EQ_BANDS.map((hz, i) => (
+          <label key={hz} className="flex flex-col items-center gap-1">
+            <input
+              type="range"
+              min={-EQ_MAX_GAIN_DB}
+              max={EQ_MAX_GAIN_DB}
+              step={1}
+              value={player.eqGains[i] ?? 0}
+              onChange={(e) => setBand(i, Number(e.target.value))}
+              aria-label={`${formatBand(hz)}Hz gain`}
+              className="h-24 w-4 accent-white [writing-mode:vertical-lr] [direction:rtl]"
+            />
+            <span className="text-[9px] text-white/40 tabular-nums">{formatBand(hz)}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { Command, Music, Search, Table2 } from "lucide-react";
+import type Fuse from "fuse.js";
+import type { Artist } from "@/src/types";
+import { Modal } from "@/src/components/modal";
+import { getCachedData } from "@/src/lib/cache";
+import { LOCAL_STORAGE_KEYS } from "@/src/lib/home-constants";
+import { extractTrackerId, getCleanArtistName } from "@/src/lib/artist-utils";
+import { COMMANDS, getPaletteTracks, isCommandAvailable, runCommand } from "@/src/lib/commands";
+import { formatCombo, resolveKeymap } from "@/src/lib/keymap";
+import { loadSettings } from "@/src/lib/settings";
+
+const MAX_RESULTS = 50;
+
+interface PaletteItem {
+  key: string;
+  kind: "command" | "tracker" | "track";
+  label: string;
+  detail?: string;
+  hint?: string;
+  run: () => void;
+}
+
+const KIND_ICONS = { command: Command, tracker: Table2, track: Music };
+
+export function CommandPalette({ onClose }: { onClose: () => void }) {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+  const [FuseClass, setFuseClass] = useState<typeof Fuse | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    import("fuse.js")
+      .then((mod) => {
+        if (!cancelled) setFuseClass(() => mod.default);
+      })
+      .catch((err) => console.warn("Failed to load fuse.js dynamically:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Snapshot what's on screen when the palette opens.
+  const items = useMemo((): PaletteItem[] => {
+    const keymap = resolveKeymap(loadSettings().shortcuts);
+    const commands = COMMANDS.filter((c) => c.id !== "general.commandPalette" && isCommandAvailable(c.id)).map((c) => ({
+      key: c.id,
+      kind: "command" as const,
+      label: c.label,
+      detail: c.group,
+      hint: keymap[c.id]?.[0] ? formatCombo(keymap[c.id][0]) : undefined,
+      run: () => runCommand(c.id),
+    }));
+    const trackers = (getCachedData<Artist[]>(LOCAL_STORAGE_KEYS.CSV_CACHE_LOCAL)?.data ?? []).flatMap((artist) => {
+      const trackerId = extractTrackerId(artist.url);
+      if (!trackerId) return [];
+      const name = getCleanArtistName(artist.name);
+      return [{
+        key: `tracker:${trackerId}`,
+        kind: "tracker" as const,
+        label: artist.name,
+        detail: "Tracker",
+        run: () => navigate(`/sh/${trackerId}/?artist=${encodeURIComponent(name)}`),
+      }];
+    });
+    const tracks = getPaletteTracks().map((t) => ({
+      key: `track:${t.key}`,
+      kind: "track" as const,
+      label: t.name,
+      detail: t.detail,
+      run: t.play,
+    }));
+    return [...commands, ...tracks, ...trackers];
+  }, [navigate]);
+
+  const fuse = useMemo(
+    () => (FuseClass ? new FuseClass(items, { keys: ["label", "detail"], threshold: 0.35, ignoreLocation: true }) : null),
+    [FuseClass, items]
+  );
+
+  const results = useMemo(() => {
+    const q = query.trim();
+    if (!q) return items.filter((i) => i.kind === "command");
+    if (fuse) return fuse.search(q, { limit: MAX_RESULTS }).map((r) => r.item);
+    const lower = q.toLowerCase();
+    return items.filter((i) => i.label.toLowerCase().includes(lower)).slice(0, MAX_RESULTS);
+  }, [items, fuse, query]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  const choose = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    // Let the dialog close first so focus-moving commands aren't blocked by it.
+    requestAnimationFrame(item.run);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      e.stopPropagation();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSelected((i) => (results.length ? (i + step + results.length) % results.length : 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      choose(results[selected]);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} ariaLabel="Command palette">
+      <div className="p-3">
+        <div className="relative mr-10">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/55" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search commands, trackers and tracks..."
+            aria-label="Search commands, trackers and tracks"
+            aria-controls="command-palette-results"
+            aria-activedescendant={results[selected] ? `command-palette-${selected}` : undefined}
+            className="w-full glass-flat rounded-xl text-white text-sm pl-10 pr-3 h-10 outline-none focus-visible:ring-1 focus-visible:ring-white/30 placeholder:text-white/50"
+          />
+        </div>
+        <ul ref={listRef} id="command-palette-results" role="listbox" className="mt-3 max-h-80 overflow-y-auto space-y-0.5">
+          {results.length === 0 && <li className="text-sm text-neutral-500 text-center py-6">No matches</li>}
+          {results.map((item, i) => {
+            const Icon = KIND_ICONS[item.kind];
+            return (
+              <li
+                key={item.key}
+                id={`command-palette-${i}`}
+                role="option"
+                aria-selected={i === selected}
+                onMouseMove={() => setSelected(i)}
+                onClick={() => choose(item)}
+                className={`flex items-center gap-3 px-3 py-2 rounded-xl cursor-pointer ${i === selected ? "bg-white/10" : ""}`}
+              >
+                <Icon className="w-4 h-4 text-white/40 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white truncate">{item.label}</div>
+                  {item.detail && <div className="text-xs text-neutral-500 truncate">{item.detail}</div>}
+                </div>
+                {item.hint && (
+                  <kbd className="text-[10px] text-white/50 glass-flat rounded-md px-1.5 py-0.5 font-mono flex-shrink-0">{item.hint}</kbd>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </Modal>
+  );
+}
@@ -1,34 +1,47 @@
-import { useState, useEffect, useCallback, useRef, useMemo, createContext, use, type ReactNode } from "react";
-import { Archive, CheckCircle2, Loader2, Maximize2, Minimize2, X, XCircle } from "lucide-react";
+import { useState, useEffect, useLayoutEffect, useCallback, useRef, useMemo, createContext, use, type ReactNode } from "react";
+import { Archive, CheckCircle2, Loader2, Maximize2, Minimize2, Pause, Play, X, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import type { Era, TALeak } from "@/src/types";
 import { loadSettings } from "@/src/lib/settings";
 import { logError } from "@/src/lib/logger";
-import { stripEmojis } from "@/lib/utils";
+import { getFileExtension, renderPathTemplate, sanitizeFilename } from "@/src/lib/download-template";
+import { describeTrackForDownload } from "@/src/lib/track-metadata";
+import { buildEraExtras } from "@/src/lib/era-manifest";
+import { isLikelyTruncated, probeDuration, sha256Hex } from "@/src/lib/download-verify";
+import { getDownloadedEntry, recordDownload } from "@/src/lib/download-history";
+import { parseTrackLength } from "@/src/lib/playlists";
+import { getTrackUrl } from "@/src/lib/track-utils";
+import type { MetadataInput } from "@/src/lib/ffmpeg-metadata";
+import { openDownloadSink } from "@/src/lib/download-sink";
+import { createZipWriter, type ZipWriter } from "@/src/lib/stream-zip";
+import {
+  appendPartialChunk,
+  deleteItemData,
+  getPartialFile,
+  getStoredFile,
+  loadDownloadJobs,
+  putStoredFile,
+  saveDownloadJobs,
+  type DownloadItem,
+  type PartialChunk,
+  type PartialFile,
+  type PersistedDownloadJob,
+} from "@/src/lib/download-store";
 const CONCURRENT_DOWNLOADS = 3;
-const ZIP_CHUNK_SIZE = 900 * 1024 * 1024;
 const MAX_RETRY_ATTEMPTS = 2;
-interface DownloadItem {
-  id: string;
-  trackName: string;
-  eraName: string;
-  playableUrl: string;
-  status: "pending" | "downloading" | "completed" | "failed";
-  progress: number;
-  retryCount: number;
-}
-interface DownloadJob {
-  id: string;
-  name: string;
-  artistName: string;
-  eraName?: string;
-  items: DownloadItem[];
-  status: "active" | "completed" | "failed";
+const CHECKPOINT_BYTES = 4 * 1024 * 1024;
+const PERSIST_DELAY_MS = 500;
+interface DownloadJob extends PersistedDownloadJob {
   completedCount: number;
   failedCount: number;
-  zipBlob?: Blob;
-  isCreatingZip?: boolean;
+  isFinalizing?: boolean;
+}
+interface JobArchive {
+  writer: Promise<ZipWriter | null>;
+  pending: Promise<void>;
+  paths: Map<string, string>;
+  hashes: Map<string, string>;
 }
 interface DownloadQueueItem {
   jobId: string;
@@ -38,6 +51,7 @@ interface DownloadQueueItem {
   artistName: string;
   eraName: string;
   retryCount: number;
+  metadata?: MetadataInput;
 }
 interface DownloadContextType {
   jobs: DownloadJob[];
@@ -54,6 +68,10 @@ interface DownloadContextType {
   }) => void;
   clearCompleted: () => void;
   dismissJob: (jobId: string) => void;
+  pauseJob: (jobId: string) => void;
+  resumeJob: (jobId: string) => void;
+  pauseItem: (jobId: string, itemId: string) => void;
+  resumeItem: (jobId: string, itemId: string) => void;
 }
 const DownloadContext = createContext<DownloadContextType | null>(null);
 export function useDownloadManager() {
@@ -61,66 +79,118 @@ export function useDownloadManager() {
   if (!ctx) throw new Error("useDownloadManager must be used within DownloadProvider");
   return ctx;
 }
-function patchJobItem(prev: DownloadJob[], jobId: string, itemId: string, patch: Partial<DownloadItem>): DownloadJob[] {
+function withItems(job: DownloadJob, items: DownloadItem[]): DownloadJob {
+  const completedCount = items.filter((i) => i.status === "completed").length;
+  const failedCount = items.filter((i) => i.status === "failed").length;
+  if (job.status === "completed" || job.status === "failed") return { ...job, items, completedCount, failedCount };
+  const running = items.some((i) => i.status === "pending" || i.status === "downloading");
+  const paused = items.some((i) => i.status === "paused");
+  return { ...job, items, completedCount, failedCount, status: paused && !running ? "paused" : "active" };
+}
+function patchJobItems(
+  prev: DownloadJob[],
+  jobId: string,
+  patch: (item: DownloadItem) => Partial<DownloadItem> | null
+): DownloadJob[] {
   return prev.map((job) => {
     if (job.id !== jobId) return job;
-    return { ...job, items: job.items.map((i) => (i.id === itemId ? { ...i, ...patch } : i)) };
+    return withItems(job, job.items.map((i) => {
+      const p = patch(i);
+      return p ? { ...i, ...p } : i;
+    }));
   });
 }
-function sanitizeFilename(name: string): string {
-  const settings = loadSettings();
-  const cleaned = settings.behavior.showEmojis ? name : stripEmojis(name);
-  return (
-    cleaned
-      .replace(/[<>:"/\\|?*]/g, "_")
-      .replace(/\s+/g, " ")
-      .trim() || "unknown"
-  );
+function patchJobItem(prev: DownloadJob[], jobId: string, itemId: string, patch: Partial<DownloadItem>): DownloadJob[] {
+  return patchJobItems(prev, jobId, (i) => (i.id === itemId ? patch : null));
 }
-function getFileExtension(url: string, contentType?: string): string {
-  if (contentType) {
-    if (contentType.includes("audio/mpeg") || contentType.includes("audio/mp3")) return "mp3";
-    if (contentType.includes("audio/mp4") || contentType.includes("audio/m4a")) return "m4a";
-    if (contentType.includes("audio/ogg")) return "ogg";
-    if (contentType.includes("audio/wav")) return "wav";
-    if (contentType.includes("audio/flac")) return "flac";
-  }
-  const urlLower = url.toLowerCase();
-  if (urlLower.includes(".mp3") || urlLower.includes("mp3")) return "mp3";
-  if (urlLower.includes(".m4a") || urlLower.includes("m4a")) return "m4a";
-  if (urlLower.includes(".ogg")) return "ogg";
-  if (urlLower.includes(".wav")) return "wav";
-  if (urlLower.includes(".flac")) return "flac";
-  return "mp3";
+function toQueueItem(job: PersistedDownloadJob, item: DownloadItem): DownloadQueueItem {
+  return {
+    jobId: job.id,
+    itemId: item.id,
+    playableUrl: item.playableUrl,
+    trackName: item.trackName,
+    artistName: job.artistName,
+    eraName: item.eraName,
+    retryCount: item.retryCount,
+    metadata: item.metadata,
+  };
+}
+function archiveName(job: PersistedDownloadJob): string {
+  const base = job.eraName
+    ? `${sanitizeFilename(job.artistName)} - ${sanitizeFilename(job.eraName)}`
+    : `${sanitizeFilename(job.artistName)} Tracker`;
+  return `${base}.zip`;
+}
+function archivePath(job: PersistedDownloadJob, item: DownloadItem, ext: string): string {
+  return renderPathTemplate(loadSettings().downloads.pathTemplate, {
+    artist: job.artistName,
+    era: item.eraName,
+    track: item.trackName,
+    ...item.vars,
+    ext,
+  });
+}
+function parseTotalSize(response: Response, offset: number): number {
+  const range = response.headers.get("content-range")?.match(/\/(\d+)\s*$/);
+  if (range) return parseInt(range[1], 10);
+  const contentLength = response.headers.get("content-length");
+  return contentLength ? parseInt(contentLength, 10) + offset : 0;
 }
 async function downloadFileAsBlob(
   url: string,
-  onProgress?: (loaded: number, total: number) => void
+  options: {
+    onProgress?: (loaded: number, total: number) => void;
+    signal?: AbortSignal;
+    partial?: PartialFile | null;
+    onCheckpoint?: (chunk: PartialChunk) => void;
+  } = {}
 ): Promise<{
   blob: Blob;
   contentType: string;
 } | null> {
+  const { onProgress, signal, partial, onCheckpoint } = options;
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 120000);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const headers: Record<string, string> = {};
+  if (partial) {
+    headers.Range = `bytes=${partial.blob.size}-`;
+    if (partial.validator) headers["If-Range"] = partial.validator;
+  }
+  const chunks: BlobPart[] = [];
+  let unsaved: BlobPart[] = [];
+  let checkpoint: (() => void) | null = null;
   try {
-    const response = await fetch(url, { signal: controller.signal });
+    const response = await fetch(url, partial ? { signal: controller.signal, headers } : { signal: controller.signal });
     if (!response.ok) return null;
-    const contentLength = response.headers.get("content-length");
-    const total = contentLength ? parseInt(contentLength, 10) : 0;
+    const resumed = !!partial && response.status === 206;
+    const offset = resumed ? partial.blob.size : 0;
+    const total = parseTotalSize(response, offset);
+    const validator = response.headers.get("etag") || response.headers.get("last-modified");
+    const contentType = response.headers.get("content-type") || "";
     if (!response.body) {
-      const blob = await response.blob();
-      const contentType = response.headers.get("content-type") || "";
-      return { blob, contentType };
+      const body = await response.blob();
+      return { blob: resumed ? new Blob([partial.blob, body], { type: body.type }) : body, contentType };
     }
+    if (resumed) chunks.push(partial.blob);
     const reader = response.body.getReader();
-    const chunks: Uint8Array[] = [];
-    let loaded = 0;
+    let loaded = offset;
+    let checkpointed = offset;
     let lastReported = -1;
+    checkpoint = () => {
+      if (!onCheckpoint || loaded <= checkpointed) return;
+      onCheckpoint({ url, offset: checkpointed, blob: new Blob(unsaved), total, validator });
+      checkpointed = loaded;
+      unsaved = [];
+    };
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
-      chunks.push(value);
+      chunks.push(value as BlobPart);
+      if (onCheckpoint) unsaved.push(value as BlobPart);
       loaded += value.length;
+      if (loaded - checkpointed >= CHECKPOINT_BYTES) checkpoint();
       if (onProgress && total) {
         const pct = Math.floor((loaded / total) * 100);
         if (pct !== lastReported) {
@@ -129,19 +199,22 @@ async function downloadFileAsBlob(
         }
       }
     }
-    const blob = new Blob(chunks as BlobPart[]);
-    const contentType = response.headers.get("content-type") || "";
+    checkpoint = null;
+    const blob = new Blob(chunks);
     return { blob, contentType };
   } catch (error) {
-    logError("Download error:", error);
+    checkpoint?.();
+    if (!signal?.aborted) logError("Download error:", error);
     return null;
   } finally {
     clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
   }
 }
 function DownloadFloatingUI() {
-  const { jobs, isMinimized, setIsMinimized, clearCompleted, dismissJob } = useDownloadManager();
+  const { jobs, isMinimized, setIsMinimized, clearCompleted, dismissJob, pauseJob, resumeJob, pauseItem, resumeItem } = useDownloadManager();
   const activeJobs = jobs.filter((j) => j.status === "active");
+  const pausedJobs = jobs.filter((j) => j.status === "paused");
   const completedJobs = jobs.filter((j) => j.status === "completed" || j.status === "failed");
   if (jobs.length === 0) return null;
   const totalItems = jobs.reduce((acc, j) => acc + j.items.length, 0);
@@ -152,9 +225,13 @@ function DownloadFloatingUI() {
     <div className="fixed bottom-24 sm:bottom-4 right-4 z-50 w-80 max-h-96 bg-neutral-950 border border-neutral-800 rounded-xl shadow-2xl overflow-hidden">
       <div className="flex items-center justify-between p-3 border-b border-neutral-800 bg-neutral-900/50">
         <div className="flex items-center gap-2">
-          <Archive className={`w-4 h-4 ${activeJobs.length > 0 ? "text-blue-400 animate-pulse" : "text-green-400"}`} />
+          <Archive className={`w-4 h-4 ${activeJobs.length > 0 ? "text-blue-400 animate-pulse" : pausedJobs.length > 0 ? "text-yellow-400" : "text-green-400"}`} />
           <span className="text-sm font-medium text-white">
-            {activeJobs.length > 0 ? `Downloading (${activeCount} active)` : "Downloads Complete"}
+            {activeJobs.length > 0
+              ? `Downloading (${activeCount} active)`
+              : pausedJobs.length > 0
+                ? `Downloads Paused (${pausedJobs.length})`
+                : "Downloads Complete"}
           </span>
         </div>
         <div className="flex items-center gap-1">
@@ -186,22 +263,43 @@ function DownloadFloatingUI() {
             const jobProgress =
               job.items.length > 0 ? Math.round(((job.completedCount + job.failedCount) / job.items.length) * 100) : 0;
             const isActive = job.status === "active";
-            const downloadingItems = job.items.filter((i) => i.status === "downloading");
+            const isPaused = job.status === "paused";
+            const downloadingItems = job.items.filter((i) => i.status === "downloading" || i.status === "paused");
+            const notices = [
+              [job.items.filter((i) => i.skipped).length, "already downloaded"],
+              [job.items.filter((i) => i.duplicateOf).length, "duplicate"],
+              [job.items.filter((i) => i.truncated).length, "possibly truncated"],
+            ]
+              .filter(([count]) => count)
+              .map(([count, label]) => `${count} ${label}`);
             return (
               <div key={job.id} className="p-3 border-b border-neutral-800 last:border-b-0">
                 <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center gap-2 min-w-0 flex-1">
-                    {job.isCreatingZip ? (
+                    {job.isFinalizing ? (
                       <Loader2 className="w-4 h-4 text-yellow-400 animate-spin flex-shrink-0" />
                     ) : job.status === "completed" ? (
                       <CheckCircle2 className="w-4 h-4 text-green-400 flex-shrink-0" />
                     ) : job.status === "failed" ? (
                       <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+                    ) : isPaused ? (
+                      <Pause className="w-4 h-4 text-yellow-400 flex-shrink-0" />
                     ) : (
                       <Loader2 className="w-4 h-4 text-blue-400 animate-spin flex-shrink-0" />
                     )}
                     <span className="text-xs text-white truncate">{job.name}</span>
                   </div>
+                  {(isActive || isPaused) && !job.isFinalizing && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => (isPaused ? resumeJob(job.id) : pauseJob(job.id))}
+                      className="h-5 w-5 text-neutral-500 hover:text-white flex-shrink-0"
+                      aria-label={isPaused ? "Resume download" : "Pause download"}
+                    >
+                      {isPaused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+                    </Button>
+                  )}
                   {!isActive && (
                     <Button
                       variant="ghost"
@@ -217,18 +315,31 @@ function DownloadFloatingUI() {
                 <Progress value={jobProgress} className="h-1.5 mb-1" />
                 <div className="flex items-center justify-between text-[10px] text-neutral-500">
                   <span>
-                    {job.isCreatingZip ? "Creating ZIP..." : `${job.completedCount}/${job.items.length} files`}
+                    {job.isFinalizing ? "Finishing ZIP..." : `${job.completedCount}/${job.items.length} files`}
                   </span>
                   {job.failedCount > 0 && <span className="text-red-400">{job.failedCount} failed</span>}
                   <span>{jobProgress}%</span>
                 </div>
-                {isActive && downloadingItems.length > 0 && (
+                {notices.length > 0 && <div className="mt-1 text-[10px] text-yellow-400/80">{notices.join(" · ")}</div>}
+                {(isActive || isPaused) && downloadingItems.length > 0 && (
                   <div className="mt-2 space-y-1">
                     {downloadingItems.slice(0, 5).map((item) => (
                       <div key={item.id} className="text-[10px] text-neutral-400 truncate flex items-center gap-1">
-                        <Loader2 className="w-2 h-2 animate-spin flex-shrink-0" />
+                        {item.status === "paused" ? (
+                          <Pause className="w-2 h-2 flex-shrink-0" />
+                        ) : (
+                          <Loader2 className="w-2 h-2 animate-spin flex-shrink-0" />
+                        )}
                         <span className="flex-1 truncate">{item.trackName}</span>
                         {item.progress > 0 && <span className="text-neutral-600">{item.progress}%</span>}
+                        <button
+                          type="button"
+                          onClick={() => (item.status === "paused" ? resumeItem(job.id, item.id) : pauseItem(job.id, item.id))}
+                          className="text-neutral-500 hover:text-white flex-shrink-0"
+                          aria-label={item.status === "paused" ? `Resume ${item.trackName}` : `Pause ${item.trackName}`}
+                        >
+                          {item.status === "paused" ? <Play className="w-2.5 h-2.5" /> : <Pause className="w-2.5 h-2.5" />}
+                        </button>
                       </div>
                     ))}
                     {downloadingItems.length > 5 && (
@@ -252,15 +363,53 @@ function DownloadFloatingUI() {
     </div>
   );
 }
-export function DownloadProvider({ children }: { children: ReactNode }) {
+function DownloadManagerRoot({ children }: { children: ReactNode }) {
   const [jobs, setJobs] = useState<DownloadJob[]>([]);
   const [isMinimized, setIsMinimized] = useState(false);
+  const jobsRef = useRef<DownloadJob[]>([]);
   const activeDownloadsRef = useRef(0);
   const downloadQueueRef = useRef<DownloadQueueItem[]>([]);
-  const zipDataRef = useRef<Map<string, Map<string, { blob: Blob; ext: string }>>>(new Map());
+  const activeControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const archivesRef = useRef<Map<string, JobArchive>>(new Map());
   const processQueueRef = useRef<() => void>(() => {});
-  const creatingZipsRef = useRef<Set<string>>(new Set());
-  const zipsRunningRef = useRef(false);
+  const restoredRef = useRef(false);
+  // Layout effect so pause/resume clicks right after a render see the new jobs.
+  useLayoutEffect(() => {
+    jobsRef.current = jobs;
+  }, [jobs]);
+  useEffect(() => {
+    let cancelled = false;
+    loadDownloadJobs()
+      .then((restored) => {
+        if (cancelled || restored.length === 0) return;
+        setJobs((prev) => [
+          ...restored.filter((r) => !prev.some((j) => j.id === r.id)).map((job) => withItems({ ...job, completedCount: 0, failedCount: 0 }, job.items)),
+          ...prev,
+        ]);
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) restoredRef.current = true;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  useEffect(() => {
+    if (!restoredRef.current && jobs.length === 0) return;
+    const id = setTimeout(() => void saveDownloadJobs(jobs).catch(() => {}), PERSIST_DELAY_MS);
+    return () => clearTimeout(id);
+  }, [jobs]);
+  const writeToArchive = useCallback((job: PersistedDownloadJob, item: DownloadItem, file: { blob: Blob; ext: string }) => {
+    const archive = archivesRef.current.get(job.id);
+    if (!archive) return;
+    archive.pending = archive.pending.then(async () => {
+      const writer = await archive.writer;
+      if (!writer) return;
+      archive.paths.set(item.id, await writer.addFile(archivePath(job, item, file.ext), file.blob));
+      await deleteItemData([item.id]).catch(() => {});
+    });
+  }, []);
   const retryOrFail = useCallback((item: DownloadQueueItem) => {
     if (item.retryCount < MAX_RETRY_ATTEMPTS) {
       item.retryCount += 1;
@@ -271,43 +420,74 @@ export function DownloadProvider({ children }: { children: ReactNode }) {
     }
   }, []);
   const downloadSingleItem = useCallback(async (item: DownloadQueueItem) => {
-    setJobs((prev) => patchJobItem(prev, item.jobId, item.itemId, { status: "downloading", progress: 0 }));
+    const controller = new AbortController();
+    activeControllersRef.current.set(item.itemId, controller);
+    setJobs((prev) => patchJobItem(prev, item.jobId, item.itemId, { status: "downloading" }));
     try {
-      const result = await downloadFileAsBlob(item.playableUrl, (loaded, total) => {
-        const progress = Math.round((loaded / total) * 100);
-        setJobs((prev) => patchJobItem(prev, item.jobId, item.itemId, { progress }));
+      const s = loadSettings();
+      const job = jobsRef.current.find((j) => j.id === item.jobId);
+      const jobItem = job?.items.find((i) => i.id === item.itemId);
+      const historyKey = item.metadata?.sourceUrl ?? item.playableUrl;
+      const skipped = s.downloads.skipDownloaded && !!(await getDownloadedEntry(historyKey).catch(() => null));
+      const partial = skipped ? null : await getPartialFile(item.itemId, item.playableUrl).catch(() => null);
+      const result = skipped ? null : await downloadFileAsBlob(item.playableUrl, {
+        signal: controller.signal,
+        partial,
+        onCheckpoint: (chunk) => void appendPartialChunk(item.itemId, chunk).catch(() => {}),
+        onProgress: (loaded, total) => {
+          const progress = Math.round((loaded / total) * 100);
+          setJobs((prev) => patchJobItem(prev, item.jobId, item.itemId, { progress }));
+        },
       });
-      if (result) {
-        let finalBlob = result.blob;
-        const s = loadSettings();
-        const format = s.downloads.format || "original";
-        if (s.downloads.embedMetadata) {
-          try {
-            const { embedMetadata } = await import("@/src/lib/ffmpeg-metadata");
-            finalBlob = await embedMetadata(result.blob, {
-              title: item.trackName,
-              artist: item.artistName,
-            }, format);
-          } catch (e) {
-            logError("Metadata embedding failed for batch download:", e);
+      if (skipped) {
+        setJobs((prev) => patchJobItem(prev, item.jobId, item.itemId, { status: "completed", progress: 100, skipped: true }));
+      } else if (controller.signal.aborted) {
+        // Paused or dismissed; the partial file was checkpointed on abort.
+      } else if (result) {
+        const sha256 = await sha256Hex(result.blob);
+        const expected = parseTrackLength(jobItem?.track?.track_length);
+        const duration = expected !== null ? await probeDuration(result.blob) : null;
+        const archive = archivesRef.current.get(item.jobId);
+        const duplicateOf = sha256 ? archive?.hashes.get(sha256) : undefined;
+        if (sha256 && archive && !duplicateOf) archive.hashes.set(sha256, item.itemId);
+        const checks: Partial<DownloadItem> = {
+          sha256: sha256 ?? undefined,
+          duration: duration ?? undefined,
+          truncated: isLikelyTruncated(duration, expected) || undefined,
+          duplicateOf,
+        };
+        if (!duplicateOf) {
+          let finalBlob = result.blob;
+          const format = s.downloads.format || "original";
+          if (s.downloads.embedMetadata) {
+            try {
+              const { embedMetadata } = await import("@/src/lib/ffmpeg-metadata");
+              finalBlob = await embedMetadata(result.blob, item.metadata ?? {
+                title: item.trackName,
+                artist: item.artistName,
+              }, format);
+            } catch (e) {
+              logError("Metadata embedding failed for batch download:", e);
+            }
           }
+          const formatExtMap: Record<string, string> = { mp3: "mp3", opus: "opus", ogg: "ogg", flac: "flac", wav: "wav" };
+          const ext =
+            s.downloads.embedMetadata && format !== "original" && formatExtMap[format]
+              ? formatExtMap[format]
+              : getFileExtension(item.playableUrl, result.contentType);
+          // Straight into the open ZIP; only kept in storage when there is none to write to.
+          if (archive && job && jobItem) writeToArchive(job, jobItem, { blob: finalBlob, ext });
+          else await putStoredFile(item.itemId, { blob: finalBlob, ext }).catch(() => {});
         }
-        const formatExtMap: Record<string, string> = { mp3: "mp3", opus: "opus", ogg: "ogg", flac: "flac", wav: "wav" };
-        const ext =
-          s.downloads.embedMetadata && format !== "original" && formatExtMap[format]
-            ? formatExtMap[format]
-            : getFileExtension(item.playableUrl, result.contentType);
-        if (!zipDataRef.current!.has(item.jobId)) zipDataRef.current!.set(item.jobId, new Map());
-        zipDataRef.current!.get(item.jobId)!.set(item.itemId, { blob: finalBlob, ext });
-        setJobs((prev) =>
-          prev.map((job) => {
-            if (job.id !== item.jobId) return job;
-            const newItems = job.items.map((i) =>
-              i.id === item.itemId ? { ...i, status: "completed" as const, progress: 100 } : i
-            );
-            return { ...job, items: newItems, completedCount: newItems.filter((i) => i.status === "completed").length };
-          })
-        );
+        void recordDownload(historyKey, {
+          trackName: item.trackName,
+          artistName: item.artistName,
+          eraName: item.eraName,
+          sha256,
+          size: result.blob.size,
+          downloadedAt: Date.now(),
+        }).catch(() => {});
+        setJobs((prev) => patchJobItem(prev, item.jobId, item.itemId, { status: "completed", progress: 100, ...checks }));
       } else {
         retryOrFail(item);
       }
@@ -315,9 +495,10 @@ export function DownloadProvider({ children }: { children: ReactNode }) {
       logError("Download failed:", error);
       retryOrFail(item);
     }
+    activeControllersRef.current.delete(item.itemId);
     activeDownloadsRef.current--;
     processQueueRef.current();
-  }, [retryOrFail]);
+  }, [retryOrFail, writeToArchive]);
   const processQueue = useCallback(() => {
     while (activeDownloadsRef.current < CONCURRENT_DOWNLOADS && downloadQueueRef.current.length > 0) {
       const item = downloadQueueRef.current.shift();
@@ -329,98 +510,93 @@ export function DownloadProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     processQueueRef.current = processQueue;
   }, [processQueue]);
-  const processZips = useCallback(async () => {
-    if (zipsRunningRef.current) return;
-    zipsRunningRef.current = true;
-    try {
-      const readyJobs = jobs.filter((job) => {
-        if (job.status !== "active" || creatingZipsRef.current!.has(job.id)) return false;
-        return job.items.every((i) => i.status === "completed" || i.status === "failed") && !job.zipBlob && !job.isCreatingZip;
-      });
-      if (readyJobs.length === 0) return;
-      const JSZip = (await import("jszip")).default;
-      for (const job of readyJobs) {
-        const jobData = zipDataRef.current!.get(job.id);
-        if (!jobData || jobData.size === 0) {
-          setJobs((prev) => prev.map((j) => (j.id === job.id ? { ...j, status: "failed" as const } : j)));
-          continue;
-        }
-        creatingZipsRef.current!.add(job.id);
-        setJobs((prev) => prev.map((j) => (j.id === job.id ? { ...j, isCreatingZip: true } : j)));
+  const stopItems = useCallback((jobId: string, itemIds?: Set<string>) => {
+    const matches = (q: { jobId: string; itemId: string }) => q.jobId === jobId && (!itemIds || itemIds.has(q.itemId));
+    downloadQueueRef.current = downloadQueueRef.current.filter((q) => !matches(q));
+    const job = jobsRef.current.find((j) => j.id === jobId);
+    for (const item of job?.items ?? []) {
+      if (matches({ jobId, itemId: item.id })) activeControllersRef.current.get(item.id)?.abort();
+    }
+  }, []);
+  const closeArchive = useCallback((jobId: string) => {
+    const archive = archivesRef.current.get(jobId);
+    archivesRef.current.delete(jobId);
+    void archive?.writer.then((writer) => writer?.abort()).catch(() => {});
+  }, []);
+  const dismissJob = useCallback((jobId: string) => {
+    stopItems(jobId);
+    closeArchive(jobId);
+    const job = jobsRef.current.find((j) => j.id === jobId);
+    if (job) void deleteItemData(job.items.map((i) => i.id)).catch(() => {});
+    setJobs((prev) => prev.filter((j) => j.id !== jobId));
+  }, [stopItems, closeArchive]);
+  // Must run inside the click that started or resumed the job so the save
+  // dialog is allowed to open.
+  const openArchive = useCallback((job: PersistedDownloadJob) => {
+    const archive: JobArchive = {
+      writer: openDownloadSink(archiveName(job))
+        .then((sink) => (sink ? createZipWriter(sink.writable) : null))
+        .catch((error) => {
+          logError("Could not open download destination:", error);
+          return null;
+        }),
+      pending: Promise.resolve(),
+      paths: new Map(),
+      hashes: new Map(),
+    };
+    archivesRef.current.set(job.id, archive);
+    void archive.writer.then((writer) => {
+      if (!writer && archivesRef.current.get(job.id) === archive) dismissJob(job.id);
+    });
+    return archive;
+  }, [dismissJob]);
+  useEffect(() => {
+    for (const job of jobs) {
+      if (job.status !== "active" || job.isFinalizing) continue;
+      if (!job.items.every((i) => i.status === "completed" || i.status === "failed")) continue;
+      const archive = archivesRef.current.get(job.id);
+      if (!archive) continue;
+      archivesRef.current.delete(job.id);
+      setJobs((prev) => prev.map((j) => (j.id === job.id ? { ...j, isFinalizing: true } : j)));
+      void (async () => {
+        let status: DownloadJob["status"] = "failed";
         try {
-          type ChunkEntry = { item: DownloadItem; fileData: { blob: Blob; ext: string } };
-          const chunks: ChunkEntry[][] = [[]];
-          let chunkBytes = 0;
-          for (const item of job.items) {
-            if (item.status !== "completed") continue;
-            const fileData = jobData.get(item.id);
-            if (!fileData) continue;
-            if (chunkBytes + fileData.blob.size > ZIP_CHUNK_SIZE && chunks[chunks.length - 1].length > 0) {
-              chunks.push([]);
-              chunkBytes = 0;
-            }
-            chunks[chunks.length - 1].push({ item, fileData });
-            chunkBytes += fileData.blob.size;
-          }
-          const filled = chunks.filter((c) => c.length > 0);
-          if (filled.length === 0) {
-            setJobs((prev) => prev.map((j) => (j.id === job.id ? { ...j, status: "failed" as const, isCreatingZip: false } : j)));
-            creatingZipsRef.current!.delete(job.id);
-            continue;
-          }
-          const baseName = job.eraName
-            ? `${sanitizeFilename(job.artistName)} - ${sanitizeFilename(job.eraName)}`
-            : `${sanitizeFilename(job.artistName)} Tracker`;
-          for (let i = 0; i < filled.length; i++) {
-            const chunkItems = filled[i];
-            if (i > 0) {
-              await new Promise((r) => setTimeout(r, 1000));
-            }
-            const zip = new JSZip();
-            for (const { item, fileData } of chunkItems) {
-              zip.file(
-                `${sanitizeFilename(item.eraName)}/${sanitizeFilename(item.trackName)}.${fileData.ext}`,
-                fileData.blob
-              );
-            }
-            const content = await zip.generateAsync({
-              type: "blob",
-              compression: "DEFLATE",
-              compressionOptions: { level: 6 },
-              streamFiles: true,
-            });
-            const zipName = filled.length > 1 ? `${baseName} Part ${i + 1}.zip` : `${baseName}.zip`;
-            const downloadUrl = URL.createObjectURL(content);
-            const link = document.createElement("a");
-            link.href = downloadUrl;
-            link.download = zipName;
-            link.style.display = "none";
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(downloadUrl);
-            for (const { item } of chunkItems) jobData.delete(item.id);
+          await archive.pending;
+          const writer = await archive.writer;
+          if (writer && archive.paths.size > 0) {
+            const names = new Map(job.items.map((i) => [i.id, i.trackName]));
+            const extras = await buildEraExtras(
+              job.artistName,
+              job.items.map((i) => ({
+                trackName: i.trackName,
+                eraName: i.eraName,
+                status: i.skipped ? "skipped" : i.status,
+                track: i.track,
+                path: archive.paths.get(i.id),
+                sha256: i.sha256,
+                duration: i.duration,
+                truncated: i.truncated,
+                duplicateOf: i.duplicateOf ? (archive.paths.get(i.duplicateOf) ?? names.get(i.duplicateOf)) : undefined,
+              })),
+              job.eraArt
+            );
+            for (const file of extras) await writer.addFile(file.path, file.blob);
+            await writer.close();
+            status = "completed";
+          } else {
+            await writer?.abort();
+            // Nothing new to save is still a success when every track was already downloaded.
+            if (job.items.some((i) => i.skipped)) status = "completed";
           }
-          setJobs((prev) =>
-            prev.map((j) => (j.id === job.id ? { ...j, status: "completed" as const, isCreatingZip: false } : j))
-          );
-          zipDataRef.current!.delete(job.id);
-          creatingZipsRef.current!.delete(job.id);
         } catch (error) {
           logError("ZIP creation failed:", error);
-          setJobs((prev) =>
-            prev.map((j) => (j.id === job.id ? { ...j, status: "failed" as const, isCreatingZip: false } : j))
-          );
-          creatingZipsRef.current!.delete(job.id);
+          await (await archive.writer)?.abort();
         }
-      }
-    } finally {
-      zipsRunningRef.current = false;
+        setJobs((prev) => prev.map((j) => (j.id === job.id ? { ...j, status, isFinalizing: false } : j)));
+        void deleteItemData(job.items.map((i) => i.id)).catch(() => {});
+      })();
     }
   }, [jobs]);
-  useEffect(() => {
-    processZips();
-  }, [jobs, processZips]);
   const startDownload = useCallback(
     (params: {
       artistName: string;
@@ -440,6 +616,8 @@ export function DownloadProvider({ children }: { children: ReactNode }) {
         status: "pending" as const,
         progress: 0,
         retryCount: 0,
+        track: item.track,
+        ...describeTrackForDownload(item.track, item.era, params.artistName, getTrackUrl(item.track) ?? undefined),
       }));
       const newJob: DownloadJob = {
         id: jobId,
@@ -447,38 +625,84 @@ export function DownloadProvider({ children }: { children: ReactNode }) {
         artistName: params.artistName,
         eraName: params.eraName,
         items: downloadItems,
+        eraArt: Object.fromEntries(params.items.map(({ era }) => [era.name || "Unknown Era", { image: era.image, logo: era.eraLogo }])),
         status: "active",
         completedCount: 0,
         failedCount: 0,
       };
+      openArchive(newJob);
+      jobsRef.current = [...jobsRef.current, newJob];
       setJobs((prev) => [...prev, newJob]);
-      for (const item of downloadItems) {
-        downloadQueueRef.current.push({
-          jobId,
-          itemId: item.id,
-          playableUrl: item.playableUrl,
-          trackName: item.trackName,
-          artistName: params.artistName,
-          eraName: item.eraName,
-          retryCount: 0,
+      for (const item of downloadItems) downloadQueueRef.current.push(toQueueItem(newJob, item));
+      processQueue();
+    },
+    [processQueue, openArchive]
+  );
+  const pauseItems = useCallback(
+    (jobId: string, itemIds?: Set<string>) => {
+      stopItems(jobId, itemIds);
+      setJobs((prev) =>
+        patchJobItems(prev, jobId, (i) =>
+          (!itemIds || itemIds.has(i.id)) && (i.status === "pending" || i.status === "downloading") ? { status: "paused" } : null
+        )
+      );
+    },
+    [stopItems]
+  );
+  const resumeItems = useCallback(
+    async (jobId: string, itemIds?: Set<string>) => {
+      const job = jobsRef.current.find((j) => j.id === jobId);
+      if (!job) return;
+      const toResume = job.items.filter((i) => i.status === "paused" && (!itemIds || itemIds.has(i.id)));
+      if (toResume.length === 0) return;
+      const ids = new Set(toResume.map((i) => i.id));
+      setJobs((prev) => patchJobItems(prev, jobId, (i) => (ids.has(i.id) ? { status: "pending" } : null)));
+      if (!archivesRef.current.has(jobId)) {
+        // Restored after a reload: the old archive is gone, so start a new one
+        // from the files kept in storage and re-fetch any that were already
+        // written out and dropped. Every lookup settles before anything is
+        // queued, so the archive can't be finished without them.
+        openArchive(job);
+        const completed = job.items.filter((i) => i.status === "completed");
+        const stored = await Promise.all(completed.map((item) => getStoredFile(item.id).catch(() => null)));
+        const refetch = new Set<string>();
+        completed.forEach((item, i) => {
+          const file = stored[i];
+          if (file) writeToArchive(job, item, file);
+          else refetch.add(item.id);
         });
+        if (refetch.size > 0) {
+          setJobs((prev) => patchJobItems(prev, jobId, (i) => (refetch.has(i.id) ? { status: "pending", progress: 0 } : null)));
+          for (const id of refetch) ids.add(id);
+        }
       }
+      for (const item of job.items) if (ids.has(item.id)) downloadQueueRef.current.push(toQueueItem(job, item));
       processQueue();
     },
-    [processQueue]
+    [processQueue, openArchive, writeToArchive]
   );
+  const pauseJob = useCallback((jobId: string) => pauseItems(jobId), [pauseItems]);
+  const resumeJob = useCallback((jobId: string) => void resumeItems(jobId), [resumeItems]);
+  const pauseItem = useCallback((jobId: string, itemId: string) => pauseItems(jobId, new Set([itemId])), [pauseItems]);
+  const resumeItem = useCallback((jobId: string, itemId: string) => void resumeItems(jobId, new Set([itemId])), [resumeItems]);
   const clearCompleted = useCallback(() => {
-    setJobs((prev) => prev.filter((j) => j.status === "active"));
-  }, []);
-  const dismissJob = useCallback((jobId: string) => {
-    setJobs((prev) => prev.filter((j) => j.id !== jobId));
-    zipDataRef.current!.delete(jobId);
-    creatingZipsRef.current!.delete(jobId);
+    const finished = jobsRef.current.filter((j) => j.status === "completed" || j.status === "failed");
+    void deleteItemData(finished.flatMap((j) => j.items.map((i) => i.id))).catch(() => {});
+    setJobs((prev) => prev.filter((j) => j.status === "active" || j.status === "paused"));
   }, []);
+  const value = useMemo(
+    () => ({ jobs, isMinimized, setIsMinimized, startDownload, clearCompleted, dismissJob, pauseJob, resumeJob, pauseItem, resumeItem }),
+    [jobs, isMinimized, setIsMinimized, startDownload, clearCompleted, dismissJob, pauseJob, resumeJob, pauseItem, resumeItem]
+  );
   return (
-    <DownloadContext.Provider value={useMemo(() => ({ jobs, isMinimized, setIsMinimized, startDownload, clearCompleted, dismissJob }), [jobs, isMinimized, setIsMinimized, startDownload, clearCompleted, dismissJob])}>
+    <DownloadContext.Provider value={value}>
       {children}
       <DownloadFloatingUI />
     </DownloadContext.Provider>
   );
 }
+export function DownloadProvider({ children }: { children: ReactNode }) {
+  const parent = use(DownloadContext);
+  if (parent) return <>{children}</>;
+  return <DownloadManagerRoot>{children}</DownloadManagerRoot>;
+}
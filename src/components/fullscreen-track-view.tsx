@@ -31,7 +31,8 @@ import { useVolume } from "@/src/hooks/use-volume";
 import { VolumeControl } from "@/src/components/volume-control";
 import { Button } from "@/components/ui/button";
 import { WaveformSeekbar } from "@/src/components/waveform-seekbar";
-import { X, SkipBack, SkipForward, Play, Pause, Shuffle, Repeat, Repeat1 } from "lucide-react";
+import { AudioControls } from "@/src/components/audio-controls";
+import { X, SkipBack, SkipForward, Play, Pause, Shuffle, Repeat, Repeat1, SlidersHorizontal } from "lucide-react";
 
 const KAWARP_DEFAULTS = {
   warpIntensity: 1,
@@ -68,6 +69,7 @@ export const FullscreenTrackView = memo(function FullscreenTrackView({ isOpen, o
   const tiltRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const kawarpRef = useRef<Kawarp | null>(null);
+  const [audioPanelOpen, setAudioPanelOpen] = useState(false);
 
   // Init / destroy Kawarp — stable, never recreated
   useEffect(() => {
@@ -230,6 +232,20 @@ export const FullscreenTrackView = memo(function FullscreenTrackView({ isOpen, o
             >
               <X className="w-5 h-5" />
             </button>
+            <button
+              type="button"
+              onClick={() => setAudioPanelOpen((o) => !o)}
+              className={`absolute top-4 left-4 sm:top-6 sm:left-6 z-20 hover:bg-white/10 h-10 w-10 rounded-full flex items-center justify-center transition-colors ${audioPanelOpen ? "text-white" : "text-white/60 hover:text-white"}`}
+              aria-label="Audio settings"
+              aria-pressed={audioPanelOpen}
+            >
+              <SlidersHorizontal className="w-5 h-5" />
+            </button>
+            {audioPanelOpen && (
+              <div className="absolute top-16 left-4 sm:top-20 sm:left-6 z-30 glass-elevated rounded-2xl p-4 w-[calc(100%-2rem)] max-w-sm">
+                <AudioControls />
+              </div>
+            )}
 
             {/* Content */}
             <div className="absolute inset-0 z-10 flex flex-col items-center justify-center px-6 sm:px-12 pb-8 pt-16">
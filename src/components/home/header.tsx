@@ -1,5 +1,6 @@
 import { memo } from "react";
-import { Search, X, SlidersHorizontal, Info, HandCoins, Settings } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Search, X, SlidersHorizontal, Info, HandCoins, Settings, ListMusic, BarChart3 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -83,8 +84,27 @@ export const FilterControls = memo(
 
 export const HeaderActions = memo(({ onInfoClick, onDonateClick }: { onInfoClick: () => void; onDonateClick: () => void }) => {
   const { setSettingsOpen } = useSettingsModal();
+  const navigate = useNavigate();
   return (
     <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => navigate("/playlists")}
+        aria-label="Playlists"
+        className="glass-flat rounded-xl text-white/50 hover:text-white h-10 w-10"
+      >
+        <ListMusic className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => navigate("/stats")}
+        aria-label="Listening stats"
+        className="glass-flat rounded-xl text-white/50 hover:text-white h-10 w-10"
+      >
+        <BarChart3 className="w-4 h-4" />
+      </Button>
       <Button
         variant="ghost"
         size="icon"
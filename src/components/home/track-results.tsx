@@ -0,0 +1,66 @@
+import { memo, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Music } from "lucide-react";
+import { searchTracks, type SearchResult } from "@/src/lib/track-search";
+import { encodeTrackForUrl } from "@/src/lib/track-utils";
+
+const COLLAPSED_COUNT = 6;
+
+export function trackResultHref({ doc }: SearchResult): string {
+  const artistQs = doc.artist ? `&artist=${encodeURIComponent(doc.artist)}` : "";
+  return `/sh/${doc.trackerId}/${encodeURIComponent(doc.tabSlug)}?track=${encodeTrackForUrl(doc.url)}${artistQs}`;
+}
+
+export const TrackSearchResults = memo(function TrackSearchResults({ query }: { query: string }) {
+  const [results, setResults] = useState<{ query: string; items: SearchResult[] }>({ query: "", items: [] });
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    if (!query) return;
+    let cancelled = false;
+    searchTracks(query).then((items) => {
+      if (!cancelled) setResults({ query, items });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const items = query && results.query === query ? results.items : [];
+  if (items.length === 0) return null;
+  const visible = expanded ? items : items.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <section aria-label="Track results" className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xs font-semibold text-white/50 uppercase tracking-wider">Tracks in opened trackers</h2>
+        {items.length > COLLAPSED_COUNT && (
+          <button type="button" onClick={() => setExpanded((v) => !v)} className="text-xs text-white/50 hover:text-white transition-colors">
+            {expanded ? "Show less" : `Show all ${items.length}`}
+          </button>
+        )}
+      </div>
+      <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {visible.map((result) => (
+          <li key={`${result.doc.trackerId}/${result.doc.tab}/${result.doc.url}`}>
+            <Link
+              to={trackResultHref(result)}
+              className="glass rounded-xl px-3 py-2.5 flex items-center gap-3 hover:border-white/25 transition-colors"
+            >
+              <Music className="w-4 h-4 text-white/30 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">
+                  {result.doc.name}
+                  {result.doc.extra && <span className="text-white/45"> {result.doc.extra}</span>}
+                </p>
+                <p className="text-[11px] text-white/50 truncate">
+                  {[result.doc.artist, result.doc.era, result.doc.tab].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+});
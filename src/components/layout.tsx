@@ -2,6 +2,8 @@ import { createPortal } from "react-dom";
 import { Link, Outlet } from "react-router-dom";
 import type { ReactNode } from "react";
 import { useLayoutEffect, useState } from "react";
+import { WifiOff } from "lucide-react";
+import { useOnlineStatus } from "@/src/hooks/use-online-status";
 
 export function useHeaderSlots(center: ReactNode, right?: ReactNode) {
   const [ready, setReady] = useState(false);
@@ -20,9 +22,21 @@ export function useHeaderSlots(center: ReactNode, right?: ReactNode) {
   );
 }
 
+export function OfflineBanner() {
+  const online = useOnlineStatus();
+  if (online) return null;
+  return (
+    <div role="status" className="flex items-center justify-center gap-2 px-4 py-1.5 bg-amber-500/15 text-amber-200 text-xs backdrop-blur-md">
+      <WifiOff className="w-3.5 h-3.5 flex-shrink-0" />
+      <span>You're offline. Pinned trackers and anything already cached are still available.</span>
+    </div>
+  );
+}
+
 export function Layout() {
   return (
     <>
+      <OfflineBanner />
       <header className="sticky top-0 z-30 py-3.5 glass-bar">
         <div className="max-w-7xl mx-auto flex items-center gap-3 px-4 sm:px-6 h-11">
           <Link
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { ListMusic, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { Modal } from "@/src/components/modal";
+import { addToPlaylist, createPlaylist, getPlaylists, type PlaylistEntry } from "@/src/lib/playlists";
+
+export function PlaylistPicker({ entries, onClose }: { entries: PlaylistEntry[] | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const playlists = entries ? getPlaylists() : [];
+  const label = entries?.length === 1 ? entries[0].name : `${entries?.length ?? 0} tracks`;
+
+  const handleAdd = (id: string, playlistName: string) => {
+    if (!entries) return;
+    const before = getPlaylists().find((p) => p.id === id)?.entries.length ?? 0;
+    const after = addToPlaylist(id, entries).find((p) => p.id === id)?.entries.length ?? 0;
+    const added = after - before;
+    toast({ title: added > 0 ? `Added to ${playlistName}` : `Already in ${playlistName}` });
+    onClose();
+  };
+
+  const handleCreate = () => {
+    if (!entries || !name.trim()) return;
+    const playlist = createPlaylist(name, entries);
+    toast({ title: `Created ${playlist.name}` });
+    setName("");
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={entries !== null} onClose={onClose} ariaLabel="Add to playlist">
+      <div className="p-5 space-y-4">
+        <div>
+          <h2 className="text-base font-semibold text-white">Add to Playlist</h2>
+          <p className="text-xs text-white/50 mt-0.5 truncate pr-8">{label}</p>
+        </div>
+        {playlists.length > 0 && (
+          <div className="max-h-60 overflow-y-auto space-y-1">
+            {playlists.map((p) => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => handleAdd(p.id, p.name)}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-sm text-white/70 hover:bg-white/[0.08] hover:text-white transition-colors text-left"
+              >
+                <ListMusic className="w-4 h-4 flex-shrink-0" />
+                <span className="flex-1 truncate">{p.name}</span>
+                <span className="text-xs text-white/40">{p.entries.length}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreate();
+          }}
+        >
+          <Input
+            placeholder="New playlist name..."
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            aria-label="New playlist name"
+            className="glass-flat rounded-xl text-white border-0 focus-visible:ring-1 focus-visible:ring-white/30"
+          />
+          <Button type="submit" size="sm" disabled={!name.trim()} className="bg-white text-black hover:bg-neutral-200 h-10 rounded-xl">
+            <Plus className="w-4 h-4 mr-1" />
+            Create
+          </Button>
+        </form>
+      </div>
+    </Modal>
+  );
+}
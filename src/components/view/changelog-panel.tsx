@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { ChevronDown, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { TrackerChangelog, TrackSnapshot } from "@/src/lib/tracker-changelog";
+import { formatRelativeTime } from "@/src/lib/view-utils";
+
+const MAX_LISTED = 50;
+
+function TrackLine({ track, children }: { track: TrackSnapshot; children?: React.ReactNode }) {
+  return (
+    <li className="flex items-center gap-2 text-xs sm:text-sm min-w-0">
+      <span className="truncate text-white/80">{children ?? track.name}</span>
+      {track.era && <span className="text-[10px] px-1.5 py-0.5 rounded bg-white/5 text-neutral-400 flex-shrink-0">{track.era}</span>}
+    </li>
+  );
+}
+
+function Section<T>({ title, items, className, render }: { title: string; items: T[]; className: string; render: (item: T, i: number) => React.ReactNode }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h4 className={`text-[11px] uppercase tracking-wider font-medium mb-1.5 ${className}`}>
+        {title} ({items.length})
+      </h4>
+      <ul className="space-y-1">
+        {items.slice(0, MAX_LISTED).map(render)}
+        {items.length > MAX_LISTED && <li className="text-xs text-white/40">and {items.length - MAX_LISTED} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+export function ChangelogPanel({ changelog, onDismiss }: { changelog: TrackerChangelog; onDismiss: () => void }) {
+  const [expanded, setExpanded] = useState(false);
+  const summary = [
+    changelog.added.length > 0 && `${changelog.added.length} new`,
+    changelog.removed.length > 0 && `${changelog.removed.length} removed`,
+    changelog.renamed.length > 0 && `${changelog.renamed.length} renamed`,
+    changelog.changed.length > 0 && `${changelog.changed.length} updated`,
+    changelog.newEras.length > 0 && `${changelog.newEras.length} new era${changelog.newEras.length !== 1 ? "s" : ""}`,
+  ].filter(Boolean);
+  return (
+    <div className="glass rounded-2xl mb-4 sm:mb-5 overflow-hidden" role="region" aria-label="What's new">
+      <div className="flex items-center gap-2 p-3 sm:p-4">
+        <button
+          type="button"
+          onClick={() => setExpanded((e) => !e)}
+          aria-expanded={expanded}
+          className="flex-1 min-w-0 flex items-center gap-3 text-left"
+        >
+          <Sparkles className="w-4 h-4 text-yellow-300 flex-shrink-0" />
+          <div className="min-w-0">
+            <div className="text-sm font-semibold text-white">What's new since your last visit</div>
+            <div className="text-xs text-white/50 truncate">
+              {summary.join(" · ") || "Tracker changed"} · compared with {formatRelativeTime(new Date(changelog.since).toISOString())}
+            </div>
+          </div>
+          <ChevronDown className={`w-4 h-4 text-white/40 flex-shrink-0 transition-transform ${expanded ? "rotate-180" : ""}`} />
+        </button>
+        <Button variant="ghost" size="icon" onClick={onDismiss} aria-label="Dismiss changes" className="text-white/40 hover:text-white hover:bg-white/10 h-8 w-8 rounded-lg flex-shrink-0">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      {expanded && (
+        <div className="px-3 pb-4 sm:px-4 grid gap-4 sm:grid-cols-2 max-h-96 overflow-y-auto">
+          <Section title="New eras" items={changelog.newEras} className="text-yellow-300/80" render={(era) => (
+            <li key={era} className="text-xs sm:text-sm text-white/80">{era}</li>
+          )} />
+          <Section title="New tracks" items={changelog.added} className="text-emerald-400/80" render={(t) => <TrackLine key={t.key} track={t} />} />
+          <Section title="Renamed" items={changelog.renamed} className="text-sky-400/80" render={({ before, after }) => (
+            <TrackLine key={after.key} track={after}>
+              <span className="text-white/40 line-through">{before.name}</span> → {after.name}
+            </TrackLine>
+          )} />
+          <Section title="Updated" items={changelog.changed} className="text-violet-400/80" render={({ before, after, fields }) => (
+            <TrackLine key={after.key} track={after}>
+              {after.name}
+              <span className="text-white/40">
+                {fields.includes("quality") && ` · ${before.quality || "?"} → ${after.quality || "?"}`}
+                {fields.includes("links") && " · links changed"}
+              </span>
+            </TrackLine>
+          )} />
+          <Section title="Removed" items={changelog.removed} className="text-red-400/80" render={(t) => <TrackLine key={t.key} track={t} />} />
+          <Section title="Removed eras" items={changelog.removedEras} className="text-red-400/80" render={(era) => (
+            <li key={era} className="text-xs sm:text-sm text-white/60">{era}</li>
+          )} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,15 +3,16 @@ import { motion, AnimatePresence } from "framer-motion";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { ChevronDown, MoreHorizontal, Heart, FolderDown } from "lucide-react";
-import type { Era, TALeak, TrackSource } from "@/src/types";
+import type { Era, TALeak } from "@/src/types";
 import { getAllTrackUrls } from "@/src/lib/track-utils";
 import { TrackRow } from "@/src/components/view/track-row";
 import { useImageProxy } from "@/src/hooks/use-image-proxy";
 import { getEraFontStyle } from "@/src/hooks/use-era-fonts";
+import type { TrackLinkStatus } from "@/src/lib/link-health";
 
 export type EraCardTrackState = {
   url: string | null;
-  source: TrackSource;
+  source: string;
   isPlayable: boolean;
   isCurrentlyPlaying: boolean;
   isCurrentTrack: boolean;
@@ -19,6 +20,7 @@ export type EraCardTrackState = {
   description: string | undefined;
   shouldShowSource: boolean;
   playableUrl: string | null;
+  linkStatus?: TrackLinkStatus;
 };
 
 interface EraCategoryHeaderProps {
@@ -65,6 +67,7 @@ export interface EraCardProps {
   handleDownload: (t: TALeak) => void;
   handleToggleFavourite: (url: string) => void;
   handleOpenOriginal: (t: TALeak) => void;
+  handleAddToPlaylist?: (t: TALeak, era: Era) => void;
   handleToggleEraFavourite: (era: Era) => void;
   isEraFavourited: (trackerId: string, era: Era) => boolean;
   downloadTracker: (eraKey?: string, cat?: string) => void;
@@ -88,6 +91,7 @@ export const EraCard = memo(function EraCard({
   handleDownload,
   handleToggleFavourite,
   handleOpenOriginal,
+  handleAddToPlaylist,
   handleToggleEraFavourite,
   isEraFavourited,
   downloadTracker,
@@ -103,7 +107,8 @@ export const EraCard = memo(function EraCard({
   return (
     <div
       key={eraKey}
-      className="rounded-2xl overflow-hidden border border-white/[0.1]"
+      data-era-key={eraKey}
+      className="rounded-2xl overflow-hidden border border-white/[0.1] scroll-mt-4"
       style={{
         background: era.backgroundColor
           ? `color-mix(in srgb, ${era.backgroundColor}, oklch(10% 0 0) 82%)`
@@ -273,6 +278,7 @@ export const EraCard = memo(function EraCard({
                           handleDownload={handleDownload}
                           handleToggleFavourite={handleToggleFavourite}
                           handleOpenOriginal={handleOpenOriginal}
+                          handleAddToPlaylist={handleAddToPlaylist}
                           favourites={favourites}
                           highlightedTrackRef={highlightedTrackRef}
                         />
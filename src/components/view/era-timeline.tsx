@@ -0,0 +1,194 @@
+import { useMemo, useState } from "react";
+import { CalendarRange } from "lucide-react";
+import type { Era, EraDate } from "@/src/types";
+import {
+  buildEraTimeline,
+  timelineOffset,
+  timelineTicks,
+  type TimelinePoint,
+  type TimelineZoom,
+} from "@/src/lib/era-timeline";
+
+const POINT_SIZE = 8;
+const MAX_STACK = 5;
+const LANE_HEIGHT = POINT_SIZE * MAX_STACK + 8;
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+// Points closer than a dot's width stack upwards instead of hiding each other.
+function stackPoints(points: TimelinePoint[], start: number, zoom: TimelineZoom) {
+  const levels: number[] = [];
+  return points.map((point) => {
+    const x = timelineOffset(point.time, start, zoom);
+    let level = levels.findIndex((right) => right <= x);
+    if (level === -1) level = levels.length < MAX_STACK ? levels.length : MAX_STACK - 1;
+    levels[level] = x + POINT_SIZE;
+    return { point, x, level };
+  });
+}
+
+function PointLane({
+  label,
+  points,
+  start,
+  zoom,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  points: TimelinePoint[];
+  start: number;
+  zoom: TimelineZoom;
+  selected: string | null;
+  onSelect: (point: TimelinePoint) => void;
+}) {
+  if (points.length === 0) return null;
+  return (
+    <div className="relative border-t border-white/[0.06]" style={{ height: LANE_HEIGHT }}>
+      <span className="sticky left-0 text-[10px] uppercase tracking-wider text-white/40 px-1">{label}</span>
+      {stackPoints(points, start, zoom).map(({ point, x, level }) => {
+        const verb = point.kind === "leak" ? "Leaked" : "Recorded";
+        return (
+          <button
+            key={point.key}
+            type="button"
+            onClick={() => onSelect(point)}
+            title={`${point.track.name} · ${point.eraName} · ${verb} ${formatDate(point.time)}`}
+            aria-label={`${point.track.name}, ${verb.toLowerCase()} ${formatDate(point.time)}`}
+            className={`absolute border transition-transform hover:scale-150 ${point.kind === "leak" ? "rounded-full" : "rounded-sm"} ${
+              selected === point.key ? "border-white scale-150 z-10" : "border-black/40"
+            }`}
+            style={{
+              left: x,
+              bottom: 4 + level * POINT_SIZE,
+              width: POINT_SIZE,
+              height: POINT_SIZE,
+              background: point.color ?? (point.kind === "leak" ? "#f87171" : "#a3a3a3"),
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export function EraTimelinePanel({
+  eras,
+  eraDates,
+  onSelectTrack,
+}: {
+  eras: Record<string, Era>;
+  eraDates?: EraDate[];
+  onSelectTrack: (point: TimelinePoint) => void;
+}) {
+  const [zoom, setZoom] = useState<TimelineZoom>("year");
+  const [selected, setSelected] = useState<string | null>(null);
+  const timeline = useMemo(() => buildEraTimeline(eras, eraDates), [eras, eraDates]);
+
+  if (!timeline) {
+    return (
+      <div className="glass rounded-2xl text-center py-10 mb-4 sm:mb-6 flex flex-col items-center">
+        <CalendarRange className="w-10 h-10 text-neutral-700 mb-3" />
+        <p className="text-sm text-neutral-400">No dated tracks or era events on this tab</p>
+      </div>
+    );
+  }
+
+  const { start, end, spans, events, points } = timeline;
+  const width = timelineOffset(end, start, zoom);
+  const ticks = timelineTicks(start, end, zoom);
+  const handleSelect = (point: TimelinePoint) => {
+    setSelected(point.key);
+    onSelectTrack(point);
+  };
+
+  return (
+    <section className="glass rounded-2xl p-3 sm:p-4 mb-4 sm:mb-6" aria-label="Era timeline">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-3 text-[11px] text-white/50">
+          <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-sm bg-neutral-400" />Recorded</span>
+          <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-red-400" />Leaked</span>
+          <span className="flex items-center gap-1.5"><span className="w-2 h-2 rotate-45 bg-amber-300" />Era event</span>
+        </div>
+        <div className="flex items-center gap-1" role="group" aria-label="Timeline zoom">
+          {(["year", "month"] as const).map((z) => (
+            <button
+              key={z}
+              type="button"
+              aria-pressed={zoom === z}
+              onClick={() => setZoom(z)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                zoom === z ? "bg-white text-black" : "glass-flat text-white/55 hover:text-white"
+              }`}
+            >
+              {z === "year" ? "Years" : "Months"}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto no-scrollbar">
+        <div className="relative" style={{ width: Math.max(width, 320) }}>
+          <div className="relative h-5">
+            {ticks.map((tick) => (
+              <span
+                key={tick.time}
+                className={`absolute top-0 text-[10px] pl-1 border-l ${tick.major ? "text-white/60 border-white/30" : "text-white/35 border-white/10"}`}
+                style={{ left: timelineOffset(tick.time, start, zoom) }}
+              >
+                {tick.label}
+              </span>
+            ))}
+          </div>
+          <div className="space-y-1 py-2">
+            {spans.map((span) => (
+              <div key={span.eraName} className="relative h-5">
+                <div
+                  className="absolute h-full rounded-md px-1.5 text-[10px] leading-5 whitespace-nowrap overflow-visible"
+                  title={`${span.eraName}: ${formatDate(span.start)} – ${formatDate(span.end)}`}
+                  style={{
+                    left: timelineOffset(span.start, start, zoom),
+                    width: Math.max(POINT_SIZE, timelineOffset(span.end, span.start, zoom)),
+                    background: span.color ?? "rgba(255,255,255,0.2)",
+                    color: span.textColor ?? "rgba(255,255,255,0.85)",
+                  }}
+                >
+                  {span.eraName}
+                </div>
+              </div>
+            ))}
+          </div>
+          {events.length > 0 && (
+            <div className="relative h-6 border-t border-white/[0.06]">
+              {events.map((event) => (
+                <span
+                  key={event.key}
+                  title={`${event.label} · ${event.eraName} · ${formatDate(event.time)}`}
+                  className="absolute top-2 w-2 h-2 rotate-45 bg-amber-300"
+                  style={{ left: timelineOffset(event.time, start, zoom) }}
+                />
+              ))}
+            </div>
+          )}
+          <PointLane
+            label="Recorded"
+            points={points.filter((p) => p.kind === "file")}
+            start={start}
+            zoom={zoom}
+            selected={selected}
+            onSelect={handleSelect}
+          />
+          <PointLane
+            label="Leaked"
+            points={points.filter((p) => p.kind === "leak")}
+            start={start}
+            zoom={zoom}
+            selected={selected}
+            onSelect={handleSelect}
+          />
+        </div>
+      </div>
+    </section>
+  );
+}
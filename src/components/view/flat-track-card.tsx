@@ -1,34 +1,37 @@
 import { useRef } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { DropdownMenuItem, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
-import { Play, Radio, SkipForward, ListPlus, Download, Heart, ExternalLink } from "lucide-react";
-import type { Era, TALeak, Track, TrackSource } from "@/src/types";
-import { PlayButton, PauseButton, OpenLinkButton, TrackDescription, TrackItemActions } from "@/src/components/view/track-item";
+import { Play, Radio, SkipForward, ListPlus, ListMusic, Download, Heart, ExternalLink } from "lucide-react";
+import type { Era, TALeak, Track } from "@/src/types";
+import { PlayButton, PauseButton, OpenLinkButton, TrackDescription, TrackItemActions, LinkHealthBadge } from "@/src/components/view/track-item";
+import type { TrackLinkStatus } from "@/src/lib/link-health";
 import { getEraFontStyle } from "@/src/hooks/use-era-fonts";
 
 export interface FlatTrackCardProps {
   t: TALeak;
   fakeEra: Era;
   url: string | null;
-  source: TrackSource;
+  source: string;
   isPlayable: boolean;
   isCurrentlyPlaying: boolean;
   description: string | undefined;
   shouldShowSource: boolean;
   playableUrl: string | null;
+  linkStatus?: TrackLinkStatus;
   handlePlayTrack: (t: TALeak, era: Era) => void;
   handleOpenUrl: (url: string) => void;
   handleToggleFavourite: (url: string) => void;
   handleOpenOriginal: (t: TALeak) => void;
   handleDownload: (t: TALeak) => void;
   handleAddToQueue: (t: TALeak, era: Era) => void;
+  handleAddToPlaylist?: (t: TALeak, era: Era) => void;
   favourites: string[];
   createTrackObject: (t: TALeak, era: Era, url: string, playableUrl: string) => Track;
   clearQueue: () => void;
   playTrack: (t: Track) => void;
 }
 
-export function FlatTrackCard({ t, fakeEra, url, source, isPlayable, isCurrentlyPlaying, description, shouldShowSource, playableUrl, handlePlayTrack, handleOpenUrl, handleToggleFavourite, handleOpenOriginal, handleDownload, handleAddToQueue, favourites, createTrackObject, clearQueue, playTrack }: FlatTrackCardProps) {
+export function FlatTrackCard({ t, fakeEra, url, source, isPlayable, isCurrentlyPlaying, description, shouldShowSource, playableUrl, linkStatus, handlePlayTrack, handleOpenUrl, handleToggleFavourite, handleOpenOriginal, handleDownload, handleAddToQueue, handleAddToPlaylist, favourites, createTrackObject, clearQueue, playTrack }: FlatTrackCardProps) {
   return (
     <>
       <div className="flex items-center gap-2 sm:gap-3 p-2.5 sm:p-3">
@@ -41,6 +44,7 @@ export function FlatTrackCard({ t, fakeEra, url, source, isPlayable, isCurrently
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-1.5 flex-wrap">
             <span className="font-semibold text-white text-xs sm:text-sm truncate">{t.name || "Unknown"}</span>
+            <LinkHealthBadge status={linkStatus} />
           </div>
           <div className="flex flex-wrap items-center gap-1 sm:gap-2 mt-0.5">
             {t.eraName && (
@@ -70,6 +74,9 @@ export function FlatTrackCard({ t, fakeEra, url, source, isPlayable, isCurrently
             </>
           )}
           <DropdownMenuSeparator className="bg-neutral-800" />
+          {url && handleAddToPlaylist && (
+            <DropdownMenuItem onClick={() => handleAddToPlaylist(t, fakeEra)} className="cursor-pointer"><ListMusic className="w-4 h-4 mr-2" />Add to Playlist</DropdownMenuItem>
+          )}
           {url && (
             <DropdownMenuItem onClick={() => handleToggleFavourite(url)} className="cursor-pointer">
               <Heart className={`w-4 h-4 mr-2 ${favourites.includes(url) ? "fill-current text-red-400" : ""}`} />
@@ -86,13 +93,14 @@ export function FlatTrackCard({ t, fakeEra, url, source, isPlayable, isCurrently
 
 export interface FlatTrackListProps {
   tracks: TALeak[];
-  computeTrackState: (t: TALeak) => { url: string | null; source: TrackSource; isPlayable: boolean; isCurrentlyPlaying: boolean; isCurrentTrack: boolean; isHighlighted: boolean; description: string | undefined; shouldShowSource: boolean; playableUrl: string | null };
+  computeTrackState: (t: TALeak) => { url: string | null; source: string; isPlayable: boolean; isCurrentlyPlaying: boolean; isCurrentTrack: boolean; isHighlighted: boolean; description: string | undefined; shouldShowSource: boolean; playableUrl: string | null; linkStatus?: TrackLinkStatus };
   handlePlayTrack: (t: TALeak, era: Era) => void;
   handleAddToQueue: (t: TALeak, era: Era) => void;
   handleOpenUrl: (url: string) => void;
   handleOpenOriginal: (t: TALeak) => void;
   handleToggleFavourite: (url: string) => void;
   handleDownload: (t: TALeak) => void;
+  handleAddToPlaylist?: (t: TALeak, era: Era) => void;
   favourites: string[];
   highlightedTrackRef: React.RefObject<HTMLDivElement | null>;
   createTrackObject: (t: TALeak, era: Era, url: string, playableUrl: string) => Track;
@@ -100,7 +108,7 @@ export interface FlatTrackListProps {
   playTrack: (t: Track) => void;
 }
 
-export function FlatTrackList({ tracks, computeTrackState, handlePlayTrack, handleAddToQueue, handleOpenUrl, handleOpenOriginal, handleToggleFavourite, handleDownload, favourites, highlightedTrackRef, createTrackObject, clearQueue, playTrack }: FlatTrackListProps) {
+export function FlatTrackList({ tracks, computeTrackState, handlePlayTrack, handleAddToQueue, handleOpenUrl, handleOpenOriginal, handleToggleFavourite, handleDownload, handleAddToPlaylist, favourites, highlightedTrackRef, createTrackObject, clearQueue, playTrack }: FlatTrackListProps) {
   const parentRef = useRef<HTMLDivElement>(null);
   const virtualizer = useVirtualizer({
     count: tracks.length,
@@ -113,7 +121,7 @@ export function FlatTrackList({ tracks, computeTrackState, handlePlayTrack, hand
       <div style={{ height: virtualizer.getTotalSize(), width: "100%", position: "relative" }}>
         {virtualizer.getVirtualItems().map((virtualRow) => {
           const t = tracks[virtualRow.index];
-          const { url, source, isPlayable, isCurrentlyPlaying, isCurrentTrack, isHighlighted, description, shouldShowSource, playableUrl } = computeTrackState(t);
+          const { url, source, isPlayable, isCurrentlyPlaying, isCurrentTrack, isHighlighted, description, shouldShowSource, playableUrl, linkStatus } = computeTrackState(t);
           const fakeEra: Era = { name: t.eraName ?? "", backgroundColor: t.eraColor, textColor: t.eraTextColor, font: t.eraFont };
           return (
             <div
@@ -126,7 +134,7 @@ export function FlatTrackList({ tracks, computeTrackState, handlePlayTrack, hand
               style={{ position: "absolute", top: 0, left: 0, width: "100%", transform: `translateY(${virtualRow.start}px)` }}
               className={`rounded-xl transition-colors ${isHighlighted ? "bg-yellow-400/15 border border-yellow-400/40 ring-2 ring-yellow-400/20" : isCurrentTrack ? "bg-white/[0.08] border border-white/[0.15]" : "glass-flat"}`}
             >
-              <FlatTrackCard t={t} fakeEra={fakeEra} url={url} source={source} isPlayable={isPlayable} isCurrentlyPlaying={isCurrentlyPlaying} description={description} shouldShowSource={shouldShowSource} playableUrl={playableUrl} handlePlayTrack={handlePlayTrack} handleOpenUrl={handleOpenUrl} handleToggleFavourite={handleToggleFavourite} handleOpenOriginal={handleOpenOriginal} handleDownload={handleDownload} handleAddToQueue={handleAddToQueue} favourites={favourites} createTrackObject={createTrackObject} clearQueue={clearQueue} playTrack={playTrack} />
+              <FlatTrackCard t={t} fakeEra={fakeEra} url={url} source={source} isPlayable={isPlayable} isCurrentlyPlaying={isCurrentlyPlaying} description={description} shouldShowSource={shouldShowSource} playableUrl={playableUrl} linkStatus={linkStatus} handlePlayTrack={handlePlayTrack} handleOpenUrl={handleOpenUrl} handleToggleFavourite={handleToggleFavourite} handleOpenOriginal={handleOpenOriginal} handleDownload={handleDownload} handleAddToQueue={handleAddToQueue} handleAddToPlaylist={handleAddToPlaylist} favourites={favourites} createTrackObject={createTrackObject} clearQueue={clearQueue} playTrack={playTrack} />
             </div>
           );
         })}
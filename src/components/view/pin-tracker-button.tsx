@@ -0,0 +1,105 @@
+import { useRef, useState } from "react";
+import { Pin, PinOff, Loader2, Music2, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/components/ui/use-toast";
+import { getPinnedTrackers, pinTracker, unpinTracker, type PinProgress } from "@/src/lib/offline-pins";
+
+const PHASE_LABELS: Record<PinProgress["phase"], string> = { data: "Tabs", images: "Covers", audio: "Audio" };
+
+export function PinTrackerButton({ trackerId }: { trackerId: string }) {
+  const { toast } = useToast();
+  const [pin, setPin] = useState(() => getPinnedTrackers().find((p) => p.id === trackerId) ?? null);
+  const [progress, setProgress] = useState<PinProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handlePin = async (includeAudio: boolean) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ phase: "data", done: 0, total: 1 });
+    try {
+      const result = await pinTracker(trackerId, { includeAudio, onProgress: setProgress, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setPin(result);
+      toast({
+        title: "Pinned for offline use",
+        description: `${result.tabs} tab${result.tabs !== 1 ? "s" : ""}, ${result.images} images${includeAudio ? `, ${result.audio} tracks` : ""}${result.failed > 0 ? ` (${result.failed} failed)` : ""}`,
+      });
+    } catch (e) {
+      if (!controller.signal.aborted) toast({ title: "Pinning failed", description: e instanceof Error ? e.message : undefined });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleUnpin = async () => {
+    await unpinTracker(trackerId);
+    setPin(null);
+    toast({ title: "Removed offline copy" });
+  };
+
+  if (progress) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => abortRef.current?.abort()}
+        aria-label="Cancel pinning"
+        className="glass-flat rounded-xl text-white/60 hover:text-white"
+      >
+        <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
+        {PHASE_LABELS[progress.phase]} {progress.done}/{progress.total}
+        <X className="w-3.5 h-3.5 ml-2" />
+      </Button>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label={pin ? "Pinned for offline" : "Pin for offline"}
+          className={`glass-flat rounded-xl ${pin ? "text-emerald-400 hover:text-emerald-300" : "text-white/60 hover:text-white"}`}
+        >
+          <Pin className={`w-3.5 h-3.5 mr-2 ${pin ? "fill-current" : ""}`} />
+          {pin ? "Pinned" : "Pin Offline"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56 glass-elevated border-0 rounded-2xl text-white/80 p-1">
+        {pin && (
+          <DropdownMenuLabel className="text-white/55 text-xs font-normal px-2 py-1.5">
+            Pinned {new Date(pin.pinnedAt).toLocaleDateString()}
+            {pin.includeAudio ? ` · ${pin.audio} tracks` : ""}
+          </DropdownMenuLabel>
+        )}
+        <DropdownMenuItem onClick={() => void handlePin(false)} className="rounded-xl cursor-pointer">
+          {pin ? <RefreshCw className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+          {pin ? "Refresh Tabs & Covers" : "Pin Tabs & Covers"}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => void handlePin(true)} className="rounded-xl cursor-pointer">
+          <Music2 className="w-4 h-4 mr-2" />
+          {pin?.includeAudio ? "Refresh With Audio" : "Pin With Audio"}
+        </DropdownMenuItem>
+        {pin && (
+          <>
+            <DropdownMenuSeparator className="bg-white/[0.08] my-1" />
+            <DropdownMenuItem onClick={() => void handleUnpin()} className="rounded-xl cursor-pointer text-red-400">
+              <PinOff className="w-4 h-4 mr-2" />
+              Unpin
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -7,10 +7,13 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Play, Pause, ExternalLink, Link as LinkIcon, AlertTriangle, MoreHorizontal, Heart } from "lucide-react";
 import { Link } from "react-router-dom";
-import { isUrl, getSourceDisplayName } from "@/src/lib/track-utils";
+import { isUrl } from "@/src/lib/track-utils";
+import { getResolverById } from "@/src/lib/source-resolvers";
+import type { TrackLinkStatus } from "@/src/lib/link-health";
 
 export interface FilterOptions {
   showPlayableOnly: boolean;
+  verifiedOnly: boolean;
   qualityFilter: string[];
   sourceFilter: Track["source"][];
 }
@@ -22,12 +25,22 @@ export interface PlayableTrackData {
   playableUrl: string;
 }
 
+function SourceBadge({ source }: { source: Track["source"] }) {
+  const { name, icon: Icon } = getResolverById(source);
+  return (
+    <span className="inline-flex items-center gap-1 text-xs px-2 py-0.5 glass-flat rounded-lg text-white/55">
+      <Icon className="w-3 h-3" aria-hidden />
+      {name}
+    </span>
+  );
+}
+
 function TrackMetaBadges({ source, type, quality, trackLength, shouldShowSource, artUsed }: {
   source: Track["source"]; type?: string; quality?: string; trackLength?: string; shouldShowSource: boolean; artUsed?: boolean;
 }) {
   return (
     <div className="hidden sm:flex items-center gap-1.5 flex-shrink-0">
-      {shouldShowSource && <span className="text-xs px-2 py-0.5 glass-flat rounded-lg text-white/55">{getSourceDisplayName(source)}</span>}
+      {shouldShowSource && <SourceBadge source={source} />}
       {type && type !== "Unknown" && type !== "N/A" && <span className="text-xs px-2 py-0.5 glass-flat rounded-lg text-white/55">{type}</span>}
       {quality && !isUrl(quality) && quality !== "N/A" && <span className="text-xs px-2 py-0.5 glass-flat rounded-lg text-white/55">{quality}</span>}
       {trackLength && trackLength !== "N/A" && trackLength !== "?:??" && <span className="text-xs px-2 py-0.5 glass-flat rounded-lg text-white/55">{trackLength}</span>}
@@ -64,6 +77,23 @@ export function OpenLinkButton({ onOpenLink, label = "Open link" }: { onOpenLink
   );
 }
 
+const LINK_BADGES: Record<TrackLinkStatus, { label: string; title: string; className: string } | null> = {
+  alive: { label: "Verified", title: "A link for this track was checked and works", className: "bg-emerald-500/15 text-emerald-400" },
+  partial: { label: "Some dead", title: "Some mirrors for this track are dead", className: "bg-amber-500/15 text-amber-400" },
+  dead: { label: "Dead link", title: "Every link for this track was checked and is dead", className: "bg-red-500/15 text-red-400" },
+  unknown: null,
+};
+
+export function LinkHealthBadge({ status }: { status: TrackLinkStatus | undefined }) {
+  const badge = status ? LINK_BADGES[status] : null;
+  if (!badge) return null;
+  return (
+    <span title={badge.title} className={`inline-flex items-center px-1.5 py-0.5 rounded text-[9px] sm:text-[10px] font-medium flex-shrink-0 ${badge.className}`}>
+      {badge.label}
+    </span>
+  );
+}
+
 export function TrackDescription({ description }: { description: string | undefined }) {
   if (!description) return null;
   return (
@@ -1,13 +1,14 @@
 import { memo } from "react";
 import { DropdownMenuItem, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
-import { Share, SkipForward, ListPlus, Download, Heart, ExternalLink } from "lucide-react";
-import type { Era, TALeak, TrackSource } from "@/src/types";
-import { PlayButton, PauseButton, OpenLinkButton, TrackDescription, TrackItemActions } from "@/src/components/view/track-item";
+import { Share, SkipForward, ListPlus, ListMusic, Download, Heart, ExternalLink } from "lucide-react";
+import type { Era, TALeak } from "@/src/types";
+import { PlayButton, PauseButton, OpenLinkButton, TrackDescription, TrackItemActions, LinkHealthBadge } from "@/src/components/view/track-item";
+import type { TrackLinkStatus } from "@/src/lib/link-health";
 
 interface TrackRowProps {
   track: TALeak;
   era: Era;
-  computeTrackState: (t: TALeak) => { url: string | null; source: TrackSource; isPlayable: boolean; isCurrentlyPlaying: boolean; isCurrentTrack: boolean; isHighlighted: boolean; description: string | undefined; shouldShowSource: boolean; playableUrl: string | null };
+  computeTrackState: (t: TALeak) => { url: string | null; source: string; isPlayable: boolean; isCurrentlyPlaying: boolean; isCurrentTrack: boolean; isHighlighted: boolean; description: string | undefined; shouldShowSource: boolean; playableUrl: string | null; linkStatus?: TrackLinkStatus };
   handlePlayTrack: (t: TALeak, era: Era) => void;
   handleOpenUrl: (url: string) => void;
   handleShareTrack: (url: string, name: string) => void;
@@ -16,6 +17,7 @@ interface TrackRowProps {
   handleDownload: (t: TALeak) => void;
   handleToggleFavourite: (url: string) => void;
   handleOpenOriginal: (t: TALeak) => void;
+  handleAddToPlaylist?: (t: TALeak, era: Era) => void;
   favourites: string[];
   highlightedTrackRef: React.RefObject<HTMLDivElement | null>;
 }
@@ -32,6 +34,7 @@ export const TrackRow = memo(function TrackRow({
   handleDownload,
   handleToggleFavourite,
   handleOpenOriginal,
+  handleAddToPlaylist,
   favourites,
   highlightedTrackRef,
 }: TrackRowProps) {
@@ -44,6 +47,7 @@ export const TrackRow = memo(function TrackRow({
     isHighlighted,
     description,
     shouldShowSource,
+    linkStatus,
   } = computeTrackState(track);
   return (
     <div
@@ -67,7 +71,10 @@ export const TrackRow = memo(function TrackRow({
           <OpenLinkButton onOpenLink={() => url && handleOpenUrl(url)} />
         )}
         <div className="flex-1 min-w-0">
-          <div className="font-semibold text-white text-xs sm:text-sm truncate">{track.name || "Unknown"}</div>
+          <div className="flex items-center gap-1.5 min-w-0">
+            <span className="font-semibold text-white text-xs sm:text-sm truncate">{track.name || "Unknown"}</span>
+            <LinkHealthBadge status={linkStatus} />
+          </div>
           <div className="flex flex-wrap items-center gap-1 sm:gap-2 mt-0.5 sm:mt-1">
             {track.extra && (
               <span className="text-xs text-neutral-500 truncate max-w-[120px] sm:max-w-none">{track.extra}</span>
@@ -120,6 +127,12 @@ export const TrackRow = memo(function TrackRow({
             </>
           )}
           <DropdownMenuSeparator className="bg-neutral-800" />
+          {url && handleAddToPlaylist && (
+            <DropdownMenuItem onClick={() => handleAddToPlaylist(track, era)} className="cursor-pointer">
+              <ListMusic className="w-4 h-4 mr-2" />
+              Add to Playlist
+            </DropdownMenuItem>
+          )}
           {url && (
             <DropdownMenuItem onClick={() => handleToggleFavourite(url)} className="cursor-pointer">
               <Heart className={`w-4 h-4 mr-2 ${favourites.includes(url) ? "fill-current text-red-400" : ""}`} />
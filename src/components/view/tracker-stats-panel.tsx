@@ -0,0 +1,240 @@
+import { useMemo, useRef, useState } from "react";
+import { FileImage, FileCode2, Share2 } from "lucide-react";
+import type { Era, TALeak } from "@/src/types";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { computeTrackerStats, formatRuntime, type Breakdown, type TrackerStats } from "@/src/lib/tracker-stats";
+
+const WIDTH = 640;
+const PAD = 20;
+const ROW = 18;
+const LABEL_WIDTH = 150;
+const BAR_WIDTH = WIDTH - PAD * 2 - LABEL_WIDTH - 70;
+const MAX_ROWS = 8;
+const COLUMN_HEIGHT = 90;
+const FONT = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+
+function truncate(text: string, max = 24): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// Long tails collapse into "Other" so every chart stays readable in an export.
+function topRows<T extends Breakdown>(rows: T[], merge: (rest: T[]) => T): T[] {
+  return rows.length <= MAX_ROWS ? rows : [...rows.slice(0, MAX_ROWS - 1), merge(rows.slice(MAX_ROWS - 1))];
+}
+
+function BarChart({ y, title, rows, playable }: { y: number; title: string; rows: Array<Breakdown & { playable?: number }>; playable?: boolean }) {
+  const max = Math.max(1, ...rows.map((r) => r.count));
+  return (
+    <g transform={`translate(0 ${y})`}>
+      <text x={PAD} y={12} fill="#a3a3a3" fontSize={11} fontWeight={600} letterSpacing={1}>{title.toUpperCase()}</text>
+      {rows.map((row, i) => {
+        const top = 22 + i * ROW;
+        const width = (row.count / max) * BAR_WIDTH;
+        return (
+          <g key={row.label}>
+            <text x={PAD} y={top + 11} fill="#e5e5e5" fontSize={11}>{truncate(row.label)}</text>
+            <rect x={PAD + LABEL_WIDTH} y={top + 2} width={Math.max(2, width)} height={ROW - 6} rx={3} fill={playable ? "#525252" : "#d4d4d4"} />
+            {playable && row.playable !== undefined && (
+              <rect x={PAD + LABEL_WIDTH} y={top + 2} width={(row.playable / max) * BAR_WIDTH} height={ROW - 6} rx={3} fill="#4ade80" />
+            )}
+            <text x={PAD + LABEL_WIDTH + width + 6} y={top + 11} fill="#a3a3a3" fontSize={10}>
+              {playable && row.playable !== undefined ? `${row.playable}/${row.count}` : row.count}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+function ColumnChart({ y, title, rows }: { y: number; title: string; rows: Breakdown[] }) {
+  const max = Math.max(1, ...rows.map((r) => r.count));
+  const slot = (WIDTH - PAD * 2) / Math.max(rows.length, 1);
+  return (
+    <g transform={`translate(0 ${y})`}>
+      <text x={PAD} y={12} fill="#a3a3a3" fontSize={11} fontWeight={600} letterSpacing={1}>{title.toUpperCase()}</text>
+      {rows.map((row, i) => {
+        const height = Math.max(2, (row.count / max) * COLUMN_HEIGHT);
+        const x = PAD + i * slot;
+        return (
+          <g key={row.label}>
+            <rect x={x + slot * 0.15} y={22 + COLUMN_HEIGHT - height} width={slot * 0.7} height={height} rx={3} fill="#f87171" />
+            <text x={x + slot / 2} y={22 + COLUMN_HEIGHT - height - 4} fill="#a3a3a3" fontSize={9} textAnchor="middle">{row.count}</text>
+            <text x={x + slot / 2} y={22 + COLUMN_HEIGHT + 13} fill="#e5e5e5" fontSize={rows.length > 12 ? 8 : 10} textAnchor="middle">{row.label}</text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+function chartHeight(rows: number): number {
+  return 22 + rows * ROW + 16;
+}
+
+function StatsChart({ stats, title, svgRef }: { stats: TrackerStats; title: string; svgRef: React.Ref<SVGSVGElement> }) {
+  const sources = topRows(stats.sources, (rest) => ({
+    label: "Other",
+    count: rest.reduce((n, r) => n + r.count, 0),
+    playable: rest.reduce((n, r) => n + r.playable, 0),
+  }));
+  const merge = (rest: Breakdown[]) => ({ label: "Other", count: rest.reduce((n, r) => n + r.count, 0) });
+  const qualities = topRows(stats.qualities, merge);
+  const availability = topRows(stats.availability, merge);
+  const ratio = stats.tracks > 0 ? Math.round((stats.playable / stats.tracks) * 100) : 0;
+  const summary = [
+    `${stats.tracks} track${stats.tracks !== 1 ? "s" : ""}`,
+    `${stats.playable} playable (${ratio}%)`,
+    stats.timedTracks > 0 ? `${formatRuntime(stats.runtime)} runtime over ${stats.timedTracks} timed` : null,
+  ].filter(Boolean).join(" · ");
+
+  let y = 70;
+  const sections: React.ReactNode[] = [];
+  const add = (height: number, node: (top: number) => React.ReactNode) => {
+    sections.push(node(y));
+    y += height;
+  };
+  add(chartHeight(sources.length), (top) => <BarChart key="sources" y={top} title="Playable by source" rows={sources} playable />);
+  add(chartHeight(qualities.length), (top) => <BarChart key="quality" y={top} title="Quality" rows={qualities} />);
+  add(chartHeight(availability.length), (top) => <BarChart key="availability" y={top} title="Available length" rows={availability} />);
+  if (stats.leaksByYear.length > 0) {
+    add(22 + COLUMN_HEIGHT + 30, (top) => <ColumnChart key="years" y={top} title="Leaks per year" rows={stats.leaksByYear} />);
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${WIDTH} ${y}`}
+      width={WIDTH}
+      height={y}
+      fontFamily={FONT}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`${title}: ${summary}`}
+    >
+      <rect width={WIDTH} height={y} rx={16} fill="#0a0a0a" />
+      <text x={PAD} y={32} fill="#ffffff" fontSize={17} fontWeight={700}>{truncate(title, 60)}</text>
+      <text x={PAD} y={52} fill="#a3a3a3" fontSize={12}>{summary}</text>
+      {sections}
+    </svg>
+  );
+}
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.style.cssText = "display:none";
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => { document.body.removeChild(a); URL.revokeObjectURL(url); }, 500);
+}
+
+function svgBlob(svg: SVGSVGElement): Blob {
+  return new Blob([new XMLSerializer().serializeToString(svg)], { type: "image/svg+xml" });
+}
+
+async function pngBlob(svg: SVGSVGElement, scale = 2): Promise<Blob | null> {
+  const url = URL.createObjectURL(svgBlob(svg));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = svg.width.baseVal.value * scale;
+    canvas.height = svg.height.baseVal.value * scale;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.scale(scale, scale);
+    ctx.drawImage(image, 0, 0);
+    return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  } catch {
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function fileSlug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "tracker";
+}
+
+export function TrackerStatsPanel({
+  eras,
+  artistName,
+  isPlayable,
+}: {
+  eras: Record<string, Era>;
+  artistName: string;
+  isPlayable: (track: TALeak) => boolean;
+}) {
+  const { toast } = useToast();
+  const [scope, setScope] = useState("");
+  const svgRef = useRef<SVGSVGElement>(null);
+  const all = useMemo(() => computeTrackerStats(eras, isPlayable), [eras, isPlayable]);
+  const selected = all.eras.find((e) => e.name === scope);
+  const stats = selected?.stats ?? all.overall;
+  const title = selected ? `${artistName} · ${selected.name}` : artistName;
+  const filename = `${fileSlug(title)}-stats`;
+
+  const exportPng = async (share: boolean) => {
+    const svg = svgRef.current;
+    const blob = svg && (await pngBlob(svg));
+    if (!blob) {
+      toast({ title: "Export failed", description: "Couldn't render the charts as an image", variant: "destructive" });
+      return;
+    }
+    const file = new File([blob], `${filename}.png`, { type: "image/png" });
+    if (share && navigator.canShare?.({ files: [file] })) {
+      await navigator.share({ files: [file], title }).catch(() => {});
+      return;
+    }
+    saveBlob(blob, file.name);
+  };
+
+  return (
+    <section className="glass rounded-2xl p-3 sm:p-4 mb-4 sm:mb-6" aria-label="Tracker statistics">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="w-56">
+          <Select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            aria-label="Statistics scope"
+            options={[{ value: "", label: "Whole tracker" }, ...all.eras.map((e) => ({ value: e.name, label: e.name }))]}
+          />
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => svgRef.current && saveBlob(svgBlob(svgRef.current), `${filename}.svg`)}
+            className="glass-flat rounded-xl text-white/60 hover:text-white"
+          >
+            <FileCode2 className="w-3.5 h-3.5 mr-1.5" />
+            SVG
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => void exportPng(false)} className="glass-flat rounded-xl text-white/60 hover:text-white">
+            <FileImage className="w-3.5 h-3.5 mr-1.5" />
+            PNG
+          </Button>
+          {typeof navigator.share === "function" && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => void exportPng(true)}
+              aria-label="Share statistics image"
+              className="glass-flat rounded-xl text-white/60 hover:text-white h-9 w-9"
+            >
+              <Share2 className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <StatsChart stats={stats} title={title} svgRef={svgRef} />
+    </section>
+  );
+}
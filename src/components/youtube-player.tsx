@@ -1,28 +1,26 @@
 import { DraggablePanel } from "@/src/components/draggable-panel";
+import { getSourceResolver } from "@/src/lib/source-resolvers";
 
-function extractYouTubeId(url: string): string | null {
-  const match = url.match(
-    /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|shorts\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/
-  );
-  return match ? match[1] : null;
-}
-
-export function YouTubePlayer({ url, onClose }: { url: string; onClose: () => void }) {
-  const videoId = extractYouTubeId(url);
-  if (!videoId) return null;
+/** Plays a link from an embed-only host in that host's own player. */
+export function EmbedPlayer({ url, onClose }: { url: string; onClose: () => void }) {
+  const resolver = getSourceResolver(url);
+  const src = resolver.embedUrl?.(url);
+  if (!src) return null;
 
   return (
-    <DraggablePanel label="YouTube" onClose={onClose}>
+    <DraggablePanel label={resolver.name} onClose={onClose}>
       <iframe
-        src={`https://www.youtube-nocookie.com/embed/${videoId}?autoplay=1`}
+        src={src}
         width="320"
         height="180"
         allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
         allowFullScreen
         sandbox="allow-same-origin allow-scripts allow-popups allow-presentation"
         className="block"
-        title="YouTube video"
+        title={`${resolver.name} video`}
       />
     </DraggablePanel>
   );
 }
+
+export const YouTubePlayer = EmbedPlayer;
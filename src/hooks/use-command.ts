@@ -0,0 +1,14 @@
+import { useEffect, useRef } from "react";
+import { registerCommand } from "@/src/lib/commands";
+
+/** Handles a named command while the calling component is mounted and `enabled`. */
+export function useCommand(id: string, handler: () => void, enabled = true): void {
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+  useEffect(() => {
+    if (!enabled) return;
+    return registerCommand(id, () => handlerRef.current());
+  }, [id, enabled]);
+}
@@ -1,7 +1,8 @@
 import { useCallback, useRef, useState } from "react";
 import { getCache, setCache } from "@/src/lib/tracker-cache";
-import { resolvePlayableUrl, getTrackSource, isNetworkSource } from "@/src/lib/resolve-url";
-import { forEachEraTrack, mergeAndCache } from "@/src/lib/view-utils";
+import { getTrackSource, isNetworkSource } from "@/src/lib/resolve-url";
+import { getResolvedUrls, resolveUrlCached } from "@/src/lib/resolved-url-cache";
+import { forEachEraTrack } from "@/src/lib/view-utils";
 import {
   fetchWithFallback,
   adaptV3Response,
@@ -9,6 +10,8 @@ import {
   type V3Response,
 } from "@/src/lib/api";
 import { getAllTrackUrls } from "@/src/lib/track-utils";
+import { indexTrackerTab } from "@/src/lib/track-search";
+import { getUnseenChanges, markChangesSeen, recordSnapshot, type TrackerChangelog } from "@/src/lib/tracker-changelog";
 import type { TrackerResponse } from "@/src/types";
 
 const NON_PLAYABLE_TABS = ["Art", "Tracklists", "Misc"];
@@ -31,6 +34,21 @@ export function useTrackerData(setExpandedEras: (value: Set<string> | ((prev: Se
   const [tabError, setTabError] = useState(false);
   const [tabEmpty, setTabEmpty] = useState(false);
   const [hasLoaded, setHasLoaded] = useState(false);
+  const [changelog, setChangelog] = useState<TrackerChangelog | null>(null);
+  const changelogKeyRef = useRef<{ id: string; tab: string } | null>(null);
+
+  const loadChangelog = useCallback(async (id: string, tab: string, fresh?: TrackerResponse) => {
+    const key = { id, tab };
+    changelogKeyRef.current = key;
+    if (fresh) await recordSnapshot(id, tab, fresh);
+    const changes = await getUnseenChanges(id, tab);
+    if (changelogKeyRef.current === key) setChangelog(changes);
+  }, []);
+  const dismissChangelog = useCallback(() => {
+    const key = changelogKeyRef.current;
+    setChangelog(null);
+    if (key) void markChangesSeen(key.id, key.tab);
+  }, []);
 
   const fetchBaseEraImages = useCallback(async (id: string) => {
     try {
@@ -67,7 +85,7 @@ export function useTrackerData(setExpandedEras: (value: Set<string> | ((prev: Se
     try {
       for (let i = 0; i < urls.length; i += batchSize) {
         const batch = urls.slice(i, i + batchSize);
-        const results = await Promise.all(batch.map(async (url) => ({ url, playable: await resolvePlayableUrl(url) })));
+        const results = await Promise.all(batch.map(async (url) => ({ url, playable: await resolveUrlCached(url) })));
         for (const { url, playable } of results) resolved[url] = playable;
         const current = Math.min(i + batchSize, urls.length);
         const isLast = current >= urls.length;
@@ -88,6 +106,20 @@ export function useTrackerData(setExpandedEras: (value: Set<string> | ((prev: Se
     }
     return resolved;
   }, []);
+  // Links resolved earlier are reused until their host's TTL runs out; the
+  // rest are resolved up front unless that costs a request per link.
+  const preloadFreeUrls = useCallback(
+    (json: TrackerResponse) => {
+      if (NON_PLAYABLE_TABS.includes(json.current_tab)) return;
+      const links = new Set<string>();
+      forEachEraTrack(json.eras, (t) => { for (const u of getAllTrackUrls(t)) links.add(u); });
+      const cached = getResolvedUrls(links);
+      if (cached.size > 0) setResolvedUrls((prev) => new Map([...prev, ...cached]));
+      const freeUrls = [...links].filter((u) => !cached.has(u) && !isNetworkSource(getTrackSource(u)));
+      if (freeUrls.length > 0) void resolveUrls(freeUrls);
+    },
+    [resolveUrls]
+  );
   const loadTrackerData = useCallback(
     async (id: string, tab?: string, overrideTabName?: string) => {
       const virtualTabs = ["Favourites", "Custom"];
@@ -98,12 +130,15 @@ export function useTrackerData(setExpandedEras: (value: Set<string> | ((prev: Se
         overrideTabName: string | undefined
       ) => {
         setData(cached.data);
-        setResolvedUrls(new Map(Object.entries(cached.resolvedUrls)));
+        setResolvedUrls(new Map());
+        preloadFreeUrls(cached.data);
         if (tab) {
           const dn = overrideTabName || Object.entries(tabSlugsRef.current).find(([, s]) => s === tab)?.[0] || tab;
           setCurrentTab(dn);
+          void loadChangelog(id, dn);
         } else {
           setCurrentTab(cached.data.current_tab);
+          void loadChangelog(id, cached.data.current_tab);
         }
         if (cached.data.tabs?.length) setTabsList(cached.data.tabs);
         if (cached.data.tabSlugs) tabSlugsRef.current = { ...tabSlugsRef.current, ...cached.data.tabSlugs };
@@ -126,18 +161,10 @@ export function useTrackerData(setExpandedEras: (value: Set<string> | ((prev: Se
         setStatus("success");
         hasLoadedRef.current = true;
         setHasLoaded(true);
-        setCache(id, json, {}, cacheKey);
-        if (!NON_PLAYABLE_TABS.includes(json.current_tab)) {
-          const freeUrls: string[] = [];
-          forEachEraTrack(json.eras, (t) => {
-            for (const u of getAllTrackUrls(t)) {
-              if (!isNetworkSource(getTrackSource(u)) && !freeUrls.includes(u)) freeUrls.push(u);
-            }
-          });
-          if (freeUrls.length > 0) {
-            resolveUrls(freeUrls).then((resolved) => mergeAndCache(id, cacheKey, json, resolved));
-          }
-        }
+        setCache(id, json, cacheKey);
+        void loadChangelog(id, overrideTabName || json.current_tab, json);
+        void indexTrackerTab(id, overrideTabName || json.current_tab, json);
+        preloadFreeUrls(json);
       };
       const hasPayload = (v3: V3Response): boolean =>
         (v3 && typeof v3 === "object" && Array.isArray(v3.tracks) && v3.tracks.length > 0) ||
@@ -157,6 +184,8 @@ export function useTrackerData(setExpandedEras: (value: Set<string> | ((prev: Se
       }
       setTabError(false);
       setTabEmpty(false);
+      setChangelog(null);
+      changelogKeyRef.current = null;
       const gid = tab ? (tabGidsRef.current[overrideTabName || ""] || "") : "";
       const cacheKey = gid || tab;
       const cached = getCache(id, cacheKey);
@@ -205,7 +234,7 @@ export function useTrackerData(setExpandedEras: (value: Set<string> | ((prev: Se
         fail();
       }
     },
-    [fetchBaseEraImages, resolveUrls, setExpandedEras]
+    [fetchBaseEraImages, preloadFreeUrls, setExpandedEras, loadChangelog]
   );
 
   return {
@@ -235,5 +264,7 @@ export function useTrackerData(setExpandedEras: (value: Set<string> | ((prev: Se
     resolveUrls,
     fetchBaseEraImages,
     loadTrackerData,
+    changelog,
+    dismissChangelog,
   };
 }
@@ -0,0 +1,104 @@
+import { DEFAULT_SETTINGS, loadSettings } from "./settings";
+
+export const DEFAULT_API_BASE = DEFAULT_SETTINGS.api.endpoints[0];
+export const REQUEST_TIMEOUT_MS = 15000;
+const HEALTH_TIMEOUT_MS = 5000;
+const COOLDOWN_MS = 60000;
+
+export interface EndpointHealth {
+  ok: boolean;
+  status: number | null;
+  latency: number | null;
+  checkedAt: number;
+}
+
+const health = new Map<string, EndpointHealth>();
+
+export function normalizeEndpoint(url: string): string | null {
+  const trimmed = url.trim().replace(/\/+$/, "");
+  try {
+    const { protocol } = new URL(trimmed);
+    return protocol === "https:" || protocol === "http:" ? trimmed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getApiEndpoints(): string[] {
+  const configured = (loadSettings().api.endpoints ?? [])
+    .map(normalizeEndpoint)
+    .filter((u): u is string => !!u);
+  return configured.length > 0 ? [...new Set(configured)] : [DEFAULT_API_BASE];
+}
+
+function isCoolingDown(base: string, now: number): boolean {
+  const h = health.get(base);
+  return !!h && !h.ok && now - h.checkedAt < COOLDOWN_MS;
+}
+
+export function orderEndpoints(now = Date.now()): string[] {
+  const endpoints = getApiEndpoints();
+  return [...endpoints.filter((b) => !isCoolingDown(b, now)), ...endpoints.filter((b) => isCoolingDown(b, now))];
+}
+
+export function getActiveApiBase(): string {
+  return orderEndpoints()[0];
+}
+
+export function getEndpointHealth(base: string): EndpointHealth | null {
+  return health.get(base) ?? null;
+}
+
+export function recordEndpointResult(base: string, result: Omit<EndpointHealth, "checkedAt">): void {
+  health.set(base, { ...result, checkedAt: Date.now() });
+}
+
+export function resetEndpointHealth(): void {
+  health.clear();
+}
+
+export function isFailoverStatus(status: number): boolean {
+  return status >= 500;
+}
+
+/** Aborts the request after `ms`, and when the caller's own signal aborts. */
+export function fetchWithTimeout(url: string, init: RequestInit, ms: number): Promise<Response> {
+  const controller = new AbortController();
+  const { signal } = init;
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new DOMException("Request timed out", "TimeoutError");
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+  const request = fetch(url, { ...init, signal: controller.signal });
+  return Promise.race([request, timeout]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  });
+}
+
+export async function checkEndpointHealth(base: string): Promise<EndpointHealth> {
+  const started = performance.now();
+  try {
+    const res = await fetchWithTimeout(`${base}/`, { cache: "no-store" }, HEALTH_TIMEOUT_MS);
+    recordEndpointResult(base, {
+      ok: !isFailoverStatus(res.status),
+      status: res.status,
+      latency: Math.round(performance.now() - started),
+    });
+  } catch {
+    recordEndpointResult(base, { ok: false, status: null, latency: null });
+  }
+  return health.get(base)!;
+}
+
+export async function checkAllEndpoints(endpoints = getApiEndpoints()): Promise<Record<string, EndpointHealth>> {
+  const results = await Promise.all(endpoints.map(async (base) => [base, await checkEndpointHealth(base)] as const));
+  return Object.fromEntries(results);
+}
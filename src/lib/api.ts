@@ -1,8 +1,16 @@
 import type { Era, EraDate, TALeak, TrackerResponse } from "@/src/types";
 import { isUrl, generateTrackId } from "./track-utils";
 import { clearCacheAndReload } from "./stale-reload";
-
-const API_BASE = "https://trackerapi.artistgrid.cx";
+import { matchPinned } from "./pinned-cache";
+import {
+  getActiveApiBase,
+  getApiEndpoints,
+  isFailoverStatus,
+  orderEndpoints,
+  recordEndpointResult,
+  REQUEST_TIMEOUT_MS,
+  fetchWithTimeout,
+} from "./api-endpoints";
 
 const etagStore = new Map<string, string>();
 const bodyCache = new Map<string, string>();
@@ -14,10 +22,19 @@ export async function computeETag(body: string): Promise<string> {
   return `"${hex}"`;
 }
 
-export async function fetchWithFallback(endpoint: string, options?: RequestInit): Promise<Response> {
-  const url = `${API_BASE}${endpoint}`;
-  const storedETag = etagStore.get(url);
+export function apiUrl(endpoint: string): string {
+  return `${getActiveApiBase()}${endpoint}`;
+}
+
+async function matchPinnedEndpoint(endpoint: string): Promise<Response | null> {
+  for (const base of getApiEndpoints()) {
+    const pinned = await matchPinned(`${base}${endpoint}`);
+    if (pinned) return pinned;
+  }
+  return null;
+}
 
+export async function fetchWithFallback(endpoint: string, options?: RequestInit): Promise<Response> {
   const mergedHeaders: Record<string, string> = {};
   if (options?.headers) {
     if (options.headers instanceof Headers) {
@@ -26,10 +43,40 @@ export async function fetchWithFallback(endpoint: string, options?: RequestInit)
       for (const [k, v] of Object.entries(options.headers)) mergedHeaders[k] = v;
     }
   }
-  if (storedETag) mergedHeaders["If-None-Match"] = storedETag;
 
-  const res = await fetch(url, { ...options, headers: mergedHeaders });
+  let lastError: unknown = null;
+  let lastResponse: Response | null = null;
+  for (const base of orderEndpoints()) {
+    const url = `${base}${endpoint}`;
+    const storedETag = etagStore.get(url);
+    const headers = storedETag ? { ...mergedHeaders, "If-None-Match": storedETag } : mergedHeaders;
+    const started = performance.now();
+    let res: Response;
+    try {
+      res = await fetchWithTimeout(url, { ...options, headers }, REQUEST_TIMEOUT_MS);
+    } catch (e) {
+      if (options?.signal?.aborted) throw e;
+      recordEndpointResult(base, { ok: false, status: null, latency: null });
+      lastError = e;
+      continue;
+    }
+    const latency = Math.round(performance.now() - started);
+    if (isFailoverStatus(res.status)) {
+      recordEndpointResult(base, { ok: false, status: res.status, latency });
+      lastResponse = res;
+      continue;
+    }
+    recordEndpointResult(base, { ok: true, status: res.status, latency });
+    return handleResponse(url, res, storedETag);
+  }
+
+  const pinned = await matchPinnedEndpoint(endpoint);
+  if (pinned) return pinned;
+  if (lastResponse) return lastResponse;
+  throw lastError;
+}
 
+async function handleResponse(url: string, res: Response, storedETag: string | undefined): Promise<Response> {
   if (res.status === 304 && storedETag) {
     const cached = bodyCache.get(url) || "{}";
     return new Response(cached, {
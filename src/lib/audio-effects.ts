@@ -0,0 +1,285 @@
+import type { Track } from "@/src/types";
+import type { Settings } from "./settings";
+import { getCachedTrackGain, getTrackGain } from "./loudness";
+import { logError } from "./logger";
+
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_MAX_GAIN_DB = 12;
+export const PLAYBACK_RATES = [0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2];
+
+export const EQ_PRESETS: Record<string, { label: string; gains: number[] }> = {
+  flat: { label: "Flat", gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  "bass-boost": { label: "Bass Boost", gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  "treble-boost": { label: "Treble Boost", gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+  vocal: { label: "Vocal", gains: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+  loudness: { label: "Loudness", gains: [5, 4, 2, 0, -1, -1, 0, 2, 4, 5] },
+  "lo-fi": { label: "Lo-Fi Rip Cleanup", gains: [-3, -1, 1, 2, 2, 1, -1, -3, -6, -9] },
+};
+
+type AudioSettings = Pick<Settings["player"], "eqEnabled" | "eqGains" | "normalize" | "playbackRate">;
+
+interface AudioChain {
+  source: MediaElementAudioSourceNode;
+  normalizer: GainNode;
+  filters: BiquadFilterNode[];
+}
+
+const CORS_PROBE_TIMEOUT_MS = 8000;
+
+let context: AudioContext | null = null;
+let activeElement: HTMLMediaElement | null = null;
+const chains = new Map<HTMLMediaElement, AudioChain>();
+const corsResults = new Map<string, boolean>();
+const corsChecks = new Map<string, Promise<boolean>>();
+const bypassListeners = new Set<() => void>();
+const bypassedSources = new WeakMap<HTMLMediaElement, string>();
+
+export function needsAudioGraph(settings: AudioSettings): boolean {
+  return settings.eqEnabled || settings.normalize;
+}
+
+export function clampEqGain(db: number): number {
+  if (!Number.isFinite(db)) return 0;
+  return Math.min(EQ_MAX_GAIN_DB, Math.max(-EQ_MAX_GAIN_DB, db));
+}
+
+export function matchEqPreset(gains: number[]): string {
+  const match = Object.entries(EQ_PRESETS).find(([, p]) => p.gains.every((g, i) => g === (gains[i] ?? 0)));
+  return match ? match[0] : "custom";
+}
+
+function getContext(): AudioContext | null {
+  if (context) return context;
+  const Ctor = window.AudioContext ?? (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!Ctor) return null;
+  context = new Ctor();
+  return context;
+}
+
+function attachGraph(el: HTMLMediaElement): AudioChain | null {
+  const existing = chains.get(el);
+  if (existing) return existing;
+  const ctx = getContext();
+  if (!ctx) return null;
+  try {
+    const source = ctx.createMediaElementSource(el);
+    const normalizer = ctx.createGain();
+    const filters = EQ_BANDS.map((frequency, i) => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = i === 0 ? "lowshelf" : i === EQ_BANDS.length - 1 ? "highshelf" : "peaking";
+      filter.frequency.value = frequency;
+      filter.Q.value = 1.41;
+      return filter;
+    });
+    let node: AudioNode = source.connect(normalizer);
+    for (const filter of filters) node = node.connect(filter);
+    node.connect(ctx.destination);
+    const chain = { source, normalizer, filters };
+    chains.set(el, chain);
+    return chain;
+  } catch (e) {
+    logError("Failed to attach audio graph:", e);
+    return null;
+  }
+}
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url, window.location.href).origin;
+  } catch {
+    return null;
+  }
+}
+
+/** The remembered CORS answer for a URL's host: undefined until it has been asked. */
+function knownCors(url: string): boolean | undefined {
+  const origin = originOf(url);
+  if (origin === null) return false;
+  if (origin === window.location.origin || !/^https?:/.test(url)) return true;
+  return corsResults.get(origin);
+}
+
+async function fetchWithin(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), CORS_PROBE_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// null when the host couldn't be reached at all, so the answer isn't kept.
+async function probeCors(url: string): Promise<boolean | null> {
+  const init: RequestInit = { headers: { Range: "bytes=0-0" }, referrerPolicy: "no-referrer" };
+  try {
+    const res = await fetchWithin(url, init);
+    void res.body?.cancel().catch(() => {});
+    return true;
+  } catch {}
+  // A CORS rejection looks like a network error; an opaque request tells them apart.
+  try {
+    await fetchWithin(url, { ...init, mode: "no-cors" });
+    return false;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a media URL's host answers cross-origin requests, remembered per
+ * origin once the host has answered. Web Audio only receives samples from
+ * CORS-enabled media, and an element loading with crossOrigin from a host
+ * without it fails outright.
+ */
+export function checkCors(url: string): Promise<boolean> {
+  const known = knownCors(url);
+  if (known !== undefined) return Promise.resolve(known);
+  const origin = originOf(url)!;
+  let check = corsChecks.get(origin);
+  if (!check) {
+    check = probeCors(url).then((answer) => {
+      corsChecks.delete(origin);
+      if (answer !== null) corsResults.set(origin, answer);
+      return answer ?? false;
+    });
+    corsChecks.set(origin, check);
+  }
+  return check;
+}
+
+/** Called when a track plays without EQ and normalization because its host blocks them. */
+export function subscribeAudioBypass(listener: () => void): () => void {
+  bypassListeners.add(listener);
+  return () => bypassListeners.delete(listener);
+}
+
+function notifyBypass(el: HTMLMediaElement, src: string): void {
+  if (bypassedSources.get(el) === src) return;
+  bypassedSources.set(el, src);
+  for (const listener of bypassListeners) listener();
+}
+
+/** Browsers start an AudioContext made without a user gesture suspended; call on play. */
+export function resumeAudioContext(): void {
+  if (context?.state === "suspended") void context.resume().catch(() => {});
+}
+
+function reloadSource(el: HTMLMediaElement): void {
+  const src = el.currentSrc || el.src;
+  if (!src) return;
+  const time = el.currentTime;
+  const wasPlaying = !el.paused;
+  el.src = src;
+  el.addEventListener("loadedmetadata", () => { el.currentTime = time; }, { once: true });
+  if (wasPlaying) {
+    try {
+      void el.play()?.catch(() => {});
+    } catch {}
+  }
+}
+
+// An element that already loaded without crossOrigin has to reload its source once.
+function enableCors(el: HTMLMediaElement): void {
+  if (el.crossOrigin === "anonymous") return;
+  el.crossOrigin = "anonymous";
+  reloadSource(el);
+}
+
+export function prepareAudioElement(el: HTMLMediaElement, settings: AudioSettings): void {
+  el.defaultPlaybackRate = settings.playbackRate;
+  el.playbackRate = settings.playbackRate;
+  el.preservesPitch = true;
+}
+
+/**
+ * Sets crossOrigin for the URL about to be loaded into `el`. Returns false
+ * when `el` can't play it: an element routed through the graph stays there,
+ * so a host not known to allow CORS needs a fresh element outside it.
+ */
+export function prepareSource(el: HTMLMediaElement, url: string, settings: AudioSettings): boolean {
+  const cors = knownCors(url);
+  if (chains.has(el)) return cors === true;
+  if (cors === undefined && needsAudioGraph(settings)) void checkCors(url);
+  el.crossOrigin = cors === true && needsAudioGraph(settings) ? "anonymous" : null;
+  return true;
+}
+
+function configureChain(chain: AudioChain, settings: AudioSettings): void {
+  resumeAudioContext();
+  chain.filters.forEach((filter, i) => {
+    filter.gain.value = settings.eqEnabled ? clampEqGain(settings.eqGains[i] ?? 0) : 0;
+  });
+  if (!settings.normalize) chain.normalizer.gain.value = 1;
+}
+
+function switchToGraph(el: HTMLMediaElement, settings: AudioSettings): void {
+  enableCors(el);
+  const chain = attachGraph(el);
+  if (chain) configureChain(chain, settings);
+}
+
+export function applyAudioSettings(settings: AudioSettings, el: HTMLMediaElement | null = activeElement): void {
+  if (!el) return;
+  el.preservesPitch = true;
+  el.defaultPlaybackRate = settings.playbackRate;
+  el.playbackRate = settings.playbackRate;
+  const chain = chains.get(el);
+  if (chain) {
+    configureChain(chain, settings);
+    return;
+  }
+  if (!needsAudioGraph(settings)) return;
+  // Nothing to check until a track is loaded; the graph is only attached for a known host.
+  const src = el.currentSrc || el.src;
+  if (!src) return;
+  if (el.crossOrigin === "anonymous" && !el.error) {
+    switchToGraph(el, settings);
+    return;
+  }
+  // Loaded without CORS, or failed with it: only move it into the graph if the host allows it.
+  void checkCors(src).then((allowed) => {
+    if (chains.has(el) || (el.currentSrc || el.src) !== src) return;
+    if (allowed) {
+      switchToGraph(el, settings);
+      return;
+    }
+    if (el.crossOrigin === "anonymous") {
+      el.crossOrigin = null;
+      reloadSource(el);
+    }
+    notifyBypass(el, src);
+  });
+}
+
+export function bindAudioElement(el: HTMLMediaElement, settings: AudioSettings): void {
+  activeElement = el;
+  applyAudioSettings(settings, el);
+}
+
+export function releaseAudioElement(el: HTMLMediaElement): void {
+  const chain = chains.get(el);
+  if (!chain) return;
+  try {
+    chain.source.disconnect();
+  } catch {}
+  chains.delete(el);
+}
+
+function setNormalizationGain(el: HTMLMediaElement, gainDb: number): void {
+  const chain = chains.get(el);
+  if (!chain || !context) return;
+  chain.normalizer.gain.setTargetAtTime(Math.pow(10, gainDb / 20), context.currentTime, 0.1);
+}
+
+export async function normalizeTrack(el: HTMLMediaElement, track: Track, settings: AudioSettings): Promise<void> {
+  if (!settings.normalize || !track.playableUrl || !chains.has(el)) return;
+  const cached = await getCachedTrackGain(track.id);
+  if (cached !== null) {
+    setNormalizationGain(el, cached);
+    return;
+  }
+  setNormalizationGain(el, 0);
+  const gain = await getTrackGain(track.id, track.playableUrl);
+  if (gain !== null && activeElement === el && el.src === track.playableUrl) setNormalizationGain(el, gain);
+}
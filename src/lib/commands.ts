@@ -0,0 +1,96 @@
+export type CommandGroup = "Player" | "Tracker" | "General";
+
+export interface CommandDefinition {
+  id: string;
+  label: string;
+  group: CommandGroup;
+  /** Default key combos; `Mod` is Cmd on Apple devices and Ctrl elsewhere. */
+  keys: string[];
+}
+
+export const COMMANDS: CommandDefinition[] = [
+  { id: "player.togglePlay", label: "Play / Pause", group: "Player", keys: ["Space"] },
+  { id: "player.seekBack", label: "Seek Back 5s", group: "Player", keys: ["ArrowLeft"] },
+  { id: "player.seekForward", label: "Seek Forward 5s", group: "Player", keys: ["ArrowRight"] },
+  { id: "player.volumeUp", label: "Volume Up", group: "Player", keys: ["ArrowUp"] },
+  { id: "player.volumeDown", label: "Volume Down", group: "Player", keys: ["ArrowDown"] },
+  { id: "player.next", label: "Next Track", group: "Player", keys: ["N"] },
+  { id: "player.previous", label: "Previous Track", group: "Player", keys: ["P"] },
+  { id: "player.mute", label: "Mute / Unmute", group: "Player", keys: ["M"] },
+  { id: "player.lyrics", label: "Toggle Lyrics", group: "Player", keys: ["L"] },
+  { id: "player.fullscreen", label: "Toggle Fullscreen Player", group: "Player", keys: ["F"] },
+  { id: "tracker.toggleFavourite", label: "Favourite Playing Track", group: "Tracker", keys: ["H"] },
+  { id: "tracker.focusSearch", label: "Focus Track Search", group: "Tracker", keys: ["/"] },
+  { id: "tracker.nextEra", label: "Next Era", group: "Tracker", keys: ["J"] },
+  { id: "tracker.previousEra", label: "Previous Era", group: "Tracker", keys: ["K"] },
+  { id: "tracker.downloadEra", label: "Download Era", group: "Tracker", keys: ["Shift+D"] },
+  { id: "tracker.nextTab", label: "Next Tab", group: "Tracker", keys: ["]"] },
+  { id: "tracker.previousTab", label: "Previous Tab", group: "Tracker", keys: ["["] },
+  { id: "general.commandPalette", label: "Command Palette", group: "General", keys: ["Mod+K"] },
+  { id: "general.settings", label: "Open Settings", group: "General", keys: ["Mod+,"] },
+  { id: "general.playlists", label: "Go to Playlists", group: "General", keys: [] },
+  { id: "general.stats", label: "Go to Listening Stats", group: "General", keys: [] },
+  { id: "general.home", label: "Go Home", group: "General", keys: [] },
+];
+
+export interface PaletteTrack {
+  key: string;
+  name: string;
+  detail: string;
+  play: () => void;
+}
+
+type Handler = () => void;
+
+// Handlers stack per command so the most recently mounted screen wins.
+const handlers = new Map<string, Handler[]>();
+const listeners = new Set<() => void>();
+let trackSource: (() => PaletteTrack[]) | null = null;
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+export function getCommand(id: string): CommandDefinition | undefined {
+  return COMMANDS.find((c) => c.id === id);
+}
+
+export function registerCommand(id: string, handler: Handler): () => void {
+  handlers.set(id, [...(handlers.get(id) ?? []), handler]);
+  notify();
+  return () => {
+    const rest = (handlers.get(id) ?? []).filter((h) => h !== handler);
+    if (rest.length > 0) handlers.set(id, rest);
+    else handlers.delete(id);
+    notify();
+  };
+}
+
+export function isCommandAvailable(id: string): boolean {
+  return handlers.has(id);
+}
+
+/** Runs the command's current handler; false when nothing on screen handles it. */
+export function runCommand(id: string): boolean {
+  const stack = handlers.get(id);
+  if (!stack) return false;
+  stack[stack.length - 1]();
+  return true;
+}
+
+export function subscribeCommands(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Lets the open tracker offer its tracks to the command palette. */
+export function registerPaletteTracks(source: () => PaletteTrack[]): () => void {
+  trackSource = source;
+  return () => {
+    if (trackSource === source) trackSource = null;
+  };
+}
+
+export function getPaletteTracks(): PaletteTrack[] {
+  return trackSource?.() ?? [];
+}
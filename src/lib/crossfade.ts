@@ -0,0 +1,26 @@
+export type PlaybackEngine = "standard" | "gapless";
+
+export const MAX_CROSSFADE_SECONDS = 12;
+export const GAPLESS_LOOKAHEAD_SECONDS = 1;
+export const FADE_STEP_MS = 50;
+
+export function clampCrossfade(seconds: number): number {
+  if (!Number.isFinite(seconds) || seconds <= 0) return 0;
+  return Math.min(seconds, MAX_CROSSFADE_SECONDS);
+}
+
+export function getFadeDuration(crossfade: number, trackDuration: number): number {
+  if (!Number.isFinite(trackDuration) || trackDuration <= 0) return 0;
+  return Math.min(clampCrossfade(crossfade), trackDuration / 2);
+}
+
+export function getHandoffDelay(remaining: number, fade: number, playbackRate = 1): number | null {
+  const lead = fade + GAPLESS_LOOKAHEAD_SECONDS;
+  if (!Number.isFinite(remaining) || remaining > lead) return null;
+  return (Math.max(0, remaining - fade) * 1000) / (playbackRate || 1);
+}
+
+export function crossfadeGains(progress: number): { out: number; in: number } {
+  const p = Math.min(1, Math.max(0, progress));
+  return { out: Math.cos((p * Math.PI) / 2), in: Math.sin((p * Math.PI) / 2) };
+}
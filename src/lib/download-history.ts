@@ -0,0 +1,41 @@
+import { idbGet, idbSet } from "./indexeddb-cache";
+
+const HISTORY_KEY = "downloads:history";
+
+export interface DownloadHistoryEntry {
+  trackName: string;
+  artistName: string;
+  eraName: string;
+  sha256: string | null;
+  size: number;
+  downloadedAt: number;
+}
+
+export type DownloadHistory = Record<string, DownloadHistoryEntry>;
+
+let writeChain: Promise<unknown> = Promise.resolve();
+
+export async function getDownloadHistory(): Promise<DownloadHistory> {
+  return (await idbGet<DownloadHistory>(HISTORY_KEY)) ?? {};
+}
+
+export async function getDownloadedEntry(sourceUrl: string): Promise<DownloadHistoryEntry | null> {
+  return (await getDownloadHistory())[sourceUrl] ?? null;
+}
+
+// Parallel downloads finish together, so writes are queued to avoid losing entries.
+export function recordDownload(sourceUrl: string, entry: DownloadHistoryEntry): Promise<void> {
+  const run = writeChain.then(async () => {
+    const history = await getDownloadHistory();
+    history[sourceUrl] = entry;
+    await idbSet(HISTORY_KEY, history);
+  });
+  writeChain = run.catch(() => {});
+  return run;
+}
+
+export function clearDownloadHistory(): Promise<void> {
+  const run = writeChain.then(() => idbSet(HISTORY_KEY, null));
+  writeChain = run.catch(() => {});
+  return run;
+}
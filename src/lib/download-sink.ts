@@ -0,0 +1,128 @@
+const SW_DOWNLOAD_PREFIX = "/__artistgrid-download__/";
+const SW_READY_TIMEOUT_MS = 3000;
+
+export type DownloadSinkKind = "file" | "stream" | "memory";
+
+export interface DownloadSink {
+  kind: DownloadSinkKind;
+  writable: WritableStream<Uint8Array>;
+}
+
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: Array<{ description: string; accept: Record<string, string[]> }>;
+}) => Promise<{ createWritable: () => Promise<WritableStream<Uint8Array>> }>;
+
+async function openFileSink(name: string, picker: SaveFilePicker): Promise<DownloadSink> {
+  const handle = await picker({
+    suggestedName: name,
+    types: [{ description: "ZIP archive", accept: { "application/zip": [".zip"] } }],
+  });
+  return { kind: "file", writable: await handle.createWritable() };
+}
+
+/**
+ * Streams bytes to the service worker (public/sw-download.js) over a
+ * MessagePort. The worker answers a navigation to a one-off URL with a
+ * ReadableStream fed from the port, so the browser saves it like any other
+ * download. Each `pull` from the worker grants one more chunk, which keeps
+ * the page from buffering ahead of the disk.
+ */
+async function openServiceWorkerSink(name: string, controller: ServiceWorker): Promise<DownloadSink> {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  const channel = new MessageChannel();
+  let credits = 0;
+  let waiter: (() => void) | null = null;
+  const ready = new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Service worker did not accept the download")), SW_READY_TIMEOUT_MS);
+    channel.port1.onmessage = (e: MessageEvent<{ type: string }>) => {
+      if (e.data.type === "ready") {
+        clearTimeout(timer);
+        resolve();
+      } else if (e.data.type === "pull") {
+        credits++;
+        waiter?.();
+        waiter = null;
+      }
+    };
+  });
+  controller.postMessage({ type: "artistgrid-download", id, name }, [channel.port2]);
+  await ready;
+
+  const iframe = document.createElement("iframe");
+  iframe.hidden = true;
+  iframe.src = `${SW_DOWNLOAD_PREFIX}${id}/${encodeURIComponent(name)}`;
+  document.body.appendChild(iframe);
+  const cleanup = () => setTimeout(() => iframe.remove(), 60000);
+
+  const writable = new WritableStream<Uint8Array>({
+    async write(chunk) {
+      if (credits === 0) await new Promise<void>((resolve) => (waiter = resolve));
+      credits--;
+      const copy = chunk.slice();
+      channel.port1.postMessage({ type: "chunk", chunk: copy }, [copy.buffer]);
+    },
+    close() {
+      channel.port1.postMessage({ type: "close" });
+      cleanup();
+    },
+    abort(reason) {
+      channel.port1.postMessage({ type: "abort", reason: String(reason ?? "") });
+      cleanup();
+    },
+  });
+  return { kind: "stream", writable };
+}
+
+function openMemorySink(name: string): DownloadSink {
+  const chunks: BlobPart[] = [];
+  const writable = new WritableStream<Uint8Array>({
+    write(chunk) {
+      chunks.push(chunk.slice());
+    },
+    close() {
+      const url = URL.createObjectURL(new Blob(chunks, { type: "application/zip" }));
+      chunks.length = 0;
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = name;
+      link.style.display = "none";
+      document.body.appendChild(link);
+      link.click();
+      // Revoking right after click() can cancel the download before it starts.
+      setTimeout(() => {
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      }, 500);
+    },
+    abort() {
+      chunks.length = 0;
+    },
+  });
+  return { kind: "memory", writable };
+}
+
+/**
+ * Opens somewhere to write a download of unknown length: a file picked with
+ * the File System Access API where supported, otherwise a service worker
+ * backed streaming download, and as a last resort an in-memory blob. Resolves
+ * to null if the user dismisses the save dialog.
+ */
+export async function openDownloadSink(name: string): Promise<DownloadSink | null> {
+  const picker = typeof window !== "undefined" ? (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker : undefined;
+  if (picker) {
+    try {
+      return await openFileSink(name, picker);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return null;
+      // Without a user gesture the picker throws SecurityError; fall through.
+    }
+  }
+  const controller = typeof navigator !== "undefined" ? navigator.serviceWorker?.controller : null;
+  if (controller && typeof MessageChannel !== "undefined") {
+    try {
+      return await openServiceWorkerSink(name, controller);
+    } catch {}
+  }
+  return openMemorySink(name);
+}
@@ -0,0 +1,169 @@
+import { idbGet, idbSet } from "./indexeddb-cache";
+import type { PathTemplateVars } from "./download-template";
+import type { MetadataInput } from "./ffmpeg-metadata";
+import type { EraArt } from "./era-manifest";
+import type { TALeak } from "@/src/types";
+
+const JOBS_KEY = "downloads:jobs";
+const FILE_KEY_PREFIX = "downloads:file:";
+const PARTIAL_KEY_PREFIX = "downloads:partial:";
+
+export interface DownloadItem {
+  id: string;
+  trackName: string;
+  eraName: string;
+  playableUrl: string;
+  status: "pending" | "downloading" | "paused" | "completed" | "failed";
+  progress: number;
+  retryCount: number;
+  vars?: PathTemplateVars;
+  metadata?: MetadataInput;
+  track?: TALeak;
+  sha256?: string;
+  duration?: number;
+  truncated?: boolean;
+  /** Id of the earlier item in the job with byte-identical audio. */
+  duplicateOf?: string;
+  /** Found in the download history, so it was not fetched again. */
+  skipped?: boolean;
+}
+
+export interface PersistedDownloadJob {
+  id: string;
+  name: string;
+  artistName: string;
+  eraName?: string;
+  items: DownloadItem[];
+  eraArt?: Record<string, EraArt>;
+  status: "active" | "paused" | "completed" | "failed";
+}
+
+export interface StoredFile {
+  blob: Blob;
+  ext: string;
+}
+
+export interface PartialFile {
+  url: string;
+  blob: Blob;
+  total: number;
+  validator: string | null;
+}
+
+/** The bytes received since the last checkpoint, starting at `offset`. */
+export interface PartialChunk {
+  url: string;
+  offset: number;
+  blob: Blob;
+  total: number;
+  validator: string | null;
+}
+
+interface PartialIndex {
+  url: string;
+  total: number;
+  validator: string | null;
+  offsets: number[];
+  size: number;
+}
+
+const partialWrites = new Map<string, Promise<void>>();
+
+export async function loadDownloadJobs(): Promise<PersistedDownloadJob[]> {
+  const jobs = (await idbGet<PersistedDownloadJob[]>(JOBS_KEY)) ?? [];
+  return jobs
+    .filter((job) => job.status === "active" || job.status === "paused")
+    .map((job) => ({
+      ...job,
+      status: "paused",
+      items: job.items.map((item) =>
+        item.status === "pending" || item.status === "downloading" ? { ...item, status: "paused" } : item
+      ),
+    }));
+}
+
+export async function saveDownloadJobs(jobs: PersistedDownloadJob[]): Promise<void> {
+  const unfinished = jobs
+    .filter((job) => job.status === "active" || job.status === "paused")
+    .map(({ id, name, artistName, eraName, items, eraArt, status }) => ({ id, name, artistName, eraName, items, eraArt, status }));
+  await idbSet(JOBS_KEY, unfinished);
+}
+
+export async function getStoredFile(itemId: string): Promise<StoredFile | null> {
+  return idbGet<StoredFile>(FILE_KEY_PREFIX + itemId);
+}
+
+function chunkKey(itemId: string, offset: number): string {
+  return `${PARTIAL_KEY_PREFIX}${itemId}:${offset}`;
+}
+
+async function deletePartial(itemId: string): Promise<void> {
+  const index = await idbGet<PartialIndex>(PARTIAL_KEY_PREFIX + itemId);
+  for (const offset of index?.offsets ?? []) await idbSet(chunkKey(itemId, offset), null);
+  await idbSet(PARTIAL_KEY_PREFIX + itemId, null);
+}
+
+async function pendingWrites(itemId: string): Promise<void> {
+  await partialWrites.get(itemId)?.catch(() => {});
+}
+
+export async function putStoredFile(itemId: string, file: StoredFile): Promise<void> {
+  await idbSet(FILE_KEY_PREFIX + itemId, file);
+  await pendingWrites(itemId);
+  await deletePartial(itemId);
+}
+
+export async function getPartialFile(itemId: string, url: string): Promise<PartialFile | null> {
+  await pendingWrites(itemId);
+  const index = await idbGet<PartialIndex>(PARTIAL_KEY_PREFIX + itemId);
+  if (!index || index.url !== url || index.size === 0) return null;
+  const parts: Blob[] = [];
+  for (const offset of index.offsets) {
+    const chunk = await idbGet<Blob>(chunkKey(itemId, offset));
+    if (!chunk) return null;
+    parts.push(chunk);
+  }
+  return { url, blob: new Blob(parts), total: index.total, validator: index.validator };
+}
+
+async function writePartialChunk(itemId: string, chunk: PartialChunk): Promise<void> {
+  const index = await idbGet<PartialIndex>(PARTIAL_KEY_PREFIX + itemId);
+  const continues = index && index.url === chunk.url && index.size === chunk.offset && chunk.offset > 0;
+  if (!continues) {
+    // A restarted download replaces the stored prefix; a gap can't be resumed from.
+    if (chunk.offset > 0) return;
+    await deletePartial(itemId);
+  }
+  await idbSet(chunkKey(itemId, chunk.offset), chunk.blob);
+  await idbSet(PARTIAL_KEY_PREFIX + itemId, {
+    url: chunk.url,
+    total: chunk.total,
+    validator: chunk.validator,
+    offsets: [...(continues ? index.offsets : []), chunk.offset],
+    size: chunk.offset + chunk.blob.size,
+  } satisfies PartialIndex);
+}
+
+/**
+ * Stores the next tail of a partial download as its own record, so a
+ * checkpoint never rewrites the bytes saved before it. Writes for an item run
+ * in order.
+ */
+export function appendPartialChunk(itemId: string, chunk: PartialChunk): Promise<void> {
+  const run = (partialWrites.get(itemId) ?? Promise.resolve())
+    .catch(() => {})
+    .then(() => writePartialChunk(itemId, chunk));
+  partialWrites.set(itemId, run);
+  void run.finally(() => {
+    if (partialWrites.get(itemId) === run) partialWrites.delete(itemId);
+  }).catch(() => {});
+  return run;
+}
+
+export async function deleteItemData(itemIds: string[]): Promise<void> {
+  for (const id of itemIds) {
+    await idbSet(FILE_KEY_PREFIX + id, null);
+    await pendingWrites(id);
+    await deletePartial(id);
+  }
+}
@@ -0,0 +1,79 @@
+import { DEFAULT_SETTINGS, loadSettings } from "./settings";
+import { stripEmojis } from "@/lib/utils";
+
+export type PathTemplateVars = Record<string, string | number | undefined>;
+
+export const TEMPLATE_VARIABLES = [
+  "artist",
+  "era",
+  "group",
+  "number",
+  "track",
+  "featuring",
+  "quality",
+  "type",
+  "leak_date",
+  "file_date",
+  "year",
+  "ext",
+] as const;
+
+export function sanitizeFilename(name: string): string {
+  const settings = loadSettings();
+  const cleaned = settings.behavior.showEmojis ? name : stripEmojis(name);
+  return (
+    cleaned
+      .replace(/[<>:"/\\|?*]/g, "_")
+      .replace(/\s+/g, " ")
+      .trim() || "unknown"
+  );
+}
+
+function cleanSegment(segment: string): string {
+  return segment
+    .replace(/[<>:"\\|?*\x00-\x1f]/g, "_")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+}
+
+/**
+ * Expands `{name}` placeholders in a `/`-separated path template. Values are
+ * sanitised so they can never introduce extra folders; unknown placeholders
+ * expand to nothing and empty folders are dropped.
+ */
+export function renderPathTemplate(template: string, vars: PathTemplateVars): string {
+  const segments = (template.trim() || DEFAULT_SETTINGS.downloads.pathTemplate)
+    .split("/")
+    .map((segment) =>
+      cleanSegment(
+        segment.replace(/\{(\w+)\}/g, (_, key: string) => {
+          const value = vars[key];
+          if (value === undefined || value === "") return "";
+          return key === "ext" ? String(value) : sanitizeFilename(String(value));
+        })
+      )
+    )
+    .filter(Boolean);
+  const fallback = `${sanitizeFilename(String(vars.track ?? "unknown"))}.${vars.ext ?? "bin"}`;
+  if (segments.length === 0) return fallback;
+  const last = segments[segments.length - 1];
+  if (vars.ext && !last.toLowerCase().endsWith(`.${String(vars.ext).toLowerCase()}`)) segments[segments.length - 1] = `${last}.${vars.ext}`;
+  return segments.join("/");
+}
+
+export function getFileExtension(url: string, contentType?: string): string {
+  if (contentType) {
+    if (contentType.includes("audio/mpeg") || contentType.includes("audio/mp3")) return "mp3";
+    if (contentType.includes("audio/mp4") || contentType.includes("audio/m4a")) return "m4a";
+    if (contentType.includes("audio/ogg")) return "ogg";
+    if (contentType.includes("audio/wav")) return "wav";
+    if (contentType.includes("audio/flac")) return "flac";
+  }
+  const urlLower = url.toLowerCase();
+  if (urlLower.includes(".mp3") || urlLower.includes("mp3")) return "mp3";
+  if (urlLower.includes(".m4a") || urlLower.includes("m4a")) return "m4a";
+  if (urlLower.includes(".ogg")) return "ogg";
+  if (urlLower.includes(".wav")) return "wav";
+  if (urlLower.includes(".flac")) return "flac";
+  return "mp3";
+}
@@ -0,0 +1,42 @@
+const PROBE_TIMEOUT_MS = 5000;
+// A file counts as truncated when it is this much shorter than the tracker says.
+const TRUNCATION_RATIO = 0.9;
+const TRUNCATION_SLACK_SECONDS = 3;
+
+export async function sha256Hex(blob: Blob): Promise<string | null> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return null;
+  try {
+    const digest = await subtle.digest("SHA-256", new Uint8Array(await blob.arrayBuffer()));
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  } catch {
+    return null;
+  }
+}
+
+/** Reads the duration of an audio blob from its metadata, or null if the browser can't tell. */
+export function probeDuration(blob: Blob, timeoutMs = PROBE_TIMEOUT_MS): Promise<number | null> {
+  if (typeof Audio === "undefined" || typeof URL.createObjectURL !== "function") return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    const done = (value: number | null) => {
+      clearTimeout(timer);
+      audio.onloadedmetadata = null;
+      audio.onerror = null;
+      audio.removeAttribute("src");
+      URL.revokeObjectURL(url);
+      resolve(value);
+    };
+    const timer = setTimeout(() => done(null), timeoutMs);
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : null);
+    audio.onerror = () => done(null);
+    audio.src = url;
+  });
+}
+
+export function isLikelyTruncated(actualSeconds: number | null, expectedSeconds: number | null): boolean {
+  if (actualSeconds === null || expectedSeconds === null || expectedSeconds <= 0) return false;
+  return actualSeconds < expectedSeconds * TRUNCATION_RATIO && expectedSeconds - actualSeconds > TRUNCATION_SLACK_SECONDS;
+}
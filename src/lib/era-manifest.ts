@@ -0,0 +1,169 @@
+import type { TALeak } from "@/src/types";
+import { getAllTrackUrls, getTrackDescription } from "./track-utils";
+import { parseTrackLength } from "./playlists";
+import { sanitizeFilename } from "./download-template";
+
+const MANIFEST_FORMAT = "artistgrid-era-download";
+const MANIFEST_VERSION = 1;
+
+export interface EraArt {
+  image?: string;
+  logo?: string;
+}
+
+export interface ManifestTrack {
+  trackName: string;
+  eraName: string;
+  status: string;
+  track?: TALeak;
+  /** Path inside the archive, when the file was written. */
+  path?: string;
+  sha256?: string;
+  duration?: number;
+  truncated?: boolean;
+  /** Path or name of the identical file this one was not written in favour of. */
+  duplicateOf?: string;
+}
+
+export interface ManifestFile {
+  path: string;
+  blob: Blob;
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+function commonDirectory(paths: string[]): string {
+  if (paths.length === 0) return "";
+  let parts = dirname(paths[0]).split("/").filter(Boolean);
+  for (const path of paths.slice(1)) {
+    const other = dirname(path).split("/");
+    let i = 0;
+    while (i < parts.length && parts[i] === other[i]) i++;
+    parts = parts.slice(0, i);
+  }
+  return parts.join("/");
+}
+
+function relativeTo(dir: string, path: string): string {
+  return dir ? path.slice(dir.length + 1) : path;
+}
+
+function oneLine(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+export function buildEraM3U8(artist: string, eraName: string, dir: string, tracks: ManifestTrack[]): string {
+  const lines = ["#EXTM3U", `#PLAYLIST:${oneLine(`${artist} - ${eraName}`)}`];
+  for (const t of tracks) {
+    if (!t.path) continue;
+    const seconds = parseTrackLength(t.track?.track_length) ?? -1;
+    lines.push(`#EXTINF:${seconds},${oneLine(`${artist} - ${t.trackName}`)}`);
+    lines.push(`#EXTALB:${oneLine(eraName)}`);
+    lines.push(relativeTo(dir, t.path));
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function buildTracklistText(artist: string, eraName: string, tracks: ManifestTrack[]): string {
+  const out = [`${artist} - ${eraName}`, "=".repeat(Math.min(80, artist.length + eraName.length + 3)), ""];
+  tracks.forEach((t, i) => {
+    const track = t.track;
+    out.push(`${String(i + 1).padStart(2, "0")}. ${oneLine(t.trackName)}${track?.extra ? ` ${oneLine(track.extra)}` : ""}`);
+    const details: Array<[string, string | undefined]> = [
+      ["Length", track?.track_length],
+      ["Type", track?.type],
+      ["Quality", track?.quality],
+      ["Available", track?.available_length],
+      ["Leaked", track?.leak_date],
+      ["File date", track?.file_date],
+      ["File", t.path],
+      ["SHA-256", t.sha256],
+    ];
+    for (const [label, value] of details) if (value) out.push(`    ${label}: ${oneLine(value)}`);
+    if (t.duplicateOf) out.push(`    Duplicate of ${t.duplicateOf}`);
+    else if (t.status !== "completed") out.push(`    Not downloaded (${t.status})`);
+    if (t.truncated) out.push(`    Possibly truncated: ${Math.round(t.duration ?? 0)}s downloaded`);
+    const notes = track ? getTrackDescription(track) : null;
+    if (notes) out.push(...notes.trim().split(/\r?\n/).map((line) => `    | ${line}`));
+    for (const url of track ? getAllTrackUrls(track) : []) out.push(`    - ${url}`);
+    out.push("");
+  });
+  return out.join("\n");
+}
+
+export function buildManifestJson(artist: string, eraName: string, art: EraArt | undefined, tracks: ManifestTrack[]): string {
+  return JSON.stringify(
+    {
+      format: MANIFEST_FORMAT,
+      version: MANIFEST_VERSION,
+      artist,
+      era: eraName,
+      image: art?.image,
+      logo: art?.logo,
+      createdAt: new Date().toISOString(),
+      tracks: tracks.map((t, i) => ({
+        ...t.track,
+        position: i + 1,
+        name: t.trackName,
+        status: t.status,
+        path: t.path,
+        sha256: t.sha256,
+        duration: t.duration,
+        truncated: t.truncated,
+        duplicateOf: t.duplicateOf,
+        mirrors: t.track ? getAllTrackUrls(t.track) : [],
+      })),
+    },
+    null,
+    2
+  );
+}
+
+async function fetchImage(url: string, path: string): Promise<ManifestFile | null> {
+  try {
+    const res = await fetch(url, { referrerPolicy: "no-referrer" });
+    if (!res.ok) return null;
+    const blob = await res.blob();
+    const type = blob.type || res.headers.get("content-type") || "";
+    if (!type.startsWith("image/")) return null;
+    const ext = type.includes("png") ? "png" : type.includes("webp") ? "webp" : type.includes("gif") ? "gif" : "jpg";
+    return { path: `${path}.${ext}`, blob };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Playlist, tracklist, manifest and artwork for each era in a download, placed
+ * next to that era's tracks. Tracks must be in era order.
+ */
+export async function buildEraExtras(
+  artist: string,
+  tracks: ManifestTrack[],
+  art: Record<string, EraArt> = {}
+): Promise<ManifestFile[]> {
+  const eras = new Map<string, ManifestTrack[]>();
+  for (const t of tracks) eras.set(t.eraName, [...(eras.get(t.eraName) ?? []), t]);
+  const files: ManifestFile[] = [];
+  for (const [eraName, eraTracks] of eras) {
+    const written = eraTracks.filter((t) => t.path).map((t) => t.path!);
+    if (written.length === 0) continue;
+    const dir = commonDirectory(written);
+    const prefix = dir ? `${dir}/` : "";
+    const text = (body: string, type: string) => new Blob([body], { type });
+    files.push(
+      { path: `${prefix}${sanitizeFilename(eraName)}.m3u8`, blob: text(buildEraM3U8(artist, eraName, dir, eraTracks), "audio/x-mpegurl") },
+      { path: `${prefix}tracklist.txt`, blob: text(buildTracklistText(artist, eraName, eraTracks), "text/plain") },
+      { path: `${prefix}manifest.json`, blob: text(buildManifestJson(artist, eraName, art[eraName], eraTracks), "application/json") }
+    );
+    const images = await Promise.all([
+      art[eraName]?.image ? fetchImage(art[eraName].image!, `${prefix}cover`) : null,
+      art[eraName]?.logo ? fetchImage(art[eraName].logo!, `${prefix}logo`) : null,
+    ]);
+    for (const image of images) if (image) files.push(image);
+  }
+  return files;
+}
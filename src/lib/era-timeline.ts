@@ -0,0 +1,131 @@
+import type { Era, EraDate, TALeak } from "@/src/types";
+import { parseTrackDate } from "./track-query";
+
+export type TimelineZoom = "year" | "month";
+
+/** Horizontal pixels per day at each zoom level. */
+export const TIMELINE_DAY_WIDTH: Record<TimelineZoom, number> = { year: 0.75, month: 5 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimelineSpan {
+  eraName: string;
+  start: number;
+  end: number;
+  color?: string;
+  textColor?: string;
+}
+
+export interface TimelineEvent {
+  key: string;
+  time: number;
+  label: string;
+  eraName: string;
+}
+
+export interface TimelinePoint {
+  key: string;
+  time: number;
+  kind: "leak" | "file";
+  track: TALeak;
+  eraKey: string;
+  eraName: string;
+  color?: string;
+}
+
+export interface EraTimeline {
+  spans: TimelineSpan[];
+  events: TimelineEvent[];
+  points: TimelinePoint[];
+  /** First and last instants covered, padded out to whole years. */
+  start: number;
+  end: number;
+}
+
+/**
+ * Lays out an artist's chronology: era spans run from the earliest to the
+ * latest file date or era event, falling back to leak dates when an era has
+ * neither. Returns null when nothing in the tracker is dated.
+ */
+export function buildEraTimeline(eras: Record<string, Era>, eraDates?: EraDate[]): EraTimeline | null {
+  const points: TimelinePoint[] = [];
+  for (const [eraKey, era] of Object.entries(eras)) {
+    for (const tracks of Object.values(era.data ?? {})) {
+      if (!Array.isArray(tracks)) continue;
+      tracks.forEach((track, i) => {
+        const eraName = track.eraName ?? era.name;
+        const color = track.eraColor ?? era.backgroundColor;
+        for (const kind of ["file", "leak"] as const) {
+          const time = parseTrackDate(kind === "file" ? track.file_date : track.leak_date);
+          if (time !== null) points.push({ key: `${eraKey}:${track.id ?? i}:${track.name}:${kind}`, time, kind, track, eraKey, eraName, color });
+        }
+      });
+    }
+  }
+
+  const dates = eraDates?.length ? eraDates : Object.values(eras).flatMap((e) => e.era_dates ?? []);
+  const events: TimelineEvent[] = [];
+  dates.forEach((d, i) => {
+    const time = parseTrackDate(d.date);
+    if (time !== null) events.push({ key: `${i}:${d.era}:${d.event}`, time, label: d.event, eraName: d.era });
+  });
+
+  const spans: TimelineSpan[] = [];
+  const seen = new Set<string>();
+  for (const era of Object.values(eras)) {
+    const names = era.name ? [era.name] : [...new Set(points.map((p) => p.eraName))];
+    for (const name of names) {
+      if (!name || seen.has(name)) continue;
+      seen.add(name);
+      const own = points.filter((p) => p.eraName === name);
+      const dated = [...own.filter((p) => p.kind === "file"), ...events.filter((e) => e.eraName === name)].map((p) => p.time);
+      const times = dated.length > 0 ? dated : own.map((p) => p.time);
+      if (times.length === 0) continue;
+      const sample = own[0];
+      spans.push({
+        eraName: name,
+        start: Math.min(...times),
+        end: Math.max(...times),
+        color: era.name ? era.backgroundColor : sample?.color,
+        textColor: era.name ? era.textColor : sample?.track.eraTextColor,
+      });
+    }
+  }
+
+  const all = [...points.map((p) => p.time), ...events.map((e) => e.time), ...spans.map((s) => s.start)];
+  if (all.length === 0) return null;
+  const first = new Date(Math.min(...all));
+  const last = new Date(Math.max(...all));
+  return {
+    spans: spans.sort((a, b) => a.start - b.start),
+    events: events.sort((a, b) => a.time - b.time),
+    points: points.sort((a, b) => a.time - b.time),
+    start: Date.UTC(first.getUTCFullYear(), 0, 1),
+    end: Date.UTC(last.getUTCFullYear() + 1, 0, 1),
+  };
+}
+
+/** Tick marks at the start of each year, or of each month when zoomed in. */
+export function timelineTicks(start: number, end: number, zoom: TimelineZoom): Array<{ time: number; label: string; major: boolean }> {
+  const ticks: Array<{ time: number; label: string; major: boolean }> = [];
+  const d = new Date(start);
+  for (let year = d.getUTCFullYear(), month = zoom === "year" ? 0 : d.getUTCMonth(); ; ) {
+    const time = Date.UTC(year, month, 1);
+    if (time > end) break;
+    ticks.push({
+      time,
+      label: month === 0 ? String(year) : new Date(time).toLocaleString("en", { month: "short", timeZone: "UTC" }),
+      major: month === 0,
+    });
+    if (zoom === "year") year++;
+    else if (++month === 12) {
+      month = 0;
+      year++;
+    }
+  }
+  return ticks;
+}
+
+export function timelineOffset(time: number, start: number, zoom: TimelineZoom): number {
+  return ((time - start) / DAY_MS) * TIMELINE_DAY_WIDTH[zoom];
+}
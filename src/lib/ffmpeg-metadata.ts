@@ -38,8 +38,16 @@ function nextTempId(): string {
 export interface MetadataInput {
   title?: string;
   artist?: string;
+  albumArtist?: string;
   album?: string;
   year?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  featuring?: string[];
+  producers?: string[];
+  comment?: string;
+  leakDate?: string;
+  sourceUrl?: string;
   coverUrl?: string;
 }
 
@@ -68,12 +76,24 @@ function getAudioExtension(blob: Blob): string {
   return "mp3";
 }
 
-function buildMetadataArgs(metadata: MetadataInput): string[] {
+export function buildMetadataArgs(metadata: MetadataInput): string[] {
+  const tags: Array<[string, string | undefined]> = [
+    ["title", metadata.title],
+    ["artist", metadata.artist],
+    ["album_artist", metadata.albumArtist],
+    ["album", metadata.album],
+    ["date", metadata.year],
+    ["track", metadata.trackNumber ? `${metadata.trackNumber}${metadata.trackTotal ? `/${metadata.trackTotal}` : ""}` : undefined],
+    ["featuring", metadata.featuring?.join("; ")],
+    ["producer", metadata.producers?.join("; ")],
+    ["comment", metadata.comment],
+    ["leak_date", metadata.leakDate],
+    ["source_url", metadata.sourceUrl],
+  ];
   const args: string[] = [];
-  if (metadata.title) args.push("-metadata", `title=${metadata.title}`);
-  if (metadata.artist) args.push("-metadata", `artist=${metadata.artist}`);
-  if (metadata.album) args.push("-metadata", `album=${metadata.album}`);
-  if (metadata.year) args.push("-metadata", `date=${metadata.year}`);
+  for (const [key, value] of tags) {
+    if (value) args.push("-metadata", `${key}=${value}`);
+  }
   return args;
 }
 
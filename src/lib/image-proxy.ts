@@ -10,3 +10,9 @@ export function proxyImageUrl(url: string): string {
   if (!isProxyEnabled()) return url;
   return `${PROXY_BASE}/?url=${encodeURIComponent(url)}`;
 }
+
+export function proxyImageVariants(url: string): string[] {
+  if (!isProxyEnabled()) return [url];
+  const base = `${PROXY_BASE}/?url=${encodeURIComponent(url)}`;
+  return [base, `${base}&output=webp`, `${base}&output=jxl`];
+}
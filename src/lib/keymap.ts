@@ -0,0 +1,78 @@
+import { COMMANDS } from "./commands";
+
+const MODIFIER_ORDER = ["Ctrl", "Alt", "Shift", "Meta"];
+const MODIFIER_KEYS = new Set(["Control", "Alt", "Shift", "Meta", "AltGraph", "CapsLock", "Dead", "Unidentified"]);
+
+export type Keymap = Record<string, string[]>;
+
+export const IS_APPLE =
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad|iPod/i.test(navigator.platform || navigator.userAgent || "");
+
+function keyName(key: string): string {
+  if (key === " " || key === "Spacebar") return "Space";
+  return key.length === 1 ? key.toUpperCase() : key;
+}
+
+function isSymbol(key: string): boolean {
+  return key.length === 1 && key.toLowerCase() === key.toUpperCase();
+}
+
+/** Canonical combo for a key event, e.g. `Ctrl+Shift+D`; null for a lone modifier. */
+export function comboFromEvent(e: Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey">): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  let key = e.key;
+  // Alt turns letters into other characters on macOS, so fall back to the physical key.
+  if (e.altKey) {
+    const physical = /^(?:Key([A-Z])|Digit(\d))$/.exec(e.code);
+    if (physical) key = physical[1] ?? physical[2];
+  }
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push("Ctrl");
+  if (e.altKey) parts.push("Alt");
+  // Shift is already part of symbols like "?" or "{".
+  if (e.shiftKey && !(isSymbol(key) && key !== " ")) parts.push("Shift");
+  if (e.metaKey) parts.push("Meta");
+  return [...parts, keyName(key)].join("+");
+}
+
+/** Resolves `Mod` and puts modifiers in canonical order so combos compare equal. */
+export function normalizeCombo(combo: string, apple = IS_APPLE): string {
+  const trimmed = combo.trim();
+  const plusKey = trimmed.endsWith("++") || trimmed === "+";
+  const parts = (plusKey ? trimmed.slice(0, -1) : trimmed).split("+").filter(Boolean);
+  const key = plusKey ? "+" : parts.pop() ?? "";
+  const modifiers = new Set(parts.map((p) => (p === "Mod" ? (apple ? "Meta" : "Ctrl") : p === "Cmd" ? "Meta" : p === "Control" ? "Ctrl" : p)));
+  return [...MODIFIER_ORDER.filter((m) => modifiers.has(m)), keyName(key)].join("+");
+}
+
+export function formatCombo(combo: string, apple = IS_APPLE): string {
+  const normalized = normalizeCombo(combo, apple);
+  if (!apple) return normalized;
+  const symbols: Record<string, string> = { Ctrl: "⌃", Alt: "⌥", Shift: "⇧", Meta: "⌘" };
+  const parts = normalized.split("+");
+  const key = parts.pop() ?? "";
+  return parts.map((p) => symbols[p] ?? p).join("") + (key === "" ? "+" : key);
+}
+
+/** Every command's bindings, with the user's overrides applied. */
+export function resolveKeymap(overrides: Keymap = {}): Keymap {
+  return Object.fromEntries(COMMANDS.map((c) => [c.id, overrides[c.id] ?? c.keys]));
+}
+
+/** Combos bound to more than one command, keyed by normalized combo. */
+export function findConflicts(keymap: Keymap, apple = IS_APPLE): Map<string, string[]> {
+  const byCombo = new Map<string, string[]>();
+  for (const [id, combos] of Object.entries(keymap)) {
+    for (const combo of combos) {
+      const key = normalizeCombo(combo, apple);
+      byCombo.set(key, [...(byCombo.get(key) ?? []), id]);
+    }
+  }
+  return new Map([...byCombo].filter(([, ids]) => ids.length > 1));
+}
+
+export function commandsForCombo(keymap: Keymap, combo: string, apple = IS_APPLE): string[] {
+  return Object.entries(keymap)
+    .filter(([, combos]) => combos.some((c) => normalizeCombo(c, apple) === combo))
+    .map(([id]) => id);
+}
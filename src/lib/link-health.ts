@@ -0,0 +1,267 @@
+import { idbGet, idbSet } from "./indexeddb-cache";
+import { getTrackSource } from "./resolve-url";
+import { getSourceResolver } from "./source-resolvers";
+
+const STORAGE_KEY = "link-health";
+const PROBE_TIMEOUT_MS = 10000;
+/** Checks older than this are probed again. */
+export const LINK_CHECK_TTL_MS = 24 * 60 * 60 * 1000;
+export const PER_HOST_CONCURRENCY = 2;
+
+export type LinkStatus = "alive" | "dead" | "unknown";
+export type TrackLinkStatus = LinkStatus | "partial";
+
+export interface LinkCheck {
+  url: string;
+  status: LinkStatus;
+  checkedAt: number;
+  /** HTTP status or a short reason, for the maintainer report. */
+  detail?: string;
+}
+
+type Fetch = typeof fetch;
+
+let checks: Map<string, LinkCheck> | null = null;
+let loading: Promise<Map<string, LinkCheck>> | null = null;
+let writeChain: Promise<unknown> = Promise.resolve();
+const listeners = new Set<() => void>();
+
+function load(): Promise<Map<string, LinkCheck>> {
+  if (checks) return Promise.resolve(checks);
+  loading ??= idbGet<Record<string, LinkCheck>>(STORAGE_KEY).then((stored) => {
+    checks = new Map(Object.entries(stored ?? {}));
+    return checks;
+  });
+  return loading;
+}
+
+function persist(): Promise<void> {
+  const snapshot = Object.fromEntries(checks ?? []);
+  const run = writeChain.then(() => idbSet(STORAGE_KEY, snapshot));
+  writeChain = run.catch(() => {});
+  return run;
+}
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+export function subscribeLinkHealth(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export async function getLinkChecks(): Promise<Map<string, LinkCheck>> {
+  return new Map(await load());
+}
+
+export async function clearLinkChecks(): Promise<void> {
+  checks = new Map();
+  await persist();
+  notify();
+}
+
+function statusFromResponse(res: Response): LinkStatus {
+  if (res.ok || res.status === 206) return "alive";
+  return res.status === 404 || res.status === 410 ? "dead" : "unknown";
+}
+
+async function request(url: string, fetchImpl: Fetch, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    return await fetchImpl(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// Resolvers take no signal, so a slow one is abandoned rather than aborted.
+function withinTimeout<T>(task: () => T | Promise<T>, signal?: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      cleanup();
+      reject(new DOMException("The probe was aborted", "AbortError"));
+    };
+    const timer = setTimeout(abort, PROBE_TIMEOUT_MS);
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    };
+    if (signal?.aborted) return abort();
+    signal?.addEventListener("abort", abort, { once: true });
+    Promise.resolve()
+      .then(task)
+      .then(
+        (value) => {
+          cleanup();
+          resolve(value);
+        },
+        (e) => {
+          cleanup();
+          reject(e);
+        }
+      );
+  });
+}
+
+/**
+ * The request a probe makes for a link, or null when the link can't be
+ * resolved at all. Calls the resolver directly, since resolvePlayableUrl turns
+ * a failed request into null and the link would be reported dead.
+ */
+async function probeTarget(url: string, signal?: AbortSignal): Promise<{ url: string; hostCheck: boolean } | null> {
+  const resolver = getSourceResolver(url);
+  const probeUrl = resolver.probeUrl?.(url);
+  if (probeUrl) return { url: probeUrl, hostCheck: true };
+  const resolved = await withinTimeout(() => resolver.resolve(url), signal);
+  return resolved ? { url: resolved, hostCheck: false } : null;
+}
+
+export interface ProbeOptions {
+  signal?: AbortSignal;
+  /** Shared per-host slots; each request counts against the host it is sent to. */
+  limit?: HostLimiter;
+}
+
+/**
+ * Checks one link: through the host's own check endpoint when it has one (such
+ * as YouTube's oEmbed), otherwise by resolving it and sending a HEAD request,
+ * falling back to a one-byte ranged GET for hosts that reject HEAD. Network and
+ * CORS failures are "unknown", not dead.
+ */
+export async function probeLink(url: string, fetchImpl: Fetch = fetch, { signal, limit }: ProbeOptions = {}): Promise<LinkCheck> {
+  const checkedAt = Date.now();
+  if (getTrackSource(url) === "unknown") return { url, status: "unknown", checkedAt, detail: "unsupported host" };
+  const run = <T>(host: string, task: () => Promise<T>) => (limit ? limit(host, task) : task());
+  const cancelled: LinkCheck = { url, status: "unknown", checkedAt, detail: "cancelled" };
+  try {
+    // Resolving can itself call the link's host (Imgur, archive.org metadata).
+    const target = await run(hostOf(url), async () => (signal?.aborted ? null : probeTarget(url, signal)));
+    if (signal?.aborted) return cancelled;
+    if (!target) return { url, status: "dead", checkedAt, detail: "unresolvable" };
+    return await run(hostOf(target.url), async () => {
+      let res = await request(target.url, fetchImpl, { method: target.hostCheck ? "GET" : "HEAD" }, signal);
+      if (res.status === 405 || res.status === 501) {
+        res = await request(target.url, fetchImpl, { headers: { Range: "bytes=0-0" } }, signal);
+        void res.body?.cancel().catch(() => {});
+      }
+      const status = target.hostCheck && (res.status === 401 || res.status === 403) ? "dead" : statusFromResponse(res);
+      return { url, status, checkedAt, detail: String(res.status) };
+    });
+  } catch (e) {
+    if (signal?.aborted) return cancelled;
+    return { url, status: "unknown", checkedAt, detail: e instanceof DOMException && e.name === "AbortError" ? "timeout" : "network error" };
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "";
+  }
+}
+
+/** Runs tasks with at most `limit` in flight per host. */
+export function createHostLimiter(limit = PER_HOST_CONCURRENCY) {
+  const hosts = new Map<string, { active: number; queue: Array<() => void> }>();
+  return async function run<T>(host: string, task: () => Promise<T>): Promise<T> {
+    const slot = hosts.get(host) ?? { active: 0, queue: [] };
+    hosts.set(host, slot);
+    if (slot.active >= limit) await new Promise<void>((resolve) => slot.queue.push(resolve));
+    slot.active++;
+    try {
+      return await task();
+    } finally {
+      slot.active--;
+      const next = slot.queue.shift();
+      if (next) next();
+      else if (slot.active === 0) hosts.delete(host);
+    }
+  };
+}
+
+export type HostLimiter = ReturnType<typeof createHostLimiter>;
+
+export interface AuditOptions {
+  force?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+  fetchImpl?: Fetch;
+  now?: number;
+}
+
+/**
+ * Probes every link whose cached check is missing or stale, caching results
+ * in IndexedDB as they arrive. Resolves with the checks for all given links.
+ */
+export async function auditLinks(urls: string[], options: AuditOptions = {}): Promise<Map<string, LinkCheck>> {
+  const { force = false, signal, onProgress, fetchImpl = fetch, now = Date.now() } = options;
+  const cache = await load();
+  const unique = [...new Set(urls)];
+  const pending = unique.filter((u) => {
+    const cached = cache.get(u);
+    return force || !cached || now - cached.checkedAt > LINK_CHECK_TTL_MS;
+  });
+  const limit = createHostLimiter();
+  let done = 0;
+  onProgress?.(0, pending.length);
+  await Promise.all(
+    pending.map(async (url) => {
+      const check = await probeLink(url, fetchImpl, { signal, limit });
+      if (signal?.aborted) return;
+      cache.set(url, check);
+      onProgress?.(++done, pending.length);
+      if (done % 25 === 0) {
+        void persist();
+        notify();
+      }
+    })
+  );
+  await persist();
+  notify();
+  return new Map(unique.flatMap((u) => (cache.has(u) ? [[u, cache.get(u)!] as const] : [])));
+}
+
+/** Alive when any mirror works, dead when every mirror was found dead. */
+export function trackLinkStatus(urls: string[], results: Map<string, LinkCheck>): TrackLinkStatus | undefined {
+  const statuses = urls.map((u) => results.get(u)?.status);
+  if (statuses.length === 0 || statuses.every((s) => s === undefined)) return undefined;
+  const alive = statuses.includes("alive");
+  const dead = statuses.includes("dead");
+  if (alive) return dead ? "partial" : "alive";
+  return statuses.every((s) => s === "dead") ? "dead" : "unknown";
+}
+
+export interface LinkReportRow {
+  era: string;
+  track: string;
+  url: string;
+  check?: LinkCheck;
+}
+
+function csvField(value: string | undefined): string {
+  const text = value ?? "";
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function linkReportToCsv(rows: LinkReportRow[]): string {
+  const header = ["era", "track", "url", "source", "status", "detail", "checked_at"];
+  const lines = rows.map((r) =>
+    [
+      r.era,
+      r.track,
+      r.url,
+      getTrackSource(r.url),
+      r.check?.status ?? "unchecked",
+      r.check?.detail,
+      r.check ? new Date(r.check.checkedAt).toISOString() : "",
+    ].map(csvField).join(",")
+  );
+  return [header.join(","), ...lines].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,111 @@
+import type { Track } from "@/src/types";
+import { idbGet, idbSet } from "./indexeddb-cache";
+
+const MONTHS_KEY = "listening:months";
+const monthKey = (month: string) => `listening:${month}`;
+// Gaps larger than this between position updates are seeks, not listening.
+const MAX_POSITION_STEP_SECONDS = 3;
+const COMPLETED_FRACTION = 0.9;
+
+export interface PlayRecord {
+  id: string;
+  trackId: string;
+  name: string;
+  url: string;
+  artist: string;
+  era?: string;
+  trackerId?: string;
+  /** Epoch ms when the track started. */
+  startedAt: number;
+  /** Seconds actually heard, excluding seeks. */
+  listened: number;
+  duration?: number;
+  completed: boolean;
+}
+
+export interface ActivePlay {
+  track: Track;
+  /** Set when playback first advances, so a restored but unplayed track doesn't date the play. */
+  startedAt: number;
+  listened: number;
+  position: number;
+  duration: number;
+  reachedEnd: boolean;
+}
+
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(fn: () => Promise<T>): Promise<T> {
+  const run = writeChain.then(fn);
+  writeChain = run.catch(() => {});
+  return run;
+}
+
+function monthOf(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+export function startPlay(track: Track): ActivePlay {
+  return { track, startedAt: 0, listened: 0, position: 0, duration: 0, reachedEnd: false };
+}
+
+/** Counts playback progress since the last update; jumps from seeking are not counted. */
+export function notePlayPosition(play: ActivePlay, position: number, duration: number): void {
+  if (!isFinite(position)) return;
+  const step = position - play.position;
+  if (step > 0 && step <= MAX_POSITION_STEP_SECONDS) {
+    if (!play.startedAt) play.startedAt = Date.now() - step * 1000;
+    play.listened += step;
+  }
+  play.position = position;
+  if (isFinite(duration) && duration > 0) play.duration = duration;
+}
+
+/** Turns a finished play into a history record, or null when nothing was heard. */
+export function finishPlay(play: ActivePlay): PlayRecord | null {
+  const completed = play.reachedEnd || (play.duration > 0 && play.position >= play.duration * COMPLETED_FRACTION);
+  if (play.listened < 1 && !completed) return null;
+  const { track } = play;
+  const startedAt = play.startedAt || Date.now();
+  return {
+    id: `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    trackId: track.id,
+    name: track.name,
+    url: track.url,
+    artist: track.artistName || track.eraName || "Unknown Artist",
+    era: track.eraName,
+    trackerId: track.trackerId,
+    startedAt,
+    listened: Math.round(play.listened),
+    duration: play.duration > 0 ? Math.round(play.duration) : undefined,
+    completed,
+  };
+}
+
+// Plays are bucketed by month so recording one doesn't rewrite the whole history.
+export function recordPlay(record: PlayRecord): Promise<void> {
+  return serialize(async () => {
+    const month = monthOf(record.startedAt);
+    const months = (await idbGet<string[]>(MONTHS_KEY)) ?? [];
+    const plays = (await idbGet<PlayRecord[]>(monthKey(month))) ?? [];
+    plays.push(record);
+    await idbSet(monthKey(month), plays);
+    if (!months.includes(month)) await idbSet(MONTHS_KEY, [...months, month].sort());
+  });
+}
+
+/** Every recorded play, oldest first. */
+export async function getListeningHistory(): Promise<PlayRecord[]> {
+  const months = (await idbGet<string[]>(MONTHS_KEY)) ?? [];
+  const buckets = await Promise.all(months.map((m) => idbGet<PlayRecord[]>(monthKey(m))));
+  return buckets.flatMap((b) => b ?? []).sort((a, b) => a.startedAt - b.startedAt);
+}
+
+export function clearListeningHistory(): Promise<void> {
+  return serialize(async () => {
+    const months = (await idbGet<string[]>(MONTHS_KEY)) ?? [];
+    for (const month of months) await idbSet(monthKey(month), null);
+    await idbSet(MONTHS_KEY, null);
+  });
+}
@@ -0,0 +1,122 @@
+import type { PlayRecord } from "./listening-history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FORGOTTEN_AFTER_DAYS = 30;
+const FORGOTTEN_MIN_COMPLETED = 3;
+
+export interface StatCount {
+  key: string;
+  label: string;
+  detail?: string;
+  plays: number;
+  seconds: number;
+  /** Latest play among the counted ones, so lists can link back to a tracker. */
+  last: PlayRecord;
+}
+
+export interface DayTotal {
+  date: string;
+  seconds: number;
+}
+
+export interface ListeningStats {
+  plays: number;
+  seconds: number;
+  skipRate: number;
+  topTracks: StatCount[];
+  topEras: StatCount[];
+  topArtists: StatCount[];
+  days: DayTotal[];
+  forgottenFavourites: Array<StatCount & { completed: number }>;
+}
+
+export function localDate(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function trackKey(p: PlayRecord): string {
+  return `${(p.trackerId || p.artist).toLowerCase()}\u0000${p.name.toLowerCase()}`;
+}
+
+function countBy(
+  plays: PlayRecord[],
+  key: (p: PlayRecord) => string | null,
+  describe: (p: PlayRecord) => Pick<StatCount, "label" | "detail">
+): StatCount[] {
+  const counts = new Map<string, StatCount>();
+  for (const p of plays) {
+    const k = key(p);
+    if (k === null) continue;
+    const entry = counts.get(k) ?? { key: k, ...describe(p), plays: 0, seconds: 0, last: p };
+    entry.plays++;
+    entry.seconds += p.listened;
+    if (p.startedAt >= entry.last.startedAt) entry.last = p;
+    counts.set(k, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.plays - a.plays || b.seconds - a.seconds || a.label.localeCompare(b.label));
+}
+
+/**
+ * Aggregates the listening history. `days` covers the last `dayCount` local
+ * calendar days including today, oldest first, with empty days included.
+ */
+export function computeListeningStats(plays: PlayRecord[], now = Date.now(), limit = 10, dayCount = 30): ListeningStats {
+  const seconds = plays.reduce((sum, p) => sum + p.listened, 0);
+  const skipped = plays.filter((p) => !p.completed).length;
+  const tracks = countBy(plays, trackKey, (p) => ({ label: p.name, detail: [p.artist, p.era].filter(Boolean).join(" · ") }));
+
+  const perDay = new Map<string, number>();
+  for (const p of plays) perDay.set(localDate(p.startedAt), (perDay.get(localDate(p.startedAt)) ?? 0) + p.listened);
+  const days: DayTotal[] = [];
+  for (let i = dayCount - 1; i >= 0; i--) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - i);
+    const date = localDate(day.getTime());
+    days.push({ date, seconds: perDay.get(date) ?? 0 });
+  }
+
+  const completedByTrack = new Map<string, number>();
+  for (const p of plays) if (p.completed) completedByTrack.set(trackKey(p), (completedByTrack.get(trackKey(p)) ?? 0) + 1);
+  const forgottenFavourites = tracks
+    .map((t) => ({ ...t, completed: completedByTrack.get(t.key) ?? 0 }))
+    .filter((t) => t.completed >= FORGOTTEN_MIN_COMPLETED && now - t.last.startedAt > FORGOTTEN_AFTER_DAYS * DAY_MS)
+    .sort((a, b) => b.completed - a.completed || a.last.startedAt - b.last.startedAt)
+    .slice(0, limit);
+
+  return {
+    plays: plays.length,
+    seconds,
+    skipRate: plays.length > 0 ? skipped / plays.length : 0,
+    topTracks: tracks.slice(0, limit),
+    topEras: countBy(
+      plays,
+      (p) => (p.era ? `${p.artist.toLowerCase()}\u0000${p.era.toLowerCase()}` : null),
+      (p) => ({ label: p.era!, detail: p.artist })
+    ).slice(0, limit),
+    topArtists: countBy(plays, (p) => p.artist.toLowerCase(), (p) => ({ label: p.artist })).slice(0, limit),
+    days,
+    forgottenFavourites,
+  };
+}
+
+function csvField(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function listeningHistoryToCsv(plays: PlayRecord[]): string {
+  const header = ["played_at", "track", "artist", "era", "tracker_id", "listened_seconds", "duration_seconds", "completed", "url"];
+  const rows = plays.map((p) =>
+    [new Date(p.startedAt).toISOString(), p.name, p.artist, p.era, p.trackerId, p.listened, p.duration, p.completed, p.url].map(csvField).join(",")
+  );
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function formatListeningTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.round(seconds)}s`;
+}
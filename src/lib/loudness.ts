@@ -0,0 +1,152 @@
+import { idbGet, idbSet } from "./indexeddb-cache";
+import { logError } from "./logger";
+import { matchPinned } from "./pinned-cache";
+
+export const TARGET_LUFS = -14;
+const MAX_BOOST_DB = 6;
+const MAX_CUT_DB = -12;
+const STEP_SECONDS = 0.1;
+const STEPS_PER_BLOCK = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+// Enough for a long MP3 or a short lossless file; anything bigger plays unmeasured.
+const MAX_MEASURE_BYTES = 25 * 1024 * 1024;
+const GAINS_KEY = "loudness-gains";
+
+function toLufs(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+// Gated integrated loudness (ITU-R BS.1770 / EBU R128) of already K-weighted
+// samples: 400 ms blocks with 75% overlap, -70 LUFS absolute and -10 LU relative gates.
+export function integratedLoudness(channels: Float32Array[], sampleRate: number): number {
+  if (channels.length === 0 || sampleRate <= 0) return -Infinity;
+  const stepSize = Math.max(1, Math.round(sampleRate * STEP_SECONDS));
+  const length = channels[0].length;
+  const stepCount = Math.floor(length / stepSize);
+  const stepEnergy = new Float64Array(stepCount);
+  for (const samples of channels) {
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      const start = step * stepSize;
+      for (let i = start; i < start + stepSize; i++) sum += samples[i] * samples[i];
+      stepEnergy[step] += sum;
+    }
+  }
+  const blocks: number[] = [];
+  for (let step = 0; step + STEPS_PER_BLOCK <= stepCount; step++) {
+    let sum = 0;
+    for (let j = 0; j < STEPS_PER_BLOCK; j++) sum += stepEnergy[step + j];
+    const meanSquare = sum / (stepSize * STEPS_PER_BLOCK);
+    if (meanSquare > 0 && toLufs(meanSquare) > ABSOLUTE_GATE_LUFS) blocks.push(meanSquare);
+  }
+  if (blocks.length === 0) return -Infinity;
+  const relativeGate = toLufs(blocks.reduce((a, b) => a + b, 0) / blocks.length) + RELATIVE_GATE_LU;
+  const gated = blocks.filter((z) => toLufs(z) > relativeGate);
+  if (gated.length === 0) return -Infinity;
+  return toLufs(gated.reduce((a, b) => a + b, 0) / gated.length);
+}
+
+export function normalizationGainDb(lufs: number): number {
+  if (!Number.isFinite(lufs)) return 0;
+  return Math.min(MAX_BOOST_DB, Math.max(MAX_CUT_DB, TARGET_LUFS - lufs));
+}
+
+/** The response body, or null once it grows past `max` bytes. */
+export async function readCapped(res: Response, max: number): Promise<ArrayBuffer | null> {
+  if (Number(res.headers.get("Content-Length") || 0) > max) {
+    void res.body?.cancel().catch(() => {});
+    return null;
+  }
+  if (!res.body) return res.arrayBuffer();
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > max) {
+      void reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes.buffer;
+}
+
+// Pinned tracks are read from their offline copy; otherwise the browser cache
+// may still hold what the player just streamed.
+async function fetchForMeasuring(url: string): Promise<Response | null> {
+  const pinned = await matchPinned(url);
+  if (pinned) return pinned;
+  const res = await fetch(url, { cache: "force-cache" });
+  return res.ok ? res : null;
+}
+
+async function measureLoudness(url: string): Promise<number | null> {
+  if (typeof OfflineAudioContext === "undefined") return null;
+  const res = await fetchForMeasuring(url);
+  const data = res && (await readCapped(res, MAX_MEASURE_BYTES));
+  if (!data) return null;
+  const buffer = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(data);
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const shelf = ctx.createBiquadFilter();
+  shelf.type = "highshelf";
+  shelf.frequency.value = 1500;
+  shelf.gain.value = 4;
+  const highpass = ctx.createBiquadFilter();
+  highpass.type = "highpass";
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+  source.connect(shelf).connect(highpass).connect(ctx.destination);
+  source.start();
+  const rendered = await ctx.startRendering();
+  const channels = Array.from({ length: rendered.numberOfChannels }, (_, i) => rendered.getChannelData(i));
+  return integratedLoudness(channels, rendered.sampleRate);
+}
+
+let gains: Map<string, number> | null = null;
+const pending = new Map<string, Promise<number | null>>();
+
+async function loadGains(): Promise<Map<string, number>> {
+  if (gains) return gains;
+  const stored = await idbGet<Record<string, number>>(GAINS_KEY);
+  gains = new Map(Object.entries(stored ?? {}));
+  return gains;
+}
+
+export async function getCachedTrackGain(trackId: string): Promise<number | null> {
+  return (await loadGains()).get(trackId) ?? null;
+}
+
+export function getTrackGain(trackId: string, url: string): Promise<number | null> {
+  const inFlight = pending.get(trackId);
+  if (inFlight) return inFlight;
+  const job = (async () => {
+    const cache = await loadGains();
+    const cached = cache.get(trackId);
+    if (cached !== undefined) return cached;
+    try {
+      const lufs = await measureLoudness(url);
+      if (lufs === null) return null;
+      const gain = normalizationGainDb(lufs);
+      cache.set(trackId, gain);
+      await idbSet(GAINS_KEY, Object.fromEntries(cache));
+      return gain;
+    } catch (e) {
+      logError("Loudness measurement failed:", e);
+      return null;
+    }
+  })().finally(() => pending.delete(trackId));
+  pending.set(trackId, job);
+  return job;
+}
@@ -0,0 +1,38 @@
+import type { Track } from "@/src/types";
+import { getPreferredMirror, setPreferredMirror } from "./tracker-cache";
+import { getTrackSource, resolvePlayableUrl } from "./resolve-url";
+import { getSourceCapabilities } from "./source-resolvers";
+import { generateTrackId } from "./track-utils";
+
+export const STALL_TIMEOUT_MS = 15000;
+
+export function getMirrorKey(mirrors: string[]): string | null {
+  return mirrors.length > 0 ? generateTrackId(mirrors[0]) : null;
+}
+
+export function orderMirrors(mirrors: string[]): string[] {
+  const key = getMirrorKey(mirrors);
+  const preferred = key ? getPreferredMirror(key) : null;
+  if (!preferred || !mirrors.includes(preferred)) return mirrors;
+  return [preferred, ...mirrors.filter((u) => u !== preferred)];
+}
+
+export function rememberWorkingMirror(track: Track): void {
+  if (!track.mirrors?.length) return;
+  const key = getMirrorKey(track.mirrors);
+  if (key) setPreferredMirror(key, track.url);
+}
+
+export async function resolveNextMirror(
+  track: Track,
+  tried: Set<string>
+): Promise<{ url: string; playableUrl: string } | null> {
+  for (const url of orderMirrors(track.mirrors ?? [])) {
+    if (tried.has(url)) continue;
+    tried.add(url);
+    if (getSourceCapabilities(getTrackSource(url)).embedOnly) continue;
+    const playableUrl = await resolvePlayableUrl(url);
+    if (playableUrl && playableUrl !== track.playableUrl) return { url, playableUrl };
+  }
+  return null;
+}
@@ -0,0 +1,215 @@
+import type { TrackerResponse } from "@/src/types";
+import { fetchWithFallback, apiUrl, adaptV3Response, adaptV3FlatResponse, type V3Response } from "./api";
+import { deletePinned, notifyServiceWorker, putPinned } from "./pinned-cache";
+import { idbGet, idbSet } from "./indexeddb-cache";
+import { proxyImageVariants } from "./image-proxy";
+import { forEachEraTrack } from "./view-utils";
+import { getAllTrackUrls } from "./track-utils";
+import { getTrackSource, resolvePlayableUrl } from "./resolve-url";
+import { getSourceCapabilities } from "./source-resolvers";
+import { orderMirrors } from "./mirror-fallback";
+import { indexTrackerTab } from "./track-search";
+import { safeSetItem } from "./storage";
+
+const STORAGE_KEY = "artistgrid-pinned-trackers";
+const URLS_KEY_PREFIX = "pinned-urls:";
+const IMAGE_CONCURRENCY = 6;
+const AUDIO_CONCURRENCY = 2;
+const NON_AUDIO_TABS = ["Art", "Tracklists", "Misc"];
+
+export interface PinnedTracker {
+  id: string;
+  name: string;
+  pinnedAt: number;
+  includeAudio: boolean;
+  tabs: number;
+  images: number;
+  audio: number;
+  failed: number;
+}
+
+export interface PinProgress {
+  phase: "data" | "images" | "audio";
+  done: number;
+  total: number;
+}
+
+export function getPinnedTrackers(): PinnedTracker[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function savePinnedTrackers(pins: PinnedTracker[]): void {
+  safeSetItem(STORAGE_KEY, JSON.stringify(pins));
+}
+
+export function isTrackerPinned(id: string): boolean {
+  return getPinnedTrackers().some((p) => p.id === id);
+}
+
+function isV3Payload(v3: V3Response): boolean {
+  return (Array.isArray(v3?.tracks) && v3.tracks.length > 0) || (Array.isArray(v3?.eras) && v3.eras.length > 0);
+}
+
+function adapt(v3: V3Response): TrackerResponse {
+  return Array.isArray(v3.tracks) && v3.tracks.length > 0 ? adaptV3FlatResponse(v3) : adaptV3Response(v3);
+}
+
+async function pinEndpoint(endpoint: string, signal?: AbortSignal): Promise<{ url: string; data: TrackerResponse } | null> {
+  const res = await fetchWithFallback(endpoint, { signal });
+  if (!res.ok) return null;
+  const body = await res.text();
+  const v3: V3Response = JSON.parse(body);
+  if (!isV3Payload(v3)) return null;
+  const url = apiUrl(endpoint);
+  await putPinned(url, new Response(body, { headers: { "Content-Type": "application/json" } }));
+  return { url, data: adapt(v3) };
+}
+
+async function runPool<T>(items: T[], limit: number, fn: (item: T) => Promise<void>, signal?: AbortSignal): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+async function cacheRemote(url: string, signal?: AbortSignal): Promise<boolean> {
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, { signal });
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      res = await fetch(url, { mode: "no-cors", signal });
+    }
+    if (!res.ok && res.type !== "opaque") return false;
+    await putPinned(url, res);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function resolveAudioUrl(urls: string[]): Promise<string | null> {
+  for (const url of orderMirrors(urls)) {
+    if (!getSourceCapabilities(getTrackSource(url)).downloadable) continue;
+    const playable = await resolvePlayableUrl(url);
+    if (playable) return playable;
+  }
+  return null;
+}
+
+export async function pinTracker(
+  id: string,
+  options: { includeAudio: boolean; onProgress?: (p: PinProgress) => void; signal?: AbortSignal }
+): Promise<PinnedTracker> {
+  const { includeAudio, onProgress, signal } = options;
+  const pinnedUrls = new Set<string>();
+  onProgress?.({ phase: "data", done: 0, total: 1 });
+  const base = await pinEndpoint(`/sh/${id}/`, signal);
+  if (!base) throw new Error("Tracker data could not be downloaded");
+  pinnedUrls.add(base.url);
+  const datasets: Array<{ tab: string; data: TrackerResponse }> = [{ tab: base.data.current_tab, data: base.data }];
+  const otherTabs = (base.data.tabs ?? []).filter((t) => t !== base.data.current_tab);
+  let done = 0;
+  for (const tab of otherTabs) {
+    if (signal?.aborted) break;
+    onProgress?.({ phase: "data", done: ++done, total: otherTabs.length + 1 });
+    const gid = base.data.tabGids?.[tab];
+    const slug = base.data.tabSlugs?.[tab] ?? tab;
+    const endpoints = [gid ? `/sh/${id}/gid/${gid}` : null, `/sh/${id}/tab/${encodeURIComponent(slug)}`].filter((e): e is string => !!e);
+    for (const endpoint of endpoints) {
+      try {
+        const pinned = await pinEndpoint(endpoint, signal);
+        if (!pinned) continue;
+        pinnedUrls.add(pinned.url);
+        if (!datasets.some((d) => d.tab === tab)) datasets.push({ tab, data: pinned.data });
+      } catch (e) {
+        if (signal?.aborted) throw e;
+      }
+    }
+  }
+
+  for (const { tab, data } of datasets) void indexTrackerTab(id, tab, data);
+
+  const images = new Set<string>();
+  const audioSources: string[][] = [];
+  for (const { tab, data } of datasets) {
+    for (const era of Object.values(data.eras)) {
+      for (const img of [era.image, era.eraLogo]) if (img) proxyImageVariants(img).forEach((u) => images.add(u));
+    }
+    forEachEraTrack(data.eras, (track) => {
+      if (track.image) proxyImageVariants(track.image).forEach((u) => images.add(u));
+      if (includeAudio && !NON_AUDIO_TABS.includes(tab)) {
+        const urls = getAllTrackUrls(track);
+        if (urls.length > 0) audioSources.push(urls);
+      }
+    });
+  }
+
+  let failed = 0;
+  let imageCount = 0;
+  const imageList = [...images];
+  await runPool(imageList, IMAGE_CONCURRENCY, async (url) => {
+    if (await cacheRemote(url, signal)) {
+      pinnedUrls.add(url);
+      imageCount++;
+    } else {
+      failed++;
+    }
+    onProgress?.({ phase: "images", done: imageCount + failed, total: imageList.length });
+  }, signal);
+
+  let audioCount = 0;
+  let audioDone = 0;
+  const seenAudio = new Set<string>();
+  await runPool(audioSources, AUDIO_CONCURRENCY, async (urls) => {
+    const playable = await resolveAudioUrl(urls);
+    if (playable && !seenAudio.has(playable)) {
+      seenAudio.add(playable);
+      if (await cacheRemote(playable, signal)) {
+        pinnedUrls.add(playable);
+        audioCount++;
+      } else {
+        failed++;
+      }
+    }
+    onProgress?.({ phase: "audio", done: ++audioDone, total: audioSources.length });
+  }, signal);
+
+  const previous = (await idbGet<string[]>(URLS_KEY_PREFIX + id)) ?? [];
+  await idbSet(URLS_KEY_PREFIX + id, [...new Set([...previous, ...pinnedUrls])]);
+  const pin: PinnedTracker = {
+    id,
+    name: base.data.name || id,
+    pinnedAt: Date.now(),
+    includeAudio,
+    tabs: datasets.length,
+    images: imageCount,
+    audio: audioCount,
+    failed,
+  };
+  savePinnedTrackers([...getPinnedTrackers().filter((p) => p.id !== id), pin]);
+  notifyServiceWorker();
+  return pin;
+}
+
+export async function unpinTracker(id: string): Promise<void> {
+  const remaining = getPinnedTrackers().filter((p) => p.id !== id);
+  savePinnedTrackers(remaining);
+  const urls = (await idbGet<string[]>(URLS_KEY_PREFIX + id)) ?? [];
+  const shared = new Set<string>();
+  for (const other of remaining) {
+    for (const u of (await idbGet<string[]>(URLS_KEY_PREFIX + other.id)) ?? []) shared.add(u);
+  }
+  await deletePinned(urls.filter((u) => !shared.has(u)));
+  await idbSet(URLS_KEY_PREFIX + id, null);
+  notifyServiceWorker();
+}
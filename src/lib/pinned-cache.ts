@@ -0,0 +1,35 @@
+// Cache Storage bucket shared with public/sw-pinned.js; entries in it are never
+// expired by the service worker, only removed when a tracker is unpinned.
+export const PINNED_CACHE = "artistgrid-pinned";
+
+function hasCacheStorage(): boolean {
+  return typeof caches !== "undefined";
+}
+
+export async function matchPinned(url: string): Promise<Response | null> {
+  if (!hasCacheStorage()) return null;
+  try {
+    const cache = await caches.open(PINNED_CACHE);
+    return (await cache.match(url)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function putPinned(url: string, response: Response): Promise<void> {
+  if (!hasCacheStorage()) return;
+  const cache = await caches.open(PINNED_CACHE);
+  await cache.put(url, response);
+}
+
+export async function deletePinned(urls: string[]): Promise<void> {
+  if (!hasCacheStorage()) return;
+  const cache = await caches.open(PINNED_CACHE);
+  await Promise.all(urls.map((u) => cache.delete(u)));
+}
+
+export function notifyServiceWorker(): void {
+  try {
+    navigator.serviceWorker?.controller?.postMessage({ type: "artistgrid-pinned-changed" });
+  } catch {}
+}
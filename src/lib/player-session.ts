@@ -0,0 +1,43 @@
+import type { Track } from "@/src/types";
+import type { RepeatMode } from "./player-queue";
+import { idbGet, idbSet } from "./indexeddb-cache";
+
+const SESSION_KEY = "player-session";
+const MAX_HISTORY = 100;
+
+export interface PlayerSession {
+  currentTrack: Track;
+  queue: Track[];
+  history: Track[];
+  currentTime: number;
+  isShuffled: boolean;
+  repeatMode: RepeatMode;
+  savedAt: number;
+}
+
+export async function loadPlayerSession(): Promise<PlayerSession | null> {
+  try {
+    const session = await idbGet<PlayerSession>(SESSION_KEY);
+    if (!session?.currentTrack?.playableUrl) return null;
+    return {
+      ...session,
+      queue: Array.isArray(session.queue) ? session.queue : [],
+      history: Array.isArray(session.history) ? session.history : [],
+      currentTime: Number.isFinite(session.currentTime) ? session.currentTime : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function savePlayerSession(session: Omit<PlayerSession, "savedAt">): Promise<void> {
+  return idbSet(SESSION_KEY, {
+    ...session,
+    history: session.history.slice(-MAX_HISTORY),
+    savedAt: Date.now(),
+  }).catch(() => {});
+}
+
+export function clearPlayerSession(): Promise<void> {
+  return idbSet(SESSION_KEY, null).catch(() => {});
+}
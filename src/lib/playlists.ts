@@ -0,0 +1,384 @@
+import type { Era, TALeak, Track } from "@/src/types";
+import { getAllTrackUrls, getTrackDescription, generateTrackId, isUrl } from "./track-utils";
+import { getTrackSource, resolvePlayableUrl } from "./resolve-url";
+import { orderMirrors } from "./mirror-fallback";
+import { safeSetItem } from "./storage";
+
+const STORAGE_KEY = "artistgrid-playlists";
+const JSON_FORMAT = "artistgrid-playlist";
+const JSON_VERSION = 1;
+const XSPF_NS = "http://xspf.org/ns/0/";
+const META_REL = "https://artistgrid.cx/xspf/";
+
+export interface PlaylistEntry {
+  id: string;
+  name: string;
+  extra: string;
+  url: string;
+  mirrors: string[];
+  trackerId: string;
+  tab?: string;
+  eraName?: string;
+  eraImage?: string;
+  artistName?: string;
+  quality?: string;
+  trackLength?: string;
+  type?: string;
+  description?: string;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  entries: PlaylistEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PlaylistFormat = "m3u8" | "xspf" | "json";
+
+export function getPlaylists(): Playlist[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePlaylists(playlists: Playlist[]): void {
+  safeSetItem(STORAGE_KEY, JSON.stringify(playlists));
+}
+
+function newId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+}
+
+function updatePlaylist(id: string, fn: (p: Playlist) => Playlist): Playlist[] {
+  const playlists = getPlaylists().map((p) => (p.id === id ? { ...fn(p), updatedAt: Date.now() } : p));
+  savePlaylists(playlists);
+  return playlists;
+}
+
+export function createPlaylist(name: string, entries: PlaylistEntry[] = []): Playlist {
+  const now = Date.now();
+  const playlist: Playlist = { id: newId(), name: name.trim() || "Untitled Playlist", entries, createdAt: now, updatedAt: now };
+  savePlaylists([...getPlaylists(), playlist]);
+  return playlist;
+}
+
+export function renamePlaylist(id: string, name: string): Playlist[] {
+  return updatePlaylist(id, (p) => ({ ...p, name: name.trim() || p.name }));
+}
+
+export function deletePlaylist(id: string): Playlist[] {
+  const playlists = getPlaylists().filter((p) => p.id !== id);
+  savePlaylists(playlists);
+  return playlists;
+}
+
+export function addToPlaylist(id: string, entries: PlaylistEntry[]): Playlist[] {
+  return updatePlaylist(id, (p) => {
+    const seen = new Set(p.entries.map((e) => e.url));
+    const added = entries.filter((e) => {
+      if (seen.has(e.url)) return false;
+      seen.add(e.url);
+      return true;
+    });
+    return { ...p, entries: [...p.entries, ...added] };
+  });
+}
+
+export function removeFromPlaylist(id: string, index: number): Playlist[] {
+  return updatePlaylist(id, (p) => ({ ...p, entries: p.entries.filter((_, i) => i !== index) }));
+}
+
+export function moveEntry(id: string, from: number, to: number): Playlist[] {
+  return updatePlaylist(id, (p) => {
+    if (from < 0 || from >= p.entries.length || to < 0 || to >= p.entries.length) return p;
+    const entries = [...p.entries];
+    const [moved] = entries.splice(from, 1);
+    entries.splice(to, 0, moved);
+    return { ...p, entries };
+  });
+}
+
+export function createPlaylistEntry(
+  track: TALeak,
+  era: Era,
+  context: { trackerId: string; tab?: string; artistName?: string }
+): PlaylistEntry | null {
+  const mirrors = getAllTrackUrls(track);
+  if (mirrors.length === 0) return null;
+  return {
+    id: generateTrackId(mirrors[0]),
+    name: track.name || "Unknown",
+    extra: track.extra || "",
+    url: mirrors[0],
+    mirrors,
+    trackerId: context.trackerId,
+    tab: context.tab || undefined,
+    eraName: track.eraName || era.name,
+    eraImage: track.image || era.image,
+    artistName: context.artistName,
+    quality: track.quality && !isUrl(track.quality) ? track.quality : undefined,
+    trackLength: track.track_length,
+    type: track.type,
+    description: getTrackDescription(track) || undefined,
+  };
+}
+
+export function entryToTrack(entry: PlaylistEntry, url: string, playableUrl: string): Track {
+  return {
+    id: generateTrackId(url),
+    name: entry.name,
+    extra: entry.extra,
+    url,
+    playableUrl,
+    source: getTrackSource(url),
+    mirrors: entry.mirrors,
+    quality: entry.quality,
+    trackLength: entry.trackLength,
+    type: entry.type,
+    description: entry.description,
+    eraImage: entry.eraImage,
+    eraName: entry.eraName,
+    artistName: entry.artistName,
+    trackerId: entry.trackerId,
+  };
+}
+
+export async function resolvePlaylistEntry(entry: PlaylistEntry): Promise<{ url: string; playableUrl: string } | null> {
+  for (const url of orderMirrors(entry.mirrors.length > 0 ? entry.mirrors : [entry.url])) {
+    const playableUrl = await resolvePlayableUrl(url);
+    if (playableUrl) return { url, playableUrl };
+  }
+  return null;
+}
+
+export function parseTrackLength(length: string | undefined): number | null {
+  if (!length) return null;
+  const parts = length.trim().split(":");
+  if (parts.length < 2 || parts.length > 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+  return parts.reduce((total, p) => total * 60 + Number(p), 0);
+}
+
+function formatTrackLength(seconds: number): string {
+  const s = Math.round(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+function entryTitle(entry: PlaylistEntry): string {
+  return entry.artistName ? `${entry.artistName} - ${entry.name}` : entry.name;
+}
+
+// `locations` maps an entry's source url to a directly playable url so the
+// exported file works in external players; the source url is the fallback.
+export function exportM3U(playlist: Playlist, locations: Map<string, string> = new Map()): string {
+  const lines = ["#EXTM3U", `#PLAYLIST:${playlist.name}`];
+  for (const entry of playlist.entries) {
+    const seconds = parseTrackLength(entry.trackLength) ?? -1;
+    lines.push(`#EXTINF:${seconds},${entryTitle(entry).replace(/[\r\n]+/g, " ")}`);
+    if (entry.eraName) lines.push(`#EXTALB:${entry.eraName}`);
+    lines.push(locations.get(entry.url) ?? entry.url);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function exportXSPF(playlist: Playlist, locations: Map<string, string> = new Map()): string {
+  const tag = (name: string, value: string | undefined, attrs = "") =>
+    value ? `      <${name}${attrs}>${escapeXml(value)}</${name}>` : null;
+  const tracks = playlist.entries.map((entry) => {
+    const seconds = parseTrackLength(entry.trackLength);
+    const fields = [
+      tag("location", locations.get(entry.url) ?? entry.url),
+      tag("identifier", entry.url),
+      tag("title", entry.name),
+      tag("creator", entry.artistName),
+      tag("album", entry.eraName),
+      tag("annotation", entry.extra || undefined),
+      tag("image", entry.eraImage),
+      seconds !== null ? tag("duration", String(seconds * 1000)) : null,
+      tag("meta", entry.trackerId, ` rel="${META_REL}tracker"`),
+      tag("meta", entry.tab, ` rel="${META_REL}tab"`),
+      ...entry.mirrors.map((m) => tag("meta", m, ` rel="${META_REL}mirror"`)),
+    ].filter(Boolean);
+    return `    <track>\n${fields.join("\n")}\n    </track>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<playlist version="1" xmlns="${XSPF_NS}">`,
+    `  <title>${escapeXml(playlist.name)}</title>`,
+    `  <date>${new Date(playlist.updatedAt).toISOString()}</date>`,
+    "  <trackList>",
+    ...tracks,
+    "  </trackList>",
+    "</playlist>",
+    "",
+  ].join("\n");
+}
+
+export function exportJSON(playlist: Playlist): string {
+  return JSON.stringify(
+    { format: JSON_FORMAT, version: JSON_VERSION, name: playlist.name, createdAt: playlist.createdAt, entries: playlist.entries },
+    null,
+    2
+  );
+}
+
+export function exportPlaylist(playlist: Playlist, format: PlaylistFormat, locations?: Map<string, string>): string {
+  if (format === "m3u8") return exportM3U(playlist, locations);
+  if (format === "xspf") return exportXSPF(playlist, locations);
+  return exportJSON(playlist);
+}
+
+export const PLAYLIST_MIME_TYPES: Record<PlaylistFormat, string> = {
+  m3u8: "audio/x-mpegurl",
+  xspf: "application/xspf+xml",
+  json: "application/json",
+};
+
+function entryFromUrl(url: string, name: string, extra: Partial<PlaylistEntry> = {}): PlaylistEntry {
+  const mirrors = extra.mirrors?.length ? extra.mirrors : [url];
+  return {
+    id: generateTrackId(mirrors[0]),
+    name: name || "Unknown",
+    extra: "",
+    url: mirrors[0],
+    trackerId: "",
+    ...extra,
+    mirrors,
+  };
+}
+
+// File names like "100%.mp3" aren't valid escapes; those keep the raw text.
+function decodeFileName(name: string): string {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function parseM3U(text: string): { name: string | null; entries: PlaylistEntry[] } {
+  let name: string | null = null;
+  const entries: PlaylistEntry[] = [];
+  let pending: { title: string; seconds: number; album?: string } | null = null;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith("#PLAYLIST:")) {
+      name = line.slice(10).trim() || null;
+    } else if (line.startsWith("#EXTINF:")) {
+      const body = line.slice(8);
+      const comma = body.indexOf(",");
+      pending = { seconds: parseInt(comma === -1 ? body : body.slice(0, comma), 10), title: comma === -1 ? "" : body.slice(comma + 1).trim() };
+    } else if (line.startsWith("#EXTALB:")) {
+      if (pending) pending.album = line.slice(8).trim();
+    } else if (!line.startsWith("#")) {
+      const title = pending?.title || decodeFileName(line.split("/").pop() || line);
+      const dash = title.indexOf(" - ");
+      entries.push(
+        entryFromUrl(line, dash === -1 ? title : title.slice(dash + 3), {
+          artistName: dash === -1 ? undefined : title.slice(0, dash),
+          eraName: pending?.album,
+          trackLength: pending && pending.seconds > 0 ? formatTrackLength(pending.seconds) : undefined,
+        })
+      );
+      pending = null;
+    }
+  }
+  return { name, entries };
+}
+
+function parseXSPF(text: string): { name: string | null; entries: PlaylistEntry[] } {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error("Invalid XSPF file");
+  const child = (el: Element, name: string) => el.getElementsByTagName(name)[0]?.textContent?.trim() || undefined;
+  const metas = (el: Element, rel: string) =>
+    Array.from(el.getElementsByTagName("meta"))
+      .filter((m) => m.getAttribute("rel") === META_REL + rel)
+      .map((m) => m.textContent?.trim() || "")
+      .filter(Boolean);
+  const playlistEl = doc.documentElement;
+  const titleEl = Array.from(playlistEl.children).find((c) => c.localName === "title");
+  const entries: PlaylistEntry[] = [];
+  for (const trackEl of Array.from(doc.getElementsByTagName("track"))) {
+    const location = child(trackEl, "location");
+    const url = child(trackEl, "identifier") || location;
+    if (!url) continue;
+    const duration = Number(child(trackEl, "duration"));
+    entries.push(
+      entryFromUrl(url, child(trackEl, "title") || "", {
+        artistName: child(trackEl, "creator"),
+        eraName: child(trackEl, "album"),
+        extra: child(trackEl, "annotation") || "",
+        eraImage: child(trackEl, "image"),
+        trackLength: duration > 0 ? formatTrackLength(duration / 1000) : undefined,
+        trackerId: metas(trackEl, "tracker")[0] || "",
+        tab: metas(trackEl, "tab")[0],
+        mirrors: metas(trackEl, "mirror"),
+      })
+    );
+  }
+  return { name: titleEl?.textContent?.trim() || null, entries };
+}
+
+// Fields an imported JSON entry may set; anything else in the file is ignored.
+const JSON_ENTRY_FIELDS = [
+  "extra",
+  "trackerId",
+  "tab",
+  "eraName",
+  "eraImage",
+  "artistName",
+  "quality",
+  "trackLength",
+  "type",
+  "description",
+] as const;
+
+function parseJSON(text: string): { name: string | null; entries: PlaylistEntry[] } {
+  const data = JSON.parse(text);
+  if (data?.format !== JSON_FORMAT || !Array.isArray(data.entries)) throw new Error("Not an ArtistGrid playlist");
+  const entries = (data.entries as Record<string, unknown>[])
+    .filter((e) => typeof e?.url === "string" && e.url)
+    .map((e) => {
+      const extra: Partial<PlaylistEntry> = {
+        mirrors: Array.isArray(e.mirrors) ? e.mirrors.filter((m): m is string => typeof m === "string" && m !== "") : [],
+      };
+      for (const field of JSON_ENTRY_FIELDS) if (typeof e[field] === "string") extra[field] = e[field];
+      return entryFromUrl(e.url as string, typeof e.name === "string" ? e.name : "", extra);
+    });
+  return { name: typeof data.name === "string" ? data.name : null, entries };
+}
+
+export function parsePlaylistFile(text: string, filename = ""): { name: string; entries: PlaylistEntry[] } {
+  const trimmed = text.replace(/^\uFEFF/, "").trim();
+  const lower = filename.toLowerCase();
+  const parsed =
+    lower.endsWith(".json") || trimmed.startsWith("{")
+      ? parseJSON(trimmed)
+      : lower.endsWith(".xspf") || trimmed.startsWith("<")
+        ? parseXSPF(trimmed)
+        : parseM3U(trimmed);
+  const fallbackName = filename.replace(/\.[^.]+$/, "") || "Imported Playlist";
+  return { name: parsed.name || fallbackName, entries: parsed.entries };
+}
+
+export function importPlaylist(text: string, filename = ""): Playlist {
+  const { name, entries } = parsePlaylistFile(text, filename);
+  if (entries.length === 0) throw new Error("The file does not contain any tracks");
+  return createPlaylist(name, entries);
+}
@@ -0,0 +1,135 @@
+import { idbGet, idbSet } from "./indexeddb-cache";
+import { resolvePlayableUrl } from "./resolve-url";
+import { getSourceResolver } from "./source-resolvers";
+
+const STORAGE_KEY = "resolved-urls";
+const PERSIST_DELAY_MS = 1000;
+/** Links that didn't resolve are retried after this, as with the old tracker cache. */
+export const UNRESOLVED_TTL_MS = 1000 * 60 * 10;
+/** Queued links are refreshed this long before they expire. */
+export const REFRESH_MARGIN_MS = 1000 * 60 * 2;
+
+interface ResolvedEntry {
+  url: string | null;
+  resolvedAt: number;
+}
+
+type Fetch = typeof fetch;
+
+const entries = new Map<string, ResolvedEntry>();
+const inflight = new Map<string, Promise<string | null>>();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+function ttlFor(link: string, url: string | null): number {
+  return url === null ? UNRESOLVED_TTL_MS : (getSourceResolver(link).ttl ?? Infinity);
+}
+
+function expiresAt(link: string, entry: ResolvedEntry): number {
+  return entry.resolvedAt + ttlFor(link, entry.url);
+}
+
+async function loadFromIDB() {
+  try {
+    const stored = await idbGet<Record<string, ResolvedEntry>>(STORAGE_KEY);
+    const now = Date.now();
+    for (const [link, entry] of Object.entries(stored ?? {})) {
+      if (!entries.has(link) && expiresAt(link, entry) > now) entries.set(link, entry);
+    }
+  } catch {}
+}
+
+function schedulePersist() {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    const now = Date.now();
+    const live = [...entries].filter(([link, entry]) => expiresAt(link, entry) > now);
+    idbSet(STORAGE_KEY, Object.fromEntries(live)).catch(() => {});
+  }, PERSIST_DELAY_MS);
+}
+
+/** The cached playable URL for a link: undefined when unknown or expired. */
+export function getResolvedUrl(link: string, now = Date.now()): string | null | undefined {
+  const entry = entries.get(link);
+  if (!entry) return undefined;
+  if (expiresAt(link, entry) <= now) {
+    entries.delete(link);
+    return undefined;
+  }
+  return entry.url;
+}
+
+/** Every link in `links` that has an unexpired resolution. */
+export function getResolvedUrls(links: Iterable<string>, now = Date.now()): Map<string, string | null> {
+  const found = new Map<string, string | null>();
+  for (const link of links) {
+    const url = getResolvedUrl(link, now);
+    if (url !== undefined) found.set(link, url);
+  }
+  return found;
+}
+
+export function rememberResolvedUrl(link: string, url: string | null, now = Date.now()): void {
+  entries.set(link, { url, resolvedAt: now });
+  schedulePersist();
+}
+
+export function forgetResolvedUrl(link: string): void {
+  if (entries.delete(link)) schedulePersist();
+}
+
+/**
+ * Resolves a link through the cache, sharing in-flight requests. `force`
+ * skips the cached value, for links whose URL was rejected by the host.
+ */
+export function resolveUrlCached(link: string, { force = false }: { force?: boolean } = {}): Promise<string | null> {
+  if (!force) {
+    const cached = getResolvedUrl(link);
+    if (cached !== undefined) return Promise.resolve(cached);
+  }
+  const pending = inflight.get(link);
+  if (pending) return pending;
+  const run = resolvePlayableUrl(link)
+    .then((url) => {
+      rememberResolvedUrl(link, url);
+      return url;
+    })
+    .finally(() => inflight.delete(link));
+  inflight.set(link, run);
+  return run;
+}
+
+/**
+ * Milliseconds until a link should be refreshed ahead of playback: 0 when it
+ * is due or its age is unknown, null when its host's URLs never expire.
+ */
+export function refreshDelay(link: string, now = Date.now()): number | null {
+  if (getSourceResolver(link).ttl === undefined) return null;
+  const entry = entries.get(link);
+  if (!entry) return 0;
+  return Math.max(0, expiresAt(link, entry) - REFRESH_MARGIN_MS - now);
+}
+
+/**
+ * Whether playback of a link failed because its URL went stale rather than
+ * the track being gone: it is past its host's TTL, or the host now answers
+ * 403/410. The media element doesn't expose HTTP statuses, so the URL is
+ * probed once more.
+ */
+export async function isStaleLink(link: string, playableUrl: string, fetchImpl: Fetch = fetch): Promise<boolean> {
+  if (refreshDelay(link) === 0) return true;
+  try {
+    const res = await fetchImpl(playableUrl, { method: "HEAD" });
+    return res.status === 403 || res.status === 410;
+  } catch {
+    return false;
+  }
+}
+
+export function clearResolvedUrls(): void {
+  entries.clear();
+  inflight.clear();
+  idbSet(STORAGE_KEY, null).catch(() => {});
+}
+
+void loadFromIDB();
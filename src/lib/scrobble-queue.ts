@@ -0,0 +1,203 @@
+import { idbGet, idbSet } from "./indexeddb-cache";
+
+const QUEUE_KEY = "scrobbles:queue";
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// Last.fm rejects scrobbles older than two weeks; nobody else wants them either.
+const MAX_AGE_SECONDS = 14 * 24 * 60 * 60;
+const DUPLICATE_WINDOW_SECONDS = 30;
+const LOG_LIMIT = 200;
+
+/** `review` scrobbles wait for the user to approve or correct them before they are sent. */
+export type ScrobbleStatus = "review" | "pending" | "sent" | "failed";
+
+export interface Listen {
+  artist: string;
+  track: string;
+  album?: string;
+  /** Unix seconds. */
+  timestamp: number;
+}
+
+export interface ScrobbleEntry extends Listen {
+  id: string;
+  target: string;
+  status: ScrobbleStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+  sentAt?: number;
+}
+
+export type SendResult = { ok: true } | { ok: false; retryable: boolean; error: string };
+
+export interface ScrobbleSender {
+  /** Most listens accepted in one request. */
+  batchSize: number;
+  send: (listens: Listen[]) => Promise<SendResult>;
+}
+
+let chain: Promise<unknown> = Promise.resolve();
+let flushing: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+function serialize<T>(fn: () => Promise<T>): Promise<T> {
+  const run = chain.then(fn);
+  chain = run.catch(() => {});
+  return run;
+}
+
+async function readQueue(): Promise<ScrobbleEntry[]> {
+  return (await idbGet<ScrobbleEntry[]>(QUEUE_KEY)) ?? [];
+}
+
+async function writeQueue(entries: ScrobbleEntry[]): Promise<void> {
+  const settled = entries.filter((e) => e.status === "sent" || e.status === "failed");
+  const drop = new Set(settled.slice(0, Math.max(0, settled.length - LOG_LIMIT)).map((e) => e.id));
+  await idbSet(QUEUE_KEY, entries.filter((e) => !drop.has(e.id)));
+  for (const listener of listeners) listener();
+}
+
+function isDuplicate(a: Listen & { target: string }, b: Listen & { target: string }): boolean {
+  return (
+    a.target === b.target &&
+    a.artist.toLowerCase() === b.artist.toLowerCase() &&
+    a.track.toLowerCase() === b.track.toLowerCase() &&
+    Math.abs(a.timestamp - b.timestamp) < DUPLICATE_WINDOW_SECONDS
+  );
+}
+
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+export function subscribeScrobbleLog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Every queued and settled scrobble, newest first. */
+export async function getScrobbleLog(): Promise<ScrobbleEntry[]> {
+  return (await readQueue()).sort((a, b) => b.timestamp - a.timestamp || b.createdAt - a.createdAt);
+}
+
+export function enqueueScrobble(listen: Listen, targets: string[], review = false): Promise<ScrobbleEntry[]> {
+  return serialize(async () => {
+    const queue = await readQueue();
+    const now = Date.now();
+    const added: ScrobbleEntry[] = [];
+    for (const target of targets) {
+      if (queue.some((e) => e.status !== "failed" && isDuplicate(e, { ...listen, target }))) continue;
+      const entry: ScrobbleEntry = {
+        ...listen,
+        id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        target,
+        status: review ? "review" : "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+      };
+      queue.push(entry);
+      added.push(entry);
+    }
+    if (added.length > 0) await writeQueue(queue);
+    return added;
+  });
+}
+
+async function flushOnce(senders: Record<string, ScrobbleSender>, force: boolean): Promise<void> {
+  const now = Date.now();
+  const due = await serialize(async () => {
+    const queue = await readQueue();
+    let expired = false;
+    for (const entry of queue) {
+      if ((entry.status === "pending" || entry.status === "review") && now / 1000 - entry.timestamp > MAX_AGE_SECONDS) {
+        Object.assign(entry, { status: "failed", lastError: "Too old to submit" });
+        expired = true;
+      }
+    }
+    if (expired) await writeQueue(queue);
+    return queue.filter((e) => e.status === "pending" && senders[e.target] && (force || e.nextAttemptAt <= now));
+  });
+
+  const results = new Map<string, Partial<ScrobbleEntry>>();
+  for (const [target, sender] of Object.entries(senders)) {
+    const entries = due.filter((e) => e.target === target).sort((a, b) => a.timestamp - b.timestamp);
+    for (let i = 0; i < entries.length; i += sender.batchSize) {
+      const batch = entries.slice(i, i + sender.batchSize);
+      let result: SendResult;
+      try {
+        result = await sender.send(batch.map(({ artist, track, album, timestamp }) => ({ artist, track, album, timestamp })));
+      } catch (e) {
+        result = { ok: false, retryable: true, error: e instanceof Error ? e.message : String(e) };
+      }
+      for (const entry of batch) {
+        const attempts = entry.attempts + 1;
+        results.set(
+          entry.id,
+          result.ok
+            ? { status: "sent", attempts, sentAt: Date.now(), lastError: undefined }
+            : { status: result.retryable ? "pending" : "failed", attempts, lastError: result.error, nextAttemptAt: Date.now() + retryDelay(attempts) }
+        );
+      }
+      // Offline or the service is down: the rest would fail the same way.
+      if (!result.ok && result.retryable) break;
+    }
+  }
+  if (results.size === 0) return;
+  await serialize(async () => {
+    const queue = await readQueue();
+    for (const entry of queue) {
+      const patch = results.get(entry.id);
+      if (patch) Object.assign(entry, patch);
+    }
+    await writeQueue(queue);
+  });
+}
+
+/**
+ * Submits every due scrobble in batches through the matching sender. Failed
+ * batches are retried with exponential backoff; `force` ignores the backoff
+ * (e.g. when the browser comes back online). Concurrent calls share one run.
+ */
+export function flushScrobbleQueue(senders: Record<string, ScrobbleSender>, force = false): Promise<void> {
+  if (flushing) return flushing;
+  flushing = flushOnce(senders, force).finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
+
+export function retryFailedScrobbles(): Promise<void> {
+  return serialize(async () => {
+    const queue = await readQueue();
+    for (const entry of queue) {
+      if (entry.status === "failed") Object.assign(entry, { status: "pending", nextAttemptAt: Date.now() });
+    }
+    await writeQueue(queue);
+  });
+}
+
+/** Queues reviewed scrobbles for sending, with the user's corrections applied. */
+export function approveScrobbles(ids: string[], edits: Partial<Pick<Listen, "artist" | "track" | "album">> = {}): Promise<void> {
+  return serialize(async () => {
+    const queue = await readQueue();
+    for (const entry of queue) {
+      if (entry.status === "review" && ids.includes(entry.id)) Object.assign(entry, edits, { status: "pending", nextAttemptAt: Date.now() });
+    }
+    await writeQueue(queue);
+  });
+}
+
+export function discardScrobbles(ids: string[]): Promise<void> {
+  return serialize(async () => {
+    await writeQueue((await readQueue()).filter((e) => !(e.status === "review" && ids.includes(e.id))));
+  });
+}
+
+export function clearScrobbleLog(): Promise<void> {
+  return serialize(async () => {
+    await writeQueue((await readQueue()).filter((e) => e.status === "pending" || e.status === "review"));
+  });
+}
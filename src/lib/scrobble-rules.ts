@@ -0,0 +1,87 @@
+import type { Track } from "@/src/types";
+import { parseCredits } from "./track-metadata";
+
+export type FeaturingStyle = "off" | "title" | "artist";
+
+export interface ArtistOverride {
+  /** Tracker id or the artist name the tracker is shown under. */
+  tracker: string;
+  artist: string;
+}
+
+export interface TitleRule {
+  /** Regular expression, applied case-insensitively to every match. */
+  pattern: string;
+  replacement: string;
+}
+
+export interface ScrobbleRules {
+  artistOverrides: ArtistOverride[];
+  titleRules: TitleRule[];
+  featuring: FeaturingStyle;
+  reviewBeforeScrobble: boolean;
+}
+
+/**
+ * Offered in settings rather than on by default: drops [V2]-style tags and
+ * (prod. …) credits, and adds featured artists to the title.
+ */
+export const SUGGESTED_SCROBBLE_RULES: Pick<ScrobbleRules, "titleRules" | "featuring"> = {
+  titleRules: [
+    { pattern: "\\s*\\[[^\\]]*\\]", replacement: "" },
+    { pattern: "\\s*\\((?:prod\\.?|produced by)\\s[^)]*\\)", replacement: "" },
+  ],
+  featuring: "title",
+};
+
+export interface ScrobbleMetadata {
+  artist: string;
+  track: string;
+  album?: string;
+}
+
+const FEATURING_IN_TEXT = /\b(?:feat\.?|ft\.?)\s/i;
+
+/** Returns an error message when the pattern does not compile. */
+export function validateTitlePattern(pattern: string): string | null {
+  if (!pattern) return "Enter a pattern";
+  try {
+    new RegExp(pattern, "gi");
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : "Invalid pattern";
+  }
+}
+
+export function findArtistOverride(overrides: ArtistOverride[], track: Pick<Track, "trackerId" | "artistName">): ArtistOverride | undefined {
+  const names = [track.trackerId, track.artistName].filter(Boolean).map((n) => n!.trim().toLowerCase());
+  return overrides.find((o) => o.artist.trim() && names.includes(o.tracker.trim().toLowerCase()));
+}
+
+export function cleanTitle(title: string, rules: TitleRule[]): string {
+  let result = title;
+  for (const rule of rules) {
+    if (validateTitlePattern(rule.pattern)) continue;
+    result = result.replace(new RegExp(rule.pattern, "gi"), rule.replacement);
+  }
+  return result.replace(/\s{2,}/g, " ").trim() || title.trim();
+}
+
+/**
+ * Applies the user's scrobble rules to the metadata derived from a track:
+ * the tracker's artist override, title cleanup, then featured artists from
+ * the track's `extra` credits.
+ */
+export function applyScrobbleRules(base: ScrobbleMetadata, track: Pick<Track, "trackerId" | "artistName" | "extra">, rules: ScrobbleRules): ScrobbleMetadata {
+  const artist = findArtistOverride(rules.artistOverrides, track)?.artist.trim() || base.artist;
+  let title = cleanTitle(base.track, rules.titleRules);
+  const featuring = rules.featuring === "off" ? [] : parseCredits(track.extra).featuring;
+  if (featuring.length === 0) return { ...base, artist, track: title };
+  const names = featuring.join(", ");
+  if (rules.featuring === "title" && !FEATURING_IN_TEXT.test(title)) title = `${title} (feat. ${names})`;
+  return {
+    ...base,
+    artist: rules.featuring === "artist" && !FEATURING_IN_TEXT.test(artist) ? `${artist} feat. ${names}` : artist,
+    track: title,
+  };
+}
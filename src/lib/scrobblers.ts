@@ -0,0 +1,320 @@
+import type { Listen, ScrobbleSender, SendResult } from "./scrobble-queue";
+import type { Settings } from "./settings";
+import { LASTFM_API_SIG, LASTFM_API_URL, LASTFM_KEY, LISTENBRAINZ_API_URL } from "./config";
+
+const LASTFM_BATCH_SIZE = 50;
+const DEFAULT_LIBREFM_URL = "https://libre.fm/2.0/";
+const LISTENBRAINZ_BATCH_SIZE = 100;
+// Service offline, temporary error, invalid session (fixed by reconnecting), rate limited.
+const LASTFM_RETRYABLE_CODES = new Set([9, 11, 16, 29]);
+
+export interface LastFmConfig {
+  url: string;
+  key: string;
+  secret: string;
+  sessionKey: string;
+}
+
+export interface ListenBrainzConfig {
+  apiUrl: string;
+  token: string;
+}
+
+export interface MalojaConfig {
+  url: string;
+  apiKey: string;
+}
+
+export interface WebhookConfig {
+  url: string;
+  authorization: string;
+}
+
+export interface ConnectionResult {
+  ok: boolean;
+  message: string;
+}
+
+type ScrobblingSettings = Settings["scrobbling"];
+
+export interface ScrobblerContext {
+  settings: ScrobblingSettings;
+  /** Session from the Last.fm sign-in flow, which lives outside settings. */
+  lastfmSessionKey?: string;
+}
+
+/** A scrobbling service: builds a sender when configured, and can check its settings. */
+export interface Scrobbler {
+  id: string;
+  label: string;
+  createSender: (context: ScrobblerContext) => ScrobbleSender | null;
+  testConnection?: (settings: ScrobblingSettings) => Promise<ConnectionResult>;
+}
+
+function trimSlash(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : "Network error";
+}
+
+export function resolveLastFmApi(lastfm: ScrobblingSettings["lastfm"]): Omit<LastFmConfig, "sessionKey"> {
+  if (lastfm.customServer && lastfm.apiUrl) {
+    return { url: trimSlash(lastfm.apiUrl), key: lastfm.apiKey || LASTFM_KEY, secret: lastfm.apiSecret || LASTFM_API_SIG };
+  }
+  return { url: LASTFM_API_URL, key: LASTFM_KEY, secret: LASTFM_API_SIG };
+}
+
+function libreFmApi(librefm: ScrobblingSettings["librefm"]): Omit<LastFmConfig, "sessionKey"> {
+  // Libre.fm accepts any key and secret, as long as the request is signed with them.
+  return { url: librefm.apiUrl.trim() || DEFAULT_LIBREFM_URL, key: LASTFM_KEY, secret: LASTFM_API_SIG };
+}
+
+export async function signLastFmParams(params: Record<string, string>, secret: string): Promise<string> {
+  const filteredParams = { ...params };
+  delete filteredParams.format;
+  delete filteredParams.callback;
+  const sortedKeys = Object.keys(filteredParams).sort();
+  const signatureString = sortedKeys.map((key) => `${key}${filteredParams[key]}`).join("") + secret;
+  const { default: SparkMD5 } = await import("spark-md5");
+  return SparkMD5.hash(signatureString);
+}
+
+function httpFailure(status: number, error: string): SendResult {
+  return { ok: false, retryable: status === 429 || status >= 500, error };
+}
+
+export function createLastFmSender(config: LastFmConfig): ScrobbleSender {
+  return {
+    batchSize: LASTFM_BATCH_SIZE,
+    async send(listens: Listen[]): Promise<SendResult> {
+      const params: Record<string, string> = { method: "track.scrobble", api_key: config.key, sk: config.sessionKey };
+      listens.forEach((listen, i) => {
+        params[`artist[${i}]`] = listen.artist;
+        params[`track[${i}]`] = listen.track;
+        params[`timestamp[${i}]`] = String(listen.timestamp);
+        if (listen.album) params[`album[${i}]`] = listen.album;
+      });
+      const signature = await signLastFmParams(params, config.secret);
+      let response: Response;
+      try {
+        response = await fetch(config.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams({ ...params, api_sig: signature, format: "json" }),
+        });
+      } catch (e) {
+        return { ok: false, retryable: true, error: errorMessage(e) };
+      }
+      const data = (await response.json().catch(() => null)) as { error?: number; message?: string } | null;
+      if (data?.error) {
+        return { ok: false, retryable: LASTFM_RETRYABLE_CODES.has(data.error), error: data.message || `Last.fm error ${data.error}` };
+      }
+      if (!response.ok) return httpFailure(response.status, `Last.fm API error: HTTP ${response.status}`);
+      return { ok: true };
+    },
+  };
+}
+
+export function createListenBrainzSender(config: ListenBrainzConfig): ScrobbleSender {
+  return {
+    batchSize: LISTENBRAINZ_BATCH_SIZE,
+    async send(listens: Listen[]): Promise<SendResult> {
+      const payload = listens.map((listen) => ({
+        listened_at: listen.timestamp,
+        track_metadata: {
+          artist_name: listen.artist,
+          track_name: listen.track,
+          ...(listen.album ? { release_name: listen.album } : {}),
+        },
+      }));
+      let response: Response;
+      try {
+        response = await fetch(`${trimSlash(config.apiUrl)}/1/submit-listens`, {
+          method: "POST",
+          headers: { Authorization: `Token ${config.token}`, "Content-Type": "application/json" },
+          body: JSON.stringify({ listen_type: listens.length === 1 ? "single" : "import", payload }),
+        });
+      } catch (e) {
+        return { ok: false, retryable: true, error: errorMessage(e) };
+      }
+      if (response.ok) return { ok: true };
+      const data = (await response.json().catch(() => null)) as { error?: string } | null;
+      return httpFailure(response.status, data?.error || `ListenBrainz error: HTTP ${response.status}`);
+    },
+  };
+}
+
+/** Maloja takes one scrobble per request. */
+export function createMalojaSender(config: MalojaConfig): ScrobbleSender {
+  return {
+    batchSize: 1,
+    async send([listen]: Listen[]): Promise<SendResult> {
+      let response: Response;
+      try {
+        response = await fetch(`${trimSlash(config.url)}/apis/mlj_1/newscrobble`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            key: config.apiKey,
+            artists: [listen.artist],
+            title: listen.track,
+            ...(listen.album ? { album: listen.album } : {}),
+            time: listen.timestamp,
+          }),
+        });
+      } catch (e) {
+        return { ok: false, retryable: true, error: errorMessage(e) };
+      }
+      if (response.ok) return { ok: true };
+      const data = (await response.json().catch(() => null)) as { error?: { desc?: string } | string } | null;
+      const error = typeof data?.error === "string" ? data.error : data?.error?.desc;
+      return httpFailure(response.status, error || `Maloja error: HTTP ${response.status}`);
+    },
+  };
+}
+
+/** Posts each listen as JSON to a user-supplied URL. */
+export function createWebhookSender(config: WebhookConfig): ScrobbleSender {
+  return {
+    batchSize: 1,
+    async send([listen]: Listen[]): Promise<SendResult> {
+      try {
+        const response = await postWebhook(config, { event: "scrobble", ...listen });
+        return response.ok ? { ok: true } : httpFailure(response.status, `Webhook error: HTTP ${response.status}`);
+      } catch (e) {
+        return { ok: false, retryable: true, error: errorMessage(e) };
+      }
+    },
+  };
+}
+
+function postWebhook(config: WebhookConfig, body: Record<string, unknown>): Promise<Response> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.authorization) headers.Authorization = config.authorization;
+  return fetch(config.url.trim(), { method: "POST", headers, body: JSON.stringify(body) });
+}
+
+async function checkResponse<T extends ConnectionResult>(
+  request: () => Promise<Response>,
+  describe: (response: Response) => Promise<T>
+): Promise<T | ConnectionResult> {
+  try {
+    return await describe(await request());
+  } catch (e) {
+    return { ok: false, message: errorMessage(e) };
+  }
+}
+
+export function testMalojaConnection(config: MalojaConfig): Promise<ConnectionResult> {
+  if (!config.url.trim()) return Promise.resolve({ ok: false, message: "Enter your Maloja server URL" });
+  return checkResponse(
+    () => fetch(`${trimSlash(config.url)}/apis/mlj_1/test?key=${encodeURIComponent(config.apiKey)}`),
+    async (response) => {
+      if (response.ok) return { ok: true, message: "Connected to Maloja" };
+      if (response.status === 403) return { ok: false, message: "Maloja rejected the API key" };
+      return { ok: false, message: `Maloja error: HTTP ${response.status}` };
+    }
+  );
+}
+
+export function testListenBrainzConnection(config: ListenBrainzConfig): Promise<ConnectionResult> {
+  if (!config.token) return Promise.resolve({ ok: false, message: "Enter your ListenBrainz token" });
+  return checkResponse(
+    () => fetch(`${trimSlash(config.apiUrl)}/1/validate-token`, { headers: { Authorization: `Token ${config.token}` } }),
+    async (response) => {
+      const data = (await response.json().catch(() => null)) as { valid?: boolean; user_name?: string } | null;
+      if (data?.valid) return { ok: true, message: `Connected as ${data.user_name}` };
+      return { ok: false, message: response.ok ? "ListenBrainz rejected the token" : `ListenBrainz error: HTTP ${response.status}` };
+    }
+  );
+}
+
+export function testWebhookConnection(config: WebhookConfig): Promise<ConnectionResult> {
+  if (!/^https?:\/\//i.test(config.url.trim())) return Promise.resolve({ ok: false, message: "Enter a full http(s) URL" });
+  return checkResponse(
+    () => postWebhook(config, { event: "test", timestamp: Math.floor(Date.now() / 1000) }),
+    async (response) => ({ ok: response.ok, message: response.ok ? `Webhook answered HTTP ${response.status}` : `Webhook error: HTTP ${response.status}` })
+  );
+}
+
+/** Signs in to Libre.fm and returns a session key. The password is not kept. */
+export async function connectLibreFm(
+  librefm: ScrobblingSettings["librefm"],
+  username: string,
+  password: string
+): Promise<ConnectionResult & { sessionKey?: string }> {
+  if (!username || !password) return { ok: false, message: "Enter your Libre.fm username and password" };
+  const api = libreFmApi(librefm);
+  const params: Record<string, string> = { method: "auth.getMobileSession", api_key: api.key, username, password };
+  const signature = await signLastFmParams(params, api.secret);
+  return checkResponse(
+    () =>
+      fetch(api.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({ ...params, api_sig: signature, format: "json" }),
+      }),
+    async (response) => {
+      const data = (await response.json().catch(() => null)) as { session?: { key: string; name: string }; message?: string } | null;
+      if (data?.session?.key) return { ok: true, message: `Connected as ${data.session.name || username}`, sessionKey: data.session.key };
+      return { ok: false, message: data?.message || `Libre.fm error: HTTP ${response.status}` };
+    }
+  );
+}
+
+export const SCROBBLERS: Scrobbler[] = [
+  {
+    id: "lastfm",
+    label: "Last.fm",
+    createSender: ({ settings, lastfmSessionKey }) =>
+      settings.lastfm.enabled && lastfmSessionKey
+        ? createLastFmSender({ ...resolveLastFmApi(settings.lastfm), sessionKey: lastfmSessionKey })
+        : null,
+  },
+  {
+    id: "listenbrainz",
+    label: "ListenBrainz",
+    createSender: ({ settings }) =>
+      settings.listenbrainz.enabled && settings.listenbrainz.token
+        ? createListenBrainzSender({ apiUrl: settings.listenbrainz.apiUrl || LISTENBRAINZ_API_URL, token: settings.listenbrainz.token })
+        : null,
+    testConnection: (settings) =>
+      testListenBrainzConnection({ apiUrl: settings.listenbrainz.apiUrl || LISTENBRAINZ_API_URL, token: settings.listenbrainz.token }),
+  },
+  {
+    id: "librefm",
+    label: "Libre.fm",
+    createSender: ({ settings }) =>
+      settings.librefm.enabled && settings.librefm.sessionKey
+        ? createLastFmSender({ ...libreFmApi(settings.librefm), sessionKey: settings.librefm.sessionKey })
+        : null,
+  },
+  {
+    id: "maloja",
+    label: "Maloja",
+    createSender: ({ settings }) => (settings.maloja.enabled && settings.maloja.url ? createMalojaSender(settings.maloja) : null),
+    testConnection: (settings) => testMalojaConnection(settings.maloja),
+  },
+  {
+    id: "webhook",
+    label: "Webhook",
+    createSender: ({ settings }) => (settings.webhook.enabled && settings.webhook.url ? createWebhookSender(settings.webhook) : null),
+    testConnection: (settings) => testWebhookConnection(settings.webhook),
+  },
+];
+
+export function getScrobbler(id: string): Scrobbler | undefined {
+  return SCROBBLERS.find((s) => s.id === id);
+}
+
+/** Senders for every enabled and configured scrobbler, keyed by scrobbler id. */
+export function createScrobbleSenders(context: ScrobblerContext): Record<string, ScrobbleSender> {
+  const senders: Record<string, ScrobbleSender> = {};
+  for (const scrobbler of SCROBBLERS) {
+    const sender = scrobbler.createSender(context);
+    if (sender) senders[scrobbler.id] = sender;
+  }
+  return senders;
+}
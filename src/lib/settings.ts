@@ -1,4 +1,6 @@
 import { safeSetItem } from "@/src/lib/storage";
+import type { PlaybackEngine } from "@/src/lib/crossfade";
+import type { ScrobbleRules } from "@/src/lib/scrobble-rules";
 
 type DownloadFormat = "original" | "mp3" | "opus" | "ogg" | "flac" | "wav";
 
@@ -12,11 +14,20 @@ export interface Settings {
     useOgFilename: boolean;
     embedMetadata: boolean;
     format: DownloadFormat;
+    pathTemplate: string;
+    filenameTemplate: string;
+    skipDownloaded: boolean;
   };
   player: {
     showAlbumArt: boolean;
     showNextSong: boolean;
     startupShuffle: boolean;
+    engine: PlaybackEngine;
+    crossfade: number;
+    eqEnabled: boolean;
+    eqGains: number[];
+    normalize: boolean;
+    playbackRate: number;
   };
   scrobbling: {
     lastfm: {
@@ -31,6 +42,23 @@ export interface Settings {
       token: string;
       apiUrl: string;
     };
+    librefm: {
+      enabled: boolean;
+      apiUrl: string;
+      username: string;
+      sessionKey: string;
+    };
+    maloja: {
+      enabled: boolean;
+      url: string;
+      apiKey: string;
+    };
+    webhook: {
+      enabled: boolean;
+      url: string;
+      authorization: string;
+    };
+    rules: ScrobbleRules;
   };
   behavior: {
     detailedErrors: boolean;
@@ -41,6 +69,11 @@ export interface Settings {
     showEmojis: boolean;
     useImageProxy: boolean;
   };
+  api: {
+    endpoints: string[];
+  };
+  /** Key combos per command id; commands without an entry use their defaults. */
+  shortcuts: Record<string, string[]>;
   font: string;
 }
 
@@ -54,11 +87,20 @@ export const DEFAULT_SETTINGS: Settings = {
     useOgFilename: false,
     embedMetadata: false,
     format: "original",
+    pathTemplate: "{artist}/{era}/{track}.{ext}",
+    filenameTemplate: "{track}.{ext}",
+    skipDownloaded: false,
   },
   player: {
     showAlbumArt: true,
     showNextSong: false,
     startupShuffle: false,
+    engine: "standard",
+    crossfade: 0,
+    eqEnabled: false,
+    eqGains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    normalize: false,
+    playbackRate: 1,
   },
   scrobbling: {
     lastfm: {
@@ -73,6 +115,28 @@ export const DEFAULT_SETTINGS: Settings = {
       token: "",
       apiUrl: "https://api.listenbrainz.org",
     },
+    librefm: {
+      enabled: false,
+      apiUrl: "https://libre.fm/2.0/",
+      username: "",
+      sessionKey: "",
+    },
+    maloja: {
+      enabled: false,
+      url: "",
+      apiKey: "",
+    },
+    webhook: {
+      enabled: false,
+      url: "",
+      authorization: "",
+    },
+    rules: {
+      artistOverrides: [],
+      titleRules: [],
+      featuring: "off",
+      reviewBeforeScrobble: false,
+    },
   },
   behavior: {
     detailedErrors: false,
@@ -83,6 +147,10 @@ export const DEFAULT_SETTINGS: Settings = {
     showEmojis: true,
     useImageProxy: false,
   },
+  api: {
+    endpoints: ["https://trackerapi.artistgrid.cx"],
+  },
+  shortcuts: {},
   font: "IBM Plex Sans",
 };
 
@@ -113,8 +181,14 @@ export function loadSettings(): Settings {
         scrobbling: {
           lastfm: { ...DEFAULT_SETTINGS.scrobbling.lastfm, ...parsed.scrobbling?.lastfm },
           listenbrainz: { ...DEFAULT_SETTINGS.scrobbling.listenbrainz, ...parsed.scrobbling?.listenbrainz },
+          librefm: { ...DEFAULT_SETTINGS.scrobbling.librefm, ...parsed.scrobbling?.librefm },
+          maloja: { ...DEFAULT_SETTINGS.scrobbling.maloja, ...parsed.scrobbling?.maloja },
+          webhook: { ...DEFAULT_SETTINGS.scrobbling.webhook, ...parsed.scrobbling?.webhook },
+          rules: { ...DEFAULT_SETTINGS.scrobbling.rules, ...parsed.scrobbling?.rules },
         },
         behavior: { ...DEFAULT_SETTINGS.behavior, ...parsed.behavior },
+        api: { ...DEFAULT_SETTINGS.api, ...parsed.api },
+        shortcuts: { ...parsed.shortcuts },
         font: parsed.font ?? DEFAULT_SETTINGS.font,
       };
     }
@@ -0,0 +1,257 @@
+import {
+  Archive,
+  Cloud,
+  FileAudio,
+  HardDrive,
+  Image,
+  Link,
+  Package,
+  Server,
+  Youtube,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import type { TrackSource } from "@/src/types";
+
+const IMGUR_API = "https://imgur.gg/api/file/";
+const UNVAULTED_PROXY = "https://fuck-unvaulted.artistgrid.cx";
+const AUDIO_EXTENSION = /\.(?:mp3|m4a|aac|flac|wav|ogg|oga|opus|alac|aiff?)$/i;
+
+export interface SourceCapabilities {
+  /** Counted as playable before its link has been resolved. */
+  playable: boolean;
+  /** Resolving costs a request to the host, so it is deferred until needed. */
+  network: boolean;
+  seekable: boolean;
+  downloadable: boolean;
+  /** Only plays in the host's own embedded player, never as an audio stream. */
+  embedOnly: boolean;
+}
+
+export interface SourceResolver {
+  id: string;
+  name: string;
+  icon: LucideIcon;
+  capabilities: SourceCapabilities;
+  match: (url: string) => boolean;
+  /** The direct audio URL for a link, or null when it has none. */
+  resolve: (url: string) => string | null | Promise<string | null>;
+  /** Where opening the link should go, when that differs from the link itself. */
+  openUrl?: (url: string) => string;
+  /** How long a resolved URL stays valid, in milliseconds; omitted when it never expires. */
+  ttl?: number;
+  /** The iframe URL for embed-only hosts. */
+  embedUrl?: (url: string) => string | null;
+  /**
+   * A host endpoint that answers whether the item still exists, for link
+   * checks on hosts whose audio can't be probed directly. 401/403 from it
+   * means the item was removed or made private.
+   */
+  probeUrl?: (url: string) => string;
+}
+
+const STREAM: SourceCapabilities = { playable: true, network: false, seekable: true, downloadable: true, embedOnly: false };
+
+export function normalizePillowsUrl(url: string): string {
+  return url.replace(/pillowcase\.su/g, "pillows.su");
+}
+
+function extractImgurId(url: string): string | null {
+  let match = url.match(/\/f\/([a-zA-Z0-9]+)/);
+  if (match) return match[1];
+  match = url.match(/\/([a-zA-Z0-9]+)(?:\?|$)/);
+  return match ? match[1] : null;
+}
+
+function extractSoundcloudPath(url: string): string | null {
+  const match = url.match(/soundcloud\.com\/([^/]+\/[^/?#]+)/);
+  return match ? match[1] : null;
+}
+
+function extractYouTubeId(url: string): string | null {
+  const match = url.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|shorts\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/);
+  return match ? match[1] : null;
+}
+
+function urlPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return "";
+  }
+}
+
+async function resolveArchiveItem(identifier: string): Promise<string | null> {
+  const res = await fetch(`https://archive.org/metadata/${identifier}`);
+  if (!res.ok) return null;
+  const data: { files?: Array<{ name?: string }> } = await res.json();
+  const names = (data.files ?? []).flatMap((f) => (f.name && AUDIO_EXTENSION.test(f.name) ? [f.name] : []));
+  const name = names.find((n) => /\.mp3$/i.test(n)) ?? names[0];
+  return name ? `https://archive.org/download/${identifier}/${name.split("/").map(encodeURIComponent).join("/")}` : null;
+}
+
+type BuiltinResolver = SourceResolver & { id: TrackSource };
+
+const BUILTIN_RESOLVERS: BuiltinResolver[] = [
+  {
+    id: "pillows",
+    name: "Pillows",
+    icon: Package,
+    capabilities: STREAM,
+    match: (url) => /https?:\/\/pillows\.su\/f\//.test(normalizePillowsUrl(url)),
+    resolve: (url) => {
+      const match = normalizePillowsUrl(url).match(/pillows\.su\/f\/([a-f0-9]+)/);
+      return match ? `https://api.pillows.su/api/download/${match[1]}` : null;
+    },
+  },
+  {
+    id: "youtube",
+    name: "YouTube",
+    icon: Youtube,
+    capabilities: { playable: true, network: false, seekable: false, downloadable: false, embedOnly: true },
+    match: (url) => /https?:\/\/(?:www\.|music\.)?youtube\.com\/|https?:\/\/youtu\.be\//.test(url),
+    resolve: () => null,
+    embedUrl: (url) => {
+      const id = extractYouTubeId(url);
+      return id ? `https://www.youtube-nocookie.com/embed/${id}?autoplay=1` : null;
+    },
+    probeUrl: (url) => `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(url)}`,
+  },
+  {
+    id: "pixeldrain",
+    name: "Pixeldrain",
+    icon: HardDrive,
+    capabilities: { ...STREAM, network: true },
+    match: (url) => /https?:\/\/pixeldrain.com\/[du]\//.test(url),
+    resolve: (url) => {
+      const match = url.match(/pixeldrain\.com\/[du]\/([a-zA-Z0-9]+)/);
+      return match ? `${UNVAULTED_PROXY}/${match[1]}` : null;
+    },
+  },
+  {
+    id: "juicewrldapi",
+    name: "JuiceWrldAPI",
+    icon: Server,
+    capabilities: { ...STREAM, playable: false },
+    match: (url) => /https?:\/\/juicewrldapi\.com\/juicewrld/.test(url),
+    resolve: (url) => url,
+  },
+  {
+    id: "imgur",
+    name: "Imgur",
+    icon: Image,
+    capabilities: { ...STREAM, network: true },
+    ttl: 1000 * 60 * 30,
+    match: (url) => /https?:\/\/.*imgur\.gg/.test(url),
+    resolve: async (url) => {
+      const id = extractImgurId(url);
+      if (!id) return null;
+      const res = await fetch(`${IMGUR_API}${id}`);
+      if (!res.ok) return null;
+      const data = await res.json();
+      const mediaType: string = data.mediaType || data.mimeType || data.type || "";
+      if (mediaType.startsWith("image/")) return null;
+      return data.cdnUrl || null;
+    },
+  },
+  {
+    id: "soundcloud",
+    name: "SoundCloud",
+    icon: Cloud,
+    capabilities: STREAM,
+    ttl: 1000 * 60 * 60,
+    match: (url) => /https?:\/\/(www\.)?soundcloud\.com\//.test(url),
+    resolve: (url) => {
+      const path = extractSoundcloudPath(url);
+      return path ? `https://sc.monochrome.tf/_/restream/${path}` : null;
+    },
+    openUrl: (url) => {
+      const path = extractSoundcloudPath(url);
+      return path ? `https://sc.monochrome.tf/${path}` : url;
+    },
+  },
+  {
+    id: "googledrive",
+    name: "Google Drive",
+    icon: HardDrive,
+    capabilities: STREAM,
+    match: (url) => /https?:\/\/drive\.google\.com\/file\/d\//.test(url),
+    resolve: (url) => {
+      const match = url.match(/drive\.google\.com\/file\/d\/([a-zA-Z0-9_-]+)/);
+      return match ? `${UNVAULTED_PROXY}/gd/${match[1]}` : null;
+    },
+  },
+  {
+    id: "catbox",
+    name: "Catbox",
+    icon: Zap,
+    capabilities: STREAM,
+    match: (url) => /https?:\/\/(?:files|litter)\.catbox\.moe\//.test(url),
+    // Litterbox uploads expire, so a dead one is expected rather than an error.
+    resolve: (url) => (AUDIO_EXTENSION.test(urlPath(url)) ? url : null),
+  },
+  {
+    id: "archive",
+    name: "Internet Archive",
+    icon: Archive,
+    capabilities: { ...STREAM, network: true },
+    match: (url) => /https?:\/\/(?:www\.)?archive\.org\/(?:details|download)\/[^/?#]+/.test(url),
+    resolve: (url) => {
+      const match = url.match(/archive\.org\/(?:details|download)\/([^/?#]+)(?:\/([^?#]+))?/);
+      if (!match) return null;
+      const [, identifier, file] = match;
+      return file ? `https://archive.org/download/${identifier}/${file}` : resolveArchiveItem(identifier);
+    },
+  },
+];
+
+// Any host serving a plain audio file; checked after every other resolver.
+const DIRECT_RESOLVER: BuiltinResolver = {
+  id: "direct",
+  name: "Direct link",
+  icon: FileAudio,
+  capabilities: STREAM,
+  match: (url) => /^https?:\/\//.test(url) && AUDIO_EXTENSION.test(urlPath(url)),
+  resolve: (url) => url,
+};
+
+const UNKNOWN_RESOLVER: BuiltinResolver = {
+  id: "unknown",
+  name: "Unknown",
+  icon: Link,
+  capabilities: { playable: false, network: false, seekable: false, downloadable: false, embedOnly: false },
+  match: () => true,
+  resolve: () => null,
+};
+
+const resolvers: SourceResolver[] = [...BUILTIN_RESOLVERS];
+
+/**
+ * Adds a host, or replaces the resolver with the same id. Resolvers are tried
+ * in registration order, ahead of the direct audio file fallback.
+ */
+export function registerSourceResolver(resolver: SourceResolver): () => void {
+  const index = resolvers.findIndex((r) => r.id === resolver.id);
+  if (index === -1) resolvers.push(resolver);
+  else resolvers[index] = resolver;
+  return () => {
+    const i = resolvers.indexOf(resolver);
+    if (i !== -1) resolvers.splice(i, 1);
+  };
+}
+
+export function listSourceResolvers(): SourceResolver[] {
+  return [...resolvers, DIRECT_RESOLVER];
+}
+
+export function getSourceResolver(url: string): SourceResolver {
+  return listSourceResolvers().find((r) => r.match(url)) ?? UNKNOWN_RESOLVER;
+}
+
+export function getResolverById(id: string): SourceResolver {
+  return listSourceResolvers().find((r) => r.id === id) ?? UNKNOWN_RESOLVER;
+}
+
+export function getSourceCapabilities(id: string): SourceCapabilities {
+  return getResolverById(id).capabilities;
+}
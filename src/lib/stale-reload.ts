@@ -1,3 +1,5 @@
+import { PINNED_CACHE } from "./pinned-cache";
+
 let attempted = false;
 
 const STALE_PATTERNS = [
@@ -31,6 +33,8 @@ const STALE_LOCAL_STORAGE_KEYS = [
 ];
 
 const PRESERVED_IDB_DBS = new Set(["artistgrid-cache"]);
+// Pinned trackers are kept offline on purpose; the pin list in localStorage still points at them.
+const PRESERVED_CACHES = new Set([PINNED_CACHE]);
 
 export async function clearCacheAndReload(): Promise<void> {
   if (cacheCleared) return;
@@ -41,7 +45,7 @@ export async function clearCacheAndReload(): Promise<void> {
     }
     if (typeof caches !== "undefined") {
       const keys = await caches.keys();
-      await Promise.all(keys.map((k) => caches.delete(k)));
+      await Promise.all(keys.filter((k) => !PRESERVED_CACHES.has(k)).map((k) => caches.delete(k)));
     }
     if (typeof navigator !== "undefined" && "serviceWorker" in navigator) {
       const regs = await navigator.serviceWorker.getRegistrations();
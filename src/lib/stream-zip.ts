@@ -0,0 +1,207 @@
+const ZIP64_LIMIT = 0xffffffff;
+const VERSION_ZIP64 = 45;
+const VERSION_DEFAULT = 20;
+const FLAG_UTF8 = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array, crc = 0): number {
+  const table = getCrcTable();
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+async function* readBlob(blob: Blob): AsyncGenerator<Uint8Array> {
+  if (typeof blob.stream !== "function") {
+    yield new Uint8Array(await blob.arrayBuffer());
+    return;
+  }
+  const reader = blob.stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+function localHeader(entry: CentralEntry): Uint8Array {
+  const zip64 = entry.size >= ZIP64_LIMIT;
+  const extraLength = zip64 ? 20 : 0;
+  const buf = new Uint8Array(30 + entry.name.length + extraLength);
+  const view = new DataView(buf.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  view.setUint16(6, FLAG_UTF8, true);
+  view.setUint16(8, 0, true);
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, zip64 ? ZIP64_LIMIT : entry.size, true);
+  view.setUint32(22, zip64 ? ZIP64_LIMIT : entry.size, true);
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, extraLength, true);
+  buf.set(entry.name, 30);
+  if (zip64) {
+    const at = 30 + entry.name.length;
+    view.setUint16(at, 0x0001, true);
+    view.setUint16(at + 2, 16, true);
+    setUint64(view, at + 4, entry.size);
+    setUint64(view, at + 12, entry.size);
+  }
+  return buf;
+}
+
+function centralHeader(entry: CentralEntry): Uint8Array {
+  const bigSize = entry.size >= ZIP64_LIMIT;
+  const bigOffset = entry.offset >= ZIP64_LIMIT;
+  const extraLength = bigSize || bigOffset ? 4 + (bigSize ? 16 : 0) + (bigOffset ? 8 : 0) : 0;
+  const buf = new Uint8Array(46 + entry.name.length + extraLength);
+  const view = new DataView(buf.buffer);
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, extraLength ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  view.setUint16(6, extraLength ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  view.setUint16(8, FLAG_UTF8, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, entry.time, true);
+  view.setUint16(14, entry.date, true);
+  view.setUint32(16, entry.crc, true);
+  view.setUint32(20, bigSize ? ZIP64_LIMIT : entry.size, true);
+  view.setUint32(24, bigSize ? ZIP64_LIMIT : entry.size, true);
+  view.setUint16(28, entry.name.length, true);
+  view.setUint16(30, extraLength, true);
+  view.setUint32(42, bigOffset ? ZIP64_LIMIT : entry.offset, true);
+  buf.set(entry.name, 46);
+  if (extraLength) {
+    let at = 46 + entry.name.length;
+    view.setUint16(at, 0x0001, true);
+    view.setUint16(at + 2, extraLength - 4, true);
+    at += 4;
+    if (bigSize) {
+      setUint64(view, at, entry.size);
+      setUint64(view, at + 8, entry.size);
+      at += 16;
+    }
+    if (bigOffset) setUint64(view, at, entry.offset);
+  }
+  return buf;
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Uint8Array {
+  const zip64 = count >= 0xffff || size >= ZIP64_LIMIT || offset >= ZIP64_LIMIT;
+  const buf = new Uint8Array((zip64 ? 56 + 20 : 0) + 22);
+  const view = new DataView(buf.buffer);
+  let at = 0;
+  if (zip64) {
+    view.setUint32(0, 0x06064b50, true);
+    setUint64(view, 4, 44);
+    view.setUint16(12, VERSION_ZIP64, true);
+    view.setUint16(14, VERSION_ZIP64, true);
+    setUint64(view, 24, count);
+    setUint64(view, 32, count);
+    setUint64(view, 40, size);
+    setUint64(view, 48, offset);
+    view.setUint32(56, 0x07064b50, true);
+    setUint64(view, 64, offset + size);
+    view.setUint32(72, 1, true);
+    at = 76;
+  }
+  view.setUint32(at, 0x06054b50, true);
+  view.setUint16(at + 8, Math.min(count, 0xffff), true);
+  view.setUint16(at + 10, Math.min(count, 0xffff), true);
+  view.setUint32(at + 12, Math.min(size, ZIP64_LIMIT), true);
+  view.setUint32(at + 16, Math.min(offset, ZIP64_LIMIT), true);
+  return buf;
+}
+
+/**
+ * Writes an uncompressed (STORE) zip archive to a stream one file at a time, so
+ * only the file currently being written is ever read into memory. Switches to
+ * ZIP64 records when sizes or offsets pass 4 GiB.
+ */
+export function createZipWriter(writable: WritableStream<Uint8Array>) {
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  const entries: CentralEntry[] = [];
+  const names = new Set<string>();
+  let offset = 0;
+  let pending: Promise<void> = Promise.resolve();
+
+  const write = async (chunk: Uint8Array) => {
+    await writer.write(chunk);
+    offset += chunk.length;
+  };
+
+  const uniqueName = (path: string) => {
+    let candidate = path;
+    const dot = path.lastIndexOf(".");
+    const [stem, ext] = dot > path.lastIndexOf("/") ? [path.slice(0, dot), path.slice(dot)] : [path, ""];
+    for (let n = 2; names.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${ext}`;
+    names.add(candidate.toLowerCase());
+    return candidate;
+  };
+
+  /** Resolves to the name actually used, which differs from `path` for duplicates. */
+  const addFile = (path: string, blob: Blob, modified = new Date()): Promise<string> => {
+    const added = pending.then(async () => {
+      let crc = 0;
+      for await (const chunk of readBlob(blob)) crc = crc32(chunk, crc);
+      const name = uniqueName(path);
+      const entry: CentralEntry = { name: encoder.encode(name), crc, size: blob.size, offset, ...dosDateTime(modified) };
+      await write(localHeader(entry));
+      for await (const chunk of readBlob(blob)) await write(chunk);
+      entries.push(entry);
+      return name;
+    });
+    pending = added.then(() => {});
+    return added;
+  };
+
+  const close = async (): Promise<void> => {
+    await pending;
+    const start = offset;
+    for (const entry of entries) await write(centralHeader(entry));
+    await write(endOfCentralDirectory(entries.length, offset - start, start));
+    await writer.close();
+  };
+
+  const abort = async (reason?: unknown): Promise<void> => {
+    await writer.abort(reason).catch(() => {});
+  };
+
+  return { addFile, close, abort, get fileCount() { return entries.length; } };
+}
+
+export type ZipWriter = ReturnType<typeof createZipWriter>;
@@ -0,0 +1,105 @@
+import type { Era, TALeak } from "@/src/types";
+import type { MetadataInput } from "./ffmpeg-metadata";
+import type { PathTemplateVars } from "./download-template";
+import { getTrackDescription } from "./track-utils";
+import { parseTrackDate } from "./track-query";
+
+export interface TrackCredits {
+  featuring: string[];
+  producers: string[];
+}
+
+export interface TrackDownloadInfo {
+  vars: PathTemplateVars;
+  metadata: MetadataInput;
+}
+
+const CREDIT_PATTERN = /[([]\s*(feat\.?|ft\.?|with|prod\.?(?:\s+by)?)\s+([^)\]]+)[)\]]/gi;
+
+function splitNames(raw: string): string[] {
+  return raw
+    .split(/\s*(?:,|&|\+|\band\b|\bx\b)\s*/i)
+    .map((n) => n.trim())
+    .filter(Boolean);
+}
+
+/** Pulls `(feat. X & Y)` and `(prod. Z)` credits out of a track's `extra` text. */
+export function parseCredits(extra: string | undefined): TrackCredits {
+  const credits: TrackCredits = { featuring: [], producers: [] };
+  if (!extra) return credits;
+  for (const match of extra.matchAll(CREDIT_PATTERN)) {
+    const target = match[1].toLowerCase().startsWith("prod") ? credits.producers : credits.featuring;
+    for (const name of splitNames(match[2])) if (!target.includes(name)) target.push(name);
+  }
+  return credits;
+}
+
+/** Finds the sub-era group a track is listed under and its 1-based position within the era. */
+export function eraTrackPosition(era: Era, track: TALeak): { group: string; number: number; total: number } {
+  let number = 0;
+  let total = 0;
+  let group = "";
+  for (const [key, tracks] of Object.entries(era.data ?? {})) {
+    if (!Array.isArray(tracks)) continue;
+    for (const t of tracks) {
+      total++;
+      if (!number && (t === track || (!!track.id && t.id === track.id))) {
+        number = total;
+        group = key;
+      }
+    }
+  }
+  return { group: group.toLowerCase() === "default" ? "" : group, number, total };
+}
+
+function isoDate(raw: string | undefined): string {
+  const time = parseTrackDate(raw);
+  return time === null ? "" : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Everything the download paths know about a track: variables for filename and
+ * folder templates, plus the tags embedded into the file.
+ */
+export function describeTrackForDownload(
+  track: TALeak,
+  era: Era,
+  artist: string,
+  sourceUrl: string | undefined
+): TrackDownloadInfo {
+  const { group, number, total } = eraTrackPosition(era, track);
+  const credits = parseCredits(track.extra);
+  const leakDate = isoDate(track.leak_date);
+  const fileDate = isoDate(track.file_date);
+  const vars: PathTemplateVars = {};
+  for (const [key, value] of Object.entries(track)) {
+    if (typeof value === "string") vars[key] = value;
+  }
+  Object.assign(vars, {
+    artist,
+    era: era.name || track.eraName || "",
+    group,
+    track: track.name,
+    number: number ? String(number).padStart(Math.max(2, String(total).length), "0") : "",
+    featuring: credits.featuring.join(", "),
+    leak_date: leakDate || track.leak_date || "",
+    file_date: fileDate || track.file_date || "",
+    year: (fileDate || leakDate).slice(0, 4),
+  });
+  const metadata: MetadataInput = {
+    title: track.name,
+    artist: credits.featuring.length ? `${artist} feat. ${credits.featuring.join(", ")}` : artist,
+    albumArtist: artist,
+    album: [era.name, group].filter(Boolean).join(" - ") || undefined,
+    year: (fileDate || leakDate).slice(0, 4) || undefined,
+    trackNumber: number || undefined,
+    trackTotal: number ? total : undefined,
+    featuring: credits.featuring.length ? credits.featuring : undefined,
+    producers: credits.producers.length ? credits.producers : undefined,
+    comment: getTrackDescription(track) || undefined,
+    leakDate: leakDate || track.leak_date || undefined,
+    sourceUrl,
+    coverUrl: era.image || undefined,
+  };
+  return { vars, metadata };
+}
@@ -0,0 +1,256 @@
+import type { TALeak } from "@/src/types";
+import { getAllTrackUrls, getTrackDescription } from "./track-utils";
+import { getTrackSource } from "./resolve-url";
+import { listSourceResolvers } from "./source-resolvers";
+import { parseTrackLength } from "./playlists";
+
+export type Comparator = "=" | ">" | ">=" | "<" | "<=";
+export type HasValue = "link" | "playable" | "notes" | "image" | "mirrors" | "lyrics" | "date";
+
+export type QueryTerm =
+  | { kind: "text"; value: string; phrase: boolean; negated: boolean }
+  | { kind: "era" | "quality" | "source" | "type"; value: string; negated: boolean }
+  | { kind: "length"; op: Comparator; seconds: number; negated: boolean }
+  | { kind: "date"; field: "leaked" | "file"; op: Comparator; start: number; end: number; negated: boolean }
+  | { kind: "has"; value: HasValue; negated: boolean };
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedTrackQuery {
+  terms: QueryTerm[];
+  errors: QueryError[];
+}
+
+export interface TrackQueryContext {
+  era: string;
+  playable: boolean;
+}
+
+const FIELDS = ["era", "quality", "source", "type", "length", "leaked", "file", "has"] as const;
+type Field = (typeof FIELDS)[number];
+const HAS_VALUES: HasValue[] = ["link", "playable", "notes", "image", "mirrors", "lyrics", "date"];
+
+const QUALITY_ALIASES: Record<string, string> = {
+  cdq: "cd quality",
+  hq: "high quality",
+  lq: "low quality",
+  rq: "recording quality",
+  og: "og file",
+};
+
+const SOURCE_ALIASES: Record<string, string> = {
+  pillow: "pillows",
+  yt: "youtube",
+  pd: "pixeldrain",
+  sc: "soundcloud",
+  drive: "googledrive",
+  gdrive: "googledrive",
+  litterbox: "catbox",
+  ia: "archive",
+  "archive.org": "archive",
+};
+
+export const TRACK_QUERY_HELP = `Filters: ${FIELDS.map((f) => `${f}:`).join(" ")} · prefix with - to exclude · "quotes" for exact phrases`;
+
+function parseComparator(raw: string): { op: Comparator; rest: string } {
+  const match = raw.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+  return { op: (match[1] as Comparator) || "=", rest: match[2] };
+}
+
+function parseLengthValue(raw: string): number | null {
+  if (/^\d+$/.test(raw)) return Number(raw);
+  return parseTrackLength(raw);
+}
+
+function parseDateValue(raw: string): { start: number; end: number } | null {
+  const match = raw.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const year = Number(y);
+  const month = m ? Number(m) - 1 : 0;
+  const day = d ? Number(d) : 1;
+  if (month > 11 || day < 1 || day > 31) return null;
+  const start = Date.UTC(year, month, day);
+  const end = d ? Date.UTC(year, month, day + 1) : m ? Date.UTC(year, month + 1, 1) : Date.UTC(year + 1, 0, 1);
+  return { start, end };
+}
+
+export function parseTrackDate(raw: string | undefined): number | null {
+  if (!raw) return null;
+  // Date.parse reads date-only ISO strings as UTC, so they are taken as written.
+  const exact = parseDateValue(raw.trim());
+  if (exact) return exact.start;
+  const parsed = Date.parse(raw);
+  if (!Number.isNaN(parsed)) {
+    const date = new Date(parsed);
+    return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+  const year = raw.match(/\b(19|20)\d{2}\b/);
+  return year ? Date.UTC(Number(year[0]), 0, 1) : null;
+}
+
+function compareRange(value: number, op: Comparator, start: number, end: number): boolean {
+  switch (op) {
+    case ">": return value >= end;
+    case ">=": return value >= start;
+    case "<": return value < start;
+    case "<=": return value < end;
+    default: return value >= start && value < end;
+  }
+}
+
+function buildFieldTerm(field: Field, raw: string, negated: boolean): QueryTerm | string {
+  const value = raw.trim();
+  if (!value) return `"${field}:" needs a value`;
+  switch (field) {
+    case "era":
+    case "type":
+      return { kind: field, value: value.toLowerCase(), negated };
+    case "quality": {
+      const lower = value.toLowerCase();
+      return { kind: "quality", value: QUALITY_ALIASES[lower] ?? lower, negated };
+    }
+    case "source": {
+      const lower = value.toLowerCase();
+      const source = SOURCE_ALIASES[lower] ?? lower;
+      const sources = [...listSourceResolvers().map((r) => r.id), "unknown"];
+      if (!sources.includes(source)) return `Unknown source "${value}". Try ${sources.join(", ")}`;
+      return { kind: "source", value: source, negated };
+    }
+    case "length": {
+      const { op, rest } = parseComparator(value);
+      const seconds = parseLengthValue(rest);
+      if (seconds === null) return `Invalid length "${value}". Use seconds or m:ss, e.g. length:>3:00`;
+      return { kind: "length", op, seconds, negated };
+    }
+    case "leaked":
+    case "file": {
+      const { op, rest } = parseComparator(value);
+      const range = parseDateValue(rest);
+      if (!range) return `Invalid date "${value}". Use YYYY, YYYY-MM or YYYY-MM-DD, e.g. ${field}:>=2023-06`;
+      return { kind: "date", field, op, ...range, negated };
+    }
+    case "has": {
+      const lower = value.toLowerCase() as HasValue;
+      if (!HAS_VALUES.includes(lower)) return `Unknown value "has:${value}". Try ${HAS_VALUES.join(", ")}`;
+      return { kind: "has", value: lower, negated };
+    }
+  }
+}
+
+function isField(word: string): word is Field {
+  return (FIELDS as readonly string[]).includes(word);
+}
+
+export function parseTrackQuery(input: string): ParsedTrackQuery {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+  let i = 0;
+
+  const readQuoted = (): { value: string; closed: boolean } => {
+    const close = input.indexOf('"', i + 1);
+    const value = input.slice(i + 1, close === -1 ? input.length : close);
+    i = close === -1 ? input.length : close + 1;
+    return { value, closed: close !== -1 };
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let negated = false;
+    if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    if (input[i] === '"') {
+      const { value, closed } = readQuoted();
+      if (!closed) errors.push({ message: "Missing closing quote", start, end: i });
+      if (value.trim()) terms.push({ kind: "text", value: value.toLowerCase(), phrase: true, negated });
+      continue;
+    }
+
+    const wordStart = i;
+    while (i < input.length && !/\s/.test(input[i]) && input[i] !== ":" && input[i] !== '"') i++;
+    const word = input.slice(wordStart, i);
+
+    // Only known fields are filters; "Skit:" or a pasted https:// link stays text.
+    const field = word.toLowerCase();
+    if (input[i] === ":" && isField(field)) {
+      i++;
+      let value: string;
+      if (input[i] === '"') {
+        const read = readQuoted();
+        if (!read.closed) errors.push({ message: "Missing closing quote", start, end: i });
+        value = read.value;
+      } else {
+        const valueStart = i;
+        while (i < input.length && !/\s/.test(input[i])) i++;
+        value = input.slice(valueStart, i);
+      }
+      const term = buildFieldTerm(field, value, negated);
+      if (typeof term === "string") errors.push({ message: term, start, end: i });
+      else terms.push(term);
+      continue;
+    }
+
+    while (i < input.length && !/\s/.test(input[i])) i++;
+    const text = input.slice(wordStart, i);
+    if (text) terms.push({ kind: "text", value: text.toLowerCase(), phrase: false, negated });
+  }
+
+  return { terms, errors };
+}
+
+function matchesTerm(term: QueryTerm, track: TALeak, ctx: TrackQueryContext): boolean {
+  switch (term.kind) {
+    case "text": {
+      const haystack = [track.name, track.extra, getTrackDescription(track), track.type, track.available_length, track.quality]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      return haystack.includes(term.value);
+    }
+    case "era":
+      return ctx.era.toLowerCase().includes(term.value);
+    case "type":
+      return (track.type ?? "").toLowerCase().includes(term.value);
+    case "quality":
+      return (track.quality ?? "").toLowerCase().includes(term.value);
+    case "source":
+      return getAllTrackUrls(track).some((u) => getTrackSource(u) === term.value);
+    case "length": {
+      const seconds = parseTrackLength(track.track_length);
+      return seconds !== null && compareRange(seconds, term.op, term.seconds, term.seconds + 1);
+    }
+    case "date": {
+      const date = parseTrackDate(term.field === "leaked" ? track.leak_date : track.file_date);
+      return date !== null && compareRange(date, term.op, term.start, term.end);
+    }
+    case "has":
+      switch (term.value) {
+        case "link": return getAllTrackUrls(track).length > 0;
+        case "playable": return ctx.playable;
+        case "notes": return !!getTrackDescription(track);
+        case "image": return !!track.image;
+        case "mirrors": return getAllTrackUrls(track).length > 1;
+        case "lyrics": return /lyric/i.test(getTrackDescription(track) ?? "");
+        case "date": return !!track.leak_date || !!track.file_date;
+      }
+  }
+}
+
+export function matchesTrackQuery(query: ParsedTrackQuery, track: TALeak, ctx: TrackQueryContext): boolean {
+  return query.terms.every((term) => matchesTerm(term, track, ctx) !== term.negated);
+}
+
+export function isTrackQueryEmpty(query: ParsedTrackQuery): boolean {
+  return query.terms.length === 0;
+}
@@ -0,0 +1,155 @@
+import type { TrackerResponse } from "@/src/types";
+import { idbGet, idbSet } from "./indexeddb-cache";
+import { forEachEraTrack } from "./view-utils";
+import { getAllTrackUrls, getTrackDescription } from "./track-utils";
+
+const GROUPS_KEY = "track-search:groups";
+const GROUP_KEY_PREFIX = "track-search:";
+const NON_TRACK_TABS = ["Art", "Tracklists", "Misc"];
+
+const FIELD_WEIGHTS = { name: 4, extra: 2, era: 1.5, artist: 1, notes: 0.5 } as const;
+type Field = keyof typeof FIELD_WEIGHTS;
+const FIELDS = Object.keys(FIELD_WEIGHTS) as Field[];
+
+export interface SearchDocument {
+  trackerId: string;
+  tab: string;
+  tabSlug: string;
+  artist: string;
+  era: string;
+  name: string;
+  extra: string;
+  notes: string;
+  url: string;
+}
+
+export interface SearchResult {
+  doc: SearchDocument;
+  score: number;
+}
+
+interface SearchGroup {
+  trackerId: string;
+  tab: string;
+  indexedAt: number;
+  docs: SearchDocument[];
+}
+
+interface IndexedDocument {
+  doc: SearchDocument;
+  fields: Record<Field, string>;
+}
+
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function buildSearchDocuments(trackerId: string, tab: string, data: TrackerResponse): SearchDocument[] {
+  if (NON_TRACK_TABS.includes(tab)) return [];
+  const docs: SearchDocument[] = [];
+  const seen = new Set<string>();
+  const tabSlug = data.tabSlugs?.[tab] ?? tab;
+  const artist = data.name || "";
+  forEachEraTrack(data.eras, (track, era) => {
+    const url = getAllTrackUrls(track)[0];
+    if (!track.name || !url || seen.has(url)) return;
+    seen.add(url);
+    docs.push({
+      trackerId,
+      tab,
+      tabSlug,
+      artist,
+      era: track.eraName || era.name || "",
+      name: track.name,
+      extra: track.extra || "",
+      notes: getTrackDescription(track) || "",
+      url,
+    });
+  });
+  return docs;
+}
+
+function indexDocument(doc: SearchDocument): IndexedDocument {
+  const fields = {} as Record<Field, string>;
+  for (const field of FIELDS) fields[field] = ` ${normalizeSearchText(doc[field])} `;
+  return { doc, fields };
+}
+
+function scoreDocument(entry: IndexedDocument, tokens: string[]): number {
+  let total = 0;
+  for (const token of tokens) {
+    let best = 0;
+    for (const field of FIELDS) {
+      const text = entry.fields[field];
+      const at = text.indexOf(token);
+      if (at === -1) continue;
+      const wordStart = text[at - 1] === " ";
+      const wholeWord = wordStart && text[at + token.length] === " ";
+      const score = FIELD_WEIGHTS[field] * (wholeWord ? 1.5 : wordStart ? 1.2 : 1);
+      if (score > best) best = score;
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+  if (entry.fields.name.trim() === tokens.join(" ")) total += FIELD_WEIGHTS.name;
+  return total;
+}
+
+export function createSearchIndex() {
+  const groups = new Map<string, { group: SearchGroup; entries: IndexedDocument[] }>();
+  let loaded: Promise<void> | null = null;
+
+  const put = (group: SearchGroup) => {
+    groups.set(`${group.trackerId}/${group.tab}`, { group, entries: group.docs.map(indexDocument) });
+  };
+
+  const load = () => {
+    loaded ??= (async () => {
+      const keys = (await idbGet<string[]>(GROUPS_KEY)) ?? [];
+      for (const key of keys) {
+        const group = await idbGet<SearchGroup>(GROUP_KEY_PREFIX + key);
+        if (group && !groups.has(key)) put(group);
+      }
+    })();
+    return loaded;
+  };
+
+  const add = async (trackerId: string, tab: string, docs: SearchDocument[]) => {
+    await load();
+    const key = `${trackerId}/${tab}`;
+    const group: SearchGroup = { trackerId, tab, indexedAt: Date.now(), docs };
+    put(group);
+    await idbSet(GROUP_KEY_PREFIX + key, group);
+    await idbSet(GROUPS_KEY, [...groups.keys()]);
+  };
+
+  const search = async (query: string, limit = 50): Promise<SearchResult[]> => {
+    await load();
+    const tokens = normalizeSearchText(query).split(" ").filter(Boolean);
+    if (tokens.length === 0) return [];
+    const results: SearchResult[] = [];
+    for (const { entries } of groups.values()) {
+      for (const entry of entries) {
+        const score = scoreDocument(entry, tokens);
+        if (score > 0) results.push({ doc: entry.doc, score });
+      }
+    }
+    results.sort((a, b) => b.score - a.score || a.doc.name.localeCompare(b.doc.name));
+    return results.slice(0, limit);
+  };
+
+  const size = () => {
+    let count = 0;
+    for (const { entries } of groups.values()) count += entries.length;
+    return count;
+  };
+
+  return { load, add, search, size };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
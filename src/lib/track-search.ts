@@ -0,0 +1,73 @@
+import type { TrackerResponse } from "@/src/types";
+import { buildSearchDocuments, createSearchIndex, type SearchIndex, type SearchResult } from "./track-search-index";
+import type { TrackSearchRequest } from "./track-search.worker";
+
+export type { SearchDocument, SearchResult } from "./track-search-index";
+
+type WorkerReply = { id: number; ok: boolean; results?: SearchResult[]; error?: string };
+type PendingRequest = { resolve: (reply: WorkerReply) => void; reject: (err: Error) => void };
+
+let worker: Worker | null = null;
+let fallbackIndex: SearchIndex | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingRequest>();
+
+function getWorker(): Worker | null {
+  if (worker || fallbackIndex) return worker;
+  if (typeof Worker === "undefined") return null;
+  try {
+    worker = new Worker(new URL("./track-search.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+      const request = pending.get(e.data.id);
+      if (!request) return;
+      pending.delete(e.data.id);
+      if (e.data.ok) request.resolve(e.data);
+      else request.reject(new Error(e.data.error || "Track search failed"));
+    };
+    worker.onerror = () => {
+      worker?.terminate();
+      worker = null;
+      fallbackIndex = createSearchIndex();
+      for (const request of pending.values()) request.reject(new Error("Track search worker crashed"));
+      pending.clear();
+    };
+  } catch {
+    worker = null;
+  }
+  return worker;
+}
+
+function getFallbackIndex(): SearchIndex {
+  fallbackIndex ??= createSearchIndex();
+  return fallbackIndex;
+}
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+function request(message: DistributiveOmit<TrackSearchRequest, "id">): Promise<WorkerReply> {
+  const w = getWorker()!;
+  const id = ++nextId;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    w.postMessage({ ...message, id });
+  });
+}
+
+export async function indexTrackerTab(trackerId: string, tab: string, data: TrackerResponse): Promise<void> {
+  const docs = buildSearchDocuments(trackerId, tab, data);
+  if (docs.length === 0) return;
+  try {
+    if (getWorker()) await request({ type: "index", trackerId, tab, docs });
+    else await getFallbackIndex().add(trackerId, tab, docs);
+  } catch {}
+}
+
+export async function searchTracks(query: string, limit = 50): Promise<SearchResult[]> {
+  if (!query.trim()) return [];
+  try {
+    if (getWorker()) return (await request({ type: "search", query, limit })).results ?? [];
+    return await getFallbackIndex().search(query, limit);
+  } catch {
+    return [];
+  }
+}
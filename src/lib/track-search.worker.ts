@@ -0,0 +1,21 @@
+import { createSearchIndex, type SearchDocument } from "./track-search-index";
+
+export type TrackSearchRequest =
+  | { id: number; type: "index"; trackerId: string; tab: string; docs: SearchDocument[] }
+  | { id: number; type: "search"; query: string; limit: number };
+
+const index = createSearchIndex();
+
+self.onmessage = async (e: MessageEvent<TrackSearchRequest>) => {
+  const msg = e.data;
+  try {
+    if (msg.type === "index") {
+      await index.add(msg.trackerId, msg.tab, msg.docs);
+      self.postMessage({ id: msg.id, ok: true });
+    } else {
+      self.postMessage({ id: msg.id, ok: true, results: await index.search(msg.query, msg.limit) });
+    }
+  } catch (err) {
+    self.postMessage({ id: msg.id, ok: false, error: err instanceof Error ? err.message : String(err) });
+  }
+};
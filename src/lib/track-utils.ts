@@ -1,14 +1,10 @@
 import type { Track, TALeak } from "@/src/types";
 import { normalizePillowsUrl } from "./resolve-url";
+import { getResolverById, getSourceCapabilities } from "./source-resolvers";
 export const TRACKER_ID_LENGTH = 44;
-export const SUPPORTED_SOURCES: Track["source"][] = [
-  "pillows",
-  "youtube",
-  "pixeldrain",
-  "imgur",
-  "soundcloud",
-  "googledrive",
-];
+export function isSupportedSource(source: Track["source"]): boolean {
+  return getSourceCapabilities(source).playable;
+}
 export function generateTrackId(url: string): string {
   let hash = 0;
   for (let i = 0; i < url.length; i++) {
@@ -62,15 +58,5 @@ export function getGoogleSheetsUrl(trackerId: string, htmlview = true): string {
   return `https://docs.google.com/spreadsheets/d/${trackerId}/${mode}`;
 }
 export function getSourceDisplayName(source: Track["source"]): string {
-  const names: Record<Track["source"], string> = {
-    pillows: "Pillows",
-    juicewrldapi: "JuiceWrldAPI",
-    imgur: "Imgur",
-    pixeldrain: "Pixeldrain",
-    soundcloud: "SoundCloud",
-    youtube: "YouTube",
-    googledrive: "Google Drive",
-    unknown: "Unknown",
-  };
-  return names[source];
+  return getResolverById(source).name;
 }
@@ -3,14 +3,15 @@ import { idbGet, idbSet } from "@/src/lib/indexeddb-cache";
 
 const CACHE_EXPIRY = 1000 * 60 * 10;
 const IDB_PREFIX = "tc:";
+const MIRROR_KEY = "tc:mirrors";
 
 interface CacheEntry {
   data: TrackerResponse;
   timestamp: number;
-  resolvedUrls: Record<string, string | null>;
 }
 
 const memCache = new Map<string, CacheEntry>();
+const preferredMirrors = new Map<string, string>();
 let idbReady = false;
 const idbPending = new Map<string, CacheEntry>();
 
@@ -34,6 +35,14 @@ async function loadFromIDB() {
       }
     }
   } catch {}
+  try {
+    const mirrors = await idbGet<Record<string, string>>(MIRROR_KEY);
+    if (mirrors) {
+      for (const [k, v] of Object.entries(mirrors)) {
+        if (!preferredMirrors.has(k)) preferredMirrors.set(k, v);
+      }
+    }
+  } catch {}
   idbReady = true;
   for (const [k, v] of idbPending) {
     memCache.set(k, v);
@@ -61,16 +70,9 @@ export function getCache(trackerId: string, tab?: string): CacheEntry | null {
   return entry;
 }
 
-export function setCache(
-  trackerId: string,
-  data: TrackerResponse,
-  resolvedUrls: Record<string, string | null>,
-  tab?: string
-): void {
+export function setCache(trackerId: string, data: TrackerResponse, tab?: string): void {
   const k = cacheKey(trackerId, tab);
-  const existing = memCache.get(k);
-  const mergedResolved = { ...(existing?.resolvedUrls || {}), ...resolvedUrls };
-  const entry: CacheEntry = { data, timestamp: Date.now(), resolvedUrls: mergedResolved };
+  const entry: CacheEntry = { data, timestamp: Date.now() };
   memCache.set(k, entry);
   if (!idbReady) {
     idbPending.set(k, entry);
@@ -79,6 +81,16 @@ export function setCache(
   }
 }
 
+export function getPreferredMirror(trackKey: string): string | null {
+  return preferredMirrors.get(trackKey) ?? null;
+}
+
+export function setPreferredMirror(trackKey: string, url: string): void {
+  if (preferredMirrors.get(trackKey) === url) return;
+  preferredMirrors.set(trackKey, url);
+  idbSet(MIRROR_KEY, Object.fromEntries(preferredMirrors)).catch(() => {});
+}
+
 export function clearCache(trackerId?: string, tab?: string): void {
   if (trackerId) {
     const k = cacheKey(trackerId, tab);
@@ -0,0 +1,186 @@
+import type { TrackerResponse } from "@/src/types";
+import { idbGet, idbSet } from "./indexeddb-cache";
+import { forEachEraTrack } from "./view-utils";
+import { getAllTrackUrls } from "./track-utils";
+
+const KEY_PREFIX = "changelog:";
+const MAX_SNAPSHOTS = 10;
+
+export interface TrackSnapshot {
+  key: string;
+  name: string;
+  era: string;
+  quality?: string;
+  urls: string[];
+}
+
+export interface TrackerSnapshot {
+  takenAt: number;
+  lastUpdated?: string;
+  eras: string[];
+  tracks: TrackSnapshot[];
+}
+
+export type TrackChangeField = "quality" | "links";
+
+export interface TrackerChangelog {
+  since: number;
+  until: number;
+  lastUpdated?: string;
+  added: TrackSnapshot[];
+  removed: TrackSnapshot[];
+  renamed: Array<{ before: TrackSnapshot; after: TrackSnapshot }>;
+  changed: Array<{ before: TrackSnapshot; after: TrackSnapshot; fields: TrackChangeField[] }>;
+  newEras: string[];
+  removedEras: string[];
+}
+
+interface SnapshotHistory {
+  snapshots: TrackerSnapshot[];
+  seenAt: number;
+}
+
+function historyKey(trackerId: string, tab: string): string {
+  return `${KEY_PREFIX}${trackerId}/${tab}`;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export function createSnapshot(data: TrackerResponse, takenAt = Date.now()): TrackerSnapshot {
+  const eras = new Set<string>();
+  const tracks: TrackSnapshot[] = [];
+  const seen = new Map<string, number>();
+  forEachEraTrack(data.eras, (track, era) => {
+    const eraName = track.eraName || era.name || "";
+    if (eraName) eras.add(eraName);
+    const urls = getAllTrackUrls(track);
+    const base = track.id || urls[0] || `${eraName}/${normalizeName(track.name || "")}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    tracks.push({
+      key: count === 0 ? base : `${base}#${count}`,
+      name: track.name || "Unknown",
+      era: eraName,
+      quality: track.quality || undefined,
+      urls,
+    });
+  });
+  return { takenAt, lastUpdated: data.lastUpdated, eras: [...eras], tracks };
+}
+
+export function diffSnapshots(before: TrackerSnapshot, after: TrackerSnapshot): TrackerChangelog {
+  const changelog: TrackerChangelog = {
+    since: before.takenAt,
+    until: after.takenAt,
+    lastUpdated: after.lastUpdated,
+    added: [],
+    removed: [],
+    renamed: [],
+    changed: [],
+    newEras: after.eras.filter((e) => !before.eras.includes(e)),
+    removedEras: before.eras.filter((e) => !after.eras.includes(e)),
+  };
+  const compare = (prev: TrackSnapshot, next: TrackSnapshot) => {
+    if (prev.name !== next.name) changelog.renamed.push({ before: prev, after: next });
+    const fields: TrackChangeField[] = [];
+    if ((prev.quality ?? "") !== (next.quality ?? "")) fields.push("quality");
+    if (prev.urls.length !== next.urls.length || prev.urls.some((u, i) => u !== next.urls[i])) fields.push("links");
+    if (fields.length > 0) changelog.changed.push({ before: prev, after: next, fields });
+  };
+  const previous = new Map(before.tracks.map((t) => [t.key, t]));
+  const unmatched: TrackSnapshot[] = [];
+  for (const track of after.tracks) {
+    const prev = previous.get(track.key);
+    if (prev) {
+      previous.delete(track.key);
+      compare(prev, track);
+    } else {
+      unmatched.push(track);
+    }
+  }
+  // A track whose first link changed gets a new key; pair it back up by name
+  // within the same era before calling it added/removed.
+  const byName = new Map<string, TrackSnapshot[]>();
+  for (const prev of previous.values()) {
+    const k = `${prev.era}\u0000${normalizeName(prev.name)}`;
+    byName.set(k, [...(byName.get(k) ?? []), prev]);
+  }
+  for (const track of unmatched) {
+    const candidates = byName.get(`${track.era}\u0000${normalizeName(track.name)}`);
+    const prev = candidates?.shift();
+    if (prev) {
+      previous.delete(prev.key);
+      compare(prev, track);
+    } else {
+      changelog.added.push(track);
+    }
+  }
+  changelog.removed = [...previous.values()];
+  return changelog;
+}
+
+export function isChangelogEmpty(changelog: TrackerChangelog): boolean {
+  return (
+    changelog.added.length === 0 &&
+    changelog.removed.length === 0 &&
+    changelog.renamed.length === 0 &&
+    changelog.changed.length === 0 &&
+    changelog.newEras.length === 0 &&
+    changelog.removedEras.length === 0
+  );
+}
+
+async function loadHistory(trackerId: string, tab: string): Promise<SnapshotHistory> {
+  try {
+    const stored = await idbGet<SnapshotHistory>(historyKey(trackerId, tab));
+    if (stored && Array.isArray(stored.snapshots)) return { snapshots: stored.snapshots, seenAt: stored.seenAt || 0 };
+  } catch {}
+  return { snapshots: [], seenAt: 0 };
+}
+
+function saveHistory(trackerId: string, tab: string, history: SnapshotHistory): Promise<void> {
+  return idbSet(historyKey(trackerId, tab), history).catch(() => {});
+}
+
+export async function getSnapshotHistory(trackerId: string, tab: string): Promise<TrackerSnapshot[]> {
+  return (await loadHistory(trackerId, tab)).snapshots;
+}
+
+export async function recordSnapshot(trackerId: string, tab: string, data: TrackerResponse): Promise<void> {
+  const history = await loadHistory(trackerId, tab);
+  const snapshot = createSnapshot(data);
+  const latest = history.snapshots[history.snapshots.length - 1];
+  if (latest && isChangelogEmpty(diffSnapshots(latest, snapshot))) return;
+  const snapshots = [...history.snapshots, snapshot];
+  // Never drop the snapshot the unseen changes are measured against.
+  const baseline = findBaseline(snapshots, history.seenAt);
+  while (snapshots.length > MAX_SNAPSHOTS && snapshots[0] !== baseline) snapshots.shift();
+  if (snapshots.length > MAX_SNAPSHOTS) snapshots.splice(1, snapshots.length - MAX_SNAPSHOTS);
+  await saveHistory(trackerId, tab, { snapshots, seenAt: history.seenAt || snapshot.takenAt });
+}
+
+function findBaseline(snapshots: TrackerSnapshot[], seenAt: number): TrackerSnapshot | undefined {
+  let baseline = snapshots[0];
+  for (const s of snapshots) {
+    if (s.takenAt <= seenAt) baseline = s;
+  }
+  return baseline;
+}
+
+export async function getUnseenChanges(trackerId: string, tab: string): Promise<TrackerChangelog | null> {
+  const { snapshots, seenAt } = await loadHistory(trackerId, tab);
+  if (snapshots.length < 2) return null;
+  const baseline = findBaseline(snapshots, seenAt);
+  const latest = snapshots[snapshots.length - 1];
+  if (!baseline || baseline === latest) return null;
+  const changelog = diffSnapshots(baseline, latest);
+  return isChangelogEmpty(changelog) ? null : changelog;
+}
+
+export async function markChangesSeen(trackerId: string, tab: string): Promise<void> {
+  const history = await loadHistory(trackerId, tab);
+  if (history.snapshots.length === 0) return;
+  await saveHistory(trackerId, tab, { ...history, seenAt: Date.now() });
+}
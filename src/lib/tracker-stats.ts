@@ -0,0 +1,113 @@
+import type { Era, TALeak } from "@/src/types";
+import { forEachEraTrack } from "./view-utils";
+import { getAllTrackUrls, getSourceDisplayName } from "./track-utils";
+import { getTrackSource } from "./resolve-url";
+import { parseTrackLength } from "./playlists";
+import { parseTrackDate } from "./track-query";
+
+export interface Breakdown {
+  label: string;
+  count: number;
+}
+
+export interface SourceBreakdown extends Breakdown {
+  playable: number;
+}
+
+export interface TrackerStats {
+  tracks: number;
+  playable: number;
+  /** Summed `track_length` in seconds, over the `timedTracks` that have one. */
+  runtime: number;
+  timedTracks: number;
+  sources: SourceBreakdown[];
+  qualities: Breakdown[];
+  availability: Breakdown[];
+  /** Oldest year first. */
+  leaksByYear: Breakdown[];
+}
+
+export interface EraStats {
+  name: string;
+  stats: TrackerStats;
+}
+
+const NO_LINK = "No link";
+const UNKNOWN = "Unknown";
+
+function tally(counts: Map<string, number>, label: string) {
+  counts.set(label, (counts.get(label) ?? 0) + 1);
+}
+
+function sorted(counts: Map<string, number>): Breakdown[] {
+  return [...counts].map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+function summarize(tracks: TALeak[], isPlayable: (track: TALeak) => boolean): TrackerStats {
+  const sources = new Map<string, SourceBreakdown>();
+  const qualities = new Map<string, number>();
+  const availability = new Map<string, number>();
+  const years = new Map<string, number>();
+  let playable = 0;
+  let runtime = 0;
+  let timedTracks = 0;
+  for (const track of tracks) {
+    const url = getAllTrackUrls(track)[0];
+    const label = url ? getSourceDisplayName(getTrackSource(url)) : NO_LINK;
+    const source = sources.get(label) ?? { label, count: 0, playable: 0 };
+    source.count++;
+    if (isPlayable(track)) {
+      source.playable++;
+      playable++;
+    }
+    sources.set(label, source);
+    tally(qualities, track.quality?.trim() || UNKNOWN);
+    tally(availability, track.available_length?.trim() || UNKNOWN);
+    const leaked = parseTrackDate(track.leak_date);
+    if (leaked !== null) tally(years, String(new Date(leaked).getUTCFullYear()));
+    const length = parseTrackLength(track.track_length);
+    if (length !== null) {
+      runtime += length;
+      timedTracks++;
+    }
+  }
+  return {
+    tracks: tracks.length,
+    playable,
+    runtime,
+    timedTracks,
+    sources: [...sources.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    qualities: sorted(qualities),
+    availability: sorted(availability),
+    leaksByYear: [...years].map(([label, count]) => ({ label, count })).sort((a, b) => a.label.localeCompare(b.label)),
+  };
+}
+
+/**
+ * Whole-tracker and per-era statistics. Flat trackers are split by each
+ * track's own era name.
+ */
+export function computeTrackerStats(
+  eras: Record<string, Era>,
+  isPlayable: (track: TALeak) => boolean
+): { overall: TrackerStats; eras: EraStats[] } {
+  const all: TALeak[] = [];
+  const byEra = new Map<string, TALeak[]>();
+  forEachEraTrack(eras, (track, era) => {
+    all.push(track);
+    const name = track.eraName || era.name || UNKNOWN;
+    const list = byEra.get(name) ?? [];
+    list.push(track);
+    byEra.set(name, list);
+  });
+  return {
+    overall: summarize(all, isPlayable),
+    eras: [...byEra].map(([name, tracks]) => ({ name, stats: summarize(tracks, isPlayable) })),
+  };
+}
+
+export function formatRuntime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
@@ -1,5 +1,4 @@
-import type { Era, TALeak, TrackerResponse } from "@/src/types";
-import { getCache, setCache } from "@/src/lib/tracker-cache";
+import type { Era, TALeak } from "@/src/types";
 
 export function forEachEraTrack(eras: Record<string, Era>, cb: (track: TALeak, era: Era) => boolean | void): void {
   for (const era of Object.values(eras)) {
@@ -13,16 +12,6 @@ export function forEachEraTrack(eras: Record<string, Era>, cb: (track: TALeak, e
   }
 }
 
-export function mergeAndCache(
-  id: string,
-  cacheKey: string | undefined,
-  trackerData: TrackerResponse,
-  newResolved: Record<string, string | null>
-): void {
-  const existing = getCache(id, cacheKey)?.resolvedUrls || {};
-  setCache(id, trackerData, { ...existing, ...newResolved }, cacheKey);
-}
-
 const VIDEO_EXTENSIONS = /\.(mp4|webm|mkv|mov|avi|flv|wmv|m4v|ogv|ogm)(\?|$)/i;
 export function isVideoUrl(url: string): boolean {
   try {
@@ -31,6 +31,7 @@ import { ErrorMessage, NoResultsMessage } from "@/src/components/home/messages";
 import { ArtistGridDisplay } from "@/src/components/home/artist-card";
 import { FilterControls, HeaderActions, HomeHeaderCenter } from "@/src/components/home/header";
 import { Footer } from "@/src/components/home/footer";
+import { TrackSearchResults } from "@/src/components/home/track-results";
 import { useHeaderSlots } from "@/src/components/layout";
 const LazyAnnouncementModal = lazy(() => import("@/src/components/home/modals").then((m) => ({ default: m.AnnouncementModal })));
 const LazyDonationModal = lazy(() => import("@/src/components/home/modals").then((m) => ({ default: m.DonationModal })));
@@ -376,6 +377,7 @@ export default function ArtistGallery() {
       ) : (
         <>
           <main className="max-w-7xl mx-auto px-4 sm:px-6 pt-6 sm:pt-8" aria-hidden={!!activeModal}>
+            <TrackSearchResults query={deferredQuery} />
             {filteredArtists.length > 0 ? (
               <ArtistGridDisplay
                 artists={filteredArtists}
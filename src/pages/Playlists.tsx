@@ -0,0 +1,323 @@
+import { useState, useRef, useCallback } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  ArrowUp,
+  ArrowDown,
+  Download,
+  ListMusic,
+  Loader2,
+  Pencil,
+  Play,
+  Plus,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { usePageMeta } from "@/src/hooks/use-page-meta";
+import { usePlayer } from "../providers";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  createPlaylist,
+  deletePlaylist,
+  entryToTrack,
+  exportPlaylist,
+  getPlaylists,
+  importPlaylist,
+  moveEntry,
+  removeFromPlaylist,
+  renamePlaylist,
+  resolvePlaylistEntry,
+  PLAYLIST_MIME_TYPES,
+  type Playlist,
+  type PlaylistEntry,
+  type PlaylistFormat,
+} from "@/src/lib/playlists";
+import { getSourceDisplayName } from "@/src/lib/track-utils";
+import { getTrackSource } from "@/src/lib/resolve-url";
+
+const EXPORT_FORMATS: Array<{ format: PlaylistFormat; label: string }> = [
+  { format: "m3u8", label: "M3U8" },
+  { format: "xspf", label: "XSPF" },
+  { format: "json", label: "ArtistGrid JSON" },
+];
+
+function saveFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.style.cssText = "display:none";
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => { document.body.removeChild(a); URL.revokeObjectURL(url); }, 500);
+}
+
+export default function Playlists() {
+  usePageMeta({ title: "Playlists - ArtistGrid", description: "Your playlists across every tracker.", url: "https://artistgrid.cx/playlists" });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { playTrack, addToQueue, clearQueue, state: playerState } = usePlayer();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [playlists, setPlaylists] = useState<Playlist[]>(() => getPlaylists());
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = playlists.find((p) => p.id === searchParams.get("id")) ?? playlists[0] ?? null;
+
+  const select = (id: string) => setSearchParams({ id }, { replace: true });
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    const playlist = createPlaylist(newName);
+    setPlaylists(getPlaylists());
+    setNewName("");
+    select(playlist.id);
+  };
+
+  const handleDelete = (playlist: Playlist) => {
+    if (!window.confirm(`Delete "${playlist.name}"?`)) return;
+    setPlaylists(deletePlaylist(playlist.id));
+    toast({ title: "Playlist deleted" });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const playlist = importPlaylist(await file.text(), file.name);
+      setPlaylists(getPlaylists());
+      select(playlist.id);
+      toast({ title: `Imported ${playlist.name}`, description: `${playlist.entries.length} track${playlist.entries.length !== 1 ? "s" : ""}` });
+    } catch (e) {
+      toast({ title: "Import failed", description: e instanceof Error ? e.message : "Unsupported playlist file" });
+    }
+  };
+
+  const handleExport = async (playlist: Playlist, format: PlaylistFormat) => {
+    setBusy(true);
+    try {
+      const locations = new Map<string, string>();
+      if (format !== "json") {
+        const resolved = await Promise.all(playlist.entries.map((e) => resolvePlaylistEntry(e)));
+        resolved.forEach((r, i) => { if (r) locations.set(playlist.entries[i].url, r.playableUrl); });
+      }
+      const name = playlist.name.replace(/[<>:"/\\|?*]/g, "_").trim() || "playlist";
+      saveFile(exportPlaylist(playlist, format, locations), `${name}.${format}`, PLAYLIST_MIME_TYPES[format]);
+    } catch (e) {
+      toast({ title: "Export failed", description: e instanceof Error ? e.message : "Could not export the playlist" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const playFrom = useCallback(
+    async (playlist: Playlist, startIndex: number) => {
+      const entries = playlist.entries.slice(startIndex);
+      let started = false;
+      for (const entry of entries) {
+        const resolved = await resolvePlaylistEntry(entry);
+        if (!resolved) continue;
+        const track = entryToTrack(entry, resolved.url, resolved.playableUrl);
+        if (!started) {
+          clearQueue();
+          playTrack(track);
+          started = true;
+        } else {
+          addToQueue(track);
+        }
+      }
+      if (!started) toast({ title: "Nothing playable", description: "None of these tracks could be resolved" });
+    },
+    [clearQueue, playTrack, addToQueue, toast]
+  );
+
+  const isEntryPlaying = (entry: PlaylistEntry) =>
+    !!playerState.currentTrack && (entry.mirrors.includes(playerState.currentTrack.url) || playerState.currentTrack.url === entry.url);
+
+  return (
+    <div className="min-h-screen bg-black text-white pb-32">
+      <div className="max-w-5xl mx-auto px-4 py-6 sm:py-8">
+        <button
+          type="button"
+          onClick={() => navigate(-1)}
+          className="flex items-center gap-2 text-neutral-400 hover:text-white text-sm mb-6 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <div className="flex items-center justify-between gap-3 mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold">Playlists</h1>
+          <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} className="glass-flat rounded-xl text-white/60 hover:text-white">
+            <Upload className="w-4 h-4 mr-1.5" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".m3u,.m3u8,.xspf,.json,audio/x-mpegurl,application/xspf+xml,application/json"
+            className="hidden"
+            aria-label="Import playlist file"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleImport(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-[240px_1fr]">
+          <aside className="space-y-2">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCreate();
+              }}
+            >
+              <Input
+                placeholder="New playlist..."
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                aria-label="New playlist name"
+                className="glass-flat rounded-xl text-white border-0 focus-visible:ring-1 focus-visible:ring-white/30"
+              />
+              <Button type="submit" size="icon" disabled={!newName.trim()} aria-label="Create playlist" className="bg-white text-black hover:bg-neutral-200 rounded-xl flex-shrink-0">
+                <Plus className="w-4 h-4" />
+              </Button>
+            </form>
+            {playlists.map((p) => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => select(p.id)}
+                className={`w-full flex items-center gap-2 px-3 py-2.5 rounded-xl text-sm text-left transition-colors ${
+                  selected?.id === p.id ? "bg-white/10 text-white" : "text-white/60 hover:bg-white/[0.05] hover:text-white"
+                }`}
+              >
+                <ListMusic className="w-4 h-4 flex-shrink-0" />
+                <span className="flex-1 truncate">{p.name}</span>
+                <span className="text-xs text-white/40">{p.entries.length}</span>
+              </button>
+            ))}
+          </aside>
+          <section className="glass rounded-2xl p-4 sm:p-5 min-h-[300px]">
+            {!selected ? (
+              <div className="text-center py-16 flex flex-col items-center">
+                <ListMusic className="w-12 h-12 text-neutral-700 mb-3" />
+                <h3 className="text-base font-medium text-neutral-300">No Playlists</h3>
+                <p className="text-sm text-neutral-500 mt-1">
+                  Add tracks from any tracker with "Add to Playlist", or import an M3U, XSPF or JSON file
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  {renaming === selected.id ? (
+                    <form
+                      className="flex-1 flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        const value = new FormData(e.currentTarget).get("name");
+                        setPlaylists(renamePlaylist(selected.id, String(value ?? "")));
+                        setRenaming(null);
+                      }}
+                    >
+                      <Input name="name" defaultValue={selected.name} autoFocus aria-label="Playlist name" className="glass-flat rounded-xl text-white border-0 h-9" />
+                      <Button type="submit" size="sm" className="bg-white text-black hover:bg-neutral-200 h-9">Save</Button>
+                      <Button type="button" variant="ghost" size="icon" onClick={() => setRenaming(null)} aria-label="Cancel rename" className="h-9 w-9 text-white/40 hover:text-white">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </form>
+                  ) : (
+                    <h2 className="flex-1 min-w-0 text-lg font-semibold truncate">{selected.name}</h2>
+                  )}
+                  <Button size="sm" onClick={() => void playFrom(selected, 0)} disabled={selected.entries.length === 0} className="bg-white text-black hover:bg-neutral-200 rounded-xl">
+                    <Play className="w-4 h-4 mr-1.5 fill-current" />
+                    Play
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" disabled={busy || selected.entries.length === 0} aria-label="Export playlist" className="glass-flat rounded-xl text-white/60 hover:text-white h-9 w-9">
+                        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-44 glass-elevated border-0 rounded-2xl text-white/80 p-1">
+                      {EXPORT_FORMATS.map(({ format, label }) => (
+                        <DropdownMenuItem key={format} onClick={() => void handleExport(selected, format)} className="rounded-xl cursor-pointer">
+                          {label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button variant="ghost" size="icon" onClick={() => setRenaming(selected.id)} aria-label="Rename playlist" className="glass-flat rounded-xl text-white/60 hover:text-white h-9 w-9">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(selected)} aria-label="Delete playlist" className="glass-flat rounded-xl text-white/60 hover:text-red-400 h-9 w-9">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                {selected.entries.length === 0 ? (
+                  <p className="text-sm text-neutral-500 text-center py-12">This playlist is empty</p>
+                ) : (
+                  <ol className="space-y-1.5">
+                    {selected.entries.map((entry, i) => (
+                      <li
+                        key={`${entry.id}-${i}`}
+                        className={`flex items-center gap-2 sm:gap-3 p-2.5 rounded-xl ${isEntryPlaying(entry) ? "bg-white/[0.08] border border-white/[0.15]" : "glass-flat"}`}
+                      >
+                        <span className="w-6 text-right text-xs text-white/40 tabular-nums flex-shrink-0">{i + 1}</span>
+                        <button
+                          type="button"
+                          onClick={() => void playFrom(selected, i)}
+                          aria-label={`Play ${entry.name}`}
+                          className="w-8 h-8 flex-shrink-0 flex items-center justify-center rounded-full glass text-white hover:scale-105 transition-transform"
+                        >
+                          <Play className="w-3.5 h-3.5 fill-current" />
+                        </button>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-semibold truncate">{entry.name}</div>
+                          <div className="text-xs text-neutral-500 truncate">
+                            {[entry.artistName, entry.eraName, entry.extra].filter(Boolean).join(" · ")}
+                          </div>
+                        </div>
+                        {entry.trackerId && (
+                          <Link
+                            to={`/view?id=${encodeURIComponent(entry.trackerId)}${entry.artistName ? `&artist=${encodeURIComponent(entry.artistName)}` : ""}`}
+                            className="hidden sm:inline text-[10px] px-1.5 py-0.5 bg-white/5 rounded text-neutral-400 hover:text-white"
+                          >
+                            {entry.tab || "Tracker"}
+                          </Link>
+                        )}
+                        <span className="hidden sm:inline text-[10px] px-1.5 py-0.5 bg-white/5 rounded text-neutral-400">
+                          {getSourceDisplayName(getTrackSource(entry.url))}
+                          {entry.mirrors.length > 1 && ` +${entry.mirrors.length - 1}`}
+                        </span>
+                        {entry.trackLength && <span className="text-xs text-neutral-500 tabular-nums">{entry.trackLength}</span>}
+                        <Button variant="ghost" size="icon" disabled={i === 0} onClick={() => setPlaylists(moveEntry(selected.id, i, i - 1))} aria-label={`Move ${entry.name} up`} className="w-7 h-7 text-neutral-500 hover:text-white">
+                          <ArrowUp className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" disabled={i === selected.entries.length - 1} onClick={() => setPlaylists(moveEntry(selected.id, i, i + 1))} aria-label={`Move ${entry.name} down`} className="w-7 h-7 text-neutral-500 hover:text-white">
+                          <ArrowDown className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setPlaylists(removeFromPlaylist(selected.id, i))} aria-label={`Remove ${entry.name}`} className="w-7 h-7 text-neutral-500 hover:text-red-400">
+                          <X className="w-3.5 h-3.5" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import {
   Mic2,
   Download,
@@ -9,15 +11,46 @@ import {
   FileSpreadsheet,
   Radio,
   Type,
+  AudioLines,
+  SlidersHorizontal,
+  ListFilter,
+  Keyboard,
 } from "lucide-react";
 import { useSettings } from "@/src/hooks/use-settings";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Select } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { AudioControls } from "@/src/components/audio-controls";
 import { clearCache } from "@/src/lib/tracker-cache";
+import { clearResolvedUrls } from "@/src/lib/resolved-url-cache";
+import { MAX_CROSSFADE_SECONDS, type PlaybackEngine } from "@/src/lib/crossfade";
 import { clearCacheAndReload } from "@/src/lib/stale-reload";
-import { Database, Globe, Trash2 } from "lucide-react";
+import { getPinnedTrackers, unpinTracker, type PinnedTracker } from "@/src/lib/offline-pins";
+import { DEFAULT_SETTINGS, type Settings as AppSettings } from "@/src/lib/settings";
+import { connectLibreFm, getScrobbler, type ConnectionResult } from "@/src/lib/scrobblers";
+import { SUGGESTED_SCROBBLE_RULES, cleanTitle, validateTitlePattern, type FeaturingStyle, type ScrobbleRules } from "@/src/lib/scrobble-rules";
+import { TEMPLATE_VARIABLES } from "@/src/lib/download-template";
+import { COMMANDS, getCommand, type CommandGroup } from "@/src/lib/commands";
+import { comboFromEvent, findConflicts, formatCombo, normalizeCombo, resolveKeymap } from "@/src/lib/keymap";
+import { clearDownloadHistory } from "@/src/lib/download-history";
+import {
+  checkAllEndpoints,
+  DEFAULT_API_BASE,
+  getEndpointHealth,
+  normalizeEndpoint,
+  type EndpointHealth,
+} from "@/src/lib/api-endpoints";
+import {
+  approveScrobbles,
+  clearScrobbleLog,
+  discardScrobbles,
+  getScrobbleLog,
+  retryFailedScrobbles,
+  subscribeScrobbleLog,
+  type ScrobbleEntry,
+} from "@/src/lib/scrobble-queue";
+import { Database, Globe, Trash2, Pin, Server, ArrowUp, History } from "lucide-react";
 
 function SettingRow({ label, description, children }: { label: string; description?: string; children: React.ReactNode }) {
   return (
@@ -45,6 +78,481 @@ function Section({ icon: Icon, title, children }: { icon: React.ElementType; tit
   );
 }
 
+function PinnedTrackers({ onNavigate }: { onNavigate: () => void }) {
+  const [pins, setPins] = useState<PinnedTracker[]>(() => getPinnedTrackers());
+  if (pins.length === 0) {
+    return <SettingRow label="No pinned trackers" description="Use Pin Offline on a tracker page to keep it available without a connection."><span /></SettingRow>;
+  }
+  return (
+    <>
+      {pins.map((pin) => (
+        <SettingRow
+          key={pin.id}
+          label={pin.name}
+          description={`Pinned ${new Date(pin.pinnedAt).toLocaleDateString()} · ${pin.tabs} tabs · ${pin.images} images${pin.includeAudio ? ` · ${pin.audio} tracks` : ""}`}
+        >
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" asChild className="text-white/60 hover:text-white">
+              <Link to={`/view?id=${encodeURIComponent(pin.id)}`} onClick={onNavigate}>Open</Link>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={async () => {
+                await unpinTracker(pin.id);
+                setPins(getPinnedTrackers());
+              }}
+            >
+              Unpin
+            </Button>
+          </div>
+        </SettingRow>
+      ))}
+    </>
+  );
+}
+
+const SCROBBLE_LOG_ROWS = 50;
+
+function describeScrobble(entry: ScrobbleEntry): string {
+  const target = getScrobbler(entry.target)?.label ?? entry.target;
+  const when = new Date(entry.timestamp * 1000).toLocaleString();
+  if (entry.status === "sent") return `${target} · Sent · ${when}`;
+  const tries = entry.attempts === 1 ? "1 attempt" : `${entry.attempts} attempts`;
+  const error = entry.lastError ? ` · ${entry.lastError}` : "";
+  if (entry.status === "failed") return `${target} · Failed after ${tries}${error}`;
+  if (entry.status === "review") return `${target} · Waiting for review · ${when}`;
+  return entry.attempts === 0
+    ? `${target} · Queued · ${when}`
+    : `${target} · Retrying ${new Date(entry.nextAttemptAt).toLocaleTimeString()} · ${tries}${error}`;
+}
+
+function ReviewScrobble({ entries }: { entries: ScrobbleEntry[] }) {
+  const [artist, setArtist] = useState(entries[0].artist);
+  const [track, setTrack] = useState(entries[0].track);
+  const [album, setAlbum] = useState(entries[0].album ?? "");
+  const ids = entries.map((e) => e.id);
+  const targets = entries.map((e) => getScrobbler(e.target)?.label ?? e.target).join(", ");
+  return (
+    <div className="py-3 space-y-2">
+      <p className="text-[11px] text-white/50">
+        Review before sending to {targets} · played {new Date(entries[0].timestamp * 1000).toLocaleString()}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <input type="text" value={artist} onChange={(e) => setArtist(e.target.value)} aria-label="Scrobble Artist" placeholder="Artist" className={inputClass} />
+        <input type="text" value={track} onChange={(e) => setTrack(e.target.value)} aria-label="Scrobble Title" placeholder="Title" className={inputClass} />
+        <input type="text" value={album} onChange={(e) => setAlbum(e.target.value)} aria-label="Scrobble Album" placeholder="Album" className={inputClass} />
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!artist.trim() || !track.trim()}
+          onClick={() => void approveScrobbles(ids, { artist: artist.trim(), track: track.trim(), album: album.trim() || undefined })}
+        >
+          Approve
+        </Button>
+        <Button variant="ghost" size="sm" className="text-white/60 hover:text-white" onClick={() => void discardScrobbles(ids)}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function groupForReview(entries: ScrobbleEntry[]): ScrobbleEntry[][] {
+  const groups = new Map<string, ScrobbleEntry[]>();
+  for (const entry of entries) {
+    if (entry.status !== "review") continue;
+    const key = `${entry.timestamp}\u0000${entry.artist}\u0000${entry.track}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return [...groups.values()];
+}
+
+function ScrobbleLog() {
+  const [entries, setEntries] = useState<ScrobbleEntry[]>([]);
+  useEffect(() => {
+    let active = true;
+    const refresh = () =>
+      getScrobbleLog().then((log) => {
+        if (active) setEntries(log);
+      });
+    refresh();
+    const unsubscribe = subscribeScrobbleLog(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+  const pending = entries.filter((e) => e.status === "pending").length;
+  const failed = entries.filter((e) => e.status === "failed").length;
+  const review = groupForReview(entries);
+  return (
+    <>
+      {review.map((group) => (
+        <ReviewScrobble key={group[0].id} entries={group} />
+      ))}
+      <SettingRow
+        label="Scrobble Queue"
+        description={`${pending} waiting · ${failed} failed. Scrobbles made offline are kept and sent in batches once you reconnect.`}
+      >
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" disabled={failed === 0} onClick={() => void retryFailedScrobbles()}>
+            Retry Failed
+          </Button>
+          <Button variant="outline" size="sm" disabled={!entries.some((e) => e.status === "sent" || e.status === "failed")} onClick={() => void clearScrobbleLog()}>
+            Clear Log
+          </Button>
+        </div>
+      </SettingRow>
+      {entries.filter((e) => e.status !== "review").slice(0, SCROBBLE_LOG_ROWS).map((entry) => (
+        <SettingRow key={entry.id} label={`${entry.artist} - ${entry.track}`} description={describeScrobble(entry)}>
+          <span />
+        </SettingRow>
+      ))}
+    </>
+  );
+}
+
+const inputClass = "bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white/80 w-64 placeholder:text-white/20";
+
+function ConnectionTest({ scrobbler, settings }: { scrobbler: string; settings: AppSettings["scrobbling"] }) {
+  const [result, setResult] = useState<ConnectionResult | null>(null);
+  const [testing, setTesting] = useState(false);
+  const test = getScrobbler(scrobbler)?.testConnection;
+  if (!test) return null;
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      setResult(await test(settings));
+    } finally {
+      setTesting(false);
+    }
+  };
+  return (
+    <SettingRow label="Connection" description={result ? result.message : "Check the settings above without scrobbling anything"}>
+      <Button variant="outline" size="sm" disabled={testing} onClick={handleTest}>
+        {testing ? "Testing..." : "Test Connection"}
+      </Button>
+    </SettingRow>
+  );
+}
+
+function ScrobbleRulesEditor({ rules, onChange }: { rules: ScrobbleRules; onChange: (rules: ScrobbleRules) => void }) {
+  const [tracker, setTracker] = useState("");
+  const [artist, setArtist] = useState("");
+  const [pattern, setPattern] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [patternError, setPatternError] = useState<string | null>(null);
+  const [sample, setSample] = useState("");
+
+  const addOverride = () => {
+    if (!tracker.trim() || !artist.trim()) return;
+    const rest = rules.artistOverrides.filter((o) => o.tracker.toLowerCase() !== tracker.trim().toLowerCase());
+    onChange({ ...rules, artistOverrides: [...rest, { tracker: tracker.trim(), artist: artist.trim() }] });
+    setTracker("");
+    setArtist("");
+  };
+  const addTitleRule = () => {
+    const error = validateTitlePattern(pattern);
+    setPatternError(error);
+    if (error) return;
+    onChange({ ...rules, titleRules: [...rules.titleRules, { pattern, replacement }] });
+    setPattern("");
+    setReplacement("");
+  };
+
+  const missingSuggestions = SUGGESTED_SCROBBLE_RULES.titleRules.filter(
+    (suggested) => !rules.titleRules.some((r) => r.pattern === suggested.pattern && r.replacement === suggested.replacement)
+  );
+  const suggestionsApplied = missingSuggestions.length === 0 && rules.featuring !== "off";
+  const applySuggestions = () =>
+    onChange({
+      ...rules,
+      titleRules: [...rules.titleRules, ...missingSuggestions],
+      featuring: rules.featuring === "off" ? SUGGESTED_SCROBBLE_RULES.featuring : rules.featuring,
+    });
+
+  return (
+    <>
+      <SettingRow label="Artist Overrides" description="Scrobble a tracker under a different artist. Match by tracker ID or the artist name shown on the tracker.">
+        <span />
+      </SettingRow>
+      {rules.artistOverrides.map((o, i) => (
+        <SettingRow key={`${o.tracker}-${i}`} label={`${o.tracker} → ${o.artist}`}>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white/60 hover:text-white"
+            onClick={() => onChange({ ...rules, artistOverrides: rules.artistOverrides.filter((_, j) => j !== i) })}
+          >
+            Remove
+          </Button>
+        </SettingRow>
+      ))}
+      <div className="flex flex-wrap items-center gap-2 py-3">
+        <input type="text" value={tracker} onChange={(e) => setTracker(e.target.value)} placeholder="Tracker ID or name" aria-label="Override Tracker" className={inputClass} />
+        <input type="text" value={artist} onChange={(e) => setArtist(e.target.value)} placeholder="Scrobble as artist" aria-label="Override Artist" className={inputClass} />
+        <Button variant="outline" size="sm" disabled={!tracker.trim() || !artist.trim()} onClick={addOverride}>
+          Add Override
+        </Button>
+      </div>
+
+      <SettingRow label="Title Cleanup" description="Regular expressions replaced in track titles, in order, ignoring case.">
+        <span />
+      </SettingRow>
+      <SettingRow label="Suggested Rules" description="Drop [V2]-style tags and (prod. …) credits, and put featured artists in the title">
+        <Button variant="ghost" size="sm" className="text-white/60 hover:text-white" disabled={suggestionsApplied} onClick={applySuggestions}>
+          {suggestionsApplied ? "Applied" : "Apply"}
+        </Button>
+      </SettingRow>
+      {rules.titleRules.map((rule, i) => (
+        <SettingRow key={`${rule.pattern}-${i}`} label={`/${rule.pattern}/`} description={rule.replacement ? `→ ${rule.replacement}` : "→ removed"}>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white/60 hover:text-white"
+            onClick={() => onChange({ ...rules, titleRules: rules.titleRules.filter((_, j) => j !== i) })}
+          >
+            Remove
+          </Button>
+        </SettingRow>
+      ))}
+      <div className="py-3 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="text" value={pattern} onChange={(e) => setPattern(e.target.value)} placeholder="Pattern, e.g. \s*\[V\d+\]" aria-label="Title Pattern" className={inputClass} />
+          <input type="text" value={replacement} onChange={(e) => setReplacement(e.target.value)} placeholder="Replacement (empty removes)" aria-label="Title Replacement" className={inputClass} />
+          <Button variant="outline" size="sm" disabled={!pattern} onClick={addTitleRule}>
+            Add Rule
+          </Button>
+        </div>
+        {patternError && <p className="text-[11px] text-red-400">{patternError}</p>}
+      </div>
+      <SettingRow label="Preview" description={sample ? `Scrobbled as: ${cleanTitle(sample, rules.titleRules)}` : "Type a title to see how it will be scrobbled"}>
+        <input type="text" value={sample} onChange={(e) => setSample(e.target.value)} placeholder="Track title [V2]" aria-label="Preview Title" className={inputClass} />
+      </SettingRow>
+    </>
+  );
+}
+
+function LibreFmAccount({
+  librefm,
+  onChange,
+}: {
+  librefm: AppSettings["scrobbling"]["librefm"];
+  onChange: (librefm: AppSettings["scrobbling"]["librefm"]) => void;
+}) {
+  const [username, setUsername] = useState(librefm.username);
+  const [password, setPassword] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  if (librefm.sessionKey) {
+    return (
+      <SettingRow label={`Connected as ${librefm.username}`} description="Scrobbles use the saved session; your password is not stored">
+        <Button variant="outline" size="sm" onClick={() => onChange({ ...librefm, sessionKey: "" })}>
+          Disconnect
+        </Button>
+      </SettingRow>
+    );
+  }
+  const handleConnect = async () => {
+    setConnecting(true);
+    try {
+      const result = await connectLibreFm(librefm, username.trim(), password);
+      setMessage(result.message);
+      if (result.ok && "sessionKey" in result && result.sessionKey) {
+        setPassword("");
+        onChange({ ...librefm, username: username.trim(), sessionKey: result.sessionKey });
+      }
+    } finally {
+      setConnecting(false);
+    }
+  };
+  return (
+    <>
+      <SettingRow label="Username">
+        <input type="text" value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Your Libre.fm username" aria-label="Libre.fm Username" className={inputClass} />
+      </SettingRow>
+      <SettingRow label="Password" description="Only used to sign in; a session key is saved instead">
+        <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Your Libre.fm password" aria-label="Libre.fm Password" className={inputClass} />
+      </SettingRow>
+      <SettingRow label="Connection" description={message ?? "Sign in to check your account and start scrobbling"}>
+        <Button variant="outline" size="sm" disabled={connecting} onClick={handleConnect}>
+          {connecting ? "Connecting..." : "Connect"}
+        </Button>
+      </SettingRow>
+    </>
+  );
+}
+
+function ShortcutsEditor({ overrides, onChange }: { overrides: Record<string, string[]>; onChange: (id: string, combos: string[] | undefined) => void }) {
+  const [recording, setRecording] = useState<string | null>(null);
+  const keymap = resolveKeymap(overrides);
+  const conflicts = findConflicts(keymap);
+  const groups: CommandGroup[] = ["Player", "Tracker", "General"];
+
+  const record = (id: string, e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      setRecording(null);
+      return;
+    }
+    const combo = comboFromEvent(e);
+    if (!combo) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (!keymap[id].some((c) => normalizeCombo(c) === combo)) onChange(id, [...keymap[id], combo]);
+    setRecording(null);
+  };
+
+  return (
+    <>
+      {groups.map((group) => (
+        <Section key={group} icon={Keyboard} title={`${group} Shortcuts`}>
+          {COMMANDS.filter((c) => c.group === group).map((command) => {
+            const combos = keymap[command.id];
+            const clashes = [...new Set(combos.flatMap((c) => conflicts.get(normalizeCombo(c)) ?? []))].filter((id) => id !== command.id);
+            return (
+              <SettingRow
+                key={command.id}
+                label={command.label}
+                description={clashes.length > 0 ? `Conflicts with ${clashes.map((id) => getCommand(id)?.label ?? id).join(", ")}` : undefined}
+              >
+                <div className="flex items-center gap-1.5 flex-wrap justify-end max-w-64">
+                  {combos.map((combo) => (
+                    <button
+                      key={combo}
+                      type="button"
+                      onClick={() => onChange(command.id, combos.filter((c) => c !== combo))}
+                      aria-label={`Remove ${formatCombo(combo)} from ${command.label}`}
+                      title="Remove"
+                      className={`text-[11px] font-mono rounded-md px-1.5 py-0.5 border ${
+                        conflicts.has(normalizeCombo(combo)) ? "border-amber-400/60 text-amber-300" : "border-white/15 text-white/70"
+                      } hover:border-red-400/60 hover:text-red-300`}
+                    >
+                      {formatCombo(combo)}
+                    </button>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRecording(recording === command.id ? null : command.id)}
+                    onKeyDown={(e) => recording === command.id && record(command.id, e)}
+                    onBlur={() => recording === command.id && setRecording(null)}
+                    aria-label={`Add shortcut for ${command.label}`}
+                    className="text-white/60 hover:text-white h-7 px-2 text-xs"
+                  >
+                    {recording === command.id ? "Press keys..." : "Add"}
+                  </Button>
+                  {overrides[command.id] && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onChange(command.id, undefined)}
+                      aria-label={`Reset ${command.label} shortcut`}
+                      className="text-white/60 hover:text-white h-7 px-2 text-xs"
+                    >
+                      Reset
+                    </Button>
+                  )}
+                </div>
+              </SettingRow>
+            );
+          })}
+        </Section>
+      ))}
+    </>
+  );
+}
+
+function describeHealth(health: EndpointHealth | null): string {
+  if (!health) return "Not checked yet";
+  if (!health.ok) return health.status ? `Failing (HTTP ${health.status})` : "Unreachable";
+  return health.latency !== null ? `Healthy · ${health.latency} ms` : "Healthy";
+}
+
+function ApiEndpoints({ endpoints, onChange }: { endpoints: string[]; onChange: (endpoints: string[]) => void }) {
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [health, setHealth] = useState<Record<string, EndpointHealth | null>>(() =>
+    Object.fromEntries(endpoints.map((e) => [e, getEndpointHealth(e)]))
+  );
+
+  const handleAdd = () => {
+    const url = normalizeEndpoint(draft);
+    if (!url) {
+      setError("Enter a full http(s) URL");
+      return;
+    }
+    if (!endpoints.includes(url)) onChange([...endpoints, url]);
+    setDraft("");
+    setError(null);
+  };
+
+  const handleCheck = async () => {
+    setChecking(true);
+    try {
+      setHealth(await checkAllEndpoints(endpoints));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <>
+      {endpoints.map((url, i) => (
+        <SettingRow key={url} label={url} description={`${i === 0 ? "Primary" : `Fallback ${i}`} · ${describeHealth(health[url] ?? null)}`}>
+          <div className="flex items-center gap-2">
+            {i > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label={`Move ${url} up`}
+                onClick={() => onChange([...endpoints.slice(0, i - 1), url, endpoints[i - 1], ...endpoints.slice(i + 1)])}
+                className="text-white/60 hover:text-white"
+              >
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+            )}
+            <Button variant="outline" size="sm" disabled={endpoints.length <= 1} onClick={() => onChange(endpoints.filter((e) => e !== url))}>
+              Remove
+            </Button>
+          </div>
+        </SettingRow>
+      ))}
+      <SettingRow label="Add Endpoint" description={error ?? "Point the app at a self-hosted instance of the tracker API"}>
+        <div className="flex items-center gap-2">
+          <input
+            type="url"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+            placeholder="https://tracker.example.com"
+            aria-label="Tracker API URL"
+            className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white/80 w-48 placeholder:text-white/20"
+          />
+          <Button variant="outline" size="sm" onClick={handleAdd}>
+            Add
+          </Button>
+        </div>
+      </SettingRow>
+      <SettingRow label="Health Check" description="Requests fail over to the next endpoint on server errors or timeouts">
+        <div className="flex items-center gap-2">
+          {(endpoints.length !== 1 || endpoints[0] !== DEFAULT_API_BASE) && (
+            <Button variant="ghost" size="sm" onClick={() => onChange([DEFAULT_API_BASE])} className="text-white/60 hover:text-white">
+              Reset
+            </Button>
+          )}
+          <Button variant="outline" size="sm" disabled={checking} onClick={() => void handleCheck()}>
+            {checking ? "Checking..." : "Check"}
+          </Button>
+        </div>
+      </SettingRow>
+    </>
+  );
+}
+
 export default function SettingsModal({ onClose }: { onClose: () => void }) {
   const { settings, update } = useSettings();
 
@@ -80,6 +588,7 @@ export default function SettingsModal({ onClose }: { onClose: () => void }) {
               <TabsTrigger value="player"><Play className="w-3 h-3 mr-1.5" />Player</TabsTrigger>
               <TabsTrigger value="scrobbling"><Radio className="w-3 h-3 mr-1.5" />Scrobbling</TabsTrigger>
               <TabsTrigger value="behavior"><Settings className="w-3 h-3 mr-1.5" />Behavior</TabsTrigger>
+              <TabsTrigger value="shortcuts"><Keyboard className="w-3 h-3 mr-1.5" />Shortcuts</TabsTrigger>
             </TabsList>
 
             <TabsContent value="lyrics" className="space-y-4">
@@ -140,6 +649,33 @@ export default function SettingsModal({ onClose }: { onClose: () => void }) {
                 </SettingRow>
               </Section>
 
+              <Section icon={AudioLines} title="Playback">
+                <SettingRow label="Playback Engine" description="Gapless starts the next queued track without a pause">
+                  <Select
+                    value={settings.player.engine}
+                    onChange={(e) => update("player", "engine", e.target.value as PlaybackEngine)}
+                    options={[
+                      { value: "standard", label: "Standard" },
+                      { value: "gapless", label: "Gapless" },
+                    ]}
+                  />
+                </SettingRow>
+                {settings.player.engine === "gapless" && (
+                  <SettingRow label="Crossfade" description={settings.player.crossfade > 0 ? `Blend tracks over ${settings.player.crossfade}s` : "Off"}>
+                    <input
+                      type="range"
+                      min={0}
+                      max={MAX_CROSSFADE_SECONDS}
+                      step={1}
+                      value={settings.player.crossfade}
+                      onChange={(e) => update("player", "crossfade", Number(e.target.value))}
+                      aria-label="Crossfade duration"
+                      className="w-40 accent-white"
+                    />
+                  </SettingRow>
+                )}
+              </Section>
+
               <Section icon={Download} title="Downloads">
                 <SettingRow label="Download as OG Filename" description="Use the original filename from notes when downloading">
                   <Switch
@@ -167,6 +703,44 @@ export default function SettingsModal({ onClose }: { onClose: () => void }) {
                     ]}
                   />
                 </SettingRow>
+                <SettingRow label="Skip Already Downloaded" description="Era downloads leave out tracks you have downloaded before">
+                  <Switch
+                    checked={settings.downloads.skipDownloaded}
+                    onCheckedChange={(v) => update("downloads", "skipDownloaded", v)}
+                  />
+                </SettingRow>
+                <SettingRow label="Download History" description="Forget which tracks have been downloaded">
+                  <Button variant="outline" size="sm" onClick={() => void clearDownloadHistory()}>
+                    Clear History
+                  </Button>
+                </SettingRow>
+                <SettingRow label="Folder Layout" description="Path of each track inside era ZIPs">
+                  <input
+                    type="text"
+                    value={settings.downloads.pathTemplate}
+                    onChange={(e) => update("downloads", "pathTemplate", e.target.value)}
+                    placeholder={DEFAULT_SETTINGS.downloads.pathTemplate}
+                    aria-label="Folder layout template"
+                    className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white/80 w-56 placeholder:text-white/20"
+                  />
+                </SettingRow>
+                <SettingRow label="Filename" description="Name of single track downloads when not using the OG filename">
+                  <input
+                    type="text"
+                    value={settings.downloads.filenameTemplate}
+                    onChange={(e) => update("downloads", "filenameTemplate", e.target.value)}
+                    placeholder={DEFAULT_SETTINGS.downloads.filenameTemplate}
+                    aria-label="Filename template"
+                    className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white/80 w-56 placeholder:text-white/20"
+                  />
+                </SettingRow>
+                <p className="px-3 py-2 text-[11px] text-white/40">
+                  Templates can use {TEMPLATE_VARIABLES.map((v) => `{${v}}`).join(" ")} or any other tracker column, e.g. {"{available_length}"}. Use / for folders.
+                </p>
+              </Section>
+
+              <Section icon={SlidersHorizontal} title="Audio">
+                <AudioControls className="p-3" />
               </Section>
             </TabsContent>
 
@@ -247,6 +821,115 @@ export default function SettingsModal({ onClose }: { onClose: () => void }) {
                     className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-white/80 w-64 placeholder:text-white/20"
                   />
                 </SettingRow>
+                <ConnectionTest scrobbler="listenbrainz" settings={settings.scrobbling} />
+              </Section>
+
+              <Section icon={Radio} title="Libre.fm">
+                <SettingRow label="Enable Libre.fm" description="Scrobble played tracks to Libre.fm or another GNU FM server">
+                  <Switch
+                    checked={settings.scrobbling.librefm.enabled}
+                    onCheckedChange={(v) => update("scrobbling", "librefm", { ...settings.scrobbling.librefm, enabled: v })}
+                  />
+                </SettingRow>
+                <SettingRow label="Server URL" description="Last.fm-compatible API of the GNU FM server">
+                  <input
+                    type="text"
+                    value={settings.scrobbling.librefm.apiUrl}
+                    onChange={(e) => update("scrobbling", "librefm", { ...settings.scrobbling.librefm, apiUrl: e.target.value })}
+                    placeholder="https://libre.fm/2.0/"
+                    aria-label="Libre.fm Server URL"
+                    className={inputClass}
+                  />
+                </SettingRow>
+                <LibreFmAccount librefm={settings.scrobbling.librefm} onChange={(librefm) => update("scrobbling", "librefm", librefm)} />
+              </Section>
+
+              <Section icon={Radio} title="Maloja">
+                <SettingRow label="Enable Maloja" description="Scrobble played tracks to a self-hosted Maloja server">
+                  <Switch
+                    checked={settings.scrobbling.maloja.enabled}
+                    onCheckedChange={(v) => update("scrobbling", "maloja", { ...settings.scrobbling.maloja, enabled: v })}
+                  />
+                </SettingRow>
+                <SettingRow label="Server URL" description="Where your Maloja instance is hosted">
+                  <input
+                    type="text"
+                    value={settings.scrobbling.maloja.url}
+                    onChange={(e) => update("scrobbling", "maloja", { ...settings.scrobbling.maloja, url: e.target.value })}
+                    placeholder="https://maloja.example.com"
+                    aria-label="Maloja Server URL"
+                    className={inputClass}
+                  />
+                </SettingRow>
+                <SettingRow label="API Key" description="Created under Settings → API Keys in Maloja">
+                  <input
+                    type="password"
+                    value={settings.scrobbling.maloja.apiKey}
+                    onChange={(e) => update("scrobbling", "maloja", { ...settings.scrobbling.maloja, apiKey: e.target.value })}
+                    placeholder="Your Maloja API key"
+                    aria-label="Maloja API Key"
+                    className={inputClass}
+                  />
+                </SettingRow>
+                <ConnectionTest scrobbler="maloja" settings={settings.scrobbling} />
+              </Section>
+
+              <Section icon={Radio} title="Webhook">
+                <SettingRow
+                  label="Enable Webhook"
+                  description='POST each scrobble as JSON: {"event": "scrobble", "artist", "track", "album", "timestamp"}'
+                >
+                  <Switch
+                    checked={settings.scrobbling.webhook.enabled}
+                    onCheckedChange={(v) => update("scrobbling", "webhook", { ...settings.scrobbling.webhook, enabled: v })}
+                  />
+                </SettingRow>
+                <SettingRow label="Webhook URL">
+                  <input
+                    type="text"
+                    value={settings.scrobbling.webhook.url}
+                    onChange={(e) => update("scrobbling", "webhook", { ...settings.scrobbling.webhook, url: e.target.value })}
+                    placeholder="https://example.com/scrobble"
+                    aria-label="Webhook URL"
+                    className={inputClass}
+                  />
+                </SettingRow>
+                <SettingRow label="Authorization Header" description="Sent as-is, e.g. Bearer <token>. Leave empty for none.">
+                  <input
+                    type="password"
+                    value={settings.scrobbling.webhook.authorization}
+                    onChange={(e) => update("scrobbling", "webhook", { ...settings.scrobbling.webhook, authorization: e.target.value })}
+                    placeholder="Bearer ..."
+                    aria-label="Webhook Authorization"
+                    className={inputClass}
+                  />
+                </SettingRow>
+                <ConnectionTest scrobbler="webhook" settings={settings.scrobbling} />
+              </Section>
+
+              <Section icon={ListFilter} title="Scrobble Rules">
+                <SettingRow label="Review Before Scrobble" description="Hold each scrobble in the log below so you can correct or discard it">
+                  <Switch
+                    checked={settings.scrobbling.rules.reviewBeforeScrobble}
+                    onCheckedChange={(v) => update("scrobbling", "rules", { ...settings.scrobbling.rules, reviewBeforeScrobble: v })}
+                  />
+                </SettingRow>
+                <SettingRow label="Featured Artists" description="Turn (feat. …) credits from the track's extra info into featured artists">
+                  <Select
+                    value={settings.scrobbling.rules.featuring}
+                    onChange={(e) => update("scrobbling", "rules", { ...settings.scrobbling.rules, featuring: e.target.value as FeaturingStyle })}
+                    options={[
+                      { value: "off", label: "Off" },
+                      { value: "title", label: "In Title" },
+                      { value: "artist", label: "In Artist" },
+                    ]}
+                  />
+                </SettingRow>
+                <ScrobbleRulesEditor rules={settings.scrobbling.rules} onChange={(rules) => update("scrobbling", "rules", rules)} />
+              </Section>
+
+              <Section icon={History} title="Scrobble Log">
+                <ScrobbleLog />
               </Section>
             </TabsContent>
 
@@ -318,9 +1001,13 @@ export default function SettingsModal({ onClose }: { onClose: () => void }) {
                 </SettingRow>
               </Section>
 
+              <Section icon={Server} title="Tracker API">
+                <ApiEndpoints endpoints={settings.api.endpoints} onChange={(endpoints) => update("api", "endpoints", endpoints)} />
+              </Section>
+
               <Section icon={Database} title="Cache">
                 <SettingRow label="Clear Tracker Cache" description="Remove cached tracker data and free up local storage">
-                  <Button variant="outline" size="sm" onClick={() => clearCache()}>
+                  <Button variant="outline" size="sm" onClick={() => { clearCache(); clearResolvedUrls(); }}>
                     Clear
                   </Button>
                 </SettingRow>
@@ -330,6 +1017,17 @@ export default function SettingsModal({ onClose }: { onClose: () => void }) {
                   </Button>
                 </SettingRow>
               </Section>
+
+              <Section icon={Pin} title="Offline">
+                <PinnedTrackers onNavigate={onClose} />
+              </Section>
+            </TabsContent>
+
+            <TabsContent value="shortcuts" className="space-y-4">
+              <p className="text-[11px] text-white/50">
+                Press {formatCombo("Mod+K")} to open the command palette. Single-key shortcuts are ignored while typing in a text field.
+              </p>
+              <ShortcutsEditor overrides={settings.shortcuts} onChange={(id, combos) => update("shortcuts", id, combos)} />
             </TabsContent>
           </Tabs>
         </div>
@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, BarChart3, Download, Loader2, Trash2 } from "lucide-react";
+import { usePageMeta } from "@/src/hooks/use-page-meta";
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { clearListeningHistory, getListeningHistory, type PlayRecord } from "@/src/lib/listening-history";
+import {
+  computeListeningStats,
+  formatListeningTime,
+  listeningHistoryToCsv,
+  localDate,
+  type StatCount,
+} from "@/src/lib/listening-stats";
+
+function saveFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.style.cssText = "display:none";
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => { document.body.removeChild(a); URL.revokeObjectURL(url); }, 500);
+}
+
+function trackerLink(play: PlayRecord): string | null {
+  if (!play.trackerId) return null;
+  return `/view?id=${encodeURIComponent(play.trackerId)}&artist=${encodeURIComponent(play.artist)}`;
+}
+
+function Summary({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="glass rounded-2xl p-4">
+      <div className="text-xs text-white/50 uppercase tracking-wider">{label}</div>
+      <div className="text-2xl font-bold mt-1 tabular-nums">{value}</div>
+    </div>
+  );
+}
+
+function StatList({ title, items, empty, extra }: { title: string; items: StatCount[]; empty: string; extra?: (item: StatCount) => string }) {
+  return (
+    <section className="glass rounded-2xl p-4 sm:p-5">
+      <h2 className="text-xs font-semibold text-white/50 uppercase tracking-wider mb-3">{title}</h2>
+      {items.length === 0 ? (
+        <p className="text-sm text-neutral-500 py-4 text-center">{empty}</p>
+      ) : (
+        <ol className="space-y-1.5">
+          {items.map((item, i) => {
+            const link = trackerLink(item.last);
+            return (
+              <li key={item.key} className="flex items-center gap-3 p-2 rounded-xl glass-flat">
+                <span className="w-5 text-right text-xs text-white/40 tabular-nums flex-shrink-0">{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-semibold truncate">
+                    {link ? <Link to={link} className="hover:underline">{item.label}</Link> : item.label}
+                  </div>
+                  {item.detail && <div className="text-xs text-neutral-500 truncate">{item.detail}</div>}
+                </div>
+                <span className="text-xs text-neutral-400 tabular-nums flex-shrink-0">
+                  {extra ? extra(item) : `${item.plays} play${item.plays !== 1 ? "s" : ""} · ${formatListeningTime(item.seconds)}`}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+}
+
+export default function Stats() {
+  usePageMeta({ title: "Listening Stats - ArtistGrid", description: "What you've been listening to on ArtistGrid.", url: "https://artistgrid.cx/stats" });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [plays, setPlays] = useState<PlayRecord[] | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    getListeningHistory().then((history) => {
+      if (active) setPlays(history);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const stats = useMemo(() => computeListeningStats(plays ?? []), [plays]);
+  const busiestDay = Math.max(1, ...stats.days.map((d) => d.seconds));
+  const today = localDate(Date.now());
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete your whole listening history?")) return;
+    await clearListeningHistory();
+    setPlays([]);
+    toast({ title: "Listening history cleared" });
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white pb-32">
+      <div className="max-w-5xl mx-auto px-4 py-6 sm:py-8">
+        <button
+          type="button"
+          onClick={() => navigate(-1)}
+          className="flex items-center gap-2 text-neutral-400 hover:text-white text-sm mb-6 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <div className="flex items-center justify-between gap-3 mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold">Listening Stats</h1>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!plays?.length}
+              onClick={() => saveFile(listeningHistoryToCsv(plays ?? []), `artistgrid-listening-${today}.csv`, "text/csv")}
+              className="glass-flat rounded-xl text-white/60 hover:text-white"
+            >
+              <Download className="w-4 h-4 mr-1.5" />
+              Export CSV
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={!plays?.length}
+              onClick={() => void handleClear()}
+              aria-label="Clear listening history"
+              className="glass-flat rounded-xl text-white/60 hover:text-red-400 h-9 w-9"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {plays === null ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="w-6 h-6 animate-spin text-white/40" />
+          </div>
+        ) : plays.length === 0 ? (
+          <div className="glass rounded-2xl text-center py-16 flex flex-col items-center">
+            <BarChart3 className="w-12 h-12 text-neutral-700 mb-3" />
+            <h3 className="text-base font-medium text-neutral-300">Nothing Played Yet</h3>
+            <p className="text-sm text-neutral-500 mt-1">Every track you play is recorded on this device and summarised here</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 grid-cols-2 sm:grid-cols-4">
+              <Summary label="Plays" value={String(stats.plays)} />
+              <Summary label="Listening Time" value={formatListeningTime(stats.seconds)} />
+              <Summary label="Skip Rate" value={`${Math.round(stats.skipRate * 100)}%`} />
+              <Summary label="Artists" value={String(new Set(plays.map((p) => p.artist.toLowerCase())).size)} />
+            </div>
+
+            <section className="glass rounded-2xl p-4 sm:p-5">
+              <h2 className="text-xs font-semibold text-white/50 uppercase tracking-wider mb-3">Last 30 Days</h2>
+              <div className="flex items-end gap-1 h-32" role="img" aria-label="Listening time per day">
+                {stats.days.map((day) => (
+                  <div
+                    key={day.date}
+                    title={`${day.date}: ${formatListeningTime(day.seconds)}`}
+                    className={`flex-1 rounded-t ${day.date === today ? "bg-white" : "bg-white/30"}`}
+                    style={{ height: `${Math.max(day.seconds > 0 ? 4 : 1, (day.seconds / busiestDay) * 100)}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-white/40 mt-1.5">
+                <span>{stats.days[0]?.date}</span>
+                <span>Today</span>
+              </div>
+            </section>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <StatList title="Top Tracks" items={stats.topTracks} empty="No tracks yet" />
+              <StatList title="Top Eras" items={stats.topEras} empty="No eras yet" />
+              <StatList title="Top Artists" items={stats.topArtists} empty="No artists yet" />
+              <StatList
+                title="Forgotten Favourites"
+                items={stats.forgottenFavourites}
+                empty="Tracks you played in full often but not in the last month show up here"
+                extra={(item) => `Last played ${new Date(item.last.startedAt).toLocaleDateString()}`}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
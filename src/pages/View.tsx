@@ -40,10 +40,18 @@ import {
   Music2,
   FileSpreadsheet,
   Layers,
+  ListMusic,
+  CalendarRange,
+  BarChart3,
+  ShieldCheck,
+  RefreshCw,
+  FileDown,
 } from "lucide-react";
 import { fetchWithFallback, adaptV3Response, adaptV3FlatResponse, type V3Response } from "@/src/lib/api";
 import { getCache, setCache } from "@/src/lib/tracker-cache";
-import { resolvePlayableUrl, getTrackSource, isNetworkSource, transformUrlForOpening } from "@/src/lib/resolve-url";
+import { getTrackSource, isNetworkSource, transformUrlForOpening } from "@/src/lib/resolve-url";
+import { getSourceCapabilities } from "@/src/lib/source-resolvers";
+import { resolveUrlCached } from "@/src/lib/resolved-url-cache";
 import {
   generateTrackId,
   isUrl,
@@ -54,7 +62,7 @@ import {
   decodeTrackFromUrl,
   getGoogleSheetsUrl,
   getSourceDisplayName,
-  SUPPORTED_SOURCES,
+  isSupportedSource,
 } from "@/src/lib/track-utils";
 import { extractTrackerId, getSheetViewUrl, getCleanArtistName } from "@/src/lib/artist-utils";
 import { DownloadProvider, useDownloadManager } from "@/src/components/download-manager";
@@ -68,7 +76,7 @@ const ImageLightbox = lazy(() =>
 const LastFMModal = lazy(() =>
   import("@/src/components/lastfm-modal").then((m) => ({ default: m.LastFMModal }))
 );
-import { YouTubePlayer } from "@/src/components/youtube-player";
+import { EmbedPlayer } from "@/src/components/youtube-player";
 import { FloatingVideoPlayer } from "@/src/components/floating-video-player";
 import { useSettings } from "@/src/hooks/use-settings";
 import { useTrackerData } from "@/src/hooks/use-tracker-data";
@@ -77,7 +85,12 @@ import { useSettingsModal } from "@/src/components/settings-modal-context";
 import { getFavourites, toggleFavourite, clearFavourites, getFavouritedTracks, toggleEraFavourite, isEraFavourited } from "@/src/lib/favourites";
 import { getCustomViews, type CustomView } from "@/src/lib/custom-views";
 import { mergeTabData } from "@/src/lib/merge-tab-data";
-import { forEachEraTrack, mergeAndCache, isVideoUrl, formatRelativeTime } from "@/src/lib/view-utils";
+import { forEachEraTrack, isVideoUrl, formatRelativeTime } from "@/src/lib/view-utils";
+import { describeTrackForDownload } from "@/src/lib/track-metadata";
+import { getFileExtension, renderPathTemplate } from "@/src/lib/download-template";
+import { orderMirrors } from "@/src/lib/mirror-fallback";
+import { createPlaylistEntry, type PlaylistEntry } from "@/src/lib/playlists";
+import { PlaylistPicker } from "@/src/components/playlist-picker";
 import {
   PlayButton,
   PauseButton,
@@ -91,10 +104,26 @@ import {
 import { CustomViewManager } from "@/src/components/view/custom-view-manager";
 import { FlatTrackCard, FlatTrackList } from "@/src/components/view/flat-track-card";
 import { EraCard } from "@/src/components/view/era-card";
+import { ChangelogPanel } from "@/src/components/view/changelog-panel";
+import { PinTrackerButton } from "@/src/components/view/pin-tracker-button";
+import { matchesTrackQuery, parseTrackQuery, TRACK_QUERY_HELP } from "@/src/lib/track-query";
+import { registerPaletteTracks, type PaletteTrack } from "@/src/lib/commands";
+import type { TimelinePoint } from "@/src/lib/era-timeline";
+import { EraTimelinePanel } from "@/src/components/view/era-timeline";
+import { TrackerStatsPanel } from "@/src/components/view/tracker-stats-panel";
+import {
+  auditLinks,
+  getLinkChecks,
+  linkReportToCsv,
+  subscribeLinkHealth,
+  trackLinkStatus,
+  type LinkCheck,
+  type LinkReportRow,
+} from "@/src/lib/link-health";
+import { useCommand } from "@/src/hooks/use-command";
 const ART_TABS = ["Art"];
-const SUPPORTED_SOURCES_SET = new Set(SUPPORTED_SOURCES);
 function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialTab }: { trackerId?: string; initialTab?: string } = {}) {
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
   const { state: playerState, playTrack, addToQueue, clearQueue, togglePlayPause, lastfm } = usePlayer();
@@ -104,9 +133,17 @@ function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialT
   const [trackerId, setTrackerId] = useState(propTrackerId || searchParams.get("id") || "");
   const [inputValue, setInputValue] = useState(trackerId);
   const [artistNameFromUrl, setArtistNameFromUrl] = useState<string | null>(() => searchParams.get("artist"));
-  const [searchQuery, setSearchQuery] = useState("");
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get("q") ?? "");
+  const parsedQuery = useMemo(() => parseTrackQuery(searchQuery), [searchQuery]);
   const [expandedEras, setExpandedEras] = useState<Set<string>>(new Set());
-  const [filters, setFilters] = useState<FilterOptions>({ showPlayableOnly: false, qualityFilter: [], sourceFilter: [] });
+  const [activeEraKey, setActiveEraKey] = useState<string | null>(null);
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [filters, setFilters] = useState<FilterOptions>({ showPlayableOnly: false, verifiedOnly: false, qualityFilter: [], sourceFilter: [] });
+  const [linkChecks, setLinkChecks] = useState<Map<string, LinkCheck>>(new Map());
+  const [linkAudit, setLinkAudit] = useState<{ done: number; total: number } | null>(null);
+  const linkAuditAbortRef = useRef<AbortController | null>(null);
   const trackerData = useTrackerData(setExpandedEras);
   const {
     data,
@@ -135,9 +172,11 @@ function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialT
     resolveUrls,
     fetchBaseEraImages,
     loadTrackerData,
+    changelog,
+    dismissChangelog,
   } = trackerData;
   const [lastfmModalOpen, setLastfmModalOpen] = useState(false);
-  const [youtubeUrl, setYoutubeUrl] = useState<string | null>(null);
+  const [embedUrl, setEmbedUrl] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [lastfmToken, setLastfmToken] = useState<string | null>(null);
   const [lightboxImage, setLightboxImage] = useState<{
@@ -155,6 +194,7 @@ function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialT
   } | null>(null);
   const pendingTrackUrlRef = useRef<string | null>(null);
   const [favourites, setFavourites] = useState<string[]>(() => getFavourites(trackerId));
+  const [playlistEntries, setPlaylistEntries] = useState<PlaylistEntry[] | null>(null);
   const [customViews, setCustomViews] = useState<CustomView[]>(() => getCustomViews(trackerId));
   const [activeCustomView, setActiveCustomView] = useState<CustomView | null>(null);
   const isFavouritesTab = currentTab === "Favourites";
@@ -196,7 +236,6 @@ function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialT
     if (!erasWithImages) return null;
     if (isArtTab) return erasWithImages;
     const result: Record<string, Era> = {};
-    const query = searchQuery.toLowerCase();
     for (const [key, era] of Object.entries(erasWithImages)) {
       if (!era.data) continue;
       const filteredCategories: Record<string, TALeak[]> = {};
@@ -206,27 +245,27 @@ function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialT
         const filtered = tracks.filter((t) => {
           const allUrls = getAllTrackUrls(t);
           const source = allUrls.length ? getTrackSource(allUrls[0]) : "unknown";
-          const isSupported = SUPPORTED_SOURCES_SET.has(source);
+          const isSupported = isSupportedSource(source);
           const hasPlayableLink = allUrls.some((u) => resolvedUrls.get(u));
           if (filters.showPlayableOnly && !hasPlayableLink && !isSupported) return false;
+          if (filters.verifiedOnly) {
+            const health = trackLinkStatus(allUrls, linkChecks);
+            if (health !== "alive" && health !== "partial") return false;
+          }
           if (
             filters.qualityFilter.length > 0 &&
             !filters.qualityFilter.some((q) => (t.quality?.toLowerCase() || "").includes(q.toLowerCase()))
           )
             return false;
           if (filters.sourceFilter.length > 0 && !sourceFilterSet.has(source)) return false;
-          if (query) {
-            const searchable = `${t.name || ""} ${t.extra || ""} ${getTrackDescription(t) || ""}`.toLowerCase();
-            if (!searchable.includes(query)) return false;
-          }
-          return true;
+          return matchesTrackQuery(parsedQuery, t, { era: era.name, playable: hasPlayableLink });
         });
         if (filtered.length > 0) filteredCategories[cat] = filtered;
       }
       if (Object.keys(filteredCategories).length > 0) result[key] = { ...era, data: filteredCategories };
     }
     return result;
-  }, [erasWithImages, searchQuery, filters, resolvedUrls, isArtTab]);
+  }, [erasWithImages, parsedQuery, filters, resolvedUrls, isArtTab, linkChecks]);
   const allPlayableTracks = useMemo((): PlayableTrackData[] => {
     if (!filteredData) return [];
     const tracks: PlayableTrackData[] = [];
@@ -283,6 +322,7 @@ function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialT
       url,
       playableUrl,
       source: getTrackSource(url),
+      mirrors: getAllTrackUrls(rawTrack),
       quality: rawTrack.quality && !isUrl(rawTrack.quality) ? rawTrack.quality : undefined,
       trackLength: rawTrack.track_length,
       type: rawTrack.type,
@@ -290,9 +330,11 @@ function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialT
       eraImage: getEraImage(era),
       eraName: era.name,
       artistName: artistDisplayName,
+      trackerId: trackerId || undefined,
     }),
-    [artistDisplayName, getEraImage]
+    [artistDisplayName, getEraImage, trackerId]
   );
+  const lastTrackParamRef = useRef<string | null>(null);
   useEffect(() => {
     const id = searchParams.get("id");
     const trackParam = searchParams.get("track");
@@ -302,7 +344,8 @@ function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialT
       setInputValue(id);
     }
     if (artistParam) setArtistNameFromUrl(artistParam);
-    if (trackParam) {
+    if (trackParam && trackParam !== lastTrackParamRef.current) {
+      lastTrackParamRef.current = trackParam;
       const decodedUrl = decodeTrackFromUrl(trackParam);
       if (decodedUrl) {
         pendingTrackUrlRef.current = decodedUrl;
@@ -310,6 +353,31 @@ function TrackerViewContent({ trackerId: propTrackerId, initialTab: propInitialT
       }
     }
   }, [searchParams]);
+  // The last query the URL and the search box agreed on, so each side only
+  // follows changes made by the other (typing, or back/forward).
+  const syncedQueryRef = useRef(searchQuery);
+  useEffect(() => {
+    const q = searchParams.get("q") ?? "";
+    if (q === syncedQueryRef.current) return;
+    syncedQueryRef.current = q;
+    setSearchQuery(q);
+  }, [searchParams]);
+  useEffect(() => {
+    if (searchQuery === syncedQueryRef.current) return;
+    const id = setTimeout(() => {
+      syncedQueryRef.current = searchQuery;
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          if (searchQuery) next.set("q", searchQuery);
+          else next.delete("q");
+          return next;
+        },
+        { replace: true }
+      );
+    }, 300);
+    return () => clearTimeout(id);
+  }, [searchQuery, setSearchParams]);
   useEffect(() => {
     if (highlightedTrackRef.current && highlightedTrackUrl) {
       const id = setTimeout(() => highlightedTrackRef.current?.scrollIntoView({ behavior: "smooth", block: "center" }), 500);
@@ -372,10 +440,11 @@ const handleLoad = useCallback(() => {
     const artistQs = cleanArtistName ? `?artist=${encodeURIComponent(cleanArtistName)}` : "";
     const tabSlug = !isFavouritesTab && !isCustomTab && currentTab ? (tabSlugsRef.current[currentTab] ?? currentTab) : "";
     const tabPart = tabSlug ? `/${tabSlug}` : "";
-    const url = `${window.location.origin}/sh/${trackerId}${tabPart}${artistQs}`;
+    const queryQs = searchQuery ? `${artistQs ? "&" : "?"}q=${encodeURIComponent(searchQuery)}` : "";
+    const url = `${window.location.origin}/sh/${trackerId}${tabPart}${artistQs}${queryQs}`;
     navigator.clipboard.writeText(url);
     toast({ title: "Copied!", description: "Share link copied to clipboard" });
-  }, [trackerId, currentTab, isFavouritesTab, isCustomTab, toast, cleanArtistName, tabSlugsRef]);
+  }, [trackerId, currentTab, isFavouritesTab, isCustomTab, toast, cleanArtistName, tabSlugsRef, searchQuery]);
   const handleShareTrack = useCallback(
     (trackUrl: string, trackName: string) => {
       const artistQs = cleanArtistName ? `&artist=${encodeURIComponent(cleanArtistName)}` : "";
@@ -445,7 +514,7 @@ const handleLoad = useCallback(() => {
             const hasEras = v3 && typeof v3 === "object" && Array.isArray(v3.eras) && v3.eras.length > 0;
             if (!hasFlatTracks && !hasEras) return null;
             const json = hasFlatTracks ? adaptV3FlatResponse(v3) : adaptV3Response(v3);
-            setCache(trackerId, json, {}, gid || slug);
+            setCache(trackerId, json, gid || slug);
             return json;
           })
         );
@@ -501,8 +570,8 @@ const handleLoad = useCallback(() => {
     });
   }, []);
   const handleOpenUrl = useCallback((url: string) => {
-    if (getTrackSource(url) === "youtube") {
-      setYoutubeUrl(url);
+    if (getSourceCapabilities(getTrackSource(url)).embedOnly) {
+      setEmbedUrl(url);
       return;
     }
     const s = loadSettings();
@@ -532,6 +601,22 @@ const handleLoad = useCallback(() => {
     },
     [trackerId, toast]
   );
+  const toPlaylistEntries = useCallback(
+    (items: Array<{ track: TALeak; era: Era }>) => {
+      const tab = !isFavouritesTab && !isCustomTab ? currentTab : undefined;
+      return items
+        .map(({ track, era }) => createPlaylistEntry(track, era, { trackerId, tab, artistName: artistDisplayName }))
+        .filter((e): e is PlaylistEntry => e !== null);
+    },
+    [trackerId, currentTab, isFavouritesTab, isCustomTab, artistDisplayName]
+  );
+  const handleAddToPlaylist = useCallback(
+    (track: TALeak, era: Era) => {
+      const entries = toPlaylistEntries([{ track, era }]);
+      if (entries.length > 0) setPlaylistEntries(entries);
+    },
+    [toPlaylistEntries]
+  );
   const handleClearFavourites = useCallback(() => {
     clearFavourites(trackerId);
     setFavourites([]);
@@ -541,12 +626,12 @@ const handleLoad = useCallback(() => {
     async (rawTrack: TALeak, era: Era) => {
       const allUrls = getAllTrackUrls(rawTrack);
       if (allUrls.length === 0) return;
-      const playingUrl = allUrls.find((u) => playerState.currentTrack?.url === u);
+      const playingUrl = allUrls.find((u) => playerState.currentTrack?.url === u || playerState.currentTrack?.mirrors?.includes(u));
       if (playingUrl) { togglePlayPause(); return; }
       let resolvedUrl: string | null = null;
       let chosenUrl: string | null = null;
-      for (const u of allUrls) {
-        const result = await resolvePlayableUrl(u);
+      for (const u of orderMirrors(allUrls)) {
+        const result = await resolveUrlCached(u);
         if (result) { resolvedUrl = result; chosenUrl = u; break; }
       }
       if (!resolvedUrl || !chosenUrl) { handleOpenUrl(allUrls[0]); return; }
@@ -580,8 +665,8 @@ const handleLoad = useCallback(() => {
       if (allUrls.length === 0) return;
       let resolvedUrl: string | null = null;
       let chosenUrl: string | null = null;
-      for (const u of allUrls) {
-        const result = await resolvePlayableUrl(u);
+      for (const u of orderMirrors(allUrls)) {
+        const result = await resolveUrlCached(u);
         if (result) { resolvedUrl = result; chosenUrl = u; break; }
       }
       if (!resolvedUrl || !chosenUrl) {
@@ -604,35 +689,44 @@ const handleLoad = useCallback(() => {
   );
   const handleDownload = useCallback(
     async (rawTrack: TALeak) => {
-      const allUrls = getAllTrackUrls(rawTrack);
-      if (allUrls.length === 0) return;
+      const links = getAllTrackUrls(rawTrack);
+      if (links.length === 0) return;
+      const allUrls = links.filter((u) => getSourceCapabilities(getTrackSource(u)).downloadable);
+      if (allUrls.length === 0) {
+        toast({ title: "Cannot download", description: "This track's host doesn't offer downloads" });
+        return;
+      }
       let playableUrl: string | null = null;
       for (const u of allUrls) {
-        const cached = resolvedUrls.get(u);
-        if (cached) { playableUrl = cached; break; }
-      }
-      if (!playableUrl) {
-        for (const u of allUrls) {
-          const result = await resolvePlayableUrl(u);
-          if (result) { playableUrl = result; break; }
-        }
+        const result = await resolveUrlCached(u);
+        if (result) { playableUrl = result; break; }
       }
       if (!playableUrl) {
         toast({ title: "Cannot download", description: "No playable URL available" });
         return;
       }
       const s = loadSettings();
+      let trackEra: Era = { name: rawTrack.eraName || "" };
+      if (data?.eras) {
+        forEachEraTrack(data.eras, (track, era) => {
+          if (track !== rawTrack) return;
+          trackEra = era;
+          return false;
+        });
+      }
+      const info = describeTrackForDownload(rawTrack, trackEra, artistDisplayName, getTrackUrl(rawTrack) ?? undefined);
+      const templated = renderPathTemplate(s.downloads.filenameTemplate, { ...info.vars, ext: getFileExtension(playableUrl) }).split("/").join(" - ");
       let filename: string;
       if (s.downloads.useOgFilename) {
         try {
           const urlPath = new URL(playableUrl).pathname;
           const basename = decodeURIComponent(urlPath.split("/").pop() || "");
-          filename = basename || `${rawTrack.name || "track"}.mp3`;
+          filename = basename || templated;
         } catch {
-          filename = `${rawTrack.name || "track"}.mp3`;
+          filename = templated;
         }
       } else {
-        filename = `${rawTrack.name || "track"}.mp3`;
+        filename = templated;
       }
       if (s.downloads.embedMetadata) {
         try {
@@ -641,11 +735,7 @@ const handleLoad = useCallback(() => {
           const res = await fetch(playableUrl);
           if (!res.ok) throw new Error(`Download failed: HTTP ${res.status}`);
           const blob = await res.blob();
-          const meta: { title?: string; artist?: string } = {
-            title: rawTrack.name || undefined,
-            artist: artistDisplayName || undefined,
-          };
-          const enhanced = await embedMetadata(blob, meta);
+          const enhanced = await embedMetadata(blob, info.metadata);
           const blobUrl = URL.createObjectURL(enhanced);
           const link = document.createElement("a");
           link.href = blobUrl;
@@ -667,7 +757,7 @@ const handleLoad = useCallback(() => {
       link.click();
       document.body.removeChild(link);
     },
-    [resolvedUrls, toast, artistDisplayName]
+    [toast, artistDisplayName, data]
   );
   const handleOpenOriginal = useCallback(
     (rawTrack: TALeak) => {
@@ -730,7 +820,6 @@ const handleLoad = useCallback(() => {
       let urlMap = resolvedUrls;
       if (unresolvedUrls.length > 0) {
         const freshlyResolved = await resolveUrls(unresolvedUrls);
-        mergeAndCache(trackerId, tabGidsRef.current[currentTab] || currentTab, data, freshlyResolved);
         urlMap = new Map([...resolvedUrls, ...Object.entries(freshlyResolved)]);
       }
       const downloadItems = candidates
@@ -756,8 +845,64 @@ const handleLoad = useCallback(() => {
         items: downloadItems,
       });
     },
-    [data, filteredData, resolvedUrls, artistDisplayName, toast, resolveUrls, trackerId, currentTab, tabGidsRef]
+    [data, filteredData, resolvedUrls, artistDisplayName, toast, resolveUrls]
+  );
+  const stepEra = useCallback(
+    (step: 1 | -1) => {
+      const keys = filteredData ? Object.keys(filteredData) : [];
+      if (keys.length === 0) return;
+      const index = activeEraKey ? keys.indexOf(activeEraKey) : -1;
+      const next = keys[index === -1 ? (step === 1 ? 0 : keys.length - 1) : Math.min(keys.length - 1, Math.max(0, index + step))];
+      setActiveEraKey(next);
+      setExpandedEras((prev) => new Set(prev).add(next));
+      requestAnimationFrame(() =>
+        document.querySelector(`[data-era-key="${CSS.escape(next)}"]`)?.scrollIntoView({ behavior: "smooth", block: "start" })
+      );
+    },
+    [filteredData, activeEraKey]
   );
+  const stepTab = useCallback(
+    (step: 1 | -1) => {
+      const index = displayTabs.indexOf(currentTab);
+      const next = displayTabs[(index + step + displayTabs.length) % displayTabs.length];
+      if (next) handleTabChange(next);
+    },
+    [displayTabs, currentTab, handleTabChange]
+  );
+  const hasTracker = !!trackerId && status !== "fallback";
+  useCommand("tracker.focusSearch", () => searchInputRef.current?.focus(), hasTracker && !isArtTab);
+  useCommand("tracker.nextEra", () => stepEra(1), hasTracker);
+  useCommand("tracker.previousEra", () => stepEra(-1), hasTracker);
+  useCommand("tracker.nextTab", () => stepTab(1), hasTracker);
+  useCommand("tracker.previousTab", () => stepTab(-1), hasTracker);
+  useCommand(
+    "tracker.toggleFavourite",
+    () => {
+      const current = playerState.currentTrack;
+      if (current && (!current.trackerId || current.trackerId === trackerId)) handleToggleFavourite(current.url);
+    },
+    hasTracker
+  );
+  useCommand(
+    "tracker.downloadEra",
+    () => {
+      if (activeEraKey && data?.eras[activeEraKey]) void downloadTracker(activeEraKey);
+      else toast({ title: "No era selected", description: "Move to an era with the next and previous era shortcuts first" });
+    },
+    hasTracker
+  );
+  useEffect(() => {
+    if (!erasWithImages || isArtTab) return;
+    return registerPaletteTracks(() => {
+      const tracks: PaletteTrack[] = [];
+      forEachEraTrack(erasWithImages, (track, era) => {
+        const url = getAllTrackUrls(track)[0];
+        if (!url) return;
+        tracks.push({ key: url, name: track.name, detail: [era.name, track.extra].filter(Boolean).join(" · "), play: () => void handlePlayTrack(track, era) });
+      });
+      return tracks;
+    });
+  }, [erasWithImages, isArtTab, handlePlayTrack]);
   const computeTrackState = useCallback((track: TALeak) => {
     const allUrls = getAllTrackUrls(track);
     let url: string | null = null;
@@ -765,25 +910,89 @@ const handleLoad = useCallback(() => {
     for (const u of allUrls) {
       const resolved = resolvedUrls.get(u);
       if (resolved) { url = u; playableUrl = resolved; break; }
-      if (!url && SUPPORTED_SOURCES_SET.has(getTrackSource(u))) url = u;
+      if (!url && isSupportedSource(getTrackSource(u))) url = u;
     }
     if (!url) url = allUrls[0] || null;
     if (!playableUrl && url) playableUrl = resolvedUrls.get(url) || null;
     const source = url ? getTrackSource(url) : "unknown";
-    const isSupported = SUPPORTED_SOURCES_SET.has(source);
+    const isSupported = isSupportedSource(source);
     const isPlayable =
       !!playableUrl ||
       allUrls.some((u) => {
         const r = resolvedUrls.get(u);
-        return !!r || (r === undefined && SUPPORTED_SOURCES_SET.has(getTrackSource(u)));
+        return !!r || (r === undefined && isSupportedSource(getTrackSource(u)));
       });
-    const isCurrentlyPlaying = url ? (playerState.currentTrack?.url === url && playerState.isPlaying) : false;
-    const isCurrentTrack = url ? playerState.currentTrack?.url === url : false;
+    const current = playerState.currentTrack;
+    const isCurrentTrack = !!url && !!current && (current.url === url || !!current.mirrors?.includes(url));
+    const isCurrentlyPlaying = isCurrentTrack && playerState.isPlaying;
     const isHighlighted = url === highlightedTrackUrl;
     const description = getTrackDescription(track) || undefined;
     const shouldShowSource = source !== "unknown" && source !== "juicewrldapi";
-    return { url, source, isSupported, playableUrl, isPlayable, isCurrentlyPlaying, isCurrentTrack, isHighlighted, description, shouldShowSource };
-  }, [resolvedUrls, playerState.currentTrack, playerState.isPlaying, highlightedTrackUrl]);
+    const linkStatus = trackLinkStatus(allUrls, linkChecks);
+    return { url, source, isSupported, playableUrl, isPlayable, isCurrentlyPlaying, isCurrentTrack, isHighlighted, description, shouldShowSource, linkStatus };
+  }, [resolvedUrls, playerState.currentTrack, playerState.isPlaying, highlightedTrackUrl, linkChecks]);
+  useEffect(() => {
+    let active = true;
+    const refresh = () => {
+      void getLinkChecks().then((checks) => {
+        if (active) setLinkChecks(checks);
+      });
+    };
+    refresh();
+    const unsubscribe = subscribeLinkHealth(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+      linkAuditAbortRef.current?.abort();
+    };
+  }, []);
+  const handleAuditLinks = useCallback(
+    async (force: boolean) => {
+      if (!data?.eras || linkAuditAbortRef.current) return;
+      const urls: string[] = [];
+      forEachEraTrack(data.eras, (track) => {
+        urls.push(...getAllTrackUrls(track));
+      });
+      const controller = new AbortController();
+      linkAuditAbortRef.current = controller;
+      try {
+        const results = await auditLinks(urls, { force, signal: controller.signal, onProgress: (done, total) => setLinkAudit({ done, total }) });
+        if (controller.signal.aborted) return;
+        const dead = [...results.values()].filter((c) => c.status === "dead").length;
+        toast({ title: "Link check finished", description: `${results.size} link${results.size !== 1 ? "s" : ""} checked, ${dead} dead` });
+      } finally {
+        linkAuditAbortRef.current = null;
+        setLinkAudit(null);
+      }
+    },
+    [data, toast]
+  );
+  const handleExportLinkReport = useCallback(() => {
+    if (!data?.eras) return;
+    const rows: LinkReportRow[] = [];
+    forEachEraTrack(data.eras, (track, era) => {
+      for (const url of getAllTrackUrls(track)) rows.push({ era: track.eraName || era.name, track: track.name, url, check: linkChecks.get(url) });
+    });
+    const blob = new Blob([linkReportToCsv(rows)], { type: "text/csv" });
+    const href = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = href;
+    a.download = `${(cleanArtistName || trackerId).replace(/[^\w-]+/g, "-")}-link-report.csv`;
+    a.style.cssText = "display:none";
+    document.body.appendChild(a);
+    a.click();
+    setTimeout(() => { document.body.removeChild(a); URL.revokeObjectURL(href); }, 500);
+  }, [data, linkChecks, cleanArtistName, trackerId]);
+  const handleTimelineSelect = useCallback(
+    (point: TimelinePoint) => {
+      const { url } = computeTrackState(point.track);
+      if (!url) return;
+      setExpandedEras((prev) => new Set(prev).add(point.eraKey));
+      setHighlightedTrackUrl(url);
+      setTimeout(() => highlightedTrackRef.current?.scrollIntoView({ behavior: "smooth", block: "center" }), 100);
+    },
+    [computeTrackState]
+  );
   const confirmDownload = useCallback(() => {
     if (!downloadConfirm) return;
     downloadManager.startDownload(downloadConfirm);
@@ -802,28 +1011,25 @@ const handleLoad = useCallback(() => {
     forEachEraTrack(data.eras, (t) => { for (const u of getAllTrackUrls(t)) set.add(getTrackSource(u)); });
     return Array.from(set).sort();
   }, [data]);
+  const isTrackPlayable = useCallback(
+    (track: TALeak) =>
+      getAllTrackUrls(track).some((u) => {
+        const r = resolvedUrls.get(u);
+        return !!r || (r === undefined && isSupportedSource(getTrackSource(u)));
+      }),
+    [resolvedUrls]
+  );
   const stats = useMemo(() => {
     let total = 0,
       playable = 0;
     if (data?.eras) {
-      for (const era of Object.values(data.eras)) {
-        if (!era.data) continue;
-        for (const tracks of Object.values(era.data)) {
-          if (Array.isArray(tracks)) {
-            total += tracks.length;
-            for (const t of tracks) {
-              const allUrls = getAllTrackUrls(t);
-              if (allUrls.some((u) => {
-                const r = resolvedUrls.get(u);
-                return !!r || (r === undefined && SUPPORTED_SOURCES_SET.has(getTrackSource(u)));
-              })) playable++;
-            }
-          }
-        }
-      }
+      forEachEraTrack(data.eras, (t) => {
+        total++;
+        if (isTrackPlayable(t)) playable++;
+      });
     }
     return { total, playable, favourites: favourites.length };
-  }, [data, resolvedUrls, favourites.length]);
+  }, [data, isTrackPlayable, favourites.length]);
   const headerSlots = useHeaderSlots(
     <div className="relative flex-1 min-w-0">
       <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/55 pointer-events-none" />
@@ -885,6 +1091,15 @@ const handleLoad = useCallback(() => {
       >
         Load
       </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => navigate("/playlists")}
+        aria-label="Playlists"
+        className="glass-flat rounded-xl text-white/50 hover:text-white h-9 w-9 sm:h-10 sm:w-10"
+      >
+        <ListMusic className="w-4 h-4" />
+      </Button>
       <Button
         variant="ghost"
         size="icon"
@@ -917,6 +1132,7 @@ const handleLoad = useCallback(() => {
         handleDownload={handleDownload}
         handleToggleFavourite={handleToggleFavourite}
         handleOpenOriginal={handleOpenOriginal}
+        handleAddToPlaylist={handleAddToPlaylist}
         handleToggleEraFavourite={handleToggleEraFavourite}
         isEraFavourited={isEraFavourited}
         downloadTracker={downloadTracker}
@@ -933,7 +1149,8 @@ const handleLoad = useCallback(() => {
       transition={{ duration: 0.3 }}
     >
       {headerSlots}
-      {youtubeUrl && <YouTubePlayer url={youtubeUrl} onClose={() => setYoutubeUrl(null)} />}
+      <PlaylistPicker entries={playlistEntries} onClose={() => setPlaylistEntries(null)} />
+      {embedUrl && <EmbedPlayer url={embedUrl} onClose={() => setEmbedUrl(null)} />}
       {videoUrl && <FloatingVideoPlayer url={videoUrl} onClose={() => setVideoUrl(null)} />}
       <Suspense fallback={null}>
         <LastFMModal
@@ -1102,18 +1319,21 @@ const handleLoad = useCallback(() => {
                   </p>
                 )}
               </div>
-              {!isArtTab && stats.playable > 0 && (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => downloadTracker()}
-                  disabled={isPreloading}
-                  className="glass-flat rounded-xl text-white/60 hover:text-white self-start sm:self-auto"
-                >
-                  <FolderDown className="w-3.5 h-3.5 mr-2" />
-                  Download All ({stats.playable})
-                </Button>
-              )}
+              <div className="flex items-center gap-2 self-start sm:self-auto">
+                {trackerId && <PinTrackerButton key={trackerId} trackerId={trackerId} />}
+                {!isArtTab && stats.playable > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => downloadTracker()}
+                    disabled={isPreloading}
+                    className="glass-flat rounded-xl text-white/60 hover:text-white"
+                  >
+                    <FolderDown className="w-3.5 h-3.5 mr-2" />
+                    Download All ({stats.playable})
+                  </Button>
+                )}
+              </div>
             </div>
             {displayTabs.length > 0 && (
               <div className="flex flex-wrap gap-1.5 mb-4 sm:mb-6 pb-3 sm:pb-4 border-b border-white/[0.07]">
@@ -1133,20 +1353,69 @@ const handleLoad = useCallback(() => {
                     {tab}
                   </button>
                 ))}
+                {!isArtTab && !isFavouritesTab && (
+                  <button
+                    type="button"
+                    aria-pressed={timelineOpen}
+                    onClick={() => setTimelineOpen((open) => !open)}
+                    className={`px-3.5 py-1.5 rounded-full text-xs sm:text-sm font-medium transition-colors flex-shrink-0 flex items-center gap-1.5 ${
+                      timelineOpen ? "bg-white text-black" : "glass-flat text-white/55 hover:text-white"
+                    }`}
+                  >
+                    <CalendarRange className="w-3 h-3" />
+                    Timeline
+                  </button>
+                )}
+                {!isArtTab && !isFavouritesTab && (
+                  <button
+                    type="button"
+                    aria-pressed={statsOpen}
+                    onClick={() => setStatsOpen((open) => !open)}
+                    className={`px-3.5 py-1.5 rounded-full text-xs sm:text-sm font-medium transition-colors flex-shrink-0 flex items-center gap-1.5 ${
+                      statsOpen ? "bg-white text-black" : "glass-flat text-white/55 hover:text-white"
+                    }`}
+                  >
+                    <BarChart3 className="w-3 h-3" />
+                    Stats
+                  </button>
+                )}
               </div>
             )}
+            {statsOpen && !isArtTab && !isFavouritesTab && data?.eras && status !== "tab-loading" && (
+              <TrackerStatsPanel eras={data.eras} artistName={artistDisplayName} isPlayable={isTrackPlayable} />
+            )}
+            {timelineOpen && !isArtTab && !isFavouritesTab && filteredData && status !== "tab-loading" && (
+              <EraTimelinePanel eras={filteredData} eraDates={data?.era_dates} onSelectTrack={handleTimelineSelect} />
+            )}
+            {changelog && !isFavouritesTab && !isCustomTab && (
+              <ChangelogPanel changelog={changelog} onDismiss={dismissChangelog} />
+            )}
             {!isArtTab && (
               <div className="flex flex-col gap-3 mb-4 sm:mb-6">
                 <div className="relative w-full">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/55" />
                   <Input
+                    ref={searchInputRef}
                     type="text"
                     placeholder="Search tracks..."
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
+                    title={TRACK_QUERY_HELP}
+                    aria-invalid={parsedQuery.errors.length > 0}
+                    aria-describedby={parsedQuery.errors.length > 0 ? "track-query-errors" : undefined}
                     className="glass-flat rounded-xl text-white pl-10 h-10 text-sm border-0 focus-visible:ring-1 focus-visible:ring-white/30 placeholder:text-white/50"
                   />
                 </div>
+                {parsedQuery.errors.length > 0 && (
+                  <ul id="track-query-errors" className="text-xs text-amber-400/80 space-y-0.5 -mt-1">
+                    {parsedQuery.errors.map((err) => (
+                      <li key={`${err.start}:${err.message}`}>
+                        {err.message}
+                        <span className="text-white/40"> at "{searchQuery.slice(err.start, err.end)}"</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 <div className="flex items-center justify-between gap-3">
                   <div className="flex items-center gap-2 flex-wrap">
                     {isPreloading ? (
@@ -1156,6 +1425,16 @@ const handleLoad = useCallback(() => {
                           {resolveProgress.current}/{resolveProgress.total}
                         </span>
                       </div>
+                    ) : linkAudit ? (
+                      <div className="flex items-center gap-2 text-xs sm:text-sm text-white/55">
+                        <ShieldCheck className="w-3 sm:w-4 h-3 sm:h-4 animate-pulse" />
+                        <span>
+                          Checking links {linkAudit.done}/{linkAudit.total}
+                        </span>
+                        <button type="button" onClick={() => linkAuditAbortRef.current?.abort()} className="text-white/40 hover:text-white underline">
+                          Stop
+                        </button>
+                      </div>
                     ) : resolvedUrls.size > 0 ? (
                       <span className="text-xs sm:text-sm text-white/55">
                         {stats.playable}/{stats.total} playable
@@ -1186,8 +1465,29 @@ const handleLoad = useCallback(() => {
                          className="rounded-xl"
                        >
                         Show playable only
+                      </DropdownMenuCheckboxItem>
+                       <DropdownMenuCheckboxItem
+                         checked={filters.verifiedOnly}
+                         onCheckedChange={(c: boolean | undefined) => setFilters((f: FilterOptions) => ({ ...f, verifiedOnly: !!c }))}
+                         className="rounded-xl"
+                       >
+                        Playable only (verified)
                       </DropdownMenuCheckboxItem>
                       <DropdownMenuSeparator className="bg-white/[0.08] my-1" />
+                      <DropdownMenuLabel className="text-white/55 text-xs font-medium uppercase tracking-wider px-2 py-1.5">Link Health</DropdownMenuLabel>
+                      <DropdownMenuItem disabled={!!linkAudit} onClick={() => void handleAuditLinks(false)} className="rounded-xl cursor-pointer">
+                        <ShieldCheck className="w-4 h-4 mr-2" />
+                        Check links
+                      </DropdownMenuItem>
+                      <DropdownMenuItem disabled={!!linkAudit} onClick={() => void handleAuditLinks(true)} className="rounded-xl cursor-pointer">
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        Recheck all links
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleExportLinkReport} className="rounded-xl cursor-pointer">
+                        <FileDown className="w-4 h-4 mr-2" />
+                        Export link report (CSV)
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator className="bg-white/[0.08] my-1" />
                       <DropdownMenuLabel className="text-white/55 text-xs font-medium uppercase tracking-wider px-2 py-1.5">Quality</DropdownMenuLabel>
                        <DropdownMenuCheckboxItem
                          checked={filters.qualityFilter.length === 0}
@@ -1279,6 +1579,13 @@ const handleLoad = useCallback(() => {
                         <FolderDown className="w-3.5 h-3.5 mr-1.5" />
                         Download
                       </Button>
+                      <Button variant="ghost" size="sm" onClick={() => {
+                        const entries = toPlaylistEntries(favouriteTracks);
+                        if (entries.length > 0) setPlaylistEntries(entries);
+                      }} disabled={favouriteTracks.length === 0} className="text-white/55 hover:text-white">
+                        <ListMusic className="w-3.5 h-3.5 mr-1.5" />
+                        Add to Playlist
+                      </Button>
                       <Button variant="ghost" size="sm" onClick={handleClearFavourites} className="text-white/55 hover:text-red-400">
                         <Trash2 className="w-3.5 h-3.5 mr-1.5" />
                         Clear All
@@ -1326,6 +1633,7 @@ const handleLoad = useCallback(() => {
                                   <DropdownMenuItem onClick={() => handleDownload(t.track)} className="cursor-pointer"><Download className="w-4 h-4 mr-2" />Download</DropdownMenuItem>
                                 </>
                               )}
+                              <DropdownMenuItem onClick={() => handleAddToPlaylist(t.track, t.era)} className="cursor-pointer"><ListMusic className="w-4 h-4 mr-2" />Add to Playlist</DropdownMenuItem>
                               <DropdownMenuItem onClick={() => handleOpenOriginal(t.track)} className="cursor-pointer"><ExternalLink className="w-4 h-4 mr-2" />Open Original URL</DropdownMenuItem>
                             </TrackItemActions>
                           </div>
@@ -1423,6 +1731,7 @@ const handleLoad = useCallback(() => {
                   handleOpenOriginal={handleOpenOriginal}
                   handleToggleFavourite={handleToggleFavourite}
                   handleDownload={handleDownload}
+                  handleAddToPlaylist={handleAddToPlaylist}
                   favourites={favourites}
                   highlightedTrackRef={highlightedTrackRef}
                   createTrackObject={createTrackObject}
@@ -1441,7 +1750,7 @@ const handleLoad = useCallback(() => {
                         ref={isHighlighted ? highlightedTrackRef : null}
                         className={`rounded-xl transition-colors ${isHighlighted ? "bg-yellow-400/15 border border-yellow-400/40 ring-2 ring-yellow-400/20" : isCurrentTrack ? "bg-white/[0.08] border border-white/[0.15]" : "glass-flat"}`}
                       >
-                        <FlatTrackCard t={t} fakeEra={fakeEra} url={url} source={source} isPlayable={isPlayable} isCurrentlyPlaying={isCurrentlyPlaying} description={description} shouldShowSource={shouldShowSource} playableUrl={playableUrl} handlePlayTrack={handlePlayTrack} handleOpenUrl={handleOpenUrl} handleToggleFavourite={handleToggleFavourite} handleOpenOriginal={handleOpenOriginal} handleDownload={handleDownload} handleAddToQueue={handleAddToQueue} favourites={favourites} createTrackObject={createTrackObject} clearQueue={clearQueue} playTrack={playTrack} />
+                        <FlatTrackCard t={t} fakeEra={fakeEra} url={url} source={source} isPlayable={isPlayable} isCurrentlyPlaying={isCurrentlyPlaying} description={description} shouldShowSource={shouldShowSource} playableUrl={playableUrl} handlePlayTrack={handlePlayTrack} handleOpenUrl={handleOpenUrl} handleToggleFavourite={handleToggleFavourite} handleOpenOriginal={handleOpenOriginal} handleDownload={handleDownload} handleAddToQueue={handleAddToQueue} handleAddToPlaylist={handleAddToPlaylist} favourites={favourites} createTrackObject={createTrackObject} clearQueue={clearQueue} playTrack={playTrack} />
                       </div>
                     );
                   })}
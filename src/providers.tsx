@@ -1,12 +1,13 @@
 import { createContext, use, useState, useCallback, useRef, useEffect, useMemo, ReactNode } from "react";
 
 import type { Track, LastFMClientInfo } from "./types";
-import { LASTFM_KEY, LASTFM_API_SIG, LASTFM_API_URL, LISTENBRAINZ_API_URL } from "@/src/lib/config";
+import { LASTFM_KEY } from "@/src/lib/config";
 import { loadSettings } from "@/src/lib/settings";
 import { logError } from "@/src/lib/logger";
 import { safeSetItem } from "@/src/lib/storage";
 import { proxyImageUrl } from "@/src/lib/image-proxy";
 import { stripEmojis } from "@/lib/utils";
+import { useToast } from "@/components/ui/use-toast";
 import {
   addToQueue as addTrackToQueue,
   removeFromQueue as removeTrackFromQueue,
@@ -17,9 +18,32 @@ import {
 } from "@/src/lib/player-queue";
 import type { RepeatMode } from "@/src/lib/player-queue";
 import { setCurrentTime, setDuration, resetTime } from "@/src/lib/player-time";
+import { getTrackSource } from "@/src/lib/resolve-url";
+import { getSourceCapabilities } from "@/src/lib/source-resolvers";
+import { isStaleLink, refreshDelay, resolveUrlCached } from "@/src/lib/resolved-url-cache";
+import { STALL_TIMEOUT_MS, rememberWorkingMirror, resolveNextMirror } from "@/src/lib/mirror-fallback";
+import { FADE_STEP_MS, crossfadeGains, getFadeDuration, getHandoffDelay } from "@/src/lib/crossfade";
+import {
+  bindAudioElement,
+  normalizeTrack,
+  prepareAudioElement,
+  prepareSource,
+  releaseAudioElement,
+  resumeAudioContext,
+  subscribeAudioBypass,
+} from "@/src/lib/audio-effects";
+import { enqueueScrobble, flushScrobbleQueue, subscribeScrobbleLog } from "@/src/lib/scrobble-queue";
+import { applyScrobbleRules } from "@/src/lib/scrobble-rules";
+import { finishPlay, notePlayPosition, recordPlay, startPlay, type ActivePlay } from "@/src/lib/listening-history";
+import { createScrobbleSenders, resolveLastFmApi, signLastFmParams } from "@/src/lib/scrobblers";
+import { loadPlayerSession, savePlayerSession, clearPlayerSession, type PlayerSession } from "@/src/lib/player-session";
+
+const SESSION_SAVE_INTERVAL_MS = 5000;
+const SCROBBLE_FLUSH_INTERVAL_MS = 60 * 1000;
 
 function safePlay(audio: HTMLAudioElement | null | undefined) {
   if (!audio) return;
+  resumeAudioContext();
   try {
     // play() should return a Promise, but on some engines it can return
     // undefined or throw synchronously. Guard both so we never crash with
@@ -29,6 +53,14 @@ function safePlay(audio: HTMLAudioElement | null | undefined) {
   } catch {}
 }
 
+function createAudioElement(volume: number): HTMLAudioElement {
+  const audio = new Audio();
+  audio.volume = volume;
+  audio.preload = "metadata";
+  (audio as HTMLMediaElement & { referrerPolicy?: string }).referrerPolicy = "no-referrer";
+  return audio;
+}
+
 function notify(title: string, options: NotificationOptions) {
   try {
     if ("Notification" in window && Notification.permission === "granted") {
@@ -51,6 +83,8 @@ interface PlayerState {
   isShuffled: boolean;
   repeatMode: RepeatMode;
   volume: number;
+  /** The current track's link expired and is being resolved again. */
+  refreshingLink: boolean;
 }
 interface LastFMSession {
   key: string;
@@ -72,6 +106,9 @@ interface PlayerContextType {
   toggleShuffle: () => void;
   toggleRepeat: () => void;
   closePlayer: () => void;
+  resumeSession: PlayerSession | null;
+  resumeLastSession: () => void;
+  dismissLastSession: () => void;
   lastfm: LastFMClientInfo;
 }
 const PlayerContext = createContext<PlayerContextType | null>(null);
@@ -83,6 +120,10 @@ export function usePlayer() {
 export function PlayerProvider({ children }: { children: ReactNode }) {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const prefetchRef = useRef<HTMLAudioElement | null>(null);
+  const handoffTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fadeTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const fadingOutRef = useRef<HTMLAudioElement | null>(null);
+  const [audioGeneration, setAudioGeneration] = useState(0);
   const queueRef = useRef<Track[]>([]);
   const [state, setState] = useState<PlayerState>(() => {
     const s = loadSettings();
@@ -93,12 +134,21 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
       isShuffled: s.player.startupShuffle,
       repeatMode: "off",
       volume: 1,
+      refreshingLink: false,
     };
   });
   const stateRef = useRef<PlayerState | null>(null);
   useEffect(() => {
     stateRef.current = state;
   }, [state]);
+  const { toast } = useToast();
+  useEffect(
+    () =>
+      subscribeAudioBypass(() =>
+        toast({ title: "Equalizer unavailable", description: "This host doesn't allow audio processing, so the track plays without EQ or normalization." })
+      ),
+    [toast]
+  );
   const [history, setHistory] = useState<Track[]>([]);
   const historyRef = useRef<Track[]>([]);
   useEffect(() => {
@@ -107,6 +157,22 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     queueRef.current = state.queue;
   }, [state.queue]);
+  const [resumeSession, setResumeSession] = useState<PlayerSession | null>(null);
+  const sessionLoadedRef = useRef(false);
+  const lastSessionSaveRef = useRef(0);
+  const persistSession = useCallback(() => {
+    const s = stateRef.current;
+    if (!sessionLoadedRef.current || !s?.currentTrack) return;
+    lastSessionSaveRef.current = Date.now();
+    void savePlayerSession({
+      currentTrack: s.currentTrack,
+      queue: s.queue,
+      history: historyRef.current,
+      currentTime: audioRef.current?.currentTime || 0,
+      isShuffled: s.isShuffled,
+      repeatMode: s.repeatMode,
+    });
+  }, []);
   const [lastfmSession, setLastfmSession] = useState<LastFMSession | null>(() => {
     try {
       const session = localStorage.getItem("lastfm-session:v1");
@@ -122,6 +188,11 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
   const scrobbleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const hasScrobbledRef = useRef(false);
   const currentTrackRef = useRef<Track | null>(null);
+  const triedMirrorsRef = useRef<Set<string>>(new Set());
+  const switchingMirrorRef = useRef(false);
+  const refreshedTrackRef = useRef<Track | null>(null);
+  const stallTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const playRef = useRef<ActivePlay | null>(null);
   const getScrobbleArtist = useCallback((track: Track): string => {
     if (track.artistName) return track.artistName;
     return track.eraName || "Unknown Artist";
@@ -146,27 +217,11 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     },
     [getScrobbleArtist]
   );
-  const generateSignature = useCallback(async (params: Record<string, string>, secret: string): Promise<string> => {
-    const filteredParams = { ...params };
-    delete filteredParams.format;
-    delete filteredParams.callback;
-    const sortedKeys = Object.keys(filteredParams).sort();
-    const signatureString = sortedKeys.map((key) => `${key}${filteredParams[key]}`).join("") + secret;
-    const { default: SparkMD5 } = await import("spark-md5");
-    return SparkMD5.hash(signatureString);
-  }, []);
-  const getLastFmConfig = useCallback(() => {
-    const settings = loadSettings();
-    const lf = settings.scrobbling.lastfm;
-    if (lf.customServer && lf.apiUrl) {
-      return {
-        url: lf.apiUrl.replace(/\/$/, ""),
-        key: lf.apiKey || LASTFM_KEY,
-        secret: lf.apiSecret || LASTFM_API_SIG,
-      };
-    }
-    return { url: LASTFM_API_URL, key: LASTFM_KEY, secret: LASTFM_API_SIG };
-  }, []);
+  const generateSignature = useCallback(
+    (params: Record<string, string>, secret: string): Promise<string> => signLastFmParams(params, secret),
+    []
+  );
+  const getLastFmConfig = useCallback(() => resolveLastFmApi(loadSettings().scrobbling.lastfm), []);
   const makeLastFMRequest = useCallback(
     async <T = unknown,>(method: string, params: Record<string, string> = {}, requiresAuth = false): Promise<T> => {
       const cfg = getLastFmConfig();
@@ -192,31 +247,60 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
       scrobbleTimerRef.current = null;
     }
   }, []);
-  const scrobbleListenBrainz = useCallback(
-    async (track: Track) => {
+  // Cuts a running crossfade short, silencing the track that was fading out.
+  const endCrossfade = useCallback(() => {
+    if (fadeTimerRef.current) {
+      clearInterval(fadeTimerRef.current);
+      fadeTimerRef.current = null;
+    }
+    const outgoing = fadingOutRef.current;
+    if (!outgoing) return;
+    fadingOutRef.current = null;
+    outgoing.pause();
+    outgoing.src = "";
+    releaseAudioElement(outgoing);
+  }, []);
+  useEffect(() => endCrossfade, [endCrossfade]);
+  // An element routed through the audio graph can't play a host without CORS,
+  // so such a source is loaded into a fresh element outside the graph.
+  const loadSource = useCallback((url: string): HTMLAudioElement | null => {
+    let audio = audioRef.current;
+    if (!audio) return null;
+    const settings = loadSettings().player;
+    if (!prepareSource(audio, url, settings)) {
+      const old = audio;
+      audio = createAudioElement(stateRef.current?.volume ?? old.volume);
+      audioRef.current = audio;
+      old.pause();
+      old.src = "";
+      releaseAudioElement(old);
+      prepareSource(audio, url, settings);
+      setAudioGeneration((g) => g + 1);
+    }
+    audio.src = url;
+    bindAudioElement(audio, settings);
+    return audio;
+  }, []);
+  const getScrobbleSenders = useCallback(
+    () => createScrobbleSenders({ settings: loadSettings().scrobbling, lastfmSessionKey: lastfmSessionRef.current?.key }),
+    []
+  );
+  const flushScrobbles = useCallback(
+    (force = false) => flushScrobbleQueue(getScrobbleSenders(), force).catch((e) => logError("Failed to submit scrobbles:", e)),
+    [getScrobbleSenders]
+  );
+  const getScrobbleMetadata = useCallback(
+    (track: Track) => {
       const settings = loadSettings();
-      const lb = settings.scrobbling.listenbrainz;
-      if (!lb.enabled || !lb.token) return;
-      try {
-        const artist = getScrobbleArtist(track);
-        const trackName = settings.behavior.showEmojis ? track.name : stripEmojis(track.name);
-        const base = (lb.apiUrl || LISTENBRAINZ_API_URL).replace(/\/$/, "");
-        const listen: Record<string, unknown> = {
-          listened_at: Math.floor(Date.now() / 1000),
-          track_metadata: {
-            artist_name: artist,
-            track_name: trackName,
-            ...(track.eraName ? { release_name: track.eraName } : {}),
-          },
-        };
-        await fetch(`${base}/1/submit-listens`, {
-          method: "POST",
-          headers: { Authorization: `Token ${lb.token}`, "Content-Type": "application/json" },
-          body: JSON.stringify({ listen_type: "single", payload: [listen] }),
-        });
-      } catch (e) {
-        logError("Failed to scrobble to ListenBrainz:", e);
-      }
+      return applyScrobbleRules(
+        {
+          artist: getScrobbleArtist(track),
+          track: settings.behavior.showEmojis ? track.name : stripEmojis(track.name),
+          album: track.eraName || undefined,
+        },
+        track,
+        settings.scrobbling.rules
+      );
     },
     [getScrobbleArtist]
   );
@@ -224,41 +308,46 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     async (track: Track) => {
       if (hasScrobbledRef.current) return;
       hasScrobbledRef.current = true;
-      const settings = loadSettings();
-      if (settings.scrobbling.lastfm.enabled && lastfmSession?.key) {
-        try {
-          const artist = getScrobbleArtist(track);
-          const trackName = settings.behavior.showEmojis ? track.name : stripEmojis(track.name);
-          const params: Record<string, string> = {
-            artist,
-            track: trackName,
-            timestamp: Math.floor(Date.now() / 1000).toString(),
-          };
-          if (track.eraName) params.album = track.eraName;
-          await makeLastFMRequest("track.scrobble", params, true);
-        } catch (e) {
-          logError("Failed to scrobble:", e);
-        }
+      const targets = Object.keys(getScrobbleSenders());
+      if (targets.length === 0) return;
+      try {
+        const listen = { ...getScrobbleMetadata(track), timestamp: Math.floor(Date.now() / 1000) };
+        await enqueueScrobble(listen, targets, loadSettings().scrobbling.rules.reviewBeforeScrobble);
+      } catch (e) {
+        logError("Failed to queue scrobble:", e);
       }
-      await scrobbleListenBrainz(track);
     },
-    [lastfmSession, makeLastFMRequest, getScrobbleArtist, scrobbleListenBrainz]
+    [getScrobbleMetadata, getScrobbleSenders]
   );
+  useEffect(() => {
+    flushScrobbles();
+    const onOnline = () => flushScrobbles(true);
+    window.addEventListener("online", onOnline);
+    // New, approved and retried scrobbles are sent as soon as they are queued.
+    const unsubscribe = subscribeScrobbleLog(() => flushScrobbles());
+    const interval = setInterval(() => {
+      if (navigator.onLine !== false) flushScrobbles();
+    }, SCROBBLE_FLUSH_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [flushScrobbles]);
   const updateNowPlaying = useCallback(
     async (track: Track) => {
       const settings = loadSettings();
       if (!settings.scrobbling.lastfm.enabled || !lastfmSession?.key) return;
       try {
-        const artist = getScrobbleArtist(track);
-        const trackName = settings.behavior.showEmojis ? track.name : stripEmojis(track.name);
+        const { artist, track: trackName, album } = getScrobbleMetadata(track);
         const params: Record<string, string> = { artist, track: trackName };
-        if (track.eraName) params.album = track.eraName;
+        if (album) params.album = album;
         await makeLastFMRequest("track.updateNowPlaying", params, true);
       } catch (e) {
         logError("Failed to update now playing:", e);
       }
     },
-    [lastfmSession, makeLastFMRequest, getScrobbleArtist]
+    [lastfmSession, makeLastFMRequest, getScrobbleMetadata]
   );
   const scheduleScrobble = useCallback(
     (track: Track, duration: number) => {
@@ -278,32 +367,34 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     if (queue.length === 0) return;
     const [next, ...rest] = queue;
     if (audioRef.current && next.playableUrl) {
+      endCrossfade();
       clearScrobbleTimer();
       hasScrobbledRef.current = false;
       currentTrackRef.current = next;
-      audioRef.current.src = next.playableUrl;
-      safePlay(audioRef.current);
+      triedMirrorsRef.current = new Set([next.url]);
+      safePlay(loadSource(next.playableUrl));
       setHistory((h) => [...h, next]);
       if (lastfmSession?.key) updateNowPlaying(next);
       updateMediaSession(next, true);
       setState((s) => ({ ...s, currentTrack: next, queue: rest, isPlaying: true }));
     }
-  }, [clearScrobbleTimer, lastfmSession, updateNowPlaying, updateMediaSession]);
+  }, [clearScrobbleTimer, endCrossfade, loadSource, lastfmSession, updateNowPlaying, updateMediaSession]);
   const playPrevious = useCallback(() => {
     const h = historyRef.current;
     if (h.length < 2) return;
     const prev = h[h.length - 2];
     if (audioRef.current && prev.playableUrl) {
+      endCrossfade();
       clearScrobbleTimer();
       hasScrobbledRef.current = false;
       currentTrackRef.current = prev;
-      audioRef.current.src = prev.playableUrl;
-      safePlay(audioRef.current);
+      triedMirrorsRef.current = new Set([prev.url]);
+      safePlay(loadSource(prev.playableUrl));
       if (lastfmSession?.key) updateNowPlaying(prev);
       updateMediaSession(prev, true);
       setState((s) => ({ ...s, currentTrack: prev, isPlaying: true }));
     }
-  }, [clearScrobbleTimer, lastfmSession, updateNowPlaying, updateMediaSession]);
+  }, [clearScrobbleTimer, endCrossfade, loadSource, lastfmSession, updateNowPlaying, updateMediaSession]);
   useEffect(() => {
     if ("mediaSession" in navigator) {
       navigator.mediaSession.setActionHandler("play", () => {
@@ -327,6 +418,92 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
       });
     }
   }, [playNext, playPrevious]);
+  const clearStallTimer = useCallback(() => {
+    if (stallTimerRef.current) {
+      clearTimeout(stallTimerRef.current);
+      stallTimerRef.current = null;
+    }
+  }, []);
+  const rotatePlay = useCallback((reachedEnd: boolean) => {
+    const play = playRef.current;
+    if (play) {
+      play.reachedEnd = reachedEnd;
+      const record = finishPlay(play);
+      if (record) recordPlay(record).catch((e) => logError("Failed to record play:", e));
+    }
+    playRef.current = currentTrackRef.current ? startPlay(currentTrackRef.current) : null;
+  }, []);
+  const syncPlay = useCallback(() => {
+    const play = playRef.current;
+    const track = currentTrackRef.current;
+    if (play && track && play.track.id === track.id) play.track = track;
+    else if (play || track) rotatePlay(false);
+  }, [rotatePlay]);
+  const fallbackToMirror = useCallback(async () => {
+    const track = currentTrackRef.current;
+    const audio = audioRef.current;
+    if (!track || !audio || switchingMirrorRef.current) return;
+    clearStallTimer();
+    switchingMirrorRef.current = true;
+    try {
+      const resumeAt = audio.currentTime;
+      const next = await resolveNextMirror(track, triedMirrorsRef.current);
+      if (currentTrackRef.current !== track) return;
+      if (!next) {
+        logError(`No working mirror left for "${track.name}"`);
+        setState((prev) => (prev.isPlaying ? { ...prev, isPlaying: false } : prev));
+        return;
+      }
+      const switched: Track = { ...track, url: next.url, playableUrl: next.playableUrl, source: getTrackSource(next.url) };
+      currentTrackRef.current = switched;
+      const loaded = loadSource(next.playableUrl)!;
+      if (resumeAt > 0) {
+        loaded.addEventListener("loadedmetadata", () => { loaded.currentTime = resumeAt; }, { once: true });
+      }
+      safePlay(loaded);
+      setHistory((h) => h.map((t) => (t === track ? switched : t)));
+      setState((prev) => ({ ...prev, currentTrack: switched, isPlaying: true }));
+    } finally {
+      switchingMirrorRef.current = false;
+    }
+  }, [clearStallTimer, loadSource]);
+  const refreshLink = useCallback(async (track: Track): Promise<boolean> => {
+    const audio = audioRef.current;
+    if (!audio) return false;
+    clearStallTimer();
+    switchingMirrorRef.current = true;
+    setState((prev) => ({ ...prev, refreshingLink: true }));
+    try {
+      const resumeAt = audio.currentTime;
+      const playableUrl = await resolveUrlCached(track.url, { force: true });
+      if (currentTrackRef.current !== track) return true;
+      if (!playableUrl) return false;
+      const refreshed: Track = { ...track, playableUrl };
+      currentTrackRef.current = refreshed;
+      refreshedTrackRef.current = refreshed;
+      const loaded = loadSource(playableUrl)!;
+      if (resumeAt > 0) {
+        loaded.addEventListener("loadedmetadata", () => { loaded.currentTime = resumeAt; }, { once: true });
+      }
+      safePlay(loaded);
+      setHistory((h) => h.map((t) => (t === track ? refreshed : t)));
+      setState((prev) => ({ ...prev, currentTrack: refreshed, isPlaying: true }));
+      return true;
+    } finally {
+      switchingMirrorRef.current = false;
+      setState((prev) => (prev.refreshingLink ? { ...prev, refreshingLink: false } : prev));
+    }
+  }, [clearStallTimer, loadSource]);
+  // An expired link is resolved again once before falling back to mirrors.
+  const recoverPlayback = useCallback(async () => {
+    const track = currentTrackRef.current;
+    if (!track || switchingMirrorRef.current) return;
+    if (track.playableUrl && refreshedTrackRef.current !== track && (await isStaleLink(track.url, track.playableUrl))) {
+      if (currentTrackRef.current !== track) return;
+      if (await refreshLink(track)) return;
+    }
+    void fallbackToMirror();
+  }, [refreshLink, fallbackToMirror]);
   const prefetchNext = useCallback((queue: Track[]) => {
     if (prefetchRef.current) {
       prefetchRef.current.src = "";
@@ -337,23 +514,120 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     const el = new Audio();
     el.preload = "auto";
     (el as HTMLMediaElement & { referrerPolicy?: string }).referrerPolicy = "no-referrer";
+    const settings = loadSettings().player;
+    prepareAudioElement(el, settings);
+    prepareSource(el, next.playableUrl, settings);
     el.src = next.playableUrl;
     prefetchRef.current = el;
   }, []);
-  useEffect(() => {
-    if (!audioRef.current) {
-      audioRef.current = new Audio();
-      audioRef.current.volume = state.volume;
-      audioRef.current.preload = "metadata";
-      (audioRef.current as HTMLMediaElement & { referrerPolicy?: string }).referrerPolicy = "no-referrer";
+  const advanceQueue = useCallback(
+    (next: Track, rest: Track[]) => {
+      setHistory((h) => [...h, next]);
+      currentTrackRef.current = next;
+      triedMirrorsRef.current = new Set([next.url]);
+      prefetchNext(rest);
+      if (lastfmSession?.key) updateNowPlaying(next);
+      updateMediaSession(next, true);
+      const settings = loadSettings();
+      if (
+        settings.behavior.notifications &&
+        document.hidden &&
+        "Notification" in window &&
+        Notification.permission === "granted"
+      ) {
+        const artist = next.artistName || next.eraName || "Unknown";
+        notify(next.name, { body: artist, icon: next.eraImage ? proxyImageUrl(next.eraImage) : undefined });
+      }
+      try {
+        const raw = localStorage.getItem("artistgrid-history:v1");
+        const hist: Array<{ name: string; artist: string; time: number }> = raw ? JSON.parse(raw) : [];
+        hist.push({ name: next.name, artist: next.artistName || next.eraName || "", time: Date.now() });
+        if (hist.length > 200) hist.splice(0, hist.length - 200);
+        safeSetItem("artistgrid-history:v1", JSON.stringify(hist));
+      } catch {}
+      setState((prev) => ({ ...prev, currentTrack: next, queue: rest, isPlaying: true }));
+    },
+    [lastfmSession, updateNowPlaying, updateMediaSession, prefetchNext]
+  );
+  const clearHandoffTimer = useCallback(() => {
+    if (handoffTimerRef.current) {
+      clearTimeout(handoffTimerRef.current);
+      handoffTimerRef.current = null;
     }
+  }, []);
+  const handoffToNext = useCallback(
+    (fade: number) => {
+      const outgoing = audioRef.current;
+      const incoming = prefetchRef.current;
+      const s = stateRef.current;
+      const next = s?.queue[0];
+      if (!outgoing || !incoming || !s || !next?.playableUrl || incoming.src !== next.playableUrl) return;
+      endCrossfade();
+      clearScrobbleTimer();
+      rotatePlay(true);
+      prefetchRef.current = null;
+      audioRef.current = incoming;
+      incoming.volume = fade > 0 ? 0 : s.volume;
+      safePlay(incoming);
+      fadingOutRef.current = outgoing;
+      if (fade > 0) {
+        const startedAt = Date.now();
+        fadeTimerRef.current = setInterval(() => {
+          const progress = (Date.now() - startedAt) / (fade * 1000);
+          const gains = crossfadeGains(progress);
+          const volume = stateRef.current?.volume ?? 1;
+          outgoing.volume = volume * gains.out;
+          if (audioRef.current === incoming) incoming.volume = volume * gains.in;
+          if (progress >= 1) endCrossfade();
+        }, FADE_STEP_MS);
+      } else {
+        endCrossfade();
+      }
+      const dur = incoming.duration;
+      if (isFinite(dur) && dur > 0) {
+        setDuration(dur);
+        if (Object.keys(getScrobbleSenders()).length > 0 && dur > 30) scheduleScrobbleRef.current(next, dur);
+      }
+      advanceQueue(next, s.queue.slice(1));
+      setAudioGeneration((g) => g + 1);
+    },
+    [advanceQueue, clearScrobbleTimer, endCrossfade, getScrobbleSenders, rotatePlay]
+  );
+  const armHandoff = useCallback(
+    (audio: HTMLAudioElement) => {
+      if (handoffTimerRef.current || audio.paused) return;
+      const { engine, crossfade } = loadSettings().player;
+      if (engine !== "gapless") return;
+      const s = stateRef.current;
+      const next = s?.queue[0];
+      const incoming = prefetchRef.current;
+      if (!s || s.repeatMode === "one" || !next?.playableUrl || !incoming || incoming.src !== next.playableUrl) return;
+      const fade = getFadeDuration(crossfade, audio.duration);
+      const delay = getHandoffDelay(audio.duration - audio.currentTime, fade, audio.playbackRate);
+      if (delay === null) return;
+      handoffTimerRef.current = setTimeout(() => {
+        handoffTimerRef.current = null;
+        if (audioRef.current === audio && !audio.paused) handoffToNext(fade);
+      }, delay);
+    },
+    [handoffToNext]
+  );
+  useEffect(() => {
+    if (!audioRef.current) audioRef.current = createAudioElement(state.volume);
     const audio = audioRef.current;
+    bindAudioElement(audio, loadSettings().player);
     const controller = new AbortController();
-    const opts = { signal: controller.signal };
-    audio.addEventListener(
+    const on = (type: string, listener: (e: Event) => void) =>
+      audio.addEventListener(type, (e) => { if (audioRef.current === audio) listener(e); }, { signal: controller.signal });
+    on(
       "timeupdate",
       () => {
+        clearStallTimer();
+        armHandoff(audio);
         setCurrentTime(audioRef.current?.currentTime || 0);
+        syncPlay();
+        if (playRef.current) notePlayPosition(playRef.current, audio.currentTime, audio.duration);
+        if (Date.now() - lastSessionSaveRef.current > SESSION_SAVE_INTERVAL_MS) persistSession();
         if ("mediaSession" in navigator && audioRef.current) {
           try {
             const duration = audioRef.current.duration;
@@ -368,31 +642,54 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
           } catch {
           }
         }
-      },
-      opts
+      }
     );
-    audio.addEventListener(
+    on(
       "loadedmetadata",
       () => {
         const dur = audioRef.current?.duration || 0;
         setDuration(dur);
-        if (currentTrackRef.current && lastfmSessionRef.current?.key && dur > 30) {
+        if (currentTrackRef.current && Object.keys(getScrobbleSenders()).length > 0 && dur > 30) {
           scheduleScrobbleRef.current(currentTrackRef.current, dur);
         }
-      },
-      opts
+      }
     );
-    audio.addEventListener(
+    on(
       "error",
       (e) => {
+        if (!currentTrackRef.current) return;
         logError("Audio error:", e);
-      },
-      opts
+        void recoverPlayback();
+      }
+    );
+    const armStallTimer = () => {
+      if (stallTimerRef.current || audio.paused || !currentTrackRef.current) return;
+      stallTimerRef.current = setTimeout(() => {
+        stallTimerRef.current = null;
+        void fallbackToMirror();
+      }, STALL_TIMEOUT_MS);
+    };
+    on("stalled", armStallTimer);
+    on("waiting", armStallTimer);
+    on("emptied", () => {
+      clearStallTimer();
+      clearHandoffTimer();
+    });
+    on("seeking", clearHandoffTimer);
+    on(
+      "playing",
+      () => {
+        clearStallTimer();
+        const track = currentTrackRef.current;
+        if (track && triedMirrorsRef.current.size > 1) rememberWorkingMirror(track);
+        if (track) void normalizeTrack(audio, track, loadSettings().player);
+      }
     );
-    audio.addEventListener(
+    on(
       "ended",
       () => {
         clearScrobbleTimer();
+        rotatePlay(true);
         const s = stateRef.current;
         if (!s) return;
         if (s.repeatMode === "one" && s.currentTrack?.playableUrl) {
@@ -405,37 +702,9 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
           const [next, ...rest] = s.queue;
           if (audio && next.playableUrl) {
             const prefetched = prefetchRef.current;
-            if (prefetched && prefetched.src === next.playableUrl) {
-              audio.src = next.playableUrl;
-              safePlay(audio);
-              prefetchRef.current = null;
-            } else {
-              audio.src = next.playableUrl;
-              safePlay(audio);
-            }
-            setHistory((h) => [...h, next]);
-            currentTrackRef.current = next;
-            prefetchNext(rest);
-            if (lastfmSession?.key) updateNowPlaying(next);
-            updateMediaSession(next, true);
-            const settings = loadSettings();
-            if (
-              settings.behavior.notifications &&
-              document.hidden &&
-              "Notification" in window &&
-              Notification.permission === "granted"
-            ) {
-              const artist = next.artistName || next.eraName || "Unknown";
-              notify(next.name, { body: artist, icon: next.eraImage ? proxyImageUrl(next.eraImage) : undefined });
-            }
-            try {
-              const raw = localStorage.getItem("artistgrid-history:v1");
-              const hist: Array<{ name: string; artist: string; time: number }> = raw ? JSON.parse(raw) : [];
-              hist.push({ name: next.name, artist: next.artistName || next.eraName || "", time: Date.now() });
-              if (hist.length > 200) hist.splice(0, hist.length - 200);
-              safeSetItem("artistgrid-history:v1", JSON.stringify(hist));
-            } catch {}
-            setState((prev) => ({ ...prev, currentTrack: next, queue: rest, isPlaying: true }));
+            if (prefetched && prefetched.src === next.playableUrl) prefetchRef.current = null;
+            safePlay(loadSource(next.playableUrl));
+            advanceQueue(next, rest);
             return;
           }
         }
@@ -447,35 +716,118 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
         }
         if ("mediaSession" in navigator) navigator.mediaSession.playbackState = "none";
         setState((prev) => (prev.isPlaying ? { ...prev, isPlaying: false } : prev));
-      },
-      opts
+      }
     );
-    audio.addEventListener(
+    on(
       "play",
       () => {
         if (stateRef.current?.currentTrack) updateMediaSession(stateRef.current.currentTrack, true);
+        setResumeSession(null);
         setState((prev) => (prev.isPlaying ? prev : { ...prev, isPlaying: true }));
-      },
-      opts
+      }
     );
-    audio.addEventListener(
+    on(
       "pause",
       () => {
         if (stateRef.current?.currentTrack) updateMediaSession(stateRef.current.currentTrack, false);
         setState((prev) => (prev.isPlaying ? { ...prev, isPlaying: false } : prev));
         clearScrobbleTimer();
-      },
-      opts
+        clearStallTimer();
+        clearHandoffTimer();
+        endCrossfade();
+        persistSession();
+      }
     );
     return () => controller.abort();
   }, [
     lastfmSession,
+    getScrobbleSenders,
     clearScrobbleTimer,
     updateNowPlaying,
     updateMediaSession,
     state.volume,
     prefetchNext,
+    clearStallTimer,
+    fallbackToMirror,
+    recoverPlayback,
+    persistSession,
+    advanceQueue,
+    armHandoff,
+    clearHandoffTimer,
+    audioGeneration,
+    syncPlay,
+    rotatePlay,
+    loadSource,
+    endCrossfade,
   ]);
+  // Refresh the next track's link shortly before its host expires it, so it
+  // doesn't fail when the queue reaches it.
+  const upNext = state.queue[0];
+  useEffect(() => {
+    if (!upNext?.playableUrl) return;
+    const delay = refreshDelay(upNext.url);
+    if (delay === null) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      void resolveUrlCached(upNext.url, { force: true }).then((playableUrl) => {
+        if (cancelled || !playableUrl || playableUrl === upNext.playableUrl) return;
+        const refreshed: Track = { ...upNext, playableUrl };
+        setState((s) => ({ ...s, queue: s.queue.map((t) => (t === upNext ? refreshed : t)) }));
+        if (prefetchRef.current) prefetchNext([refreshed]);
+      });
+    }, delay);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [upNext, prefetchNext]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadPlayerSession().then((session) => {
+      if (cancelled) return;
+      sessionLoadedRef.current = true;
+      if (!session || !audioRef.current || currentTrackRef.current) return;
+      const track = session.currentTrack;
+      currentTrackRef.current = track;
+      triedMirrorsRef.current = new Set([track.url]);
+      const audio = loadSource(track.playableUrl!)!;
+      if (session.currentTime > 0) {
+        audio.addEventListener("loadedmetadata", () => { audio.currentTime = session.currentTime; }, { once: true });
+        setCurrentTime(session.currentTime);
+      }
+      setHistory(session.history);
+      setState((s) => ({
+        ...s,
+        currentTrack: track,
+        queue: session.queue,
+        isShuffled: session.isShuffled,
+        repeatMode: session.repeatMode,
+        isPlaying: false,
+      }));
+      updateMediaSession(track, false);
+      setResumeSession(session);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [updateMediaSession, loadSource]);
+  useEffect(() => {
+    const id = setTimeout(persistSession, 500);
+    return () => clearTimeout(id);
+  }, [state.currentTrack, state.queue, state.isShuffled, state.repeatMode, history, persistSession]);
+  useEffect(() => {
+    window.addEventListener("pagehide", persistSession);
+    return () => window.removeEventListener("pagehide", persistSession);
+  }, [persistSession]);
+  useEffect(() => {
+    syncPlay();
+  }, [state.currentTrack, syncPlay]);
+  useEffect(() => {
+    const onPageHide = () => rotatePlay(false);
+    window.addEventListener("pagehide", onPageHide);
+    return () => window.removeEventListener("pagehide", onPageHide);
+  }, [rotatePlay]);
 
   useEffect(() => {
     const s = loadSettings();
@@ -486,14 +838,15 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
   const beginPlayback = useCallback(
     (track: Track) => {
       if (!audioRef.current) return;
+      endCrossfade();
       clearScrobbleTimer();
       hasScrobbledRef.current = false;
       currentTrackRef.current = track;
-      audioRef.current.src = track.playableUrl!;
-      safePlay(audioRef.current);
+      triedMirrorsRef.current = new Set([track.url]);
+      safePlay(loadSource(track.playableUrl!));
       setHistory((h) => [...h, track]);
     },
-    [clearScrobbleTimer]
+    [clearScrobbleTimer, endCrossfade, loadSource]
   );
   const playTrack = useCallback(
     (track: Track) => {
@@ -523,6 +876,14 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
     },
     [beginPlayback, lastfmSession, updateNowPlaying, updateMediaSession, prefetchNext]
   );
+  const resumeLastSession = useCallback(() => {
+    const track = currentTrackRef.current;
+    setResumeSession(null);
+    if (!audioRef.current || !track) return;
+    safePlay(audioRef.current);
+    if (lastfmSession?.key) updateNowPlaying(track);
+  }, [lastfmSession, updateNowPlaying]);
+  const dismissLastSession = useCallback(() => setResumeSession(null), []);
   const togglePlayPause = useCallback(() => {
     if (!audioRef.current) return;
     if (audioRef.current.paused) safePlay(audioRef.current);
@@ -531,6 +892,8 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
   const seekTo = useCallback((time: number) => {
     if (!audioRef.current) return;
     const audio = audioRef.current;
+    const source = stateRef.current?.currentTrack?.source;
+    if (source && !getSourceCapabilities(source).seekable) return;
     if (audio.readyState < 1 || audio.seekable.length === 0) return;
     try {
       const seekableEnd = audio.seekable.end(audio.seekable.length - 1);
@@ -588,15 +951,20 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
       audioRef.current.src = "";
     }
     clearScrobbleTimer();
+    clearStallTimer();
+    clearHandoffTimer();
+    endCrossfade();
     currentTrackRef.current = null;
     setState((s) => ({ ...s, currentTrack: null, isPlaying: false, queue: [] }));
     resetTime();
     setHistory([]);
+    setResumeSession(null);
+    void clearPlayerSession();
     if ("mediaSession" in navigator) {
       navigator.mediaSession.metadata = null;
       navigator.mediaSession.playbackState = "none";
     }
-  }, [clearScrobbleTimer]);
+  }, [clearScrobbleTimer, clearStallTimer, clearHandoffTimer, endCrossfade]);
   const getAuthUrl = useCallback(async (): Promise<{
     token: string;
     url: string;
@@ -646,6 +1014,9 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
           toggleShuffle,
           toggleRepeat,
           closePlayer,
+          resumeSession,
+          resumeLastSession,
+          dismissLastSession,
           lastfm: {
             isAuthenticated: !!lastfmSession?.key,
             username: lastfmSession?.name || null,
@@ -669,6 +1040,9 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
           playFromQueue,
           toggleShuffle,
           closePlayer,
+          resumeSession,
+          resumeLastSession,
+          dismissLastSession,
           lastfmSession,
           getAuthUrl,
           completeAuth,
@@ -6,6 +6,9 @@ export type TrackSource =
   | "soundcloud"
   | "youtube"
   | "googledrive"
+  | "catbox"
+  | "archive"
+  | "direct"
   | "unknown";
 export interface Track {
   id: string;
@@ -13,7 +16,9 @@ export interface Track {
   extra: string;
   url: string;
   playableUrl: string | null;
-  source: TrackSource;
+  /** Id of the resolver that matched `url`: a `TrackSource`, or a host registered at runtime. */
+  source: string;
+  mirrors?: string[];
   quality?: string;
   trackLength?: string;
   type?: string;
@@ -21,6 +26,7 @@ export interface Track {
   eraImage?: string;
   eraName?: string;
   artistName?: string;
+  trackerId?: string;
 }
 export interface EraDate {
   date: string;
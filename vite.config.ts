@@ -141,9 +141,12 @@ export default defineConfig(({ command }) => ({
         ],
       },
       workbox: {
-        globPatterns: ["**/*.{ico,png,jpg,jpeg,webp,avif,gif,svg}"],
+        globPatterns: ["**/*.{js,css,html,woff2,ico,png,jpg,jpeg,webp,avif,gif,svg}"],
         globIgnores: [],
-        navigateFallback: null,
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+        navigateFallback: "/index.html",
+        navigateFallbackDenylist: [/^\/sw\.js$/, /^\/[^?]*\.[a-z0-9]+$/i],
+        importScripts: ["/sw-pinned.js", "/sw-download.js"],
         clientsClaim: true,
         skipWaiting: true,
         runtimeCaching: [